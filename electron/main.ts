@@ -7,7 +7,7 @@ import { trackEvent, AnalyticsEvents } from "./analytics";
 import { log, warn, error } from "./logger";
 import { platform, isDarwin, isWindows } from "./platform";
 
-import type { NotificationSettings } from "../shared/types/notifications";
+import type { AlertNotification, NotificationSettings } from "../shared/types/notifications";
 import { DEFAULT_NOTIFICATION_SETTINGS } from "../shared/types/notifications";
 
 let mainWindow: BrowserWindow | null = null;
@@ -16,6 +16,8 @@ let powerSaveBlockerId: number | null = null;
 
 // Tracking state managed by main process (synced with renderer)
 let isTrackingEnabled = false;
+// Tracking is on but the renderer is trying to reopen a lost camera, or waiting for another app to free it
+let cameraRecoveryStatus: 'reconnecting' | 'in-use' | null = null;
 let launchAtLoginEnabled = false;
 
 // Notification settings state
@@ -224,6 +226,15 @@ function updateTrayMenu() {
   if (!tray) return;
 
   const contextMenu = Menu.buildFromTemplate([
+    ...(isTrackingEnabled && cameraRecoveryStatus
+      ? [
+        {
+          label: cameraRecoveryStatus === 'in-use' ? 'Camera in use by another app' : 'Reconnecting to camera...',
+          enabled: false,
+        },
+        { type: 'separator' as const },
+      ]
+      : []),
     {
       label: isTrackingEnabled ? 'Stop Tracking' : 'Start Tracking',
       click: () => {
@@ -261,7 +272,10 @@ function updateTrayMenu() {
   tray.setContextMenu(contextMenu);
 
   // Update tooltip to show current status
-  const status = isTrackingEnabled ? 'Tracking Active' : 'Tracking Paused';
+  const status = !isTrackingEnabled
+    ? 'Tracking Paused'
+    : cameraRecoveryStatus === 'in-use' ? 'Camera In Use'
+      : cameraRecoveryStatus === 'reconnecting' ? 'Reconnecting Camera' : 'Tracking Active';
   tray.setToolTip(`EyeRhythm - ${status}`);
 }
 
@@ -605,6 +619,7 @@ app.whenReady().then(async () => {
     if (isTrackingEnabled) {
       // Reset tracking state - camera will be dead after resume
       isTrackingEnabled = false;
+      cameraRecoveryStatus = null;
       updateTrayMenu();
       // Notify renderer to stop tracking gracefully
       if (mainWindow && !mainWindow.isDestroyed()) {
@@ -732,6 +747,12 @@ ipcMain.on("close-window", () => {
 
 // Tracking state synchronization handlers
 
+// Renderer reports when it's reopening a lost camera or waiting for a busy one (shown in the tray)
+ipcMain.on("camera-recovery-changed", (_event, status: 'reconnecting' | 'in-use' | null) => {
+  cameraRecoveryStatus = status;
+  updateTrayMenu();
+});
+
 // Renderer reports its tracking state to main process (to sync tray menu)
 ipcMain.on("tracking-state-changed", (_event, enabled: boolean) => {
   isTrackingEnabled = enabled;
@@ -788,12 +809,17 @@ function isWithinQuietHours(): boolean {
   }
 }
 
-function canSendNotification(): boolean {
+// Whether the user wants notifications right now; each kind of alert adds its own cooldown
+function isNotificationAllowed(): boolean {
   if (!notificationSettings.enabled) {
     return false;
   }
 
-  if (isWithinQuietHours()) {
+  return !isWithinQuietHours();
+}
+
+function canSendNotification(): boolean {
+  if (!isNotificationAllowed()) {
     return false;
   }
 
@@ -839,6 +865,37 @@ function sendFatigueNotification(blinkRate: number): boolean {
   return true;
 }
 
+// Wellbeing alerts other than fatigue; the renderer keeps their cooldowns
+function sendAlertNotification(alert: AlertNotification): boolean {
+  if (!isNotificationAllowed()) {
+    return false;
+  }
+
+  if (!Notification.isSupported()) {
+    warn('[Notification] Notifications not supported on this system');
+    return false;
+  }
+
+  const notification = new Notification({
+    title: alert.title,
+    body: alert.body,
+    silent: !notificationSettings.soundEnabled,
+    icon: platform.getNotificationIconPath(isDev, process.resourcesPath, __dirname),
+  });
+
+  notification.on('click', () => {
+    if (mainWindow) {
+      mainWindow.show();
+      mainWindow.focus();
+      platform.showDock();
+    }
+  });
+
+  notification.show();
+
+  return true;
+}
+
 // Notification IPC handlers
 
 ipcMain.handle("get-notification-settings", () => {
@@ -857,6 +914,10 @@ ipcMain.handle("send-fatigue-alert", (_event, blinkRate: number) => {
   return sendFatigueNotification(blinkRate);
 });
 
+ipcMain.handle("send-alert", (_event, alert: AlertNotification) => {
+  return sendAlertNotification(alert);
+});
+
 ipcMain.handle("test-notification", () => {
   if (!Notification.isSupported()) {
     return { success: false, reason: 'not-supported' };
@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer, IpcRendererEvent } from "electron";
-import type { NotificationSettings } from "../shared/types/notifications";
+import type { AlertNotification, NotificationSettings } from "../shared/types/notifications";
 
 // Expose protected methods that allow the renderer process to use
 // ipcRenderer without exposing the entire object
@@ -47,6 +47,9 @@ contextBridge.exposeInMainWorld("electronAPI", {
       ipcRenderer.removeListener("toggle-tracking", listener);
     };
   },
+  notifyCameraRecoveryChanged: (status: 'reconnecting' | 'in-use' | null) => {
+    ipcRenderer.send("camera-recovery-changed", status);
+  },
 
   // Launch at login settings
   getLaunchAtLogin: () => ipcRenderer.invoke("get-launch-at-login"),
@@ -77,6 +80,7 @@ contextBridge.exposeInMainWorld("electronAPI", {
   setNotificationSettings: (settings: Partial<NotificationSettings>) =>
     ipcRenderer.invoke("set-notification-settings", settings),
   sendFatigueAlert: (blinkRate: number) => ipcRenderer.invoke("send-fatigue-alert", blinkRate),
+  sendAlert: (alert: AlertNotification) => ipcRenderer.invoke("send-alert", alert),
   testNotification: () => ipcRenderer.invoke("test-notification"),
   getNotificationState: () => ipcRenderer.invoke("get-notification-state"),
   openNotificationSettings: () => ipcRenderer.invoke("open-notification-settings"),
@@ -5,7 +5,7 @@ import { BlinkDetector, VideoProcessor } from './src/lib/blink-detection';
 async function detectBlinksInVideo() {
   const detector = new BlinkDetector({
     earThreshold: 0.25,
-    consecutiveFrames: 2,
+    minClosureMs: 50,
     debounceTime: 100
   });
 
@@ -29,7 +29,7 @@ async function detectBlinksInVideo() {
 async function detectBlinksWithCallback() {
   const detector = new BlinkDetector({
     earThreshold: 0.25,
-    consecutiveFrames: 3,
+    minClosureMs: 70,
     debounceTime: 150
   });
 
@@ -70,7 +70,7 @@ function BlinkDetectionComponent() {
     resetCounter
   } = useBlinkDetection({
     earThreshold: 0.25,
-    consecutiveFrames: 2,
+    minClosureMs: 50,
     debounceTime: 100
   });
 
@@ -109,7 +109,7 @@ function BlinkDetectionComponent() {
 async function directDetectorUsage() {
   const detector = new BlinkDetector({
     earThreshold: 0.25,
-    consecutiveFrames: 2,
+    minClosureMs: 50,
     debounceTime: 100
   });
 
@@ -19,6 +19,12 @@ export interface NotificationState {
   permissionStatus: "not-determined" | "denied" | "authorized" | "unknown";
 }
 
+// A wellbeing alert (lighting, distance, posture...) shown as a native notification
+export interface AlertNotification {
+  title: string;
+  body: string;
+}
+
 export interface TestNotificationResult {
   success: boolean;
   reason?: string;
@@ -2,19 +2,23 @@
 
 import { Container, Flex, Box, Text, Heading } from "@radix-ui/themes";
 import { SessionsView } from "../components/SessionsView";
+import { AnalyzeRecordingButton } from "../components/AnalyzeRecordingButton";
 
 export default function Home() {
   return (
     <Container size="3">
       <Flex direction="column" gap="6" style={{ paddingTop: "40px", paddingBottom: "40px" }}>
-        <Box>
-          <Heading size="8" mb="2">
-            Sessions
-          </Heading>
-          <Text size="4" color="gray">
-            View and track your eye movement sessions
-          </Text>
-        </Box>
+        <Flex justify="between" align="end" gap="4">
+          <Box>
+            <Heading size="8" mb="2">
+              Sessions
+            </Heading>
+            <Text size="4" color="gray">
+              View and track your eye movement sessions
+            </Text>
+          </Box>
+          <AnalyzeRecordingButton />
+        </Flex>
 
         <SessionsView />
       </Flex>
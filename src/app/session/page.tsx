@@ -13,14 +13,40 @@ import {
   SmoothingWindow,
   DEFAULT_SMOOTHING_WINDOW,
   SessionData,
+  SLOW_BLINK_MS,
+  countWinks,
+  getBlinkDurationDistribution,
+  getBlinkDurationStats,
+  getViewingDistanceStats,
+  getPostureSummary,
 } from "../../lib/sessions/types";
 import { BlinkRateChart } from "../../components/BlinkRateChart";
+import { BlinkDurationChart } from "../../components/BlinkDurationChart";
+import { BlinkIntervalChart } from "../../components/BlinkIntervalChart";
+import { DrowsinessChart } from "../../components/DrowsinessChart";
+import { getBreakCompliance } from "../../lib/sessions/breaks";
+import {
+  STARING_EPISODE_MS,
+  getBlinkIntervalDistribution,
+  getBlinkIntervalStats,
+  getBlinkIntervals,
+} from "../../lib/sessions/blink-intervals";
+import { DROWSY_PERCLOS } from "../../lib/blink-detection/drowsiness";
+import { TOO_CLOSE_DISTANCE_CM } from "../../lib/blink-detection/viewing-distance";
+import { PoorPostureCondition } from "../../lib/blink-detection/posture";
+import { DETECTION_STRATEGY_OPTIONS } from "../../lib/blink-detection/detection-strategies";
 import { useInterval } from "../../hooks/useInterval";
 import { useDebouncedValue } from "../../hooks/useDebouncedValue";
 
 // Debounce interval for chart updates (ms) - prevents aggressive re-rendering
 const CHART_UPDATE_DEBOUNCE_MS = 3000;
 
+const POSTURE_LABELS: Record<PoorPostureCondition, string> = {
+  'slouching': "Head dropped forward",
+  'leaning-in': "Leaning in",
+  'head-tilted': "Head tilted",
+};
+
 /**
  * Hook to get debounced blink events for chart rendering.
  * Uses useDebouncedValue for compiler compatibility.
@@ -86,6 +112,8 @@ function SessionDetailContent() {
     currentBlinkCount,
     sessionBaselineBlinkCount,
     sessionStartTime,
+    strategyBlinkCounts,
+    frameStats,
   } = useSession();
 
   // Smoothing window state
@@ -120,6 +148,49 @@ function SessionDetailContent() {
   const displayBlinkCount = session?.isActive ? liveBlinkCount : session?.totalBlinks;
   const displayBlinkRate = session?.isActive ? Math.round(liveBlinkRate) : Math.round(session?.averageBlinkRate ?? 0);
 
+  // One-eye closures, counted separately so asymmetric blinking is visible
+  const winks = useMemo(() => countWinks(session?.blinkEvents ?? []), [session?.blinkEvents]);
+
+  // Duration distribution uses the debounced events so active sessions don't redraw every blink
+  const durationDistribution = useMemo(
+    () => getBlinkDurationDistribution(debouncedBlinkEvents),
+    [debouncedBlinkEvents]
+  );
+  const durationStats = useMemo(() => getBlinkDurationStats(debouncedBlinkEvents), [debouncedBlinkEvents]);
+
+  // Inter-blink intervals show the long stares an average rate hides
+  const blinkIntervals = useMemo(
+    () => getBlinkIntervals({
+      blinkEvents: debouncedBlinkEvents,
+      faceLostPeriods: session?.faceLostPeriods,
+      poorLightingPeriods: session?.poorLightingPeriods,
+      lookingAwayPeriods: session?.lookingAwayPeriods,
+      cameraUnavailablePeriods: session?.cameraUnavailablePeriods,
+    }),
+    [
+      debouncedBlinkEvents,
+      session?.faceLostPeriods,
+      session?.poorLightingPeriods,
+      session?.lookingAwayPeriods,
+      session?.cameraUnavailablePeriods,
+    ]
+  );
+  const intervalDistribution = useMemo(() => getBlinkIntervalDistribution(blinkIntervals), [blinkIntervals]);
+  const intervalStats = useMemo(() => getBlinkIntervalStats(blinkIntervals), [blinkIntervals]);
+  const breakCompliance = useMemo(
+    () => (session ? getBreakCompliance(session, currentTime) : null),
+    [session, currentTime]
+  );
+  const sessionEndTime = session?.endTime ? new Date(session.endTime).getTime() : currentTime;
+  const postureSummary = useMemo(
+    () => getPostureSummary(session?.poorPosturePeriods, sessionEndTime),
+    [session?.poorPosturePeriods, sessionEndTime]
+  );
+  const viewingDistanceStats = useMemo(
+    () => getViewingDistanceStats(session?.viewingDistanceHistory),
+    [session?.viewingDistanceHistory]
+  );
+
   if (!session) {
     return (
       <Container size="3">
@@ -183,6 +254,11 @@ function SessionDetailContent() {
           <Text size="4" color="gray">
             {formatDate(session.startTime)}
           </Text>
+          {session.isImported && (
+            <Text as="p" size="2" color="gray" mt="1">
+              Imported from {session.sourceName ?? "a recording"}. Times are estimated from the file&apos;s modification date
+            </Text>
+          )}
         </Box>
 
         <Flex gap="4" wrap="wrap">
@@ -213,6 +289,32 @@ function SessionDetailContent() {
             </Flex>
           </Card>
 
+          {/* Completeness is undefined on sessions recorded before incomplete blink detection */}
+          {session.blinkCompleteness !== undefined && (
+            <Card>
+              <Flex direction="column" gap="2">
+                <Text size="2" color="gray">Blink Completeness</Text>
+                <Text size="5" weight="medium">
+                  {Math.round(session.blinkCompleteness * 100)}%
+                </Text>
+                <Text size="1" color="gray">
+                  {session.incompleteBlinkEvents?.length ?? 0} incomplete
+                </Text>
+              </Flex>
+            </Card>
+          )}
+
+          {(winks.left > 0 || winks.right > 0) && (
+            <Card>
+              <Flex direction="column" gap="2">
+                <Text size="2" color="gray">Winks (left / right)</Text>
+                <Text size="5" weight="medium">
+                  {winks.left} / {winks.right}
+                </Text>
+              </Flex>
+            </Card>
+          )}
+
           <Card>
             <Flex direction="column" gap="2">
               <Text size="2" color="gray">Quality</Text>
@@ -230,6 +332,17 @@ function SessionDetailContent() {
               </Text>
             </Flex>
           </Card>
+
+          {session.drowsinessAlertCount !== undefined && (
+            <Card>
+              <Flex direction="column" gap="2">
+                <Text size="2" color="gray">Drowsiness Alerts</Text>
+                <Text size="5" weight="medium">
+                  {session.drowsinessAlertCount}
+                </Text>
+              </Flex>
+            </Card>
+          )}
         </Flex>
 
         <Card size="3">
@@ -261,11 +374,223 @@ function SessionDetailContent() {
             <BlinkRateChart
               data={chartData}
               faceLostPeriods={session.faceLostPeriods}
+              poorLightingPeriods={session.poorLightingPeriods}
+              multipleFacePeriods={session.multipleFacePeriods}
+              lookingAwayPeriods={session.lookingAwayPeriods}
+              cameraUnavailablePeriods={session.cameraUnavailablePeriods}
               sessionEndTime={session.endTime ? new Date(session.endTime).getTime() : undefined}
             />
           </Box>
         </Card>
 
+        {durationStats && (
+          <Card size="3">
+            <Flex justify="between" align="center" mb="4" wrap="wrap" gap="2">
+              <Heading size="4">Blink Duration</Heading>
+              <Text size="2" color="gray">
+                Median {Math.round(durationStats.medianDuration)} ms · {durationStats.slowBlinkCount} slow
+                blink{durationStats.slowBlinkCount !== 1 ? "s" : ""} ({SLOW_BLINK_MS}+ ms)
+              </Text>
+            </Flex>
+            <Box style={{ height: "240px" }}>
+              <BlinkDurationChart data={durationDistribution} />
+            </Box>
+            <Text size="2" color="gray" mt="3" as="p">
+              Average phases: closing {Math.round(durationStats.averagePhases.closing)} ms, closed{" "}
+              {Math.round(durationStats.averagePhases.closed)} ms, reopening{" "}
+              {Math.round(durationStats.averagePhases.reopening)} ms
+            </Text>
+          </Card>
+        )}
+
+        {((session.perclosHistory?.length ?? 0) > 0 || (session.microsleepEvents?.length ?? 0) > 0) && (
+          <Card size="3">
+            <Flex justify="between" align="center" mb="4" wrap="wrap" gap="2">
+              <Heading size="4">Drowsiness</Heading>
+              <Text size="2" color="gray">
+                {session.microsleepEvents?.length ?? 0} microsleep{session.microsleepEvents?.length !== 1 ? "s" : ""}
+              </Text>
+            </Flex>
+            <Box style={{ height: "240px" }}>
+              <DrowsinessChart
+                perclosHistory={session.perclosHistory ?? []}
+                microsleepEvents={session.microsleepEvents ?? []}
+                startTime={session.startTime.getTime()}
+                endTime={session.endTime ? new Date(session.endTime).getTime() : currentTime}
+              />
+            </Box>
+            <Text size="2" color="gray" mt="3" as="p">
+              PERCLOS is the share of the last minute your eyes were mostly closed; above{" "}
+              {Math.round(DROWSY_PERCLOS * 100)}% is a sign of drowsiness. Microsleeps are closures
+              longer than a blink.
+            </Text>
+          </Card>
+        )}
+
+        {breakCompliance && (
+          <Card size="3">
+            <Heading size="4" mb="4">Screen Breaks</Heading>
+            <Flex gap="6" wrap="wrap">
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Breaks taken</Text>
+                <Text size="5" weight="medium">{breakCompliance.breakCount}</Text>
+              </Flex>
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Per 20 min of screen time</Text>
+                <Text
+                  size="5"
+                  weight="medium"
+                  color={breakCompliance.compliant === null ? undefined : breakCompliance.compliant ? "green" : "orange"}
+                >
+                  {breakCompliance.breaksPer20Minutes === null ? "—" : breakCompliance.breaksPer20Minutes.toFixed(1)}
+                </Text>
+              </Flex>
+            </Flex>
+            <Text as="p" size="2" color="gray" mt="3">
+              {breakCompliance.compliant === null
+                ? "Compliance is scored once there's 20 minutes of screen time. "
+                : breakCompliance.compliant
+                  ? "You kept to the 20-20-20 rule. "
+                  : "Below the 20-20-20 rule. "}
+              Every 20 minutes, look at something 20 feet (6 m) away for at least 20 seconds. Looking
+              away from the screen or stepping out of view for that long counts as a break.
+            </Text>
+          </Card>
+        )}
+
+        {intervalStats && (
+          <Card size="3">
+            <Flex justify="between" align="center" mb="4" wrap="wrap" gap="2">
+              <Heading size="4">Time Between Blinks</Heading>
+              <Text size="2" color="gray">
+                Median {(intervalStats.medianInterval / 1000).toFixed(1)} s · variability (CV){" "}
+                {intervalStats.coefficientOfVariation.toFixed(2)}
+              </Text>
+            </Flex>
+            <Box style={{ height: "240px" }}>
+              <BlinkIntervalChart data={intervalDistribution} />
+            </Box>
+            <Flex gap="6" wrap="wrap" mt="3">
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Longest without blinking</Text>
+                <Text size="5" weight="medium">{Math.round(intervalStats.longestInterval.duration / 1000)} s</Text>
+              </Flex>
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Staring episodes ({STARING_EPISODE_MS / 1000}+ s)</Text>
+                <Text
+                  size="5"
+                  weight="medium"
+                  color={intervalStats.staringEpisodes.length > 0 ? "orange" : undefined}
+                >
+                  {intervalStats.staringEpisodes.length}
+                </Text>
+              </Flex>
+            </Flex>
+            <Text as="p" size="2" color="gray" mt="3">
+              Long stretches without blinking dry the eyes even when the average rate looks fine.
+              Time without a face, in poor light or looking away isn&apos;t counted.
+            </Text>
+          </Card>
+        )}
+
+        {postureSummary && (
+          <Card size="3">
+            <Heading size="4" mb="4">Posture</Heading>
+            <Flex gap="6" wrap="wrap">
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Poor posture</Text>
+                <Text size="5" weight="medium" color={postureSummary.poorPostureMs > 0 ? "orange" : undefined}>
+                  {formatDuration(Math.round(postureSummary.poorPostureMs / 1000))}
+                </Text>
+              </Flex>
+              {(Object.entries(postureSummary.conditionMs) as [PoorPostureCondition, number][])
+                .filter(([, ms]) => ms > 0)
+                .map(([condition, ms]) => (
+                  <Flex key={condition} direction="column" gap="1">
+                    <Text size="2" color="gray">{POSTURE_LABELS[condition]}</Text>
+                    <Text size="5" weight="medium">{formatDuration(Math.round(ms / 1000))}</Text>
+                  </Flex>
+                ))}
+            </Flex>
+            <Text as="p" size="2" color="gray" mt="3">
+              Compared with how you sat at the start of the session. Only posture held for 30
+              seconds or more counts.
+            </Text>
+          </Card>
+        )}
+
+        {viewingDistanceStats && (
+          <Card size="3">
+            <Heading size="4" mb="4">Viewing Distance</Heading>
+            <Flex gap="6" wrap="wrap">
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Average</Text>
+                <Text size="5" weight="medium">{Math.round(viewingDistanceStats.averageDistance)} cm</Text>
+              </Flex>
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Closest</Text>
+                <Text size="5" weight="medium">{Math.round(viewingDistanceStats.closestDistance)} cm</Text>
+              </Flex>
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Too close</Text>
+                <Text
+                  size="5"
+                  weight="medium"
+                  color={viewingDistanceStats.tooCloseShare > 0.25 ? "orange" : undefined}
+                >
+                  {Math.round(viewingDistanceStats.tooCloseShare * 100)}% of the time
+                </Text>
+              </Flex>
+            </Flex>
+            <Text as="p" size="2" color="gray" mt="3">
+              Distance from your eyes to the camera, estimated from the size of your irises. Keep
+              the screen at least {TOO_CLOSE_DISTANCE_CM} cm away, about an arm&apos;s length.
+            </Text>
+          </Card>
+        )}
+
+        {/* Debug card comparing detection strategies (enabled in settings) */}
+        {session.isActive && strategyBlinkCounts && (
+          <Card size="3">
+            <Heading size="4" mb="4">Detection Method Comparison (Debug)</Heading>
+            <Flex gap="6">
+              {DETECTION_STRATEGY_OPTIONS.map((option) => (
+                <Flex key={option.value} direction="column" gap="1">
+                  <Text size="2" color="gray">{option.label}</Text>
+                  <Text size="5" weight="medium">{strategyBlinkCounts[option.value]}</Text>
+                </Flex>
+              ))}
+            </Flex>
+            <Text as="p" size="1" color="gray" mt="3">
+              Blinks counted by each method since tracking started
+            </Text>
+          </Card>
+        )}
+
+        {/* Debug card showing how many camera frames the scheduler processed and dropped */}
+        {session.isActive && frameStats && (
+          <Card size="3">
+            <Heading size="4" mb="4">Frame Processing (Debug)</Heading>
+            <Flex gap="6">
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Processed</Text>
+                <Text size="5" weight="medium">{frameStats.processedFrames}</Text>
+              </Flex>
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Dropped</Text>
+                <Text size="5" weight="medium">{frameStats.droppedFrames}</Text>
+              </Flex>
+              <Flex direction="column" gap="1">
+                <Text size="2" color="gray">Avg. inference</Text>
+                <Text size="5" weight="medium">{Math.round(frameStats.averageInferenceMs)} ms</Text>
+              </Flex>
+            </Flex>
+            <Text as="p" size="1" color="gray" mt="3">
+              Camera frames since tracking started. Frames are dropped to hold the processing rate set in settings
+            </Text>
+          </Card>
+        )}
+
         {/* Debug card for face lost periods */}
         {session.faceLostPeriods && session.faceLostPeriods.length > 0 && (
           <Card size="3">
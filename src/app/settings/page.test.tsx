@@ -71,6 +71,19 @@ vi.mock('@/hooks/useCameraPermission', () => ({
   }),
 }));
 
+// Mock useSession for the landmark recording controls
+vi.mock('@/contexts/SessionContext', () => ({
+  useSession: () => ({
+    isTracking: false,
+    toggleTracking: vi.fn(),
+    isRecordingLandmarks: false,
+    startLandmarkRecording: vi.fn(),
+    stopLandmarkRecording: vi.fn(),
+    replayLandmarkRecording: vi.fn(),
+    replayProgress: null,
+  }),
+}));
+
 // Mock ResizeObserver
 global.ResizeObserver = vi.fn().mockImplementation(() => ({
   observe: vi.fn(),
@@ -102,7 +115,7 @@ describe('SettingsPage', () => {
   });
 
   it('renders settings page', () => {
-    render(<SettingsPage />);
+    renderWithTheme(<SettingsPage />);
 
     expect(screen.getByText('Settings')).toBeInTheDocument();
     expect(screen.getByText('Configure your fatigue detection preferences')).toBeInTheDocument();
@@ -116,7 +129,7 @@ describe('SettingsPage', () => {
       return null;
     });
 
-    render(<SettingsPage />);
+    renderWithTheme(<SettingsPage />);
 
     // Check that slider has the correct value
     const slider = screen.getByRole('slider');
@@ -136,13 +149,13 @@ describe('SettingsPage', () => {
   it('shows message about desktop app when not in Electron', () => {
     mockNotificationSettings.isElectron = false;
 
-    render(<SettingsPage />);
+    renderWithTheme(<SettingsPage />);
 
     expect(screen.getByText('Desktop notifications are only available in the EyeRhythm desktop app')).toBeInTheDocument();
   });
 
   it('updates fatigue threshold and saves to localStorage', async () => {
-    render(<SettingsPage />);
+    renderWithTheme(<SettingsPage />);
 
     const slider = screen.getByRole('slider');
 
@@ -160,15 +173,14 @@ describe('SettingsPage', () => {
 
     renderWithTheme(<SettingsPage />);
 
-    const switches = screen.getAllByRole('switch');
-    const notificationSwitch = switches[0]!;
+    const notificationSwitch = screen.getByRole('switch', { name: /desktop notifications/i });
 
     // Notification switch should be enabled in Electron mode
     expect(notificationSwitch).not.toBeDisabled();
   });
 
   it('shows threshold slider with correct min/max attributes', () => {
-    render(<SettingsPage />);
+    renderWithTheme(<SettingsPage />);
 
     const slider = screen.getByRole('slider');
     expect(slider).toHaveAttribute('aria-valuemin', '8');
@@ -176,8 +188,31 @@ describe('SettingsPage', () => {
   });
 
   it('shows informational note about fatigue alerts', () => {
-    render(<SettingsPage />);
+    renderWithTheme(<SettingsPage />);
 
     expect(screen.getByText(/Note: Fatigue alerts trigger after 5 minutes of session time/)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('saves the detector comparison setting to localStorage', async () => {
+    const user = userEvent.setup();
+    renderWithTheme(<SettingsPage />);
+
+    expect(screen.getByText('Blink Detection')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('switch', { name: /compare methods/i }));
+
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith('compareBlinkDetectionStrategies', 'true');
+  });
+
+  it('saves the simulated camera setting and shows its options when enabled', async () => {
+    const user = userEvent.setup();
+    renderWithTheme(<SettingsPage />);
+
+    expect(screen.queryByText('Fatigue Drift')).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('switch', { name: /simulated camera/i }));
+
+    expect(mockLocalStorage.setItem).toHaveBeenCalledWith('simulatedCamera', expect.stringContaining('"enabled":true'));
+    expect(screen.getByText('Fatigue Drift')).toBeInTheDocument();
+  });
+});
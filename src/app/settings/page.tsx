@@ -28,11 +28,32 @@ import {
   CrossCircledIcon,
   ExclamationTriangleIcon,
   GearIcon,
+  EyeOpenIcon,
+  CodeIcon,
+  LightningBoltIcon,
+  SunIcon,
+  MoonIcon,
+  RulerHorizontalIcon,
+  PersonIcon,
+  StopwatchIcon,
+  VideoIcon,
 } from "@radix-ui/react-icons";
 import { VersionInfo } from "@/components/VersionInfo";
+import { LandmarkRecordingSettings } from "@/components/LandmarkRecordingSettings";
+import { SimulatedCameraSettings } from "@/components/SimulatedCameraSettings";
+import { CameraSelect } from "@/components/CameraSelect";
+import { useCamera } from "@/hooks/useCamera";
 import { useUpdateStatus } from "@/hooks/useUpdateStatus";
 import { useNotificationSettings } from "@/hooks/useNotificationSettings";
 import { useCameraPermission } from "@/hooks/useCameraPermission";
+import {
+  getDetectorSettings,
+  saveDetectorSettings,
+  TARGET_FPS_OPTIONS,
+} from "@/lib/blink-detection/detector-settings";
+import { DETECTION_STRATEGY_OPTIONS } from "@/lib/blink-detection/detection-strategies";
+import { TOO_CLOSE_DISTANCE_CM } from "@/lib/blink-detection/viewing-distance";
+import { STARING_NUDGE_OPTIONS } from "@/lib/sessions/blink-intervals";
 
 function getInitialFatigueThreshold(): number {
   if (typeof window === "undefined") return 8;
@@ -40,8 +61,39 @@ function getInitialFatigueThreshold(): number {
   return savedThreshold ? parseInt(savedThreshold, 10) : 8;
 }
 
+function getInitialLightingAlerts(): boolean {
+  if (typeof window === "undefined") return false;
+  return localStorage.getItem("lightingAlertsEnabled") === "true";
+}
+
+function getInitialDrowsinessAlerts(): boolean {
+  if (typeof window === "undefined") return true;
+  return localStorage.getItem("drowsinessAlertsEnabled") !== "false";
+}
+
+function getInitialStaringNudge(): string {
+  if (typeof window === "undefined") return "off";
+  return localStorage.getItem("staringNudgeSeconds") || "off";
+}
+
+function getInitialPostureAlerts(): boolean {
+  if (typeof window === "undefined") return true;
+  return localStorage.getItem("postureAlertsEnabled") !== "false";
+}
+
+function getInitialDistanceAlerts(): boolean {
+  if (typeof window === "undefined") return true;
+  return localStorage.getItem("distanceAlertsEnabled") !== "false";
+}
+
 export default function SettingsPage() {
   const [fatigueThreshold, setFatigueThreshold] = useState(getInitialFatigueThreshold);
+  const [lightingAlertsEnabled, setLightingAlertsEnabled] = useState(getInitialLightingAlerts);
+  const [drowsinessAlertsEnabled, setDrowsinessAlertsEnabled] = useState(getInitialDrowsinessAlerts);
+  const [distanceAlertsEnabled, setDistanceAlertsEnabled] = useState(getInitialDistanceAlerts);
+  const [postureAlertsEnabled, setPostureAlertsEnabled] = useState(getInitialPostureAlerts);
+  const [staringNudge, setStaringNudge] = useState(getInitialStaringNudge);
+  const [detectorSettings, setDetectorSettings] = useState(getDetectorSettings);
   const [testStatus, setTestStatus] = useState<"idle" | "success" | "error">("idle");
   const {
     isElectron,
@@ -67,6 +119,12 @@ export default function SettingsPage() {
     openCameraSettings,
   } = useCameraPermission();
 
+  const {
+    devices: cameraDevices,
+    preferredDeviceId,
+    selectCamera,
+  } = useCamera();
+
   const handleThresholdChange = (value: number[]) => {
     const threshold = value[0];
     if (threshold !== undefined) {
@@ -75,6 +133,56 @@ export default function SettingsPage() {
     }
   };
 
+  const handleDrowsinessAlertsChange = (value: string) => {
+    const enabled = value === "on";
+    setDrowsinessAlertsEnabled(enabled);
+    localStorage.setItem("drowsinessAlertsEnabled", enabled.toString());
+  };
+
+  const handleDistanceAlertsChange = (value: string) => {
+    const enabled = value === "on";
+    setDistanceAlertsEnabled(enabled);
+    localStorage.setItem("distanceAlertsEnabled", enabled.toString());
+  };
+
+  const handlePostureAlertsChange = (value: string) => {
+    const enabled = value === "on";
+    setPostureAlertsEnabled(enabled);
+    localStorage.setItem("postureAlertsEnabled", enabled.toString());
+  };
+
+  const handleStaringNudgeChange = (value: string) => {
+    setStaringNudge(value);
+    if (value === "off") {
+      localStorage.removeItem("staringNudgeSeconds");
+    } else {
+      localStorage.setItem("staringNudgeSeconds", value);
+    }
+  };
+
+  const handleDetectionStrategyChange = (value: string) => {
+    const strategy = value === "blendshape" ? "blendshape" : "ear-threshold";
+    setDetectorSettings((prev) => ({ ...prev, strategy }));
+    saveDetectorSettings({ strategy });
+  };
+
+  const handleTargetFpsChange = (value: string) => {
+    const targetFps = Number(value);
+    setDetectorSettings((prev) => ({ ...prev, targetFps }));
+    saveDetectorSettings({ targetFps });
+  };
+
+  const handleLightingAlertsChange = (value: string) => {
+    const enabled = value === "notify";
+    setLightingAlertsEnabled(enabled);
+    localStorage.setItem("lightingAlertsEnabled", enabled.toString());
+  };
+
+  const handleCompareStrategiesChange = (compareStrategies: boolean) => {
+    setDetectorSettings((prev) => ({ ...prev, compareStrategies }));
+    saveDetectorSettings({ compareStrategies });
+  };
+
   const handleNotificationsChange = async (enabled: boolean) => {
     await updateSetting("enabled", enabled);
   };
@@ -255,6 +363,143 @@ export default function SettingsPage() {
                   </Text>
                 </Flex>
               </Flex>
+
+              <Box style={{ padding: "0 16px" }}>
+                <Separator size="4" />
+              </Box>
+
+              <Flex
+                justify="between"
+                align="center"
+                style={{ padding: "12px 16px" }}
+              >
+                <Box style={{ flex: 1, marginRight: "40px" }}>
+                  <Flex align="center" gap="2" mb="1">
+                    <MoonIcon />
+                    <Text size="3" weight="medium">
+                      Drowsiness Alerts
+                    </Text>
+                  </Flex>
+                  <Text size="2" color="gray">
+                    Alert when your eyes stay shut longer than a blink (a microsleep) or are
+                    mostly closed for a large share of a minute (PERCLOS)
+                  </Text>
+                </Box>
+                <Select.Root
+                  value={drowsinessAlertsEnabled ? "on" : "off"}
+                  onValueChange={handleDrowsinessAlertsChange}
+                >
+                  <Select.Trigger style={{ minWidth: "170px" }} />
+                  <Select.Content>
+                    <Select.Item value="on">On</Select.Item>
+                    <Select.Item value="off">Off</Select.Item>
+                  </Select.Content>
+                </Select.Root>
+              </Flex>
+
+              <Box style={{ padding: "0 16px" }}>
+                <Separator size="4" />
+              </Box>
+
+              <Flex
+                justify="between"
+                align="center"
+                style={{ padding: "12px 16px" }}
+              >
+                <Box style={{ flex: 1, marginRight: "40px" }}>
+                  <Flex align="center" gap="2" mb="1">
+                    <RulerHorizontalIcon />
+                    <Text size="3" weight="medium">
+                      Too-Close Alerts
+                    </Text>
+                  </Flex>
+                  <Text size="2" color="gray">
+                    Alert when you sit closer than {TOO_CLOSE_DISTANCE_CM} cm to the screen for
+                    a while. Distance is estimated from the size of your irises; calibrate it
+                    with a measured distance for better accuracy
+                  </Text>
+                </Box>
+                <Select.Root
+                  value={distanceAlertsEnabled ? "on" : "off"}
+                  onValueChange={handleDistanceAlertsChange}
+                >
+                  <Select.Trigger style={{ minWidth: "170px" }} />
+                  <Select.Content>
+                    <Select.Item value="on">On</Select.Item>
+                    <Select.Item value="off">Off</Select.Item>
+                  </Select.Content>
+                </Select.Root>
+              </Flex>
+
+              <Box style={{ padding: "0 16px" }}>
+                <Separator size="4" />
+              </Box>
+
+              <Flex
+                justify="between"
+                align="center"
+                style={{ padding: "12px 16px" }}
+              >
+                <Box style={{ flex: 1, marginRight: "40px" }}>
+                  <Flex align="center" gap="2" mb="1">
+                    <PersonIcon />
+                    <Text size="3" weight="medium">
+                      Posture Reminders
+                    </Text>
+                  </Flex>
+                  <Text size="2" color="gray">
+                    Remind you to sit up when your head drops forward, you lean in or tilt your
+                    head for 30 seconds, compared with how you sat when the session started
+                  </Text>
+                </Box>
+                <Select.Root
+                  value={postureAlertsEnabled ? "on" : "off"}
+                  onValueChange={handlePostureAlertsChange}
+                >
+                  <Select.Trigger style={{ minWidth: "170px" }} />
+                  <Select.Content>
+                    <Select.Item value="on">On</Select.Item>
+                    <Select.Item value="off">Off</Select.Item>
+                  </Select.Content>
+                </Select.Root>
+              </Flex>
+
+              <Box style={{ padding: "0 16px" }}>
+                <Separator size="4" />
+              </Box>
+
+              <Flex
+                justify="between"
+                align="center"
+                style={{ padding: "12px 16px" }}
+              >
+                <Box style={{ flex: 1, marginRight: "40px" }}>
+                  <Flex align="center" gap="2" mb="1">
+                    <StopwatchIcon />
+                    <Text size="3" weight="medium">
+                      Staring Nudge
+                    </Text>
+                  </Flex>
+                  <Text size="2" color="gray">
+                    Remind you to blink when you go this long without blinking while looking at
+                    the screen
+                  </Text>
+                </Box>
+                <Select.Root
+                  value={staringNudge}
+                  onValueChange={handleStaringNudgeChange}
+                >
+                  <Select.Trigger style={{ minWidth: "170px" }} />
+                  <Select.Content>
+                    <Select.Item value="off">Off</Select.Item>
+                    {STARING_NUDGE_OPTIONS.map((seconds) => (
+                      <Select.Item key={seconds} value={seconds.toString()}>
+                        After {seconds} seconds
+                      </Select.Item>
+                    ))}
+                  </Select.Content>
+                </Select.Root>
+              </Flex>
             </Card>
           </Box>
 
@@ -294,6 +539,7 @@ export default function SettingsPage() {
                     <Switch
                       checked={notificationSettings.enabled}
                       onCheckedChange={handleNotificationsChange}
+                      aria-label="Desktop Notifications"
                       disabled={isNotificationLoading}
                       size="2"
                     />
@@ -322,6 +568,7 @@ export default function SettingsPage() {
                     <Switch
                       checked={notificationSettings.soundEnabled}
                       onCheckedChange={handleSoundChange}
+                      aria-label="Sound Alerts"
                       disabled={isNotificationLoading || !notificationSettings.enabled}
                       size="2"
                     />
@@ -350,6 +597,7 @@ export default function SettingsPage() {
                     <Switch
                       checked={notificationSettings.quietHoursEnabled}
                       onCheckedChange={handleQuietHoursChange}
+                      aria-label="Quiet Hours"
                       disabled={isNotificationLoading || !notificationSettings.enabled}
                       size="2"
                     />
@@ -448,11 +696,188 @@ export default function SettingsPage() {
           <Box mt="3">
             <Text size="2" color="gray">
               Note: Fatigue alerts trigger after 5 minutes of session time when
-              your blink rate in the last 3 minutes is below the threshold.
-              Alerts are limited to once every 3 minutes.
+              your blink rate in the last 3 minutes is below the threshold, and
+              are skipped if you&apos;ve looked away for 20 seconds in the last 20 minutes.
+              Drowsiness alerts can trigger at any time. Alerts are limited to
+              once every 3 minutes, and too-close and posture alerts to once every 10 minutes.
             </Text>
           </Box>
 
+          <Box>
+            <Heading size="5" mb="4">
+              Camera
+            </Heading>
+
+            <Card size="2">
+              <Flex
+                justify="between"
+                align="center"
+                style={{ padding: "14px 16px" }}
+              >
+                <Box style={{ flex: 1, marginRight: "40px" }}>
+                  <Flex align="center" gap="2" mb="1">
+                    <VideoIcon />
+                    <Text size="3" weight="medium">
+                      Camera
+                    </Text>
+                  </Flex>
+                  <Text size="2" color="gray">
+                    Which camera to track with. If it&apos;s unplugged the default camera is used,
+                    and tracking moves back when it reconnects. Changes apply the next time
+                    tracking starts
+                  </Text>
+                </Box>
+                <CameraSelect
+                  devices={cameraDevices}
+                  value={preferredDeviceId}
+                  onValueChange={selectCamera}
+                />
+              </Flex>
+            </Card>
+          </Box>
+
+          <Box>
+            <Heading size="5" mb="4">
+              Blink Detection
+            </Heading>
+
+            <Card size="2">
+              <Flex direction="column">
+                <Flex
+                  justify="between"
+                  align="center"
+                  style={{ padding: "14px 16px" }}
+                >
+                  <Box style={{ flex: 1, marginRight: "40px" }}>
+                    <Flex align="center" gap="2" mb="1">
+                      <EyeOpenIcon />
+                      <Text size="3" weight="medium">
+                        Detection Method
+                      </Text>
+                    </Flex>
+                    <Text size="2" color="gray">
+                      How closed eyes are recognized. Changes apply the next time tracking starts
+                    </Text>
+                  </Box>
+                  <Select.Root
+                    value={detectorSettings.strategy}
+                    onValueChange={handleDetectionStrategyChange}
+                  >
+                    <Select.Trigger style={{ minWidth: "170px" }} />
+                    <Select.Content>
+                      {DETECTION_STRATEGY_OPTIONS.map((option) => (
+                        <Select.Item key={option.value} value={option.value}>
+                          {option.label}
+                        </Select.Item>
+                      ))}
+                    </Select.Content>
+                  </Select.Root>
+                </Flex>
+
+                <Box style={{ padding: "0 16px" }}>
+                  <Separator size="4" />
+                </Box>
+
+                <Flex
+                  justify="between"
+                  align="center"
+                  style={{ padding: "14px 16px" }}
+                >
+                  <Box style={{ flex: 1, marginRight: "40px" }}>
+                    <Flex align="center" gap="2" mb="1">
+                      <LightningBoltIcon />
+                      <Text size="3" weight="medium">
+                        Processing Rate
+                      </Text>
+                    </Flex>
+                    <Text size="2" color="gray">
+                      Frames analyzed per second. Lower rates save battery; the rate briefly
+                      goes up when your eyes start to close so blinks aren&apos;t missed
+                    </Text>
+                  </Box>
+                  <Select.Root
+                    value={detectorSettings.targetFps.toString()}
+                    onValueChange={handleTargetFpsChange}
+                  >
+                    <Select.Trigger style={{ minWidth: "170px" }} />
+                    <Select.Content>
+                      {TARGET_FPS_OPTIONS.map((option) => (
+                        <Select.Item key={option.value} value={option.value.toString()}>
+                          {option.label}
+                        </Select.Item>
+                      ))}
+                    </Select.Content>
+                  </Select.Root>
+                </Flex>
+
+                <Box style={{ padding: "0 16px" }}>
+                  <Separator size="4" />
+                </Box>
+
+                <Flex
+                  justify="between"
+                  align="center"
+                  style={{ padding: "14px 16px" }}
+                >
+                  <Box style={{ flex: 1, marginRight: "40px" }}>
+                    <Flex align="center" gap="2" mb="1">
+                      <SunIcon />
+                      <Text size="3" weight="medium">
+                        Poor Lighting Warnings
+                      </Text>
+                    </Flex>
+                    <Text size="2" color="gray">
+                      How to tell you when your face is too dark or backlit to count blinks
+                      reliably. That time is left out of your blink rate
+                    </Text>
+                  </Box>
+                  <Select.Root
+                    value={lightingAlertsEnabled ? "notify" : "app"}
+                    onValueChange={handleLightingAlertsChange}
+                  >
+                    <Select.Trigger style={{ minWidth: "170px" }} />
+                    <Select.Content>
+                      <Select.Item value="app">In the app</Select.Item>
+                      <Select.Item value="notify">In the app and notify</Select.Item>
+                    </Select.Content>
+                  </Select.Root>
+                </Flex>
+
+                <Box style={{ padding: "0 16px" }}>
+                  <Separator size="4" />
+                </Box>
+
+                <Flex
+                  justify="between"
+                  align="center"
+                  style={{ padding: "14px 16px" }}
+                >
+                  <Box style={{ flex: 1, marginRight: "40px" }}>
+                    <Flex align="center" gap="2" mb="1">
+                      <CodeIcon />
+                      <Text size="3" weight="medium">
+                        Compare Methods (Debug)
+                      </Text>
+                    </Flex>
+                    <Text size="2" color="gray">
+                      Run both methods side by side and show their blink counts on the session page
+                    </Text>
+                  </Box>
+                  <Switch
+                    checked={detectorSettings.compareStrategies}
+                    onCheckedChange={handleCompareStrategiesChange}
+                    aria-label="Compare Methods"
+                    size="2"
+                  />
+                </Flex>
+
+                <LandmarkRecordingSettings />
+              </Flex>
+            </Card>
+          </Box>
+
+          <SimulatedCameraSettings />
+
           <Box>
             <Heading size="5" mb="4">
               About
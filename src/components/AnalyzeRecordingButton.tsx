@@ -0,0 +1,119 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button, Dialog, Flex, Progress, Text } from "@radix-ui/themes";
+import { UploadIcon } from "@radix-ui/react-icons";
+import { useSession } from "../contexts/SessionContext";
+import { useCalibration } from "../contexts/CalibrationContext";
+import { analyzeRecording } from "../lib/sessions/recording-import";
+import { getDetectorSettings } from "../lib/blink-detection/detector-settings";
+
+interface AnalysisProgress {
+  fileName: string;
+  processedFrames: number;
+  totalFrames: number;
+}
+
+export function AnalyzeRecordingButton() {
+  const router = useRouter();
+  const { importSession } = useSession();
+  const { activeCalibration } = useCalibration();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setError(null);
+    setProgress({ fileName: file.name, processedFrames: 0, totalFrames: 0 });
+
+    try {
+      const session = await analyzeRecording(file, {
+        earThreshold: activeCalibration?.earThreshold ?? 0.25,
+        strategy: getDetectorSettings().strategy,
+        calibrationId: activeCalibration?.id,
+        signal: abortController.signal,
+        onProgress: (processedFrames, totalFrames) => {
+          setProgress({ fileName: file.name, processedFrames, totalFrames });
+        },
+      });
+
+      importSession(session);
+      setProgress(null);
+      router.push(`/session?id=${session.id}`);
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        console.error("Failed to analyze recording:", err);
+        setError(err instanceof Error ? err.message : "Could not analyze this recording");
+      } else {
+        setProgress(null);
+      }
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    setProgress(null);
+    setError(null);
+  };
+
+  const percent = progress && progress.totalFrames > 0
+    ? Math.round((progress.processedFrames / progress.totalFrames) * 100)
+    : 0;
+
+  return (
+    <>
+      <Button variant="soft" onClick={() => inputRef.current?.click()} disabled={progress !== null}>
+        <UploadIcon />
+        Analyze recording
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="video/*"
+        onChange={handleFileChange}
+        style={{ display: "none" }}
+        data-testid="recording-file-input"
+      />
+
+      <Dialog.Root open={progress !== null || error !== null}>
+        <Dialog.Content style={{ maxWidth: 450 }}>
+          <Dialog.Title>Analyzing recording</Dialog.Title>
+          <Dialog.Description size="2" color="gray">
+            {progress?.fileName}
+          </Dialog.Description>
+
+          <Flex direction="column" gap="3" mt="4">
+            {error ? (
+              <Text size="2" color="red">{error}</Text>
+            ) : (
+              <>
+                <Progress value={percent} />
+                <Text size="2" color="gray">
+                  {progress && progress.totalFrames > 0
+                    ? `Frame ${progress.processedFrames} of ${progress.totalFrames} (${percent}%)`
+                    : "Loading video..."}
+                </Text>
+              </>
+            )}
+          </Flex>
+
+          <Flex justify="end" mt="4">
+            <Button variant="soft" color="gray" onClick={handleCancel}>
+              {error ? "Close" : "Cancel"}
+            </Button>
+          </Flex>
+        </Dialog.Content>
+      </Dialog.Root>
+    </>
+  );
+}
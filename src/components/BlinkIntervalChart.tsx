@@ -0,0 +1,108 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import * as d3 from "d3";
+import { BlinkIntervalBucket, STARING_EPISODE_MS } from "../lib/sessions/blink-intervals";
+
+interface BlinkIntervalChartProps {
+  data: BlinkIntervalBucket[];
+}
+
+// Buckets are labeled in seconds
+const formatBucketLabel = (bucket: BlinkIntervalBucket) =>
+  Number.isFinite(bucket.end) ? `${bucket.start / 1000}` : `${bucket.start / 1000}+`;
+
+export function BlinkIntervalChart({ data }: BlinkIntervalChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || data.length === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const margin = { top: 20, right: 30, bottom: 40, left: 50 };
+    const width = svg.node()?.getBoundingClientRect().width || 800;
+    const height = svg.node()?.getBoundingClientRect().height || 240;
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    // Scales
+    const xScale = d3
+      .scaleBand<string>()
+      .domain(data.map(formatBucketLabel))
+      .range([0, innerWidth])
+      .padding(0.15);
+
+    const maxCount = d3.max(data, (d) => d.count) || 1;
+    const yScale = d3
+      .scaleLinear()
+      .domain([0, maxCount])
+      .nice()
+      .range([innerHeight, 0]);
+
+    // Bars - staring episodes highlighted in orange
+    g.selectAll(".interval-bar")
+      .data(data)
+      .enter()
+      .append("rect")
+      .attr("class", "interval-bar")
+      .attr("x", (d) => xScale(formatBucketLabel(d)) ?? 0)
+      .attr("y", (d) => yScale(d.count))
+      .attr("width", xScale.bandwidth())
+      .attr("height", (d) => innerHeight - yScale(d.count))
+      .attr("fill", (d) => (d.start >= STARING_EPISODE_MS ? "var(--orange-9)" : "var(--indigo-9)"))
+      .attr("rx", 2);
+
+    // Add the X Axis - label every other bucket to avoid crowding
+    const xAxis = g.append("g")
+      .attr("transform", `translate(0,${innerHeight})`)
+      .call(
+        d3
+          .axisBottom(xScale)
+          .tickValues(xScale.domain().filter((_, i) => i % 2 === 0))
+      );
+
+    // Style x-axis to match Radix theme
+    xAxis.selectAll("text")
+      .style("font-family", "var(--default-font-family)")
+      .style("font-size", "12px")
+      .style("fill", "var(--mauve-11)");
+    xAxis.selectAll("line, path")
+      .style("stroke", "var(--mauve-6)");
+
+    g.append("text")
+      .attr("x", innerWidth)
+      .attr("y", innerHeight + 34)
+      .attr("text-anchor", "end")
+      .attr("fill", "var(--mauve-11)")
+      .style("font-family", "var(--default-font-family)")
+      .style("font-size", "11px")
+      .text("Time between blinks (s)");
+
+    // Add the Y Axis with fewer ticks
+    const yAxis = g.append("g")
+      .call(d3.axisLeft(yScale).ticks(4));
+
+    // Style y-axis to match Radix theme
+    yAxis.selectAll("text")
+      .style("font-family", "var(--default-font-family)")
+      .style("font-size", "12px")
+      .style("fill", "var(--mauve-11)");
+    yAxis.selectAll("line, path")
+      .style("stroke", "var(--mauve-6)");
+  }, [data]);
+
+  return (
+    <svg
+      ref={svgRef}
+      width="100%"
+      height="100%"
+      style={{ display: "block" }}
+    />
+  );
+}
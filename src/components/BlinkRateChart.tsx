@@ -2,15 +2,35 @@
 
 import React, { useEffect, useRef } from "react";
 import * as d3 from "d3";
-import { BlinkRatePoint, FaceLostPeriod, MAX_BLINK_RATE } from "../lib/sessions/types";
+import {
+  BlinkRatePoint,
+  CameraUnavailablePeriod,
+  FaceLostPeriod,
+  LookingAwayPeriod,
+  MAX_BLINK_RATE,
+  MultipleFacePeriod,
+  PoorLightingPeriod
+} from "../lib/sessions/types";
 
 interface BlinkRateChartProps {
   data: BlinkRatePoint[];
   faceLostPeriods?: FaceLostPeriod[];
+  poorLightingPeriods?: PoorLightingPeriod[];
+  multipleFacePeriods?: MultipleFacePeriod[];
+  lookingAwayPeriods?: LookingAwayPeriod[];
+  cameraUnavailablePeriods?: CameraUnavailablePeriod[];
   sessionEndTime?: number; // Used as fallback for periods without end timestamp
 }
 
-export function BlinkRateChart({ data, faceLostPeriods, sessionEndTime }: BlinkRateChartProps) {
+export function BlinkRateChart({
+  data,
+  faceLostPeriods,
+  poorLightingPeriods,
+  multipleFacePeriods,
+  lookingAwayPeriods,
+  cameraUnavailablePeriods,
+  sessionEndTime,
+}: BlinkRateChartProps) {
   const svgRef = useRef<SVGSVGElement>(null);
 
   useEffect(() => {
@@ -89,8 +109,8 @@ export function BlinkRateChart({ data, faceLostPeriods, sessionEndTime }: BlinkR
         .attr("opacity", 0.5);
     }
 
-    // Add orange bars for face lost periods (behind the chart)
-    if (faceLostPeriods && faceLostPeriods.length > 0) {
+    // Add bars for face lost (orange) and poor lighting (gray) periods (behind the chart)
+    const drawPeriods = (periods: FaceLostPeriod[], fill: string) => {
       const xDomain = xScale.domain();
       const domainStart = xDomain[0];
       const domainEnd = xDomain[1];
@@ -98,7 +118,7 @@ export function BlinkRateChart({ data, faceLostPeriods, sessionEndTime }: BlinkR
       const chartStartTime = domainStart.getTime();
       const chartEndTime = domainEnd.getTime();
 
-      faceLostPeriods.forEach((period) => {
+      periods.forEach((period) => {
         // Use sessionEndTime as fallback for periods without end
         const periodEnd = period.end ?? sessionEndTime ?? Date.now();
         const periodStart = period.start;
@@ -116,10 +136,25 @@ export function BlinkRateChart({ data, faceLostPeriods, sessionEndTime }: BlinkR
             .attr("y", 0)
             .attr("width", Math.max(0, x2 - x1))
             .attr("height", innerHeight)
-            .attr("fill", "var(--orange-4)")
+            .attr("fill", fill)
             .attr("opacity", 0.5);
         }
       });
+    };
+    if (faceLostPeriods && faceLostPeriods.length > 0) {
+      drawPeriods(faceLostPeriods, "var(--orange-4)");
+    }
+    if (poorLightingPeriods && poorLightingPeriods.length > 0) {
+      drawPeriods(poorLightingPeriods, "var(--gray-5)");
+    }
+    if (multipleFacePeriods && multipleFacePeriods.length > 0) {
+      drawPeriods(multipleFacePeriods, "var(--blue-4)");
+    }
+    if (lookingAwayPeriods && lookingAwayPeriods.length > 0) {
+      drawPeriods(lookingAwayPeriods, "var(--violet-4)");
+    }
+    if (cameraUnavailablePeriods && cameraUnavailablePeriods.length > 0) {
+      drawPeriods(cameraUnavailablePeriods, "var(--red-4)");
     }
 
     // Add area under the line
@@ -223,26 +258,43 @@ export function BlinkRateChart({ data, faceLostPeriods, sessionEndTime }: BlinkR
       .style("font-size", "11px")
       .text("Good (12+/min)");
 
-    // Face lost legend (only show if there are periods)
-    if (faceLostPeriods && faceLostPeriods.length > 0) {
+    // Legends for the shaded periods, only for the kinds of period the session has
+    let periodLegendX = 110;
+    const addPeriodLegend = (fill: string, label: string, width: number) => {
       legend.append("rect")
-        .attr("x", 110)
+        .attr("x", periodLegendX)
         .attr("y", 0)
         .attr("width", 12)
         .attr("height", 12)
-        .attr("fill", "var(--orange-4)")
+        .attr("fill", fill)
         .attr("opacity", 0.7)
         .attr("rx", 2);
       legend.append("text")
-        .attr("x", 128)
+        .attr("x", periodLegendX + 18)
         .attr("y", 10)
         .attr("fill", "var(--mauve-11)")
         .style("font-family", "var(--default-font-family)")
         .style("font-size", "11px")
-        .text("Face not detected");
+        .text(label);
+      periodLegendX += width;
+    };
+    if (faceLostPeriods && faceLostPeriods.length > 0) {
+      addPeriodLegend("var(--orange-4)", "Face not detected", 130);
+    }
+    if (poorLightingPeriods && poorLightingPeriods.length > 0) {
+      addPeriodLegend("var(--gray-5)", "Poor lighting", 100);
+    }
+    if (multipleFacePeriods && multipleFacePeriods.length > 0) {
+      addPeriodLegend("var(--blue-4)", "Others in view", 110);
+    }
+    if (lookingAwayPeriods && lookingAwayPeriods.length > 0) {
+      addPeriodLegend("var(--violet-4)", "Looking away", 100);
+    }
+    if (cameraUnavailablePeriods && cameraUnavailablePeriods.length > 0) {
+      addPeriodLegend("var(--red-4)", "Camera unavailable", 130);
     }
 
-  }, [data, faceLostPeriods, sessionEndTime]);
+  }, [data, faceLostPeriods, poorLightingPeriods, multipleFacePeriods, lookingAwayPeriods, cameraUnavailablePeriods, sessionEndTime]);
 
   return (
     <svg
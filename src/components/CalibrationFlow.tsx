@@ -10,6 +10,7 @@ import {
   Badge,
   Heading,
   Callout,
+  TextField,
 } from "@radix-ui/themes";
 import { useCalibration } from "../contexts/CalibrationContext";
 import { useCamera } from "../hooks/useCamera";
@@ -17,12 +18,16 @@ import { useBlinkDetection } from "../hooks/useBlinkDetection";
 import { useFrameProcessor } from "../hooks/useFrameProcessor";
 import { CalibrationService } from "../lib/calibration/calibration-service";
 import { BlinkAnalyzer } from "../lib/calibration/blink-analyzer";
+import { LIGHTING_GUIDANCE, isPoorLighting } from "../lib/blink-detection/lighting";
+import { calibrateFocalLength } from "../lib/blink-detection/viewing-distance";
+import { CameraSelect } from "./CameraSelect";
 import { EARTimeSeriesGraph } from "./EARTimeSeriesGraph";
 import { VideoCanvas } from "./VideoCanvas";
 import {
   BlinkEvent,
   CalibrationRawData,
   CalibrationMetadata,
+  HeadPose,
 } from "../lib/blink-detection/types";
 import "./CalibrationFlow.css";
 
@@ -43,6 +48,17 @@ interface EARDataPoint {
   ear: number;
 }
 
+interface IrisSample {
+  irisDiameter: number;
+  headPose: HeadPose | null;
+}
+
+// About a second of frames; the median of these steadies the distance measurement
+const IRIS_SAMPLE_COUNT = 30;
+// Outside this range a typed distance is more likely a typo than a real measurement
+const MIN_MEASURED_DISTANCE_CM = 20;
+const MAX_MEASURED_DISTANCE_CM = 150;
+
 export function CalibrationFlow({
   onComplete,
   onCancel,
@@ -54,13 +70,29 @@ export function CalibrationFlow({
   const [earData, setEarData] = useState<EARDataPoint[]>([]);
   const [recordingStartTime, setRecordingStartTime] = useState(0);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [measuredDistance, setMeasuredDistance] = useState("");
+  const [cameraFocalLength, setCameraFocalLength] = useState<number | null>(null);
+  const [distanceError, setDistanceError] = useState<string | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const irisSamplesRef = useRef<IrisSample[]>([]);
 
-  const { stream, videoRef, startCamera, stopCamera } = useCamera();
+  const {
+    stream,
+    videoRef,
+    devices,
+    deviceId,
+    preferredDeviceId,
+    startCamera,
+    stopCamera,
+    selectCamera,
+  } = useCamera();
 
   const {
     currentEAR,
+    lightingCondition,
+    irisDiameter,
+    headPose,
     start: startDetection,
     stop: stopDetection,
     processFrame,
@@ -115,7 +147,14 @@ export function CalibrationFlow({
 
   // Handle frame processing with EAR data recording
   // React Compiler auto-memoizes this handler
-  const handleFrameData = (data: { currentEAR: number }) => {
+  const handleFrameData = (data: { currentEAR: number; irisDiameter: number | null; headPose: HeadPose | null }) => {
+    if (data.irisDiameter !== null) {
+      irisSamplesRef.current = [
+        ...irisSamplesRef.current.slice(-(IRIS_SAMPLE_COUNT - 1)),
+        { irisDiameter: data.irisDiameter, headPose: data.headPose },
+      ];
+    }
+
     if (isRecording && data.currentEAR > 0) {
       const currentTime = Date.now() - recordingStartTime;
       setEarData((prev) => [
@@ -130,7 +169,7 @@ export function CalibrationFlow({
     videoRef,
     canvasRef,
     processFrame,
-    onFrame: () => handleFrameData({ currentEAR }),
+    onFrame: () => handleFrameData({ currentEAR, irisDiameter, headPose }),
     isEnabled: isInitialized && phase !== "setup",
   });
 
@@ -160,6 +199,34 @@ export function CalibrationFlow({
     }, 100);
   };
 
+  // Optional: calibrate viewing distance from the iris size at a distance the user has measured
+  const measureViewingDistance = () => {
+    const distance = parseFloat(measuredDistance);
+    if (!(distance >= MIN_MEASURED_DISTANCE_CM && distance <= MAX_MEASURED_DISTANCE_CM)) {
+      setDistanceError(`Enter a distance between ${MIN_MEASURED_DISTANCE_CM} and ${MAX_MEASURED_DISTANCE_CM} cm.`);
+      return;
+    }
+
+    const samples = irisSamplesRef.current;
+    if (samples.length < IRIS_SAMPLE_COUNT) {
+      setDistanceError("Your eyes aren't clearly visible yet. Face the camera and try again.");
+      return;
+    }
+
+    const focalLengths = samples
+      .map((sample) => calibrateFocalLength(sample.irisDiameter, sample.headPose, distance))
+      .sort((a, b) => a - b);
+    setCameraFocalLength(focalLengths[Math.floor(focalLengths.length / 2)] ?? null);
+    setDistanceError(null);
+  };
+
+  // A distance measured through another camera doesn't carry over
+  const handleCameraChange = (selected: string | null) => {
+    setCameraFocalLength(null);
+    irisSamplesRef.current = [];
+    selectCamera(selected);
+  };
+
   const confirmCalibration = () => {
     setIsRecording(false);
     setPhase("analyzing");
@@ -204,10 +271,13 @@ export function CalibrationFlow({
         maxEarValue: Math.max(...earData.map((d) => d.ear)),
       };
 
+      const camera = devices.find((device) => device.deviceId === deviceId);
       const calibration = {
         name: CalibrationService.generateDefaultName(),
         isActive: true,
         earThreshold: analysisResult.calibratedThreshold,
+        ...(cameraFocalLength !== null && { cameraFocalLength }),
+        ...(camera && { cameraDeviceId: camera.deviceId, cameraLabel: camera.label }),
         metadata,
         rawData,
       };
@@ -290,6 +360,29 @@ export function CalibrationFlow({
         return (
           <Box className="phase-container">
             <Flex direction="column" gap="4">
+              {isPoorLighting(lightingCondition) && (
+                <Callout.Root color="amber">
+                  <Callout.Icon>💡</Callout.Icon>
+                  <Callout.Text>
+                    {LIGHTING_GUIDANCE[lightingCondition]} A calibration recorded in poor light
+                    may not find your threshold.
+                  </Callout.Text>
+                </Callout.Root>
+              )}
+
+              {devices.length > 1 && !isRecording && (
+                <Flex justify="between" align="center">
+                  <Text size="2" color="gray">
+                    Calibrate with the camera you&apos;ll track with
+                  </Text>
+                  <CameraSelect
+                    devices={devices}
+                    value={preferredDeviceId}
+                    onValueChange={handleCameraChange}
+                  />
+                </Flex>
+              )}
+
               <Box className="graph-container">
                 <EARTimeSeriesGraph
                   data={earData}
@@ -337,6 +430,43 @@ export function CalibrationFlow({
                   Cancel
                 </Button>
               </Flex>
+
+              {!isRecording && (
+                <Card size="1">
+                  <Flex direction="column" gap="2">
+                    <Text size="2" weight="medium">
+                      Viewing distance (optional)
+                    </Text>
+                    <Text size="2" color="gray">
+                      Measure from your eyes to the camera with a tape measure or ruler, enter it,
+                      and click Measure while facing the camera. This makes distance estimates
+                      more accurate for your camera.
+                    </Text>
+                    <Flex gap="2" align="center">
+                      <TextField.Root
+                        type="number"
+                        placeholder="Distance"
+                        value={measuredDistance}
+                        onChange={(e) => setMeasuredDistance(e.target.value)}
+                        style={{ width: "120px" }}
+                      >
+                        <TextField.Slot side="right">cm</TextField.Slot>
+                      </TextField.Root>
+                      <Button variant="soft" onClick={measureViewingDistance}>
+                        Measure
+                      </Button>
+                      {cameraFocalLength !== null && (
+                        <Badge color="green">Distance calibrated</Badge>
+                      )}
+                    </Flex>
+                    {distanceError && (
+                      <Text size="2" color="red">
+                        {distanceError}
+                      </Text>
+                    )}
+                  </Flex>
+                </Card>
+              )}
             </Flex>
           </Box>
         );
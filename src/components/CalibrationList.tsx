@@ -231,6 +231,13 @@ export function CalibrationList() {
                     <Text weight="bold">{calibration.metadata.totalBlinksDetected}/{calibration.metadata.totalBlinksRequested}</Text>
                   </Text>
                 </Flex>
+
+                {calibration.cameraLabel && (
+                  <Text size="2">
+                    <Text color="gray">Camera</Text>{" "}
+                    <Text weight="bold">{calibration.cameraLabel}</Text>
+                  </Text>
+                )}
               </Flex>
             </Flex>
           </Card>
@@ -15,6 +15,7 @@ import { PlusIcon, EyeOpenIcon, InfoCircledIcon } from "@radix-ui/react-icons";
 import { useCalibration } from "../contexts/CalibrationContext";
 import { CalibrationList } from "./CalibrationList";
 import { CalibrationFlow } from "./CalibrationFlow";
+import { ThresholdModeCard } from "./ThresholdModeCard";
 
 export function CalibrationManager() {
   const { calibrations, hasActiveCalibration, isCalibrating, activeCalibration } =
@@ -95,6 +96,8 @@ export function CalibrationManager() {
           </Callout.Root>
         )}
 
+        <ThresholdModeCard />
+
         {/* Tabs */}
         <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
           <Tabs.List>
@@ -0,0 +1,38 @@
+"use client";
+
+import React from "react";
+import { Select } from "@radix-ui/themes";
+import { CameraDevice } from "../lib/camera-devices";
+
+const DEFAULT_CAMERA_VALUE = "default";
+
+interface CameraSelectProps {
+  devices: CameraDevice[];
+  value: string | null; // Preferred camera ID, null for the system default
+  onValueChange: (deviceId: string | null) => void;
+}
+
+export function CameraSelect({ devices, value, onValueChange }: CameraSelectProps) {
+  // A saved camera that's unplugged stays selected, so it's picked again when it comes back
+  const isDisconnected = value !== null && !devices.some((device) => device.deviceId === value);
+
+  return (
+    <Select.Root
+      value={value ?? DEFAULT_CAMERA_VALUE}
+      onValueChange={(selected) => onValueChange(selected === DEFAULT_CAMERA_VALUE ? null : selected)}
+    >
+      <Select.Trigger style={{ minWidth: "200px", maxWidth: "260px" }} />
+      <Select.Content>
+        <Select.Item value={DEFAULT_CAMERA_VALUE}>System default</Select.Item>
+        {devices.map((device) => (
+          <Select.Item key={device.deviceId} value={device.deviceId}>
+            {device.label}
+          </Select.Item>
+        ))}
+        {isDisconnected && (
+          <Select.Item value={value}>Saved camera (not connected)</Select.Item>
+        )}
+      </Select.Content>
+    </Select.Root>
+  );
+}
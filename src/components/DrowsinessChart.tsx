@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import * as d3 from "d3";
+import { MicrosleepEvent, PerclosPoint } from "../lib/sessions/types";
+import { DROWSY_PERCLOS } from "../lib/blink-detection/drowsiness";
+
+interface DrowsinessChartProps {
+  perclosHistory: PerclosPoint[];
+  microsleepEvents: MicrosleepEvent[];
+  startTime: number; // Session start, ms since epoch
+  endTime: number; // Session end, or now for an active session
+}
+
+export function DrowsinessChart({ perclosHistory, microsleepEvents, startTime, endTime }: DrowsinessChartProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || endTime <= startTime) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    const margin = { top: 20, right: 30, bottom: 40, left: 50 };
+    const width = svg.node()?.getBoundingClientRect().width || 800;
+    const height = svg.node()?.getBoundingClientRect().height || 240;
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const g = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    // Scales - PERCLOS is shown in percent, with room above the drowsy threshold
+    const xScale = d3
+      .scaleTime()
+      .domain([new Date(startTime), new Date(endTime)])
+      .range([0, innerWidth]);
+
+    const maxPerclos = d3.max(perclosHistory, (d) => d.perclos) || 0;
+    const yScale = d3
+      .scaleLinear()
+      .domain([0, Math.min(100, Math.max(maxPerclos, DROWSY_PERCLOS * 2) * 100)])
+      .nice()
+      .range([innerHeight, 0]);
+
+    // Microsleeps as red bars spanning the chart, at least a pixel wide
+    g.selectAll(".microsleep")
+      .data(microsleepEvents)
+      .enter()
+      .append("rect")
+      .attr("class", "microsleep")
+      .attr("x", (d) => xScale(new Date(d.timestamp)))
+      .attr("y", 0)
+      .attr("width", (d) => Math.max(1, xScale(new Date(d.timestamp + d.duration)) - xScale(new Date(d.timestamp))))
+      .attr("height", innerHeight)
+      .attr("fill", "var(--red-9)")
+      .attr("opacity", 0.6);
+
+    // PERCLOS line
+    const line = d3
+      .line<PerclosPoint>()
+      .x((d) => xScale(new Date(d.timestamp)))
+      .y((d) => yScale(d.perclos * 100))
+      .curve(d3.curveMonotoneX);
+
+    g.append("path")
+      .datum(perclosHistory)
+      .attr("fill", "none")
+      .attr("stroke", "var(--indigo-9)")
+      .attr("stroke-width", 2)
+      .attr("d", line);
+
+    // Add the X Axis
+    const xAxis = g.append("g")
+      .attr("transform", `translate(0,${innerHeight})`)
+      .call(
+        d3
+          .axisBottom(xScale)
+          .ticks(Math.min(Math.max(Math.floor((endTime - startTime) / 120000), 2), 6))
+          .tickFormat((d) => d3.timeFormat("%H:%M")(d as Date))
+      );
+
+    // Style x-axis to match Radix theme
+    xAxis.selectAll("text")
+      .style("font-family", "var(--default-font-family)")
+      .style("font-size", "12px")
+      .style("fill", "var(--mauve-11)");
+    xAxis.selectAll("line, path")
+      .style("stroke", "var(--mauve-6)");
+
+    // Add the Y Axis with fewer ticks
+    const yAxis = g.append("g")
+      .call(d3.axisLeft(yScale).ticks(4).tickFormat((d) => `${d}%`));
+
+    // Style y-axis to match Radix theme
+    yAxis.selectAll("text")
+      .style("font-family", "var(--default-font-family)")
+      .style("font-size", "12px")
+      .style("fill", "var(--mauve-11)");
+    yAxis.selectAll("line, path")
+      .style("stroke", "var(--mauve-6)");
+
+    // Drowsiness threshold line
+    g.append("line")
+      .attr("x1", 0)
+      .attr("x2", innerWidth)
+      .attr("y1", yScale(DROWSY_PERCLOS * 100))
+      .attr("y2", yScale(DROWSY_PERCLOS * 100))
+      .attr("stroke", "var(--orange-9)")
+      .attr("stroke-width", 2)
+      .attr("stroke-dasharray", "5,5");
+
+    g.append("text")
+      .attr("x", innerWidth - 5)
+      .attr("y", yScale(DROWSY_PERCLOS * 100) - 5)
+      .attr("text-anchor", "end")
+      .attr("fill", "var(--orange-9)")
+      .style("font-family", "var(--default-font-family)")
+      .style("font-size", "11px")
+      .text("Drowsy");
+
+    // Microsleep legend (only show if there are any)
+    if (microsleepEvents.length > 0) {
+      const legend = svg
+        .append("g")
+        .attr("transform", `translate(${margin.left + 10}, ${margin.top})`);
+      legend.append("rect")
+        .attr("x", 0)
+        .attr("y", 0)
+        .attr("width", 12)
+        .attr("height", 12)
+        .attr("fill", "var(--red-9)")
+        .attr("opacity", 0.6)
+        .attr("rx", 2);
+      legend.append("text")
+        .attr("x", 18)
+        .attr("y", 10)
+        .attr("fill", "var(--mauve-11)")
+        .style("font-family", "var(--default-font-family)")
+        .style("font-size", "11px")
+        .text("Microsleep");
+    }
+  }, [perclosHistory, microsleepEvents, startTime, endTime]);
+
+  return (
+    <svg
+      ref={svgRef}
+      width="100%"
+      height="100%"
+      style={{ display: "block" }}
+    />
+  );
+}
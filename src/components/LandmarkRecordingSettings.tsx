@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Box, Button, Flex, Separator, Text } from "@radix-ui/themes";
+import { PlayIcon, StopIcon, VideoIcon } from "@radix-ui/react-icons";
+import { useSession } from "../contexts/SessionContext";
+import {
+  LANDMARK_RECORDING_EXTENSION,
+  parseLandmarkRecording,
+  serializeLandmarkRecording,
+} from "../lib/blink-detection/landmark-recording";
+
+/**
+ * Debug rows for the Blink Detection settings card: record the landmark stream while
+ * tracking, and replay a saved recording through detection instead of the camera.
+ */
+export function LandmarkRecordingSettings() {
+  const {
+    isTracking,
+    toggleTracking,
+    isRecordingLandmarks,
+    startLandmarkRecording,
+    stopLandmarkRecording,
+    replayLandmarkRecording,
+    replayProgress,
+  } = useSession();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [savedFrames, setSavedFrames] = useState<number | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const handleStartRecording = () => {
+    setSavedFrames(null);
+    startLandmarkRecording();
+  };
+
+  const handleStopRecording = () => {
+    const recording = stopLandmarkRecording();
+    if (!recording || recording.frames.length === 0) {
+      setSavedFrames(0);
+      return;
+    }
+
+    const blob = new Blob([serializeLandmarkRecording(recording)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `landmarks-${new Date(recording.startTime).toISOString().replace(/[:.]/g, "-")}${LANDMARK_RECORDING_EXTENSION}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    setSavedFrames(recording.frames.length);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const recording = parseLandmarkRecording(await file.text());
+      setReplayError(null);
+      replayLandmarkRecording(recording, file.name);
+    } catch (err) {
+      console.error("Failed to load landmark recording:", err);
+      setReplayError(err instanceof Error ? err.message : "Could not read this recording");
+    }
+  };
+
+  const isReplaying = replayProgress !== null;
+
+  let recordingStatus = "Save each frame's eye landmarks and EAR while tracking, to reproduce detection problems";
+  if (isRecordingLandmarks) {
+    recordingStatus = isTracking ? "Recording... stop to save the file" : "Waiting for tracking to start";
+  } else if (savedFrames !== null) {
+    recordingStatus = savedFrames > 0 ? `Saved ${savedFrames} frames` : "No frames were recorded";
+  }
+
+  let replayStatus = "Run a saved landmark recording through blink detection in place of the camera";
+  if (replayProgress) {
+    replayStatus = `Replaying frame ${replayProgress.processedFrames} of ${replayProgress.totalFrames}`;
+  } else if (replayError) {
+    replayStatus = replayError;
+  }
+
+  return (
+    <>
+      <Box style={{ padding: "0 16px" }}>
+        <Separator size="4" />
+      </Box>
+
+      <Flex
+        justify="between"
+        align="center"
+        style={{ padding: "14px 16px" }}
+      >
+        <Box style={{ flex: 1, marginRight: "40px" }}>
+          <Flex align="center" gap="2" mb="1">
+            <VideoIcon />
+            <Text size="3" weight="medium">
+              Record Landmarks (Debug)
+            </Text>
+          </Flex>
+          <Text size="2" color="gray">
+            {recordingStatus}
+          </Text>
+        </Box>
+        {isRecordingLandmarks ? (
+          <Button size="2" variant="soft" color="red" onClick={handleStopRecording}>
+            <StopIcon />
+            Stop & Save
+          </Button>
+        ) : (
+          <Button size="2" variant="soft" onClick={handleStartRecording} disabled={isReplaying}>
+            Record
+          </Button>
+        )}
+      </Flex>
+
+      <Box style={{ padding: "0 16px" }}>
+        <Separator size="4" />
+      </Box>
+
+      <Flex
+        justify="between"
+        align="center"
+        style={{ padding: "14px 16px" }}
+      >
+        <Box style={{ flex: 1, marginRight: "40px" }}>
+          <Flex align="center" gap="2" mb="1">
+            <PlayIcon />
+            <Text size="3" weight="medium">
+              Replay Recording (Debug)
+            </Text>
+          </Flex>
+          <Text size="2" color={replayError && !isReplaying ? "red" : "gray"}>
+            {replayStatus}
+          </Text>
+        </Box>
+        {isReplaying ? (
+          <Button size="2" variant="soft" color="red" onClick={toggleTracking}>
+            <StopIcon />
+            Stop
+          </Button>
+        ) : (
+          <Button size="2" variant="soft" onClick={() => inputRef.current?.click()} disabled={isTracking}>
+            Replay...
+          </Button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={`${LANDMARK_RECORDING_EXTENSION},application/json`}
+          onChange={handleFileChange}
+          style={{ display: "none" }}
+          data-testid="landmark-recording-file-input"
+        />
+      </Flex>
+    </>
+  );
+}
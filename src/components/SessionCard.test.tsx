@@ -133,6 +133,16 @@ describe('SessionCard', () => {
     expect(noAlertBadge).toBeInTheDocument();
   });
 
+  it('warns when the session was tracked in poor conditions', () => {
+    const sessionPoorData = {
+      ...mockSession,
+      dataQuality: { score: 0.3, frameCount: 5000, issueShares: { 'face-too-small': 0.9, 'too-dark': 0.4 } },
+    };
+    render(<SessionCard session={sessionPoorData} />);
+
+    expect(screen.getByText(/Low confidence: face too small \/ too dark/)).toBeInTheDocument();
+  });
+
   it('displays duration for completed sessions', () => {
     render(<SessionCard session={mockSession} />);
     
@@ -11,8 +11,9 @@ import {
   BLINK_RATE_WINDOW_MS,
   getChartDataFromSession,
 } from "../lib/sessions/types";
+import { getDataQualityWarning } from "../lib/sessions/data-quality";
 import { ClockIcon } from "@radix-ui/react-icons";
-import { Bell, BellOff, Eye, TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { AlertTriangle, Bell, BellOff, Eye, TrendingDown, TrendingUp, Minus } from "lucide-react";
 import { useCalibration } from "../contexts/CalibrationContext";
 import { useSession } from "../contexts/SessionContext";
 import { useInterval } from "../hooks/useInterval";
@@ -202,6 +203,9 @@ export function SessionCard({ session, index = 0 }: SessionCardProps) {
   // Only show quality indicator for sessions >= 1 minute
   const showQualityBadge = sessionDurationMinutes >= 1;
 
+  // Blink rates from poorly seen frames can't be trusted, so say why
+  const dataQualityWarning = getDataQualityWarning(session.dataQuality);
+
   // Get display blink count - use live value for active sessions
   const displayBlinkCount = session.isActive ? liveBlinkCount : session.totalBlinks;
 
@@ -431,6 +435,11 @@ export function SessionCard({ session, index = 0 }: SessionCardProps) {
                 Example
               </Badge>
             )}
+            {session.isImported && (
+              <Badge color="blue" variant="soft" title={session.sourceName}>
+                Imported
+              </Badge>
+            )}
             {session.isActive && (
               <Badge color="green" className="live-indicator">
                 <span className="live-dot" />
@@ -457,6 +466,11 @@ export function SessionCard({ session, index = 0 }: SessionCardProps) {
 
           {/* Quality badges */}
           <Flex gap="2" align="center">
+            {dataQualityWarning && (
+              <Badge color="amber" variant="soft" title="Blink counts may be unreliable">
+                <AlertTriangle size={14} /> {dataQualityWarning}
+              </Badge>
+            )}
             {showQualityBadge && (
               <Badge color={getQualityColor(session.quality)} variant="soft" className="quality-badge">
                 {session.quality.charAt(0).toUpperCase() +
@@ -12,7 +12,11 @@ import { useCalibration } from "../contexts/CalibrationContext";
 import { SessionCard } from "./SessionCard";
 import { SessionFilterBar } from "./SessionFilterBar";
 import { useSessionFilters } from "@/hooks/useSessionFilters";
-import { EyeOff, UserX, Loader2 } from "lucide-react";
+import { LIGHTING_GUIDANCE, isPoorLighting } from "@/lib/blink-detection/lighting";
+import { TOO_CLOSE_DISTANCE_CM } from "@/lib/blink-detection/viewing-distance";
+import { POSTURE_GUIDANCE, isPoorPosture } from "@/lib/blink-detection/posture";
+import { CAMERA_RECOVERY_MAX_ATTEMPTS, CAMERA_RECOVERY_MESSAGES } from "@/lib/camera-recovery";
+import { EyeOff, UserX, Loader2, FlaskConical, SunDim, Users, MonitorOff, Ruler, PersonStanding, RefreshCw, VideoOff } from "lucide-react";
 
 export function SessionsView() {
   const {
@@ -21,6 +25,14 @@ export function SessionsView() {
     isTracking,
     isInitializing,
     isFaceDetected,
+    isSimulated,
+    lightingCondition,
+    multipleFaces,
+    lookingAtScreen,
+    viewingDistance,
+    tooClose,
+    posture,
+    cameraRecovery,
   } = useSession();
 
   const { calibrations } = useCalibration();
@@ -64,8 +76,121 @@ export function SessionsView() {
         </Box>
       )}
 
+      {/* Camera in use callout - tracking pauses until the other app lets go of the camera */}
+      {isTracking && cameraRecovery?.reason === "in-use" && (
+        <Box mb="6">
+          <Callout.Root color="amber">
+            <Callout.Icon>
+              <VideoOff size={16} />
+            </Callout.Icon>
+            <Callout.Text>
+              {CAMERA_RECOVERY_MESSAGES[cameraRecovery.reason]} Tracking is paused and resumes
+              when the camera is free.
+            </Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
+      {/* Camera recovery callout - tracking stays on while a lost camera is reopened */}
+      {isTracking && cameraRecovery && cameraRecovery.reason !== "in-use" && (
+        <Box mb="6">
+          <Callout.Root color="amber">
+            <Callout.Icon>
+              <RefreshCw size={16} style={{ animation: "spin 1s linear infinite" }} />
+            </Callout.Icon>
+            <Callout.Text>
+              {CAMERA_RECOVERY_MESSAGES[cameraRecovery.reason]} Reconnecting (attempt{" "}
+              {cameraRecovery.attempt + 1} of {CAMERA_RECOVERY_MAX_ATTEMPTS})...
+            </Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
+      {/* Simulated camera callout - sessions are being fed synthetic data */}
+      {isTracking && isSimulated && (
+        <Box mb="6">
+          <Callout.Root color="violet">
+            <Callout.Icon>
+              <FlaskConical size={16} />
+            </Callout.Icon>
+            <Callout.Text>
+              Simulated camera is on. Sessions are recorded from synthetic blink data; turn it off in Settings.
+            </Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
+      {/* Poor lighting callout - blinks can't be counted reliably until it improves */}
+      {isTracking && isPoorLighting(lightingCondition) && (
+        <Box mb="6">
+          <Callout.Root color="amber">
+            <Callout.Icon>
+              <SunDim size={16} />
+            </Callout.Icon>
+            <Callout.Text>
+              {LIGHTING_GUIDANCE[lightingCondition]} This time is left out of your blink rate.
+            </Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
+      {/* Others in view callout - tracking stays on the user's face */}
+      {isTracking && multipleFaces && (
+        <Box mb="6">
+          <Callout.Root color="gray">
+            <Callout.Icon>
+              <Users size={16} />
+            </Callout.Icon>
+            <Callout.Text>
+              Someone else is in view of the camera. Blinks are only tracked for you; other faces are ignored.
+            </Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
+      {/* Looking away callout - blinking away from the screen isn't counted */}
+      {isTracking && isFaceDetected && !lookingAtScreen && (
+        <Box mb="6">
+          <Callout.Root color="violet">
+            <Callout.Icon>
+              <MonitorOff size={16} />
+            </Callout.Icon>
+            <Callout.Text>
+              You&apos;re looking away from the screen. This time is left out of your blink rate.
+            </Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
+      {/* Too close callout - sitting close to the screen strains the eyes */}
+      {isTracking && isFaceDetected && tooClose && viewingDistance !== null && (
+        <Box mb="6">
+          <Callout.Root color="orange">
+            <Callout.Icon>
+              <Ruler size={16} />
+            </Callout.Icon>
+            <Callout.Text>
+              You&apos;re about {Math.round(viewingDistance)} cm from the screen. Sit back to at least{" "}
+              {TOO_CLOSE_DISTANCE_CM} cm, about an arm&apos;s length.
+            </Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
+      {/* Posture callout - compared with how the user sat when the session started */}
+      {isTracking && isFaceDetected && isPoorPosture(posture) && (
+        <Box mb="6">
+          <Callout.Root color="orange">
+            <Callout.Icon>
+              <PersonStanding size={16} />
+            </Callout.Icon>
+            <Callout.Text>{POSTURE_GUIDANCE[posture]}</Callout.Text>
+          </Callout.Root>
+        </Box>
+      )}
+
       {/* Face not detected callout - only show when initialized and no active session */}
-      {isTracking && !isInitializing && !isFaceDetected && !activeSession && (
+      {isTracking && !isInitializing && !cameraRecovery && !isFaceDetected && !activeSession && (
         <Box mb="6">
           <Callout.Root color="yellow">
             <Callout.Icon>
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useState } from "react";
+import { Box, Card, Flex, Heading, Select, Separator, Switch, Text } from "@radix-ui/themes";
+import { MagicWandIcon } from "@radix-ui/react-icons";
+import {
+  SIMULATED_BLINK_DURATION_OPTIONS,
+  SIMULATED_BLINK_RATE_OPTIONS,
+  SIMULATED_FACE_LOST_OPTIONS,
+  SIMULATED_FATIGUE_DRIFT_OPTIONS,
+  SIMULATED_NOISE_OPTIONS,
+  SimulationSettings,
+  getSimulationSettings,
+  saveSimulationSettings,
+} from "../lib/blink-detection/simulated-camera";
+
+interface SimulationOptionRowProps {
+  label: string;
+  description: string;
+  value: string;
+  options: { value: string | number; label: string }[];
+  onValueChange: (value: string) => void;
+}
+
+function SimulationOptionRow({ label, description, value, options, onValueChange }: SimulationOptionRowProps) {
+  return (
+    <>
+      <Box style={{ padding: "0 16px" }}>
+        <Separator size="4" />
+      </Box>
+
+      <Flex
+        justify="between"
+        align="center"
+        style={{ padding: "14px 16px" }}
+      >
+        <Box style={{ flex: 1, marginRight: "40px" }}>
+          <Text size="3" weight="medium" as="p" mb="1">
+            {label}
+          </Text>
+          <Text size="2" color="gray">
+            {description}
+          </Text>
+        </Box>
+        <Select.Root value={value} onValueChange={onValueChange}>
+          <Select.Trigger style={{ minWidth: "170px" }} />
+          <Select.Content>
+            {options.map((option) => (
+              <Select.Item key={option.value} value={option.value.toString()}>
+                {option.label}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+      </Flex>
+    </>
+  );
+}
+
+/**
+ * Settings section for the simulated camera, which feeds synthetic blinks into tracking
+ * in place of the webcam (for demos, screenshots and trying out alerts).
+ */
+export function SimulatedCameraSettings() {
+  const [settings, setSettings] = useState<SimulationSettings>(getSimulationSettings);
+
+  const update = (changes: Partial<SimulationSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+    saveSimulationSettings(changes);
+  };
+
+  const faceLostOption = SIMULATED_FACE_LOST_OPTIONS.find(
+    (option) => option.interval === settings.faceLostInterval && (option.interval === 0 || option.duration === settings.faceLostDuration)
+  ) ?? SIMULATED_FACE_LOST_OPTIONS[0]!;
+
+  const handleFaceLostChange = (value: string) => {
+    const option = SIMULATED_FACE_LOST_OPTIONS.find((candidate) => candidate.value === value);
+    if (option) {
+      update({ faceLostInterval: option.interval, faceLostDuration: option.duration });
+    }
+  };
+
+  return (
+    <Box>
+      <Heading size="5" mb="4">
+        Simulated Camera
+      </Heading>
+
+      <Card size="2">
+        <Flex direction="column">
+          <Flex
+            justify="between"
+            align="center"
+            style={{ padding: "14px 16px" }}
+          >
+            <Box style={{ flex: 1, marginRight: "40px" }}>
+              <Flex align="center" gap="2" mb="1">
+                <MagicWandIcon />
+                <Text size="3" weight="medium">
+                  Use Simulated Camera
+                </Text>
+              </Flex>
+              <Text size="2" color="gray">
+                Track synthetic blinks instead of the webcam, for demos and trying out alerts.
+                Changes apply the next time tracking starts
+              </Text>
+            </Box>
+            <Switch
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => update({ enabled })}
+              aria-label="Use Simulated Camera"
+              size="2"
+            />
+          </Flex>
+
+          {settings.enabled && (
+            <>
+              <SimulationOptionRow
+                label="Blink Rate"
+                description="Blinks per minute when tracking starts"
+                value={settings.blinkRate.toString()}
+                options={SIMULATED_BLINK_RATE_OPTIONS}
+                onValueChange={(value) => update({ blinkRate: Number(value) })}
+              />
+              <SimulationOptionRow
+                label="Blink Duration"
+                description="How long each blink keeps the eyes closed"
+                value={settings.blinkDuration.toString()}
+                options={SIMULATED_BLINK_DURATION_OPTIONS}
+                onValueChange={(value) => update({ blinkDuration: Number(value) })}
+              />
+              <SimulationOptionRow
+                label="Face Lost"
+                description="Gaps where no face is seen. Gaps over a minute end the session"
+                value={faceLostOption.value}
+                options={SIMULATED_FACE_LOST_OPTIONS}
+                onValueChange={handleFaceLostChange}
+              />
+              <SimulationOptionRow
+                label="Fatigue Drift"
+                description="How quickly the blink rate falls the longer tracking runs"
+                value={settings.fatigueDrift.toString()}
+                options={SIMULATED_FATIGUE_DRIFT_OPTIONS}
+                onValueChange={(value) => update({ fatigueDrift: Number(value) })}
+              />
+              <SimulationOptionRow
+                label="Noise"
+                description="Random jitter added to the eye measurements"
+                value={settings.noise.toString()}
+                options={SIMULATED_NOISE_OPTIONS}
+                onValueChange={(value) => update({ noise: Number(value) })}
+              />
+            </>
+          )}
+        </Flex>
+      </Card>
+    </Box>
+  );
+}
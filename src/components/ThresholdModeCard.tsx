@@ -0,0 +1,53 @@
+"use client";
+
+import React from "react";
+import { Box, Card, Flex, Select, Text } from "@radix-ui/themes";
+import { useCalibration } from "../contexts/CalibrationContext";
+import { useSession } from "../contexts/SessionContext";
+import { ThresholdMode } from "../lib/blink-detection/types";
+
+const THRESHOLD_MODE_OPTIONS: { value: ThresholdMode; label: string }[] = [
+  { value: "static", label: "Fixed" },
+  { value: "adaptive", label: "Adaptive" },
+];
+
+export function ThresholdModeCard() {
+  const { thresholdMode, setThresholdMode, activeCalibration } = useCalibration();
+  const { isTracking, effectiveThreshold } = useSession();
+
+  const handleModeChange = (value: string) => {
+    setThresholdMode(value === "adaptive" ? "adaptive" : "static");
+  };
+
+  return (
+    <Card size="2">
+      <Flex justify="between" align="center" gap="4">
+        <Box style={{ flex: 1 }}>
+          <Text as="div" size="3" weight="medium" mb="1">
+            Threshold Mode
+          </Text>
+          <Text as="div" size="2" color="gray">
+            {thresholdMode === "adaptive"
+              ? "Follows your open-eye level as you move, change lighting or put glasses on. The calibration is used as a starting point."
+              : "Uses the threshold from the active calibration as-is."}
+          </Text>
+          <Text as="div" size="2" color="gray" mt="2">
+            {isTracking
+              ? `Current threshold: ${effectiveThreshold.toFixed(3)}`
+              : `Calibrated threshold: ${(activeCalibration?.earThreshold ?? 0.25).toFixed(3)} (start tracking to see the live value)`}
+          </Text>
+        </Box>
+        <Select.Root value={thresholdMode} onValueChange={handleModeChange}>
+          <Select.Trigger style={{ minWidth: "110px" }} />
+          <Select.Content>
+            {THRESHOLD_MODE_OPTIONS.map((option) => (
+              <Select.Item key={option.value} value={option.value}>
+                {option.label}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+      </Flex>
+    </Card>
+  );
+}
@@ -1,13 +1,14 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Calibration, CalibrationProgress } from '../lib/blink-detection/types';
+import { Calibration, CalibrationProgress, ThresholdMode } from '../lib/blink-detection/types';
 import { CalibrationService } from '../lib/calibration/calibration-service';
 
 interface CalibrationContextType {
   // Calibration data
   calibrations: Calibration[];
   activeCalibration: Calibration | null;
+  thresholdMode: ThresholdMode;
   
   // Calibration process state
   isCalibrating: boolean;
@@ -23,6 +24,7 @@ interface CalibrationContextType {
   stopCalibration: () => void;
   updateCalibrationProgress: (progress: Partial<CalibrationProgress>) => void;
   completeCalibration: (calibration: Omit<Calibration, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  setThresholdMode: (mode: ThresholdMode) => void;
   
   // Helpers
   hasActiveCalibration: () => boolean;
@@ -42,6 +44,7 @@ export function CalibrationProvider({ children }: CalibrationProviderProps) {
   const [activeCalibration, setActiveCalibrationState] = useState<Calibration | null>(null);
   const [isCalibrating, setIsCalibrating] = useState(false);
   const [calibrationProgress, setCalibrationProgress] = useState<CalibrationProgress | null>(null);
+  const [thresholdMode, setThresholdModeState] = useState<ThresholdMode>('static');
 
   // Load calibrations on mount
   useEffect(() => {
@@ -50,6 +53,7 @@ export function CalibrationProvider({ children }: CalibrationProviderProps) {
     // Fix any existing data with multiple active calibrations
     CalibrationService.fixMultipleActiveCalibrations();
     loadCalibrations();
+    setThresholdModeState(CalibrationService.getThresholdMode());
   }, []);
 
   const loadCalibrations = () => {
@@ -201,6 +205,11 @@ export function CalibrationProvider({ children }: CalibrationProviderProps) {
     }
   };
 
+  const setThresholdMode = (mode: ThresholdMode) => {
+    CalibrationService.setThresholdMode(mode);
+    setThresholdModeState(mode);
+  };
+
   const hasActiveCalibration = (): boolean => {
     return activeCalibration !== null;
   };
@@ -221,6 +230,7 @@ export function CalibrationProvider({ children }: CalibrationProviderProps) {
     // Data
     calibrations,
     activeCalibration,
+    thresholdMode,
     isCalibrating,
     calibrationProgress,
     
@@ -234,6 +244,7 @@ export function CalibrationProvider({ children }: CalibrationProviderProps) {
     stopCalibration,
     updateCalibrationProgress,
     completeCalibration,
+    setThresholdMode,
     
     // Helpers
     hasActiveCalibration,
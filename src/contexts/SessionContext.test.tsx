@@ -1,10 +1,15 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
 import { render, screen, act } from '@testing-library/react';
 import { SessionProvider, useSession } from './SessionContext';
 import React from 'react';
+import { CAMERA_IN_USE_RETRY_MS } from '../lib/camera-recovery';
+import { SessionStorageService } from '../lib/sessions/session-storage-service';
+import type { ElectronAPI } from '../lib/electron';
+import { useCamera } from '../hooks/useCamera';
+import { useBlinkDetection } from '../hooks/useBlinkDetection';
 
 // Mock dependencies
-const mockStartCamera = vi.fn().mockResolvedValue(true);
+const mockStartCamera = vi.fn().mockResolvedValue(null);
 const mockStopCamera = vi.fn();
 const mockStartDetection = vi.fn().mockResolvedValue(true);
 const mockStopDetection = vi.fn();
@@ -15,6 +20,10 @@ vi.mock('../hooks/useCamera', () => ({
     videoRef: { current: null },
     startCamera: mockStartCamera,
     stopCamera: mockStopCamera,
+    devices: [],
+    deviceId: null,
+    preferredDeviceId: null,
+    selectCamera: vi.fn(),
     hasPermission: true,
     error: null,
     isLoading: false,
@@ -25,10 +34,28 @@ vi.mock('../hooks/useBlinkDetection', () => ({
   useBlinkDetection: vi.fn(() => ({
     blinkCount: 0,
     currentEAR: 0,
+    leftEAR: 0,
+    rightEAR: 0,
+    effectiveThreshold: 0.25,
+    headPose: null,
+    poseGated: false,
+    strategyBlinkCounts: null,
     isReady: true,
     start: mockStartDetection,
     stop: mockStopDetection,
     processFrame: vi.fn(),
+    processLandmarkFrame: vi.fn(),
+    frameQuality: null,
+    lightingCondition: 'good',
+    multipleFaces: false,
+    perclos: null,
+    gaze: null,
+    lookingAtScreen: true,
+    irisDiameter: null,
+    viewingDistance: null,
+    tooClose: false,
+    posture: 'good',
+    resetPostureReference: vi.fn(),
   })),
 }));
 
@@ -57,9 +84,15 @@ vi.mock('../lib/alert-service', () => ({
     startMonitoring: mockStartMonitoring,
     stopMonitoring: mockStopMonitoring,
     checkForFatigue: mockCheckForFatigue,
+    notifyPoorLighting: vi.fn(),
+    getStaringNudgeMs: vi.fn(() => null),
   })),
 }));
 
+// Tests that override a hook's mock get the default back after each test
+const defaultCamera = vi.mocked(useCamera).getMockImplementation()!;
+const defaultDetection = vi.mocked(useBlinkDetection).getMockImplementation()!;
+
 // Test component that uses the session context
 function TestComponent() {
   const { sessions, activeSession, isTracking, toggleTracking } = useSession();
@@ -75,12 +108,21 @@ function TestComponent() {
 }
 
 describe('SessionContext', () => {
+  let saveSession: MockInstance<typeof SessionStorageService.saveSession>;
+
   beforeEach(() => {
     vi.clearAllMocks();
+    saveSession = vi.spyOn(SessionStorageService, 'saveSession');
   });
 
   afterEach(() => {
     vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.mocked(useCamera).mockImplementation(defaultCamera);
+    vi.mocked(useBlinkDetection).mockImplementation(defaultDetection);
+    saveSession.mockRestore();
+    delete window.electronAPI;
+    localStorage.removeItem('simulatedCamera');
   });
 
   it('provides session context values', () => {
@@ -113,6 +155,330 @@ describe('SessionContext', () => {
     expect(screen.getByTestId('is-tracking')).toHaveTextContent('true');
   });
 
+  it('tracks from the simulated camera instead of the webcam when it is enabled', async () => {
+    localStorage.setItem('simulatedCamera', JSON.stringify({ enabled: true }));
+
+    render(
+      <SessionProvider>
+        <TestComponent />
+      </SessionProvider>
+    );
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+    });
+
+    expect(mockStartCamera).not.toHaveBeenCalled();
+    expect(mockStartMonitoring).toHaveBeenCalled();
+    expect(screen.getByTestId('is-tracking')).toHaveTextContent('true');
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+    });
+  });
+
+  it('keeps tracking on and retries while another app is using the camera', async () => {
+    vi.useFakeTimers();
+    mockStartCamera.mockResolvedValueOnce('in-use');
+
+    const TestComponentWithRecovery = () => {
+      const { isTracking, cameraRecovery, toggleTracking } = useSession();
+      return (
+        <div>
+          <div data-testid="is-tracking">{isTracking ? 'true' : 'false'}</div>
+          <div data-testid="camera-recovery">{cameraRecovery ? cameraRecovery.reason : 'none'}</div>
+          <button onClick={toggleTracking}>Toggle Tracking</button>
+        </div>
+      );
+    };
+
+    render(
+      <SessionProvider>
+        <TestComponentWithRecovery />
+      </SessionProvider>
+    );
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+    });
+
+    expect(screen.getByTestId('is-tracking')).toHaveTextContent('true');
+    expect(screen.getByTestId('camera-recovery')).toHaveTextContent('in-use');
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(CAMERA_IN_USE_RETRY_MS);
+    });
+
+    expect(mockStartCamera).toHaveBeenCalledTimes(2);
+    expect(screen.getByTestId('camera-recovery')).toHaveTextContent('none');
+    expect(screen.getByTestId('is-tracking')).toHaveTextContent('true');
+  });
+
+  it('does not count the face as detected while the camera is away', async () => {
+    vi.useFakeTimers();
+    localStorage.setItem('simulatedCamera', JSON.stringify({ enabled: true }));
+    let cameraOptions: Parameters<typeof useCamera>[0];
+    vi.mocked(useCamera).mockImplementation((options) => {
+      cameraOptions = options;
+      return defaultCamera(options);
+    });
+    vi.mocked(useBlinkDetection).mockImplementation((options) => ({
+      ...defaultDetection(options),
+      currentEAR: 0.3,
+    }));
+
+    const TestComponentWithFace = () => {
+      const { isFaceDetected, cameraRecovery, toggleTracking } = useSession();
+      return (
+        <div>
+          <div data-testid="face-detected">{isFaceDetected ? 'true' : 'false'}</div>
+          <div data-testid="camera-recovery">{cameraRecovery ? cameraRecovery.reason : 'none'}</div>
+          <button onClick={toggleTracking}>Toggle Tracking</button>
+        </div>
+      );
+    };
+
+    render(
+      <SessionProvider>
+        <TestComponentWithFace />
+      </SessionProvider>
+    );
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    expect(screen.getByTestId('face-detected')).toHaveTextContent('true');
+
+    await act(async () => {
+      cameraOptions?.onTrackEnded?.();
+    });
+    expect(screen.getByTestId('camera-recovery')).toHaveTextContent('disconnected');
+    expect(screen.getByTestId('face-detected')).toHaveTextContent('false');
+  });
+
+  it('leaves blinks during poor lighting out of the stored blink rate', async () => {
+    vi.useFakeTimers();
+    localStorage.setItem('simulatedCamera', JSON.stringify({ enabled: true }));
+    let detectionOptions: Parameters<typeof useBlinkDetection>[0] | undefined;
+    let currentEAR = 0.3;
+    vi.mocked(useBlinkDetection).mockImplementation((options) => {
+      detectionOptions = options;
+      return { ...defaultDetection(options), currentEAR };
+    });
+    const blinkAt = (timestamp: number) => detectionOptions?.onBlink?.({
+      timestamp,
+      type: 'bilateral',
+      leftEAR: 0.1,
+      rightEAR: 0.1,
+      duration: 150,
+      phases: { closing: 50, closed: 50, reopening: 50 },
+    });
+
+    const { rerender } = render(
+      <SessionProvider>
+        <TestComponent />
+      </SessionProvider>
+    );
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    expect(screen.getByTestId('active-session')).not.toHaveTextContent('none');
+    const start = Date.now();
+
+    // A new EAR reading makes frame handling pick up the session that just started
+    currentEAR = 0.31;
+    rerender(
+      <SessionProvider>
+        <TestComponent />
+      </SessionProvider>
+    );
+
+    // A minute in good light at 12 blinks a minute, then a poorly lit minute full of blinks,
+    // reported just before tracking stops so they're the last to update the session
+    await act(async () => {
+      for (let i = 0; i < 12; i++) blinkAt(start + i * 5000);
+      await vi.advanceTimersByTimeAsync(60000);
+      detectionOptions?.onLightingChange?.({ condition: 'low-light', since: start + 60000 });
+      await vi.advanceTimersByTimeAsync(59900);
+      for (let i = 0; i < 30; i++) blinkAt(start + 61000 + i * 1900);
+      await vi.advanceTimersByTimeAsync(100);
+    });
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+    });
+
+    const saved = saveSession.mock.calls.at(-1)?.[0];
+    expect(saved?.blinkEvents).toHaveLength(42);
+    expect(saved?.averageBlinkRate).toBeCloseTo(12, 0);
+  });
+
+  it('logs a break on the session once the user looks back at the screen', async () => {
+    vi.useFakeTimers();
+    localStorage.setItem('simulatedCamera', JSON.stringify({ enabled: true }));
+    let detectionOptions: Parameters<typeof useBlinkDetection>[0] | undefined;
+    let currentEAR = 0.3;
+    vi.mocked(useBlinkDetection).mockImplementation((options) => {
+      detectionOptions = options;
+      return { ...defaultDetection(options), currentEAR };
+    });
+
+    const { rerender } = render(
+      <SessionProvider>
+        <TestComponent />
+      </SessionProvider>
+    );
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    const start = Date.now();
+
+    // A new EAR reading makes frame handling pick up the session that just started
+    currentEAR = 0.31;
+    rerender(
+      <SessionProvider>
+        <TestComponent />
+      </SessionProvider>
+    );
+
+    // A glance away too short to count, then half a minute looking away
+    await act(async () => {
+      detectionOptions?.onGazeChange?.({ lookingAtScreen: false, since: start + 10000 });
+      await vi.advanceTimersByTimeAsync(100);
+      detectionOptions?.onGazeChange?.({ lookingAtScreen: true, since: start + 15000 });
+      await vi.advanceTimersByTimeAsync(100);
+      detectionOptions?.onGazeChange?.({ lookingAtScreen: false, since: start + 60000 });
+      await vi.advanceTimersByTimeAsync(100);
+      detectionOptions?.onGazeChange?.({ lookingAtScreen: true, since: start + 90000 });
+      await vi.advanceTimersByTimeAsync(100);
+    });
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+    });
+
+    const saved = saveSession.mock.calls.at(-1)?.[0];
+    expect(saved?.breakPeriods).toEqual([{ start: start + 60000, end: start + 90000 }]);
+  });
+
+  it('logs a break on the session when the camera goes away while the user is out of view', async () => {
+    vi.useFakeTimers();
+    localStorage.setItem('simulatedCamera', JSON.stringify({ enabled: true }));
+    let cameraOptions: Parameters<typeof useCamera>[0];
+    vi.mocked(useCamera).mockImplementation((options) => {
+      cameraOptions = options;
+      return defaultCamera(options);
+    });
+    let currentEAR = 0.3;
+    vi.mocked(useBlinkDetection).mockImplementation((options) => ({
+      ...defaultDetection(options),
+      currentEAR,
+    }));
+
+    const TestComponentWithBreaks = () => {
+      const { activeSession, toggleTracking } = useSession();
+      return (
+        <div>
+          <div data-testid="breaks">{JSON.stringify(activeSession?.breakPeriods ?? [])}</div>
+          <button onClick={toggleTracking}>Toggle Tracking</button>
+        </div>
+      );
+    };
+
+    const { rerender } = render(
+      <SessionProvider>
+        <TestComponentWithBreaks />
+      </SessionProvider>
+    );
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+      await vi.advanceTimersByTimeAsync(100);
+    });
+
+    // A new EAR reading makes frame handling pick up the session that just started
+    currentEAR = 0.31;
+    rerender(
+      <SessionProvider>
+        <TestComponentWithBreaks />
+      </SessionProvider>
+    );
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+
+    // The user steps away for half a minute, then the camera is unplugged
+    currentEAR = 0;
+    rerender(
+      <SessionProvider>
+        <TestComponentWithBreaks />
+      </SessionProvider>
+    );
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    const awaySince = Date.now();
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(30000);
+      cameraOptions?.onTrackEnded?.();
+    });
+    const unpluggedAt = Date.now();
+
+    const breaks = JSON.parse(screen.getByTestId('breaks').textContent ?? '[]');
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0].start).toBeLessThanOrEqual(awaySince);
+    expect(breaks[0].end).toBe(unpluggedAt);
+  });
+
+  it('turns tracking back on after resume when the system went to sleep twice', async () => {
+    localStorage.setItem('simulatedCamera', JSON.stringify({ enabled: true }));
+    let suspend = () => {};
+    let resume = () => {};
+    window.electronAPI = {
+      notifyTrackingStateChanged: vi.fn(),
+      notifyCameraRecoveryChanged: vi.fn(),
+      onToggleTracking: vi.fn(() => () => {}),
+      onSystemSuspend: vi.fn((callback: () => void) => {
+        suspend = callback;
+        return () => {};
+      }),
+      onSystemResume: vi.fn((callback: () => void) => {
+        resume = callback;
+        return () => {};
+      }),
+    } as unknown as ElectronAPI;
+
+    render(
+      <SessionProvider>
+        <TestComponent />
+      </SessionProvider>
+    );
+
+    await act(async () => {
+      screen.getByText('Toggle Tracking').click();
+    });
+    expect(screen.getByTestId('is-tracking')).toHaveTextContent('true');
+
+    // The system goes back to sleep before the first resume is handled
+    await act(async () => {
+      suspend();
+    });
+    await act(async () => {
+      suspend();
+    });
+    expect(screen.getByTestId('is-tracking')).toHaveTextContent('false');
+
+    await act(async () => {
+      resume();
+    });
+    expect(screen.getByTestId('is-tracking')).toHaveTextContent('true');
+  });
+
   it('stops alert monitoring when tracking is disabled', async () => {
     render(
       <SessionProvider>
@@ -162,6 +528,10 @@ describe('SessionContext', () => {
       videoRef: { current: document.createElement('video') },
       startCamera: mockStartCamera,
       stopCamera: mockStopCamera,
+      devices: [],
+      deviceId: null,
+      preferredDeviceId: null,
+      selectCamera: vi.fn(),
         hasPermission: true,
       error: null,
       isLoading: false,
@@ -170,11 +540,29 @@ describe('SessionContext', () => {
     vi.mocked(useBlinkDetection).mockReturnValue({
       blinkCount: 10,
       currentEAR: 0.3, // Face detected
+      leftEAR: 0.3,
+      rightEAR: 0.3,
+      effectiveThreshold: 0.25,
+      headPose: null,
+      poseGated: false,
+      strategyBlinkCounts: null,
       isReady: true,
       start: mockStartDetection,
       stop: mockStopDetection,
       processFrame: vi.fn(),
+      processLandmarkFrame: vi.fn(),
+      frameQuality: null,
+      lightingCondition: 'good',
+      multipleFaces: false,
+      perclos: null,
+      gaze: null,
+      lookingAtScreen: true,
+      irisDiameter: null,
+      viewingDistance: null,
+      tooClose: false,
+      posture: 'good',
       resetBlinkCounter: vi.fn(),
+      resetPostureReference: vi.fn(),
       isBlinking: false,
       error: null,
     });
@@ -303,6 +691,10 @@ describe('SessionContext', () => {
         videoRef: { current: document.createElement('video') },
         startCamera: mockStartCamera,
         stopCamera: mockStopCamera,
+        devices: [],
+        deviceId: null,
+        preferredDeviceId: null,
+        selectCamera: vi.fn(),
         hasPermission: true,
         error: null,
         isLoading: false,
@@ -314,11 +706,29 @@ describe('SessionContext', () => {
       vi.mocked(useBlinkDetection).mockReturnValue({
         blinkCount: currentBlinkCount,
         currentEAR: 0.3, // Face detected
+        leftEAR: 0.3,
+        rightEAR: 0.3,
+        effectiveThreshold: 0.25,
+        headPose: null,
+        poseGated: false,
+        strategyBlinkCounts: null,
         isReady: true,
         start: mockStartDetection,
         stop: mockStopDetection,
         processFrame: vi.fn(),
+        processLandmarkFrame: vi.fn(),
+        frameQuality: null,
+        lightingCondition: 'good',
+        multipleFaces: false,
+        perclos: null,
+        gaze: null,
+        lookingAtScreen: true,
+        irisDiameter: null,
+        viewingDistance: null,
+        tooClose: false,
+        posture: 'good',
         resetBlinkCounter: vi.fn(),
+        resetPostureReference: vi.fn(),
         isBlinking: false,
         error: null,
       });
@@ -356,11 +766,29 @@ describe('SessionContext', () => {
       vi.mocked(useBlinkDetection).mockReturnValue({
         blinkCount: currentBlinkCount,
         currentEAR: 0.3,
+        leftEAR: 0.3,
+        rightEAR: 0.3,
+        effectiveThreshold: 0.25,
+        headPose: null,
+        poseGated: false,
+        strategyBlinkCounts: null,
         isReady: true,
         start: mockStartDetection,
         stop: mockStopDetection,
         processFrame: vi.fn(),
+        processLandmarkFrame: vi.fn(),
+        frameQuality: null,
+        lightingCondition: 'good',
+        multipleFaces: false,
+        perclos: null,
+        gaze: null,
+        lookingAtScreen: true,
+        irisDiameter: null,
+        viewingDistance: null,
+        tooClose: false,
+        posture: 'good',
         resetBlinkCounter: vi.fn(),
+        resetPostureReference: vi.fn(),
         isBlinking: false,
         error: null,
       });
@@ -419,6 +847,10 @@ describe('SessionContext', () => {
         videoRef: { current: document.createElement('video') },
         startCamera: mockStartCamera,
         stopCamera: mockStopCamera,
+        devices: [],
+        deviceId: null,
+        preferredDeviceId: null,
+        selectCamera: vi.fn(),
         hasPermission: true,
         error: null,
         isLoading: false,
@@ -427,11 +859,29 @@ describe('SessionContext', () => {
       vi.mocked(useBlinkDetection).mockReturnValue({
         blinkCount: 0,
         currentEAR: 0.3,
+        leftEAR: 0.3,
+        rightEAR: 0.3,
+        effectiveThreshold: 0.25,
+        headPose: null,
+        poseGated: false,
+        strategyBlinkCounts: null,
         isReady: true,
         start: mockStartDetection,
         stop: mockStopDetection,
         processFrame: vi.fn(),
+        processLandmarkFrame: vi.fn(),
+        frameQuality: null,
+        lightingCondition: 'good',
+        multipleFaces: false,
+        perclos: null,
+        gaze: null,
+        lookingAtScreen: true,
+        irisDiameter: null,
+        viewingDistance: null,
+        tooClose: false,
+        posture: 'good',
         resetBlinkCounter: vi.fn(),
+        resetPostureReference: vi.fn(),
         isBlinking: false,
         error: null,
       });
@@ -459,11 +909,29 @@ describe('SessionContext', () => {
         vi.mocked(useBlinkDetection).mockReturnValue({
           blinkCount: i,
           currentEAR: 0.3,
+          leftEAR: 0.3,
+          rightEAR: 0.3,
+          effectiveThreshold: 0.25,
+          headPose: null,
+          poseGated: false,
+          strategyBlinkCounts: null,
           isReady: true,
           start: mockStartDetection,
           stop: mockStopDetection,
           processFrame: vi.fn(),
+          processLandmarkFrame: vi.fn(),
+          frameQuality: null,
+          lightingCondition: 'good',
+          multipleFaces: false,
+          perclos: null,
+          gaze: null,
+          lookingAtScreen: true,
+          irisDiameter: null,
+          viewingDistance: null,
+          tooClose: false,
+          posture: 'good',
           resetBlinkCounter: vi.fn(),
+          resetPostureReference: vi.fn(),
           isBlinking: i % 2 === 0,
           error: null,
         });
@@ -502,6 +970,10 @@ describe('SessionContext', () => {
         videoRef: { current: document.createElement('video') },
         startCamera: mockStartCamera,
         stopCamera: mockStopCamera,
+        devices: [],
+        deviceId: null,
+        preferredDeviceId: null,
+        selectCamera: vi.fn(),
         hasPermission: true,
         error: null,
         isLoading: false,
@@ -513,11 +985,29 @@ describe('SessionContext', () => {
       vi.mocked(useBlinkDetection).mockReturnValue({
         blinkCount: currentBlinkCount,
         currentEAR: 0.3,
+        leftEAR: 0.3,
+        rightEAR: 0.3,
+        effectiveThreshold: 0.25,
+        headPose: null,
+        poseGated: false,
+        strategyBlinkCounts: null,
         isReady: true,
         start: mockStartDetection,
         stop: mockStopDetection,
         processFrame: vi.fn(),
+        processLandmarkFrame: vi.fn(),
+        frameQuality: null,
+        lightingCondition: 'good',
+        multipleFaces: false,
+        perclos: null,
+        gaze: null,
+        lookingAtScreen: true,
+        irisDiameter: null,
+        viewingDistance: null,
+        tooClose: false,
+        posture: 'good',
         resetBlinkCounter: vi.fn(),
+        resetPostureReference: vi.fn(),
         isBlinking: false,
         error: null,
       });
@@ -557,11 +1047,29 @@ describe('SessionContext', () => {
         vi.mocked(useBlinkDetection).mockReturnValue({
           blinkCount: currentBlinkCount,
           currentEAR: 0.3,
+          leftEAR: 0.3,
+          rightEAR: 0.3,
+          effectiveThreshold: 0.25,
+          headPose: null,
+          poseGated: false,
+          strategyBlinkCounts: null,
           isReady: true,
           start: mockStartDetection,
           stop: mockStopDetection,
           processFrame: vi.fn(),
+          processLandmarkFrame: vi.fn(),
+          frameQuality: null,
+          lightingCondition: 'good',
+          multipleFaces: false,
+          perclos: null,
+          gaze: null,
+          lookingAtScreen: true,
+          irisDiameter: null,
+          viewingDistance: null,
+          tooClose: false,
+          posture: 'good',
           resetBlinkCounter: vi.fn(),
+          resetPostureReference: vi.fn(),
           isBlinking: i % 5 === 0,
           error: null,
         });
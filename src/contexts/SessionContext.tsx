@@ -12,15 +12,48 @@ import React, {
 import {
   SessionData,
   BlinkEvent,
+  calculateBlinkCompleteness,
+  calculateReliableBlinkRate,
+  getBlinkRateExcludedPeriods,
   getSessionQuality,
+  toBlinkEvent,
+  toIncompleteBlinkEvent,
   MAX_BLINK_RATE,
+  PERCLOS_SAMPLE_INTERVAL_MS,
 } from "../lib/sessions/types";
 import { SessionStorageService } from "../lib/sessions/session-storage-service";
+import { DataQualityTracker } from "../lib/sessions/data-quality";
+import { addEndedBreak } from "../lib/sessions/breaks";
 import { useCamera } from "../hooks/useCamera";
+import { useInterval } from "../hooks/useInterval";
 import { useBlinkDetection } from "../hooks/useBlinkDetection";
 import { useCalibration } from "./CalibrationContext";
 import { AlertService } from "../lib/alert-service";
 import { getElectronAPI } from "../lib/electron";
+import { CameraRecovery, CameraRecoveryState, isRecoverableCameraFailure } from "../lib/camera-recovery";
+import {
+  DetectedBlink,
+  DetectionStrategyName,
+  IncompleteBlink,
+  LightingCondition,
+  Microsleep,
+  PostureCondition
+} from "../lib/blink-detection/types";
+import { LightingChange, isPoorLighting } from "../lib/blink-detection/lighting";
+import { MultipleFacesChange } from "../lib/blink-detection/face-selection";
+import { GazeChange } from "../lib/blink-detection/gaze";
+import { TooCloseChange } from "../lib/blink-detection/viewing-distance";
+import { PostureChange, isPoorPosture } from "../lib/blink-detection/posture";
+import { getDetectorSettings } from "../lib/blink-detection/detector-settings";
+import { FrameScheduler, FrameSchedulerStats } from "../lib/utils/frame-scheduler";
+import { LandmarkRecorder, LandmarkRecording, LandmarkReplay } from "../lib/blink-detection/landmark-recording";
+import { LandmarkFrameSource } from "../lib/blink-detection/types";
+import { SimulatedCamera, getSimulationSettings } from "../lib/blink-detection/simulated-camera";
+
+interface ReplayProgress {
+  processedFrames: number;
+  totalFrames: number;
+}
 
 interface SessionContextType {
   sessions: SessionData[];
@@ -30,12 +63,30 @@ interface SessionContextType {
   isFaceDetected: boolean;
   faceLostCountdown: number | null; // seconds remaining before session closes, null if face is detected
   toggleTracking: () => void;
+  importSession: (session: SessionData) => void; // Add a session built from an analyzed recording
   videoRef: React.RefObject<HTMLVideoElement | null>;
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
   // Source of truth for live blink data (derived values computed by consumers)
   currentBlinkCount: number; // Raw blink count from detection (source of truth)
   sessionBaselineBlinkCount: number; // Blink count when active session started
   sessionStartTime: number; // Timestamp when active session started
+  effectiveThreshold: number; // EAR threshold the detector is currently applying
+  strategyBlinkCounts: Record<DetectionStrategyName, number> | null; // Set when comparing detection strategies
+  frameStats: FrameSchedulerStats | null; // Processed/dropped frame counts while tracking, refreshed every few seconds
+  // Debug: record the landmarker's per-frame output, and replay a recording in place of the camera
+  isRecordingLandmarks: boolean;
+  startLandmarkRecording: () => void;
+  stopLandmarkRecording: () => LandmarkRecording | null; // Returns the frames recorded since starting
+  replayLandmarkRecording: (recording: LandmarkRecording, sourceName: string) => void; // Only while not tracking
+  replayProgress: ReplayProgress | null; // Set while a recording is being replayed; toggleTracking stops it
+  isSimulated: boolean; // Tracking runs on the simulated camera (enabled in settings) instead of the real one
+  lightingCondition: LightingCondition; // Light on the face while tracking; poor lighting is left out of the blink rate
+  multipleFaces: boolean; // Others are in view while tracking; only the user's face is tracked
+  lookingAtScreen: boolean; // Whether the user is looking at the screen; time looking away is left out of the blink rate
+  viewingDistance: number | null; // Eye-to-camera distance in cm while tracking, null until the irises were seen
+  tooClose: boolean; // The user has been sitting closer to the screen than recommended
+  posture: PostureCondition; // Posture while tracking, compared with the start of the session
+  cameraRecovery: CameraRecoveryState | null; // Set while tracking waits for a lost camera to be reopened
 }
 
 const SessionContext = createContext<SessionContextType | undefined>(undefined);
@@ -45,8 +96,10 @@ interface SessionProviderProps {
 }
 
 // Constants for session tracking
-const FPS_LOG_INTERVAL_MS = 5000; // Log FPS every 5 seconds
+const FRAME_STATS_INTERVAL_MS = 5000; // Refresh frame stats every 5 seconds
 const FACE_DETECTION_LOST_TIMEOUT_MS = 60000; // Stop session if face lost for 60 seconds
+const CAMERA_STALL_TIMEOUT_MS = 5000; // No frames for this long means another app has frozen the camera
+const CAMERA_STALL_CHECK_INTERVAL_MS = 1000;
 const CAMERA_STABILIZATION_DELAY_MS = 200; // Wait for stable camera feed before processing
 const BLINK_RATE_UPDATE_INTERVAL_MS = 5000; // Update blink rate every 5 seconds
 const WINDOWED_RATE_DURATION_MS = 30000; // 30-second window for calculating current blink rate
@@ -134,6 +187,11 @@ export function SessionProvider({ children }: SessionProviderProps) {
   const [isInitialized, setIsInitialized] = useState(false);
   const [sessionBaselineBlinkCount, setSessionBaselineBlinkCount] = useState(0);
   const [sessionStartTime, setSessionStartTime] = useState(0);
+  const [frameStats, setFrameStats] = useState<FrameSchedulerStats | null>(null);
+  const [isRecordingLandmarks, setIsRecordingLandmarks] = useState(false);
+  const [replayProgress, setReplayProgress] = useState<ReplayProgress | null>(null);
+  const [isSimulated, setIsSimulated] = useState(false);
+  const [cameraRecovery, setCameraRecovery] = useState<CameraRecoveryState | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const lastBlinkUpdateRef = useRef<number>(Date.now());
@@ -142,41 +200,145 @@ export function SessionProvider({ children }: SessionProviderProps) {
   const sessionStartTimeRef = useRef<number>(Date.now());
   const faceDetectionLostTimeRef = useRef<number | null>(null);
   const currentFaceLostPeriodStartRef = useRef<number | null>(null); // Track start of current idle period
+  // Start of the current stretch without a blink, restarted while the face can't be seen
+  // reliably, and whether the user has been nudged to blink during it
+  const staringSinceRef = useRef<number>(Date.now());
+  const staringNudgedRef = useRef(false);
+  // Stare length that triggers the blink nudge, read from settings as each session starts; null when off
+  const staringNudgeMsRef = useRef<number | null>(null);
   const alertServiceRef = useRef<AlertService>(new AlertService());
+  // Paces inference to the target FPS and drops frames while the landmarker is busy
+  const frameSchedulerRef = useRef<FrameScheduler>(new FrameScheduler());
   // Track the last state we sent to main process to detect if incoming toggle is a response to our change
   const lastSentStateRef = useRef<boolean | null>(null);
+  // Whether tracking was on when the system went to sleep, to turn it back on at resume
+  const trackingBeforeSuspendRef = useRef(false);
   // Keep activeSession in ref to avoid stale closures in AlertService monitoring
   const activeSessionRef = useRef<SessionData | null>(null);
   // History of blink count snapshots for windowed rate calculation
   // Each entry is { timestamp, blinkCount } - we keep entries within the window duration
   const blinkSnapshotsRef = useRef<Array<{ timestamp: number; blinkCount: number }>>([]);
+  // Blinks reported by the detector since the last frame was handled
+  const pendingBlinksRef = useRef<DetectedBlink[]>([]);
+  const pendingIncompleteBlinksRef = useRef<IncompleteBlink[]>([]);
+  const pendingMicrosleepsRef = useRef<Microsleep[]>([]);
+  // Latest PERCLOS and viewing distance from the detector, sampled into the session with the other stats
+  const perclosRef = useRef<number | null>(null);
+  const viewingDistanceRef = useRef<number | null>(null);
+  // Lighting changes reported by the detector since the last frame was handled
+  const pendingLightingChangesRef = useRef<LightingChange[]>([]);
+  const pendingMultipleFacesChangesRef = useRef<MultipleFacesChange[]>([]);
+  const pendingGazeChangesRef = useRef<GazeChange[]>([]);
+  const pendingTooCloseChangesRef = useRef<TooCloseChange[]>([]);
+  const pendingPostureChangesRef = useRef<PostureChange[]>([]);
+  // Per-frame quality of the active session, summarized into its dataQuality
+  const dataQualityTrackerRef = useRef(new DataQualityTracker());
+  // Landmark recording being captured, and the replay or simulator standing in for the camera
+  const landmarkRecorderRef = useRef<LandmarkRecorder | null>(null);
+  const landmarkSourceRef = useRef<LandmarkFrameSource | null>(null);
+  // File name of the recording being replayed, shown on the session it produces
+  const replaySourceNameRef = useRef<string | null>(null);
 
   const { activeCalibration } = useCalibration();
+  // Detector choice from settings, re-read whenever tracking starts
+  const [detectorSettings, setDetectorSettings] = useState(getDetectorSettings);
+
+  // Reopens the camera with backoff when it's lost while tracking; tracking stays on meanwhile
+  const cameraRecoveryRef = useRef<CameraRecovery>(new CameraRecovery({
+    retry: () => startCameraRef.current(),
+    onStateChange: (state) => {
+      setCameraRecovery(state);
+      recordCameraRecoveryChangeRef.current(state);
+    },
+    onGiveUp: () => {
+      setTrackingStateRef.current(false);
+    },
+  }));
 
   // Camera and blink detection hooks
   const { stream, videoRef, startCamera, stopCamera } =
-    useCamera();
+    useCamera({
+      onTrackEnded: () => cameraRecoveryRef.current.start('disconnected'),
+    });
 
   // Keep camera functions in refs to avoid stale closures
+  const startCameraRef = useRef(startCamera);
+  startCameraRef.current = startCamera;
   const stopCameraRef = useRef(stopCamera);
   stopCameraRef.current = stopCamera;
 
   const {
     blinkCount,
     currentEAR,
+    effectiveThreshold,
+    strategyBlinkCounts,
+    lightingCondition,
+    multipleFaces,
+    lookingAtScreen,
+    viewingDistance,
+    tooClose,
+    posture,
+    perclos,
+    resetPostureReference,
     start: startDetection,
     stop: stopDetection,
     processFrame,
+    processLandmarkFrame,
   } = useBlinkDetection({
     earThreshold: activeCalibration?.earThreshold || 0.25,
     showDebugOverlay: false, // No visualization needed for background tracking
+    strategy: detectorSettings.strategy,
+    compareStrategies: detectorSettings.compareStrategies,
+    onBlink: (blink) => {
+      pendingBlinksRef.current.push(blink);
+    },
+    onIncompleteBlink: (blink) => {
+      pendingIncompleteBlinksRef.current.push(blink);
+    },
+    onMicrosleep: (microsleep) => {
+      pendingMicrosleepsRef.current.push(microsleep);
+    },
+    onLandmarkFrame: (frame) => {
+      landmarkRecorderRef.current?.addFrame(frame);
+    },
+    onFrameQuality: (quality) => {
+      dataQualityTrackerRef.current.add(quality);
+    },
+    onLightingChange: (change) => {
+      pendingLightingChangesRef.current.push(change);
+    },
+    onMultipleFacesChange: (change) => {
+      pendingMultipleFacesChangesRef.current.push(change);
+    },
+    onGazeChange: (change) => {
+      pendingGazeChangesRef.current.push(change);
+    },
+    onTooCloseChange: (change) => {
+      pendingTooCloseChangesRef.current.push(change);
+    },
+    onPostureChange: (change) => {
+      pendingPostureChangesRef.current.push(change);
+    },
   });
 
+  // Apply the processing rate picked in settings
+  useEffect(() => {
+    frameSchedulerRef.current.setTargetFps(detectorSettings.targetFps);
+  }, [detectorSettings.targetFps]);
+
   // Keep blinkCount ref in sync with state to prevent stale closures
   useEffect(() => {
     blinkCountStateRef.current = blinkCount;
   }, [blinkCount]);
 
+  useEffect(() => {
+    perclosRef.current = perclos;
+  }, [perclos]);
+
+  useEffect(() => {
+    viewingDistanceRef.current = viewingDistance;
+  }, [viewingDistance]);
+
   // Keep activeSession ref in sync with state for AlertService monitoring
   useEffect(() => {
     activeSessionRef.current = activeSession;
@@ -205,9 +367,11 @@ export function SessionProvider({ children }: SessionProviderProps) {
    * MediaStreamTrackProcessor for reliable frame capture
    *
    * CHROMIUM-SPECIFIC IMPLEMENTATION:
-   * - Runs in main thread (W3C spec recommends worker-only usage)
+   * - Frames are read in the main thread (W3C spec recommends worker-only usage)
    * - Required due to MediaStreamTrack transfer limitations to workers
    * - MediaStreamTrack objects cannot be cloned or transferred via postMessage
+   * - Each VideoFrame is transferred to the FaceLandmarker worker (see useFaceLandmarker),
+   *   so inference runs off the main thread and only landmarks come back
    *
    * ELECTRON ANTI-THROTTLING STRATEGY:
    * - Command-line flags: disable-renderer-backgrounding, disable-background-timer-throttling
@@ -219,6 +383,11 @@ export function SessionProvider({ children }: SessionProviderProps) {
    * - Uses setTimeout(0) macrotasks instead of Promise microtasks
    * - Prevents event loop starvation and allows UI updates
    *
+   * FRAME PACING (see FrameScheduler):
+   * - Every camera frame is read, but only frames due at the target FPS are processed
+   * - Frames arriving while inference is still busy are dropped instead of queued
+   * - The rate goes up briefly while EAR is falling so blink onsets aren't missed
+   *
    * RESOURCE MANAGEMENT:
    * - VideoFrame.close() called after each frame to release GPU memory
    * - Critical to prevent memory leaks with WebCodecs API
@@ -230,6 +399,10 @@ export function SessionProvider({ children }: SessionProviderProps) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const readerRef = useRef<any>(null);
   const processingLoopActiveRef = useRef(false);
+  // Stream the frame capture reads from, to notice when the camera is switched under it
+  const trackedStreamRef = useRef<MediaStream | null>(null);
+  // When the last camera frame arrived (performance.now()), to notice the feed freezing
+  const lastFrameTimeRef = useRef(0);
 
   // Initialize detection and start MediaStreamTrackProcessor when stream is ready
   useEffect(() => {
@@ -272,6 +445,7 @@ export function SessionProvider({ children }: SessionProviderProps) {
         await startDetection(canvasRef.current || undefined);
 
         if (mounted) {
+          trackedStreamRef.current = stream;
           setIsInitialized(true);
           console.log('[SessionContext] Detection initialized successfully');
 
@@ -298,31 +472,26 @@ export function SessionProvider({ children }: SessionProviderProps) {
     }
   }, [stream, videoRef]);
 
-  // Track the last recorded blink count to detect new blinks
-  const lastRecordedBlinkCountRef = useRef<number>(0);
-
   // Record a new blink event
-  const recordBlinkEvent = useCallback((blinkTimestamp: number) => {
+  const recordBlinkEvent = useCallback((blink: DetectedBlink) => {
     setActiveSession(prev => {
       if (!prev) return prev;
 
-      const newEvent: BlinkEvent = {
-        timestamp: blinkTimestamp,
-      };
+      const updatedEvents = [...prev.blinkEvents, toBlinkEvent(blink)];
 
-      const updatedEvents = [...prev.blinkEvents, newEvent];
-
-      // Calculate average blink rate from events
-      const sessionDurationMs = Date.now() - prev.startTime.getTime();
-      const sessionDurationMinutes = sessionDurationMs / 60000;
-      const avgRate = sessionDurationMinutes > 0
-        ? updatedEvents.length / sessionDurationMinutes
-        : 0;
+      // Calculate average blink rate from events, leaving out periods without reliable detection
+      const avgRate = calculateReliableBlinkRate(
+        updatedEvents,
+        prev.startTime.getTime(),
+        Date.now(),
+        getBlinkRateExcludedPeriods(prev)
+      );
       const quality = getSessionQuality(avgRate);
 
       const updatedSession: SessionData = {
         ...prev,
         blinkEvents: updatedEvents,
+        blinkCompleteness: calculateBlinkCompleteness(updatedEvents, prev.incompleteBlinkEvents),
         averageBlinkRate: avgRate,
         quality,
         totalBlinks: updatedEvents.length,
@@ -339,24 +508,248 @@ export function SessionProvider({ children }: SessionProviderProps) {
     });
   }, []);
 
+  // Record an incomplete blink - kept apart from blinkEvents so it doesn't count towards the blink rate
+  const recordIncompleteBlinkEvent = useCallback((blink: IncompleteBlink) => {
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      const incompleteBlinkEvents = [...(prev.incompleteBlinkEvents ?? []), toIncompleteBlinkEvent(blink)];
+      const updatedSession: SessionData = {
+        ...prev,
+        incompleteBlinkEvents,
+        blinkCompleteness: calculateBlinkCompleteness(prev.blinkEvents, incompleteBlinkEvents),
+      };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+
+  // Record a microsleep - the detector doesn't report it as a blink, so it stays out of blinkEvents and blink stats
+  const recordMicrosleepEvent = useCallback((microsleep: Microsleep) => {
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      const updatedSession: SessionData = {
+        ...prev,
+        microsleepEvents: [...(prev.microsleepEvents ?? []), { timestamp: microsleep.timestamp, duration: microsleep.duration }],
+      };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+
+  // Close the open poor lighting period, and open a new one if the lighting is still poor
+  const recordLightingChange = useCallback((change: LightingChange) => {
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      // Conditions that started before the session count from its start
+      const since = Math.max(change.since, prev.startTime.getTime());
+      const poorLightingPeriods = (prev.poorLightingPeriods ?? []).map(period =>
+        period.end === undefined ? { ...period, end: since } : period
+      );
+      if (isPoorLighting(change.condition)) {
+        poorLightingPeriods.push({ start: since, condition: change.condition });
+      }
+
+      const updatedSession: SessionData = { ...prev, poorLightingPeriods };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+
+  // Open a period when others come into view, and close it when they leave
+  const recordMultipleFacesChange = useCallback((change: MultipleFacesChange) => {
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      const since = Math.max(change.since, prev.startTime.getTime());
+      const multipleFacePeriods = change.multipleFaces
+        ? [...(prev.multipleFacePeriods ?? []), { start: since }]
+        : (prev.multipleFacePeriods ?? []).map(period =>
+          period.end === undefined ? { ...period, end: since } : period
+        );
+
+      const updatedSession: SessionData = { ...prev, multipleFacePeriods };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+
+  // Open a period when the user looks away from the screen, and close it when they look back
+  const recordGazeChange = useCallback((change: GazeChange) => {
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      const since = Math.max(change.since, prev.startTime.getTime());
+      const lookingAwayPeriods = change.lookingAtScreen
+        ? (prev.lookingAwayPeriods ?? []).map(period =>
+          period.end === undefined ? { ...period, end: since } : period
+        )
+        : [...(prev.lookingAwayPeriods ?? []), { start: since }];
+
+      const updatedSession: SessionData = {
+        ...prev,
+        lookingAwayPeriods,
+        ...(change.lookingAtScreen && {
+          breakPeriods: addEndedBreak({ ...prev, lookingAwayPeriods }, since),
+        }),
+      };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+
+  // Record time without a camera on the session rather than letting it read as face loss,
+  // switching period when the reason changes (a camera unplugged, then taken by a video call)
+  const recordCameraRecoveryChange = useCallback((state: CameraRecoveryState | null) => {
+    const now = Date.now();
+    const reason = state?.reason ?? null;
+
+    // No frames arrive while the camera is away, so a face lost period running when it went
+    // would never close; end it here and look for the face afresh once the camera is back.
+    // Nothing can be seen meanwhile, so the face counts as not detected until a frame shows it
+    let faceLostSince: number | null = null;
+    if (reason !== null) {
+      if (activeSessionRef.current && currentFaceLostPeriodStartRef.current !== null) {
+        faceLostSince = currentFaceLostPeriodStartRef.current;
+        currentFaceLostPeriodStartRef.current = null;
+        faceDetectionLostTimeRef.current = null;
+        setFaceLostCountdown(null);
+      }
+      setIsFaceDetected(false);
+    }
+
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      // Recovery reports every retry; only a change of reason opens or closes a period
+      const periods = prev.cameraUnavailablePeriods ?? [];
+      const openReason = periods.find(period => period.end === undefined)?.reason ?? null;
+      if (openReason === reason && faceLostSince === null) return prev;
+
+      const cameraUnavailablePeriods = openReason === reason ? periods : [
+        ...periods.map(period => (period.end === undefined ? { ...period, end: now } : period)),
+        ...(reason !== null ? [{ start: now, reason }] : []),
+      ];
+      const faceLostPeriods = faceLostSince !== null
+        ? [...(prev.faceLostPeriods ?? []), { start: faceLostSince, end: now }]
+        : prev.faceLostPeriods;
+      const updatedSession: SessionData = {
+        ...prev,
+        cameraUnavailablePeriods,
+        ...(faceLostSince !== null && {
+          faceLostPeriods,
+          breakPeriods: addEndedBreak({ ...prev, faceLostPeriods }, now),
+        }),
+      };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+  // Camera recovery is created once, so it reaches the recorder through a ref
+  const recordCameraRecoveryChangeRef = useRef(recordCameraRecoveryChange);
+
+  // Track periods of poor posture, switching period when the kind of poor posture changes
+  const recordPostureChange = useCallback((change: PostureChange) => {
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      const since = Math.max(change.since, prev.startTime.getTime());
+      const poorPosturePeriods = (prev.poorPosturePeriods ?? []).map(period =>
+        period.end === undefined ? { ...period, end: since } : period
+      );
+      if (isPoorPosture(change.condition)) {
+        poorPosturePeriods.push({ start: since, condition: change.condition });
+      }
+
+      const updatedSession: SessionData = { ...prev, poorPosturePeriods };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+
   // Update session stats periodically (for UI updates without new blinks)
   const updateSessionStats = useCallback((totalBlinks: number) => {
     setActiveSession(prev => {
       if (!prev) return prev;
 
-      // Calculate average blink rate from events
-      const sessionDurationMs = Date.now() - prev.startTime.getTime();
-      const sessionDurationMinutes = sessionDurationMs / 60000;
-      const avgRate = sessionDurationMinutes > 0
-        ? prev.blinkEvents.length / sessionDurationMinutes
-        : 0;
+      // Calculate average blink rate from events, leaving out poorly lit and looking away periods
+      const avgRate = calculateReliableBlinkRate(
+        prev.blinkEvents,
+        prev.startTime.getTime(),
+        Date.now(),
+        getBlinkRateExcludedPeriods(prev)
+      );
       const quality = getSessionQuality(avgRate);
 
+      // Sample PERCLOS and viewing distance into the history at a slower pace than the stats update
+      const now = Date.now();
+      const perclosHistory = prev.perclosHistory ?? [];
+      const lastPerclosPoint = perclosHistory[perclosHistory.length - 1];
+      const latestPerclos = perclosRef.current;
+      const samplePerclos = latestPerclos !== null &&
+        (!lastPerclosPoint || now - lastPerclosPoint.timestamp >= PERCLOS_SAMPLE_INTERVAL_MS);
+      const viewingDistanceHistory = prev.viewingDistanceHistory ?? [];
+      const lastDistancePoint = viewingDistanceHistory[viewingDistanceHistory.length - 1];
+      const latestDistance = viewingDistanceRef.current;
+      const sampleDistance = latestDistance !== null &&
+        (!lastDistancePoint || now - lastDistancePoint.timestamp >= PERCLOS_SAMPLE_INTERVAL_MS);
+
       const updatedSession: SessionData = {
         ...prev,
         averageBlinkRate: avgRate,
         quality,
         totalBlinks,
+        dataQuality: dataQualityTrackerRef.current.getSummary(),
+        perclosHistory: samplePerclos
+          ? [...perclosHistory, { timestamp: now, perclos: latestPerclos }]
+          : perclosHistory,
+        viewingDistanceHistory: sampleDistance
+          ? [...viewingDistanceHistory, { timestamp: now, distance: Math.round(latestDistance) }]
+          : viewingDistanceHistory,
       };
 
       // Update sessions array with the new session data
@@ -390,6 +783,26 @@ export function SessionProvider({ children }: SessionProviderProps) {
     });
   }, []);
 
+  // Drowsiness alerts are counted on their own, apart from fatigue alerts
+  const handleDrowsinessAlert = useCallback(() => {
+    setActiveSession(prev => {
+      if (!prev) return prev;
+
+      const updatedSession: SessionData = {
+        ...prev,
+        drowsinessAlertCount: (prev.drowsinessAlertCount ?? 0) + 1,
+      };
+
+      setSessions(prevSessions =>
+        prevSessions.map(session =>
+          session.id === updatedSession.id ? updatedSession : session
+        )
+      );
+
+      return updatedSession;
+    });
+  }, []);
+
   // Handle frame processing with face detection and blink rate updates
   // Only depend on values that affect the face detection state machine logic
   const handleFrameProcessing = useCallback(() => {
@@ -414,9 +827,11 @@ export function SessionProvider({ children }: SessionProviderProps) {
         setActiveSession(prev => {
           if (!prev) return prev;
 
+          const faceLostPeriods = [...(prev.faceLostPeriods || []), newPeriod];
           const updatedSession = {
             ...prev,
-            faceLostPeriods: [...(prev.faceLostPeriods || []), newPeriod],
+            faceLostPeriods,
+            breakPeriods: addEndedBreak({ ...prev, faceLostPeriods }, periodEnd),
           };
 
           // Update sessions array
@@ -455,24 +870,65 @@ export function SessionProvider({ children }: SessionProviderProps) {
       }
     }
 
-    // Record individual blink events when new blinks are detected
+    // Track poorly lit periods, and tell the user when the lighting gets too poor
+    for (const change of pendingLightingChangesRef.current.splice(0)) {
+      if (isPoorLighting(change.condition)) {
+        alertServiceRef.current.notifyPoorLighting(change.condition);
+      }
+      if (activeSession) {
+        recordLightingChange(change);
+      }
+    }
+    const multipleFacesChanges = pendingMultipleFacesChangesRef.current.splice(0);
+    if (activeSession) {
+      multipleFacesChanges.forEach(recordMultipleFacesChange);
+    }
+    const gazeChanges = pendingGazeChangesRef.current.splice(0);
+    if (activeSession) {
+      gazeChanges.forEach(recordGazeChange);
+    }
+    const postureChanges = pendingPostureChangesRef.current.splice(0);
+    if (activeSession) {
+      postureChanges.forEach(recordPostureChange);
+    }
+
+    // Tell the user when they've been sitting too close to the screen
+    for (const change of pendingTooCloseChangesRef.current.splice(0)) {
+      if (change.tooClose) {
+        alertServiceRef.current.notifyTooClose(change.distance);
+      }
+    }
+
+    // Record individual blink events reported by the detector since the last frame
+    const newBlinks = pendingBlinksRef.current.splice(0);
+    const newIncompleteBlinks = pendingIncompleteBlinksRef.current.splice(0);
+    const newMicrosleeps = pendingMicrosleepsRef.current.splice(0);
     if (activeSession) {
       const currentBlinksSinceStart = blinkCountStateRef.current - blinkCountRef.current;
-      const lastRecordedBlinks = lastRecordedBlinkCountRef.current;
 
-      // Check if new blinks occurred since last check
-      if (currentBlinksSinceStart > lastRecordedBlinks) {
-        const newBlinksCount = currentBlinksSinceStart - lastRecordedBlinks;
-        const now = Date.now();
+      for (const blink of newBlinks) {
+        recordBlinkEvent(blink);
+      }
+      for (const blink of newIncompleteBlinks) {
+        recordIncompleteBlinkEvent(blink);
+      }
+      for (const microsleep of newMicrosleeps) {
+        recordMicrosleepEvent(microsleep);
+      }
 
-        // Record each new blink event
-        // For simplicity, we assign the current timestamp to all new blinks
-        // In reality they may have occurred slightly earlier within this frame interval
-        for (let i = 0; i < newBlinksCount; i++) {
-          recordBlinkEvent(now);
+      // Nudge the user to blink when they stare for longer than the length picked in settings
+      const staringNudgeMs = staringNudgeMsRef.current;
+      if (staringNudgeMs !== null) {
+        const now = Date.now();
+        const lastBlink = newBlinks[newBlinks.length - 1];
+        if (lastBlink || !faceCurrentlyDetected || !lookingAtScreen || isPoorLighting(lightingCondition)) {
+          staringSinceRef.current = lastBlink ? lastBlink.timestamp : now;
+          staringNudgedRef.current = false;
+        } else if (!staringNudgedRef.current && now - staringSinceRef.current >= staringNudgeMs) {
+          alertServiceRef.current.notifyStaring(now - staringSinceRef.current);
+          // One try per stare, even when the cooldown held the nudge back
+          staringNudgedRef.current = true;
         }
-
-        lastRecordedBlinkCountRef.current = currentBlinksSinceStart;
       }
 
       // Periodically update session stats (for UI updates)
@@ -482,25 +938,27 @@ export function SessionProvider({ children }: SessionProviderProps) {
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentEAR, isFaceDetected, recordBlinkEvent, updateSessionStats]); // activeSession read from ref; blinkCount read from ref
+  }, [currentEAR, isFaceDetected, recordBlinkEvent, recordIncompleteBlinkEvent, recordMicrosleepEvent, recordLightingChange, recordMultipleFacesChange, recordGazeChange, recordPostureChange, updateSessionStats, lookingAtScreen, lightingCondition]); // activeSession read from ref; blinkCount read from ref
 
   // Store stable references to avoid triggering worker callback changes
   const processFrameRef = useRef(processFrame);
+  const processLandmarkFrameRef = useRef(processLandmarkFrame);
   const handleFrameProcessingRef = useRef(handleFrameProcessing);
 
   useEffect(() => {
     processFrameRef.current = processFrame;
+    processLandmarkFrameRef.current = processLandmarkFrame;
     handleFrameProcessingRef.current = handleFrameProcessing;
-  }, [processFrame, handleFrameProcessing]);
+  }, [processFrame, processLandmarkFrame, handleFrameProcessing]);
 
   // Fallback frame processing using requestAnimationFrame for browsers without MediaStreamTrackProcessor
   const startRafFallback = useCallback(() => {
     processingLoopActiveRef.current = true;
     console.log('[SessionContext] Using requestAnimationFrame fallback for frame processing');
 
-    // FPS monitoring
-    let frameCount = 0;
-    let lastFpsLog = Date.now();
+    const scheduler = frameSchedulerRef.current;
+
+    let lastStatsUpdate = performance.now();
 
     const processLoop = async () => {
       if (!processingLoopActiveRef.current || !videoRef.current) {
@@ -508,22 +966,24 @@ export function SessionProvider({ children }: SessionProviderProps) {
       }
 
       const video = videoRef.current;
-      if (video.readyState >= 2) {
+      const now = performance.now();
+      // Animation frames aren't camera frames, so skipped ticks aren't counted as dropped
+      if (video.readyState >= 2 && scheduler.isDue(now)) {
+        scheduler.beginFrame(now);
+        let ear: number | null = null;
         try {
-          await processFrameRef.current(video, undefined);
+          ear = (await processFrameRef.current(video, undefined)) ?? null;
           handleFrameProcessingRef.current();
-
-          // FPS monitoring
-          frameCount++;
-          const now = Date.now();
-          if (now - lastFpsLog >= FPS_LOG_INTERVAL_MS) {
-            const fps = (frameCount / ((now - lastFpsLog) / 1000)).toFixed(1);
-            console.log(`[SessionContext] FPS (fallback): ${fps}`);
-            frameCount = 0;
-            lastFpsLog = now;
-          }
         } catch (error) {
           console.error('[SessionContext] Frame processing error (fallback):', error);
+        } finally {
+          scheduler.endFrame(performance.now(), ear);
+        }
+
+        const end = performance.now();
+        if (end - lastStatsUpdate >= FRAME_STATS_INTERVAL_MS) {
+          setFrameStats(scheduler.getStats(end));
+          lastStatsUpdate = end;
         }
       }
 
@@ -549,15 +1009,23 @@ export function SessionProvider({ children }: SessionProviderProps) {
       readerRef.current = processorRef.current.readable.getReader();
       processingLoopActiveRef.current = true;
 
+      lastFrameTimeRef.current = performance.now();
       console.log('[SessionContext] MediaStreamTrackProcessor initialized');
 
-      // FPS monitoring
-      let frameCount = 0;
-      let lastFpsLog = Date.now();
+      const scheduler = frameSchedulerRef.current;
+
+      let lastStatsUpdate = performance.now();
+
+      const updateFrameStats = (now: number) => {
+        if (now - lastStatsUpdate < FRAME_STATS_INTERVAL_MS) return;
+        setFrameStats(scheduler.getStats(now));
+        lastStatsUpdate = now;
+      };
 
       // Start the frame processing loop
       // Uses setTimeout(0) to create macrotasks instead of microtasks
       // This prevents starving the event loop and allows UI updates
+      // Reading never waits for inference, so frames that arrive while it's busy are dropped, not queued
       const processLoop = async () => {
         if (!readerRef.current || !processingLoopActiveRef.current) {
           return;
@@ -572,29 +1040,31 @@ export function SessionProvider({ children }: SessionProviderProps) {
             return;
           }
 
-          // Process VideoFrame directly with MediaPipe
-          // VideoFrame is a TexImageSource and can be used directly without conversion
-          try {
+          const now = performance.now();
+          lastFrameTimeRef.current = now;
+          if (scheduler.offerFrame(now)) {
             // Pass VideoFrame directly to MediaPipe (zero-copy, more efficient)
-            await processFrameRef.current(frame, undefined);
-            handleFrameProcessingRef.current();
-
-            // FPS monitoring
-            frameCount++;
-            const now = Date.now();
-            if (now - lastFpsLog >= FPS_LOG_INTERVAL_MS) {
-              const fps = (frameCount / ((now - lastFpsLog) / 1000)).toFixed(1);
-              console.log(`[SessionContext] FPS: ${fps}`);
-              frameCount = 0;
-              lastFpsLog = now;
-            }
-          } catch (error) {
-            console.error('[SessionContext] Frame processing error:', error);
-          } finally {
-            // CRITICAL: Close the VideoFrame to release GPU memory
+            // VideoFrame is a TexImageSource and can be used directly without conversion
+            let ear: number | null = null;
+            Promise.resolve(processFrameRef.current(frame, undefined))
+              .then((result) => {
+                ear = result ?? null;
+                handleFrameProcessingRef.current();
+              })
+              .catch((error) => {
+                console.error('[SessionContext] Frame processing error:', error);
+              })
+              .finally(() => {
+                // CRITICAL: Close the VideoFrame to release GPU memory
+                frame.close();
+                scheduler.endFrame(performance.now(), ear);
+              });
+          } else {
             frame.close();
           }
 
+          updateFrameStats(now);
+
           // Continue processing if still active
           // Use setTimeout(0) to schedule as macrotask, allowing event loop breathing room
           if (processingLoopActiveRef.current) {
@@ -635,23 +1105,70 @@ export function SessionProvider({ children }: SessionProviderProps) {
     }
 
     processorRef.current = null;
+    frameSchedulerRef.current.reset();
+    setFrameStats(null);
     console.log('[SessionContext] MediaStreamTrackProcessor stopped');
   }, []);
 
+  // Some cameras keep the track live but stop sending frames when another app takes them over;
+  // treat a frozen feed as the camera being in use and reopen it once it's free
+  useInterval(() => {
+    if (!processorRef.current || cameraRecoveryRef.current.isRecovering) return;
+    if (performance.now() - lastFrameTimeRef.current < CAMERA_STALL_TIMEOUT_MS) return;
+
+    console.warn('[SessionContext] Camera stopped sending frames, waiting for it to be free');
+    cameraRecoveryRef.current.start('in-use');
+    trackedStreamRef.current = null;
+    stopTrackProcessor().then(() => stopCameraRef.current());
+  }, isTracking && !isSimulated ? CAMERA_STALL_CHECK_INTERVAL_MS : null);
+
+  // The camera can switch while tracking (the preferred camera reconnecting); move frame capture to it
+  useEffect(() => {
+    if (!stream || !isInitialized || !isTracking || trackedStreamRef.current === stream) {
+      return;
+    }
+
+    const videoTrack = stream.getVideoTracks()[0];
+    if (!videoTrack) return;
+
+    console.log('[SessionContext] Camera changed, restarting frame capture');
+    trackedStreamRef.current = stream;
+    stopTrackProcessor().then(() => startTrackProcessor(videoTrack));
+  }, [stream, isInitialized, isTracking, startTrackProcessor, stopTrackProcessor]);
+
   const startSession = useCallback(() => {
     if (!isTracking || activeSession || !isFaceDetected) return;
 
+    const startTime = new Date();
     const newSession: SessionData = {
-      id: `session-${Date.now()}`,
-      startTime: new Date(),
+      id: `session-${startTime.getTime()}`,
+      startTime,
       isActive: true,
       averageBlinkRate: 0,
       blinkEvents: [], // Individual blink events
+      incompleteBlinkEvents: [],
+      microsleepEvents: [],
+      perclosHistory: [],
+      viewingDistanceHistory: [],
       quality: "good",
       fatigueAlertCount: 0,
+      drowsinessAlertCount: 0,
       calibrationId: activeCalibration?.id,
       totalBlinks: 0,
       faceLostPeriods: [],
+      // The lighting may already be poor when the session starts
+      poorLightingPeriods: isPoorLighting(lightingCondition)
+        ? [{ start: startTime.getTime(), condition: lightingCondition }]
+        : [],
+      multipleFacePeriods: multipleFaces ? [{ start: startTime.getTime() }] : [],
+      lookingAwayPeriods: lookingAtScreen ? [] : [{ start: startTime.getTime() }],
+      poorPosturePeriods: [],
+      cameraUnavailablePeriods: [],
+      breakPeriods: [],
+      ...(replaySourceNameRef.current !== null && {
+        isImported: true,
+        sourceName: replaySourceNameRef.current,
+      }),
     };
 
     setActiveSession(newSession);
@@ -660,27 +1177,65 @@ export function SessionProvider({ children }: SessionProviderProps) {
     sessionStartTimeRef.current = Date.now();
     currentFaceLostPeriodStartRef.current = null; // Reset idle period tracking
     blinkSnapshotsRef.current = []; // Reset blink snapshots for windowed rate calculation
-    lastRecordedBlinkCountRef.current = 0; // Reset blink event tracking
+    pendingBlinksRef.current = []; // Drop blinks seen before the session started
+    pendingIncompleteBlinksRef.current = [];
+    pendingMicrosleepsRef.current = [];
+    pendingLightingChangesRef.current = []; // The session starts from the current lighting condition
+    pendingMultipleFacesChangesRef.current = [];
+    pendingGazeChangesRef.current = [];
+    pendingPostureChangesRef.current = [];
+    staringSinceRef.current = Date.now();
+    staringNudgedRef.current = false;
+    staringNudgeMsRef.current = alertServiceRef.current.getStaringNudgeMs();
+    // Posture is judged against how the user sits as the session starts
+    resetPostureReference();
+    dataQualityTrackerRef.current.reset();
     // Set baseline values for consumers to derive live counts
     setSessionBaselineBlinkCount(blinkCount);
     setSessionStartTime(Date.now());
-  }, [isTracking, activeSession, isFaceDetected, blinkCount, activeCalibration]);
+  }, [isTracking, activeSession, isFaceDetected, blinkCount, activeCalibration, lightingCondition, multipleFaces, lookingAtScreen, resetPostureReference]);
 
   const stopSession = useCallback(() => {
     if (!activeSession) return;
 
+    const stopTime = Date.now();
+
     // Close any open face lost period
     const faceLostPeriods = [...(activeSession.faceLostPeriods || [])];
     if (currentFaceLostPeriodStartRef.current !== null) {
       faceLostPeriods.push({
         start: currentFaceLostPeriodStartRef.current,
-        end: Date.now(),
+        end: stopTime,
       });
       currentFaceLostPeriodStartRef.current = null;
     }
 
+    // Close poor lighting, multiple face, looking away, poor posture and camera periods that are still open
+    const poorLightingPeriods = (activeSession.poorLightingPeriods ?? []).map((period) =>
+      period.end === undefined ? { ...period, end: stopTime } : period
+    );
+    const multipleFacePeriods = (activeSession.multipleFacePeriods ?? []).map((period) =>
+      period.end === undefined ? { ...period, end: stopTime } : period
+    );
+    const lookingAwayPeriods = (activeSession.lookingAwayPeriods ?? []).map((period) =>
+      period.end === undefined ? { ...period, end: stopTime } : period
+    );
+    const poorPosturePeriods = (activeSession.poorPosturePeriods ?? []).map((period) =>
+      period.end === undefined ? { ...period, end: stopTime } : period
+    );
+    const cameraUnavailablePeriods = (activeSession.cameraUnavailablePeriods ?? []).map((period) =>
+      period.end === undefined ? { ...period, end: stopTime } : period
+    );
+
     // Use ref to prevent stale closure
     const totalBlinks = blinkCountStateRef.current - blinkCountRef.current;
+    // Settle the average over the whole session, with every excluded period now closed
+    const averageBlinkRate = calculateReliableBlinkRate(
+      activeSession.blinkEvents,
+      activeSession.startTime.getTime(),
+      stopTime,
+      getBlinkRateExcludedPeriods({ poorLightingPeriods, lookingAwayPeriods, cameraUnavailablePeriods })
+    );
     const updatedSession: SessionData = {
       ...activeSession,
       endTime: new Date(),
@@ -689,7 +1244,17 @@ export function SessionProvider({ children }: SessionProviderProps) {
         (new Date().getTime() - activeSession.startTime.getTime()) / 1000
       ),
       totalBlinks,
+      averageBlinkRate,
+      quality: getSessionQuality(averageBlinkRate),
       faceLostPeriods,
+      poorLightingPeriods,
+      multipleFacePeriods,
+      lookingAwayPeriods,
+      poorPosturePeriods,
+      cameraUnavailablePeriods,
+      // A break still going on ends with the session
+      breakPeriods: addEndedBreak({ ...activeSession, faceLostPeriods, lookingAwayPeriods }, stopTime),
+      dataQuality: dataQualityTrackerRef.current.getSummary(),
     };
 
     setActiveSession(null);
@@ -718,13 +1283,34 @@ export function SessionProvider({ children }: SessionProviderProps) {
     }
 
     if (enabled) {
+      setDetectorSettings(getDetectorSettings());
+      const simulation = getSimulationSettings();
       // Start camera when enabling tracking
       try {
-        await startCamera();
+        if (simulation.enabled) {
+          // Synthetic frames go straight to detection - no camera or MediaPipe to start
+          const simulatedCamera = new SimulatedCamera(simulation, {
+            onFrame: (frame) => {
+              processLandmarkFrameRef.current(frame);
+              handleFrameProcessingRef.current();
+            },
+          });
+          landmarkSourceRef.current = simulatedCamera;
+          setIsSimulated(true);
+          setIsInitialized(true);
+          simulatedCamera.start();
+        } else {
+          const failure = await startCamera();
+          // Keep tracking on and retry rather than dropping the user's choice
+          if (failure && isRecoverableCameraFailure(failure)) {
+            cameraRecoveryRef.current.start(failure);
+          }
+        }
         // Start alert monitoring (use ref to avoid stale closure)
         alertServiceRef.current.startMonitoring(
           () => activeSessionRef.current,
-          handleFatigueAlert
+          handleFatigueAlert,
+          handleDrowsinessAlert
         );
       } catch (error) {
         console.error("Failed to start camera:", error);
@@ -736,14 +1322,21 @@ export function SessionProvider({ children }: SessionProviderProps) {
       }
     } else {
       // Stop everything when disabling tracking
+      cameraRecoveryRef.current.cancel();
       if (activeSession) {
         stopSession();
       }
+      landmarkSourceRef.current?.stop();
+      landmarkSourceRef.current = null;
+      replaySourceNameRef.current = null;
+      setReplayProgress(null);
+      setIsSimulated(false);
       setIsInitialized(false);
       stopDetection();
       // Await stopTrackProcessor to ensure reader is properly cancelled
       // before stopping the camera - critical for Windows camera cleanup
       await stopTrackProcessor();
+      trackedStreamRef.current = null;
       // Use ref to ensure we call the current stopCamera, not a stale closure
       stopCameraRef.current();
       setIsFaceDetected(false);
@@ -758,12 +1351,64 @@ export function SessionProvider({ children }: SessionProviderProps) {
     stopTrackProcessor,
     stopSession,
     handleFatigueAlert,
+    handleDrowsinessAlert,
   ]);
 
+  const importSession = useCallback((session: SessionData) => {
+    // Recordings can be older than existing sessions, so keep the list in start time order
+    setSessions((prev) =>
+      [session, ...prev].sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+    );
+    SessionStorageService.saveSession(session);
+  }, []);
+
   const toggleTracking = useCallback(async () => {
     await setTrackingState(!isTracking);
   }, [isTracking, setTrackingState]);
 
+  // The replay ends on a timer, after isTracking has changed, so it stops tracking through a ref
+  const setTrackingStateRef = useRef(setTrackingState);
+  useEffect(() => {
+    setTrackingStateRef.current = setTrackingState;
+  }, [setTrackingState]);
+
+  const startLandmarkRecording = useCallback(() => {
+    landmarkRecorderRef.current = new LandmarkRecorder();
+    setIsRecordingLandmarks(true);
+  }, []);
+
+  const stopLandmarkRecording = useCallback((): LandmarkRecording | null => {
+    const recording = landmarkRecorderRef.current?.getRecording() ?? null;
+    landmarkRecorderRef.current = null;
+    setIsRecordingLandmarks(false);
+    return recording;
+  }, []);
+
+  // Drive tracking from a landmark recording instead of the camera: frames go through the same
+  // detection and face/session handling as live ones, with no camera or MediaPipe involved
+  const replayLandmarkRecording = useCallback((recording: LandmarkRecording, sourceName: string) => {
+    if (isTracking) return;
+
+    setDetectorSettings(getDetectorSettings());
+    replaySourceNameRef.current = sourceName;
+    setIsTracking(true);
+    setIsInitialized(true); // Nothing to load
+    setReplayProgress({ processedFrames: 0, totalFrames: recording.frames.length });
+
+    const replay = new LandmarkReplay(recording, {
+      onFrame: (frame, index) => {
+        processLandmarkFrameRef.current(frame);
+        handleFrameProcessingRef.current();
+        setReplayProgress({ processedFrames: index + 1, totalFrames: recording.frames.length });
+      },
+      onEnd: () => {
+        setTrackingStateRef.current(false);
+      },
+    });
+    landmarkSourceRef.current = replay;
+    replay.start();
+  }, [isTracking]);
+
   // Listen for tracking toggle commands from Electron main process (tray menu)
   useEffect(() => {
     const electronAPI = getElectronAPI();
@@ -794,7 +1439,9 @@ export function SessionProvider({ children }: SessionProviderProps) {
 
     const cleanup = electronAPI.onSystemSuspend(() => {
       console.log('[SessionContext] System suspending - stopping tracking');
+      // A second suspend before resume must not forget that tracking was on before the first
       if (isTracking) {
+        trackingBeforeSuspendRef.current = true;
         setTrackingState(false);
       }
     });
@@ -802,6 +1449,36 @@ export function SessionProvider({ children }: SessionProviderProps) {
     return cleanup;
   }, [isTracking, setTrackingState]);
 
+  // Turn tracking back on after resume if it was on before sleep. The camera can take a few
+  // seconds to come back, which camera recovery retries through
+  useEffect(() => {
+    const electronAPI = getElectronAPI();
+    if (!electronAPI?.onSystemResume) return;
+
+    const cleanup = electronAPI.onSystemResume(() => {
+      if (!trackingBeforeSuspendRef.current) return;
+      trackingBeforeSuspendRef.current = false;
+      console.log('[SessionContext] System resumed - restoring tracking');
+      setTrackingState(true);
+    });
+
+    return cleanup;
+  }, [setTrackingState]);
+
+  // Show camera reconnection, or waiting for another app to free the camera, in the tray
+  const cameraRecoveryStatus = cameraRecovery === null
+    ? null
+    : cameraRecovery.reason === 'in-use' ? 'in-use' : 'reconnecting';
+  useEffect(() => {
+    getElectronAPI()?.notifyCameraRecoveryChanged?.(cameraRecoveryStatus);
+  }, [cameraRecoveryStatus]);
+
+  // Stop retrying on unmount
+  useEffect(() => {
+    const recovery = cameraRecoveryRef.current;
+    return () => recovery.cancel();
+  }, []);
+
   // Start session when tracking is enabled and face is detected
   useEffect(() => {
     if (isTracking && isFaceDetected && !activeSession) {
@@ -823,11 +1500,28 @@ export function SessionProvider({ children }: SessionProviderProps) {
     isFaceDetected,
     faceLostCountdown,
     toggleTracking,
+    importSession,
     videoRef,
     canvasRef,
     currentBlinkCount: blinkCount,
     sessionBaselineBlinkCount,
     sessionStartTime,
+    effectiveThreshold,
+    strategyBlinkCounts,
+    frameStats,
+    isRecordingLandmarks,
+    startLandmarkRecording,
+    stopLandmarkRecording,
+    replayLandmarkRecording,
+    replayProgress,
+    isSimulated,
+    cameraRecovery,
+    lightingCondition,
+    multipleFaces,
+    lookingAtScreen,
+    viewingDistance,
+    tooClose,
+    posture,
   };
 
   return (
@@ -1,49 +1,220 @@
-import { useState, useCallback, useRef, useMemo } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { useFaceLandmarker } from './useFaceLandmarker';
 import { FaceMeshVisualizer } from '../lib/blink-detection/face-mesh-visualizer';
-import { extractBothEyeLandmarks } from '../lib/blink-detection/landmark-extractor';
-import { calculateAverageEAR } from '../lib/blink-detection/ear-calculator';
+import { extractBothEyeLandmarks, extractIrisDiameter, extractIrisOffset } from '../lib/blink-detection/landmark-extractor';
+import { calculateEyeEARs } from '../lib/blink-detection/ear-calculator';
+import { IncompleteBlinkDetector } from '../lib/blink-detection/incomplete-blink';
+import { DrowsinessMonitor, isMicrosleepBlink } from '../lib/blink-detection/drowsiness';
+import { AdaptiveThreshold } from '../lib/blink-detection/adaptive-threshold';
+import { correctEyeEARsForPose, getHeadPose, isPoseWithinLimits } from '../lib/blink-detection/head-pose';
+import { BlendshapeStrategy, EarThresholdStrategy, getEyeBlinkScores } from '../lib/blink-detection/detection-strategies';
+import { DEFAULT_BLINK_ENGINE_CONFIG } from '../lib/blink-detection/blink-engine';
+import { CaptureClock, performanceTimeToWallClock } from '../lib/utils/capture-clock';
+import { BrightnessMeter, FaceLightingMeter } from '../lib/utils/brightness-meter';
+import { assessFrameQuality, measureFrame } from '../lib/blink-detection/frame-quality';
+import { LightingChange, LightingMonitor } from '../lib/blink-detection/lighting';
+import { GazeChange, GazeMonitor, estimateGaze, isLookingAtScreen } from '../lib/blink-detection/gaze';
+import { PostureChange, PostureMonitor } from '../lib/blink-detection/posture';
+import {
+  TooCloseChange,
+  ViewingDistanceMonitor,
+  estimateViewingDistance,
+  focalLengthFromFov
+} from '../lib/blink-detection/viewing-distance';
+import {
+  MAX_TRACKED_FACES,
+  MultipleFacesChange,
+  MultipleFacesMonitor,
+  PrimaryFaceTracker,
+  selectFaceResults
+} from '../lib/blink-detection/face-selection';
+import {
+  BlinkDetectionStrategy,
+  BlinkFrame,
+  DetectedBlink,
+  DetectionStrategyName,
+  FrameQuality,
+  Gaze,
+  HeadPose,
+  IncompleteBlink,
+  LandmarkFrame,
+  LightingCondition,
+  Microsleep,
+  PostureCondition,
+  ThresholdMode
+} from '../lib/blink-detection/types';
+import { CalibrationService } from '../lib/calibration/calibration-service';
 import { useCalibration } from '../contexts/CalibrationContext';
 
 interface BlinkDetectionState {
   blinkCount: number;
   currentEAR: number;
+  leftEAR: number;
+  rightEAR: number;
+  effectiveThreshold: number; // Threshold applied to the latest frame (changes over time in adaptive mode)
+  headPose: HeadPose | null;
+  poseGated: boolean; // Head turned too far for EAR to be trusted, detection paused
+  gaze: Gaze | null; // Gaze direction on the latest frame, null without a face
+  lookingAtScreen: boolean; // Whether the user is looking at the screen, smoothed over the last few seconds
+  irisDiameter: number | null; // Iris width on the latest frame in image widths, e.g. to calibrate distance
+  viewingDistance: number | null; // Eye-to-camera distance in cm, smoothed; null until the irises were seen
+  tooClose: boolean; // Closer to the screen than recommended for the last few seconds
+  posture: PostureCondition; // Posture compared with the start of the session, smoothed over the last 30 seconds
+  strategyBlinkCounts: Record<DetectionStrategyName, number> | null; // Per-strategy totals, only when comparing
+  frameQuality: FrameQuality | null; // How well the face was seen on the latest frame, null without a face
+  lightingCondition: LightingCondition; // Light on the face, smoothed over the last few seconds
+  multipleFaces: boolean; // Other people in view besides the tracked user, smoothed over the last few seconds
+  perclos: number | null; // Share of the last minute the eyes were mostly closed, null until enough was seen
   isBlinking: boolean;
   error: string | null;
 }
 
 interface UseBlinkDetectionOptions {
   earThreshold?: number;
-  consecutiveFrames?: number;
+  minClosureMs?: number;
   debounceTime?: number;
+  thresholdMode?: ThresholdMode; // Defaults to the mode picked on the calibration page
+  strategy?: DetectionStrategyName;
+  compareStrategies?: boolean; // Debug: run every strategy side by side and report their counts
   showDebugOverlay?: boolean;
+  onBlink?: (blink: DetectedBlink) => void; // Called synchronously when a counted blink ends
+  onIncompleteBlink?: (blink: IncompleteBlink) => void; // Called when a dip recovers without reaching the threshold
+  onMicrosleep?: (microsleep: Microsleep) => void; // Called when the eyes reopen after a closure too long for a blink; it isn't reported as a blink
+  onLandmarkFrame?: (frame: LandmarkFrame) => void; // Called with every frame's landmarker output, e.g. to record it
+  onFrameQuality?: (quality: FrameQuality) => void; // Called for every frame with a face
+  onLightingChange?: (change: LightingChange) => void; // Called when the smoothed lighting condition changes
+  onMultipleFacesChange?: (change: MultipleFacesChange) => void; // Called when other people come into or leave view
+  onGazeChange?: (change: GazeChange) => void; // Called when the user looks away from or back at the screen
+  onTooCloseChange?: (change: TooCloseChange) => void; // Called when the user gets too close to the screen or moves back
+  onPostureChange?: (change: PostureChange) => void; // Called when the user's posture gets worse or recovers
 }
 
 export function useBlinkDetection(options: UseBlinkDetectionOptions = {}) {
-  const { activeCalibration } = useCalibration();
+  const { activeCalibration, thresholdMode } = useCalibration();
   const [state, setState] = useState<BlinkDetectionState>({
     blinkCount: 0,
     currentEAR: 0,
+    leftEAR: 0,
+    rightEAR: 0,
+    effectiveThreshold: options.earThreshold ?? activeCalibration?.earThreshold ?? DEFAULT_BLINK_ENGINE_CONFIG.earThreshold,
+    headPose: null,
+    poseGated: false,
+    gaze: null,
+    lookingAtScreen: true,
+    irisDiameter: null,
+    viewingDistance: null,
+    tooClose: false,
+    posture: 'good',
+    strategyBlinkCounts: null,
+    frameQuality: null,
+    lightingCondition: 'good',
+    multipleFaces: false,
+    perclos: null,
     isBlinking: false,
     error: null,
   });
 
   const visualizerRef = useRef<FaceMeshVisualizer | null>(null);
-  const detectionStateRef = useRef({
-    consecutiveFramesBelow: 0,
-    lastBlinkTime: 0,
-    isCurrentlyBlinking: false,
-  });
+  // Keep the latest callback in a ref so detectBlink stays stable across renders
+  const onBlinkRef = useRef(options.onBlink);
+  const onIncompleteBlinkRef = useRef(options.onIncompleteBlink);
+  const onMicrosleepRef = useRef(options.onMicrosleep);
+  const onLandmarkFrameRef = useRef(options.onLandmarkFrame);
+  const onFrameQualityRef = useRef(options.onFrameQuality);
+  const onLightingChangeRef = useRef(options.onLightingChange);
+  const onMultipleFacesChangeRef = useRef(options.onMultipleFacesChange);
+  const onGazeChangeRef = useRef(options.onGazeChange);
+  const onTooCloseChangeRef = useRef(options.onTooCloseChange);
+  const onPostureChangeRef = useRef(options.onPostureChange);
+  // The last microsleep, so the blink the strategy reports for the same closure is left out
+  const lastMicrosleepRef = useRef<Microsleep | null>(null);
+
+  useEffect(() => {
+    onBlinkRef.current = options.onBlink;
+    onIncompleteBlinkRef.current = options.onIncompleteBlink;
+    onMicrosleepRef.current = options.onMicrosleep;
+    onLandmarkFrameRef.current = options.onLandmarkFrame;
+    onFrameQualityRef.current = options.onFrameQuality;
+    onLightingChangeRef.current = options.onLightingChange;
+    onMultipleFacesChangeRef.current = options.onMultipleFacesChange;
+    onGazeChangeRef.current = options.onGazeChange;
+    onTooCloseChangeRef.current = options.onTooCloseChange;
+    onPostureChangeRef.current = options.onPostureChange;
+  }, [
+    options.onBlink,
+    options.onIncompleteBlink,
+    options.onMicrosleep,
+    options.onLandmarkFrame,
+    options.onFrameQuality,
+    options.onLightingChange,
+    options.onMultipleFacesChange,
+    options.onGazeChange,
+    options.onTooCloseChange,
+    options.onPostureChange,
+  ]);
 
   // Memoize config to prevent useCallback dependency changes on every render
   const config = useMemo(() => ({
-    earThreshold: options.earThreshold ?? activeCalibration?.earThreshold ?? 0.25,
-    consecutiveFrames: options.consecutiveFrames ?? 2,
-    debounceTime: options.debounceTime ?? 50,
+    earThreshold: options.earThreshold ?? activeCalibration?.earThreshold ?? DEFAULT_BLINK_ENGINE_CONFIG.earThreshold,
+    minClosureMs: options.minClosureMs ?? DEFAULT_BLINK_ENGINE_CONFIG.minClosureMs,
+    debounceTime: options.debounceTime ?? DEFAULT_BLINK_ENGINE_CONFIG.debounceTime,
+    thresholdMode: options.thresholdMode ?? thresholdMode ?? 'static',
+    strategy: options.strategy ?? 'ear-threshold',
+    compareStrategies: options.compareStrategies ?? false,
     showDebugOverlay: options.showDebugOverlay ?? true,
-  }), [options.earThreshold, options.consecutiveFrames, options.debounceTime, options.showDebugOverlay, activeCalibration?.earThreshold]);
+  }), [options.earThreshold, options.minClosureMs, options.debounceTime, options.thresholdMode, options.strategy, options.compareStrategies, options.showDebugOverlay, activeCalibration?.earThreshold, thresholdMode]);
+
+  // One instance of each strategy; only the selected one runs unless comparing
+  const strategies = useMemo(() => {
+    const closureConfig = {
+      minClosureMs: config.minClosureMs,
+      debounceTime: config.debounceTime,
+    };
+    return {
+      'ear-threshold': new EarThresholdStrategy({ ...closureConfig, earThreshold: config.earThreshold }),
+      blendshape: new BlendshapeStrategy(closureConfig),
+    } satisfies Record<DetectionStrategyName, BlinkDetectionStrategy>;
+  }, [config.earThreshold, config.minClosureMs, config.debounceTime]);
+
+  // The calibration is the prior for the adaptive threshold
+  const adaptiveThreshold = useMemo(
+    () => new AdaptiveThreshold({
+      priorThreshold: config.earThreshold,
+      priorOpenEAR: activeCalibration ? CalibrationService.getOpenEyeEAR(activeCalibration) : undefined,
+    }),
+    [config.earThreshold, activeCalibration]
+  );
+
+  // Tracks the open-eye baseline, so it starts over when the threshold changes
+  const incompleteBlinkDetector = useMemo(
+    () => new IncompleteBlinkDetector({ earThreshold: config.earThreshold }),
+    [config.earThreshold]
+  );
+
+  // PERCLOS and microsleeps, measured against the same open-eye prior as the adaptive threshold
+  const drowsinessMonitor = useMemo(
+    () => new DrowsinessMonitor({
+      earThreshold: config.earThreshold,
+      priorOpenEAR: activeCalibration ? CalibrationService.getOpenEyeEAR(activeCalibration) : undefined,
+    }),
+    [config.earThreshold, activeCalibration]
+  );
+
+  // Maps VideoFrame capture times to the wall clock
+  const captureClock = useMemo(() => new CaptureClock(), []);
+  const brightnessMeter = useMemo(() => new BrightnessMeter(), []);
+  const faceLightingMeter = useMemo(() => new FaceLightingMeter(), []);
+  const lightingMonitor = useMemo(() => new LightingMonitor(), []);
+  // Several faces are detected so the user's can be picked out from people passing behind
+  const primaryFaceTracker = useMemo(() => new PrimaryFaceTracker(), []);
+  const multipleFacesMonitor = useMemo(() => new MultipleFacesMonitor(), []);
+  const gazeMonitor = useMemo(() => new GazeMonitor(), []);
+  // The calibration's distance step measures the camera; otherwise a typical webcam is assumed
+  const focalLength = activeCalibration?.cameraFocalLength ?? focalLengthFromFov();
+  const viewingDistanceMonitor = useMemo(() => new ViewingDistanceMonitor(), []);
+  const postureMonitor = useMemo(() => new PostureMonitor(), []);
 
-  const { isInitialized, initialize, detectForVideo, dispose } = useFaceLandmarker();
+  const { isInitialized, initialize, detectForVideo, dispose } = useFaceLandmarker({ numFaces: MAX_TRACKED_FACES });
 
   const initializeVisualizer = useCallback(async (canvas: HTMLCanvasElement) => {
     if (!visualizerRef.current) {
@@ -52,40 +223,230 @@ export function useBlinkDetection(options: UseBlinkDetectionOptions = {}) {
     }
   }, []);
 
-  const detectBlink = useCallback((currentEAR: number, timestamp: number): boolean => {
-    const state = detectionStateRef.current;
-    
-    if (currentEAR < config.earThreshold) {
-      state.consecutiveFramesBelow++;
-      
-      if (state.consecutiveFramesBelow >= config.consecutiveFrames && 
-          !state.isCurrentlyBlinking &&
-          timestamp - state.lastBlinkTime > config.debounceTime) {
-        
-        state.isCurrentlyBlinking = true;
-        state.lastBlinkTime = timestamp;
-        return true;
+  // Threshold for the current frame - adaptive mode feeds it the lower eye, which is what triggers blinks
+  const updateThreshold = useCallback((leftEAR: number, rightEAR: number): number => {
+    if (config.thresholdMode !== 'adaptive') {
+      return config.earThreshold;
+    }
+    return adaptiveThreshold.update(Math.min(leftEAR, rightEAR));
+  }, [config.thresholdMode, config.earThreshold, adaptiveThreshold]);
+
+  // Run the selected strategy (and the others when comparing) on one frame. Returns whether the
+  // eyes are closed, and how many blinks ended and were reported through onBlink
+  const detectBlink = useCallback((frame: BlinkFrame, threshold: number): { isBlinking: boolean; completedBlinks: number } => {
+    strategies['ear-threshold'].setEarThreshold(threshold);
+
+    incompleteBlinkDetector.setEarThreshold(threshold);
+    const incompleteBlink = incompleteBlinkDetector.update(frame.leftEAR, frame.rightEAR, frame.timestamp);
+    if (incompleteBlink) {
+      onIncompleteBlinkRef.current?.(incompleteBlink);
+    }
+
+    drowsinessMonitor.setEarThreshold(threshold);
+    const microsleep = drowsinessMonitor.update(frame.leftEAR, frame.rightEAR, frame.timestamp);
+    if (microsleep) {
+      lastMicrosleepRef.current = microsleep;
+      onMicrosleepRef.current?.(microsleep);
+    }
+
+    // Blinks count as they end, so a closure cut short by losing the face is never counted
+    let completedBlinks = 0;
+    const result = strategies[config.strategy].processFrame(frame);
+    for (const event of result.events) {
+      if (event.type !== 'blink-end') continue;
+
+      const lastMicrosleep = lastMicrosleepRef.current;
+      if (lastMicrosleep && isMicrosleepBlink(event.blink, lastMicrosleep)) {
+        lastMicrosleepRef.current = null;
+      } else {
+        completedBlinks++;
+        onBlinkRef.current?.(event.blink);
+      }
+    }
+
+    if (config.compareStrategies) {
+      Object.values(strategies)
+        .filter(strategy => strategy.name !== config.strategy)
+        .forEach(strategy => strategy.processFrame(frame));
+    }
+
+    return { isBlinking: result.isBlinking, completedBlinks };
+  }, [config.strategy, config.compareStrategies, strategies, incompleteBlinkDetector, drowsinessMonitor]);
+
+  // No usable face this frame - a closure in progress can't be finished, so every strategy drops it
+  const loseFace = useCallback((timestamp: number) => {
+    Object.values(strategies).forEach(strategy => strategy.processMissingFace(timestamp));
+    drowsinessMonitor.markMissing();
+  }, [strategies, drowsinessMonitor]);
+
+  // Run detection on one frame of landmarker output; returns its EAR, or null when there was no usable face
+  const processLandmarkFrame = useCallback((frame: LandmarkFrame): number | null => {
+    onLandmarkFrameRef.current?.(frame);
+
+    const { face } = frame;
+    if (!face) {
+      loseFace(frame.timestamp);
+      setState(prev => ({
+        ...prev,
+        currentEAR: 0,
+        leftEAR: 0,
+        rightEAR: 0,
+        headPose: null,
+        poseGated: false,
+        gaze: null,
+        irisDiameter: null,
+        frameQuality: null,
+        isBlinking: false,
+        error: null,
+      }));
+      return null;
+    }
+
+    const currentEAR = (face.leftEAR + face.rightEAR) / 2;
+    const frameQuality = assessFrameQuality(face.measurements, face.headPose);
+    onFrameQualityRef.current?.(frameQuality);
+    const lightingChange = lightingMonitor.update(frameQuality.lighting, frame.timestamp);
+    if (lightingChange) {
+      onLightingChangeRef.current?.(lightingChange);
+    }
+    const lightingCondition = lightingMonitor.condition;
+    const multipleFacesChange = multipleFacesMonitor.update(face.measurements.faceCount, frame.timestamp);
+    if (multipleFacesChange) {
+      onMultipleFacesChangeRef.current?.(multipleFacesChange);
+    }
+    const multipleFaces = multipleFacesMonitor.multipleFaces;
+
+    // The irises can't be seen mid-blink, so the gaze is held until the eyes reopen
+    const gaze = estimateGaze(face.irisOffset, face.headPose);
+    if (gaze && !strategies[config.strategy].getState().isCurrentlyBlinking) {
+      const gazeChange = gazeMonitor.update(isLookingAtScreen(gaze), frame.timestamp);
+      if (gazeChange) {
+        onGazeChangeRef.current?.(gazeChange);
+      }
+    }
+    const lookingAtScreen = gazeMonitor.lookingAtScreen;
+
+    const distance = face.irisDiameter === null
+      ? null
+      : estimateViewingDistance(face.irisDiameter, face.headPose, focalLength);
+    if (distance !== null) {
+      const tooCloseChange = viewingDistanceMonitor.update(distance, frame.timestamp);
+      if (tooCloseChange) {
+        onTooCloseChangeRef.current?.(tooCloseChange);
       }
-    } else {
-      state.consecutiveFramesBelow = 0;
-      state.isCurrentlyBlinking = false;
     }
+    const viewingDistance = viewingDistanceMonitor.distance;
+    const tooClose = viewingDistanceMonitor.tooClose;
 
-    return state.isCurrentlyBlinking;
-  }, [config]);
+    // Posture is judged whatever the gaze: a dropped head often reads as looking away too. A
+    // glance down at notes doesn't last the posture hold, so it isn't reported as slouching
+    if (face.headPose) {
+      const postureChange = postureMonitor.update(face.headPose, face.measurements.faceSize, frame.timestamp);
+      if (postureChange) {
+        onPostureChangeRef.current?.(postureChange);
+      }
+    }
+    const posture = postureMonitor.condition;
 
+    // Frames with an extreme head pose are skipped
+    if (face.headPose && !isPoseWithinLimits(face.headPose)) {
+      setState(prev => ({
+        ...prev,
+        currentEAR,
+        leftEAR: face.leftEAR,
+        rightEAR: face.rightEAR,
+        headPose: face.headPose,
+        poseGated: true,
+        gaze,
+        lookingAtScreen,
+        irisDiameter: face.irisDiameter,
+        viewingDistance,
+        tooClose,
+        posture,
+        frameQuality,
+        lightingCondition,
+        multipleFaces,
+        error: null,
+      }));
+      return null;
+    }
+
+    const threshold = updateThreshold(face.leftEAR, face.rightEAR);
+    const { isBlinking, completedBlinks } = detectBlink({
+      timestamp: frame.timestamp,
+      leftEAR: face.leftEAR,
+      rightEAR: face.rightEAR,
+      blinkScores: face.blinkScores,
+    }, threshold);
+    const strategyBlinkCounts = config.compareStrategies
+      ? {
+          'ear-threshold': strategies['ear-threshold'].getState().totalBlinks,
+          blendshape: strategies.blendshape.getState().totalBlinks,
+        }
+      : null;
+
+    setState(prev => ({
+      ...prev,
+      currentEAR,
+      leftEAR: face.leftEAR,
+      rightEAR: face.rightEAR,
+      effectiveThreshold: threshold,
+      headPose: face.headPose,
+      poseGated: false,
+      gaze,
+      lookingAtScreen,
+      irisDiameter: face.irisDiameter,
+      viewingDistance,
+      tooClose,
+      posture,
+      strategyBlinkCounts,
+      frameQuality,
+      lightingCondition,
+      multipleFaces,
+      perclos: drowsinessMonitor.getPerclos(),
+      isBlinking,
+      blinkCount: prev.blinkCount + completedBlinks,
+      error: null,
+    }));
+    return currentEAR;
+  }, [
+    config.strategy,
+    config.compareStrategies,
+    detectBlink,
+    loseFace,
+    updateThreshold,
+    strategies,
+    lightingMonitor,
+    multipleFacesMonitor,
+    gazeMonitor,
+    viewingDistanceMonitor,
+    postureMonitor,
+    focalLength,
+    drowsinessMonitor,
+  ]);
+
+  // Resolves to the frame's EAR, or null when there was no usable face
   const processFrame = useCallback(async (
     source: TexImageSource,
     canvas?: HTMLCanvasElement | null
-  ) => {
+  ): Promise<number | null> => {
     // For HTMLVideoElement, check readyState
     if (source instanceof HTMLVideoElement && source.readyState < 2) {
-      return;
+      return null;
     }
 
     try {
       const timestamp = performance.now();
+      // Wall-clock capture time of this frame - blinks are stamped with it rather than when processing finished
+      const captureTime = typeof VideoFrame !== 'undefined' && source instanceof VideoFrame
+        ? captureClock.toWallClock(source.timestamp / 1000)
+        : performanceTimeToWallClock(timestamp);
+      // ImageData can't be drawn into a canvas, so its light isn't measured
+      const canMeasureLight = !(typeof ImageData !== 'undefined' && source instanceof ImageData);
+      const brightness = canMeasureLight ? brightnessMeter.measure(source as CanvasImageSource, timestamp) : null;
       const results = await detectForVideo(source, timestamp);
+      // Only the user's face is tracked; anyone else in view is ignored
+      const faceIndex = primaryFaceTracker.select(results?.faceLandmarks ?? [], captureTime);
 
       if (!results || !results.faceLandmarks || results.faceLandmarks.length === 0) {
         // Log only occasionally to avoid spam
@@ -111,14 +472,12 @@ export function useBlinkDetection(options: UseBlinkDetectionOptions = {}) {
             results: results ? 'empty' : 'null'
           });
         }
-        setState(prev => ({
-          ...prev,
-          currentEAR: 0,
-          isBlinking: false,
-          error: null,
-        }));
-        return;
+        return processLandmarkFrame({ timestamp: captureTime, face: null });
+      }
+      if (faceIndex === null) {
+        return processLandmarkFrame({ timestamp: captureTime, face: null });
       }
+      const primaryResults = selectFaceResults(results, faceIndex);
 
       // Get dimensions from HTMLVideoElement, VideoFrame, or ImageBitmap
       let width: number, height: number;
@@ -138,7 +497,7 @@ export function useBlinkDetection(options: UseBlinkDetectionOptions = {}) {
       // Draw visualization if enabled
       if (config.showDebugOverlay && canvas && visualizerRef.current) {
         visualizerRef.current.drawResults(
-          { faceLandmarks: results.faceLandmarks },
+          { faceLandmarks: primaryResults.faceLandmarks },
           width,
           height
         );
@@ -146,38 +505,61 @@ export function useBlinkDetection(options: UseBlinkDetectionOptions = {}) {
 
       // Extract eye landmarks and calculate EAR
       const eyeLandmarks = extractBothEyeLandmarks(
-        { faceLandmarks: results.faceLandmarks },
+        primaryResults,
         width,
         height
       );
 
       if (!eyeLandmarks) {
-        setState(prev => ({
-          ...prev,
-          currentEAR: 0,
-          isBlinking: false,
-          error: 'No eye landmarks detected',
-        }));
-        return;
+        processLandmarkFrame({ timestamp: captureTime, face: null });
+        setState(prev => ({ ...prev, error: 'No eye landmarks detected' }));
+        return null;
       }
 
-      const currentEAR = calculateAverageEAR(eyeLandmarks.leftEye, eyeLandmarks.rightEye);
-      const isBlinking = detectBlink(currentEAR, Date.now());
+      const faceLandmarks = primaryResults.faceLandmarks[0] ?? [];
+      const faceLighting = canMeasureLight
+        ? faceLightingMeter.measure(source as CanvasImageSource, faceLandmarks, eyeLandmarks, width, height, timestamp)
+        : null;
 
-      setState(prev => ({
-        ...prev,
-        currentEAR,
-        isBlinking,
-        blinkCount: isBlinking && !prev.isBlinking ? prev.blinkCount + 1 : prev.blinkCount,
-        error: null,
-      }));
+      // EAR is corrected for head rotation
+      const headPose = getHeadPose(primaryResults);
+      const ears = correctEyeEARsForPose(
+        calculateEyeEARs(eyeLandmarks.leftEye, eyeLandmarks.rightEye),
+        headPose
+      );
+
+      return processLandmarkFrame({
+        timestamp: captureTime,
+        face: {
+          leftEye: eyeLandmarks.leftEye,
+          rightEye: eyeLandmarks.rightEye,
+          leftEAR: ears.left,
+          rightEAR: ears.right,
+          headPose,
+          irisOffset: extractIrisOffset(primaryResults, width, height),
+          irisDiameter: extractIrisDiameter(primaryResults, width, height),
+          blinkScores: getEyeBlinkScores(primaryResults),
+          measurements: measureFrame(
+            faceLandmarks, eyeLandmarks, width, height, brightness, faceLighting, results.faceLandmarks.length
+          ),
+        },
+      });
     } catch {
       setState(prev => ({
         ...prev,
         error: 'Failed to process frame',
       }));
+      return null;
     }
-  }, [detectForVideo, config.showDebugOverlay, detectBlink]);
+  }, [
+    detectForVideo,
+    config.showDebugOverlay,
+    processLandmarkFrame,
+    captureClock,
+    brightnessMeter,
+    faceLightingMeter,
+    primaryFaceTracker,
+  ]);
 
   const start = useCallback(async (canvas?: HTMLCanvasElement) => {
     try {
@@ -208,27 +590,75 @@ export function useBlinkDetection(options: UseBlinkDetectionOptions = {}) {
     setState({
       blinkCount: 0,
       currentEAR: 0,
+      leftEAR: 0,
+      rightEAR: 0,
+      effectiveThreshold: config.earThreshold,
+      headPose: null,
+      poseGated: false,
+      gaze: null,
+      lookingAtScreen: true,
+      irisDiameter: null,
+      viewingDistance: null,
+      tooClose: false,
+      posture: 'good',
+      strategyBlinkCounts: null,
+      frameQuality: null,
+      lightingCondition: 'good',
+      multipleFaces: false,
+      perclos: null,
       isBlinking: false,
       error: null,
     });
 
-    detectionStateRef.current = {
-      consecutiveFramesBelow: 0,
-      lastBlinkTime: 0,
-      isCurrentlyBlinking: false,
-    };
-  }, [dispose]);
+    Object.values(strategies).forEach(strategy => strategy.reset());
+    incompleteBlinkDetector.reset();
+    drowsinessMonitor.reset();
+    adaptiveThreshold.reset();
+    captureClock.reset();
+    brightnessMeter.reset();
+    faceLightingMeter.reset();
+    lightingMonitor.reset();
+    primaryFaceTracker.reset();
+    multipleFacesMonitor.reset();
+    gazeMonitor.reset();
+    viewingDistanceMonitor.reset();
+    postureMonitor.reset();
+  }, [
+    dispose,
+    strategies,
+    incompleteBlinkDetector,
+    drowsinessMonitor,
+    adaptiveThreshold,
+    captureClock,
+    brightnessMeter,
+    faceLightingMeter,
+    lightingMonitor,
+    primaryFaceTracker,
+    multipleFacesMonitor,
+    gazeMonitor,
+    viewingDistanceMonitor,
+    postureMonitor,
+    config.earThreshold,
+  ]);
 
   const resetBlinkCounter = useCallback(() => {
     setState(prev => ({ ...prev, blinkCount: 0 }));
   }, []);
 
+  // Take the posture over the next few seconds as the new reference, e.g. when a session starts
+  const resetPostureReference = useCallback(() => {
+    postureMonitor.reset();
+    setState(prev => ({ ...prev, posture: 'good' }));
+  }, [postureMonitor]);
+
   return {
     ...state,
     isReady: isInitialized,
     start,
     stop,
     processFrame,
+    processLandmarkFrame,
     resetBlinkCounter,
+    resetPostureReference,
   };
 }
\ No newline at end of file
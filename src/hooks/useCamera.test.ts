@@ -3,16 +3,23 @@ import { useCamera } from "./useCamera";
 
 // Mock navigator.mediaDevices
 const mockGetUserMedia = vi.fn();
+const mockEnumerateDevices = vi.fn();
 Object.defineProperty(global.navigator, "mediaDevices", {
   value: {
     getUserMedia: mockGetUserMedia,
+    enumerateDevices: mockEnumerateDevices,
   },
   writable: true,
 });
 
+const cameraInfo = (deviceId: string, label: string) =>
+  ({ kind: "videoinput", deviceId, label, groupId: "" }) as MediaDeviceInfo;
+
 describe("useCamera Hook", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
+    mockEnumerateDevices.mockResolvedValue([]);
   });
 
   test("initial state is correct", () => {
@@ -27,6 +34,14 @@ describe("useCamera Hook", () => {
     expect(typeof result.current.stopCamera).toBe("function");
   });
 
+  test("loads the saved camera choice after mount", () => {
+    localStorage.setItem("cameraDeviceId", "external");
+
+    const { result } = renderHook(() => useCamera());
+
+    expect(result.current.preferredDeviceId).toBe("external");
+  });
+
   test("startCamera successfully gets media stream", async () => {
     const mockStream = new MediaStream();
     const mockVideoTrack = new MediaStreamTrack();
@@ -182,4 +197,139 @@ describe("useCamera Hook", () => {
       }
     });
   });
+
+  test("startCamera opens the preferred camera when it's connected", async () => {
+    localStorage.setItem("cameraDeviceId", "external");
+    mockEnumerateDevices.mockResolvedValue([cameraInfo("builtin", "FaceTime HD"), cameraInfo("external", "USB Webcam")]);
+    const mockStream = new MediaStream();
+    mockStream.addTrack(new MediaStreamTrack());
+    mockGetUserMedia.mockResolvedValue(mockStream);
+
+    const { result } = renderHook(() => useCamera());
+
+    await act(async () => {
+      await result.current.startCamera();
+    });
+
+    expect(mockGetUserMedia).toHaveBeenCalledWith({
+      video: {
+        deviceId: { exact: "external" },
+        width: { ideal: 640 },
+        height: { ideal: 480 }
+      },
+      audio: false,
+    });
+    expect(result.current.deviceId).toBe("external");
+    expect(result.current.devices).toEqual([
+      { deviceId: "builtin", label: "FaceTime HD" },
+      { deviceId: "external", label: "USB Webcam" },
+    ]);
+  });
+
+  test("startCamera uses the default camera while the preferred one is unplugged", async () => {
+    localStorage.setItem("cameraDeviceId", "external");
+    mockEnumerateDevices.mockResolvedValue([cameraInfo("builtin", "FaceTime HD")]);
+    const mockStream = new MediaStream();
+    mockStream.addTrack(new MediaStreamTrack());
+    mockGetUserMedia.mockResolvedValue(mockStream);
+
+    const { result } = renderHook(() => useCamera());
+
+    await act(async () => {
+      await result.current.startCamera();
+    });
+
+    expect(mockGetUserMedia).toHaveBeenCalledWith(
+      expect.objectContaining({ video: expect.objectContaining({ facingMode: "user" }) })
+    );
+    expect(result.current.stream).toBe(mockStream);
+    // The choice is kept for when the camera comes back
+    expect(result.current.preferredDeviceId).toBe("external");
+  });
+
+  test("startCamera falls back to the default camera when the preferred one can't be opened", async () => {
+    localStorage.setItem("cameraDeviceId", "external");
+    mockEnumerateDevices.mockResolvedValue([cameraInfo("external", "USB Webcam")]);
+    const missingError = new Error("Requested device not found");
+    missingError.name = "NotFoundError";
+    const mockStream = new MediaStream();
+    mockStream.addTrack(new MediaStreamTrack());
+    mockGetUserMedia.mockRejectedValueOnce(missingError).mockResolvedValueOnce(mockStream);
+
+    const { result } = renderHook(() => useCamera());
+
+    await act(async () => {
+      await result.current.startCamera();
+    });
+
+    expect(mockGetUserMedia).toHaveBeenCalledTimes(2);
+    expect(result.current.stream).toBe(mockStream);
+    expect(result.current.error).toBe(null);
+  });
+
+  test("selectCamera saves the choice and switches a running camera over", async () => {
+    mockEnumerateDevices.mockResolvedValue([cameraInfo("builtin", "FaceTime HD"), cameraInfo("external", "USB Webcam")]);
+    const firstStream = new MediaStream();
+    const firstTrack = new MediaStreamTrack();
+    const mockStopTrack = vi.fn();
+    firstTrack.stop = mockStopTrack;
+    firstStream.addTrack(firstTrack);
+    const secondStream = new MediaStream();
+    secondStream.addTrack(new MediaStreamTrack());
+    mockGetUserMedia.mockResolvedValueOnce(firstStream).mockResolvedValueOnce(secondStream);
+
+    const { result } = renderHook(() => useCamera());
+
+    await act(async () => {
+      await result.current.startCamera();
+    });
+    await act(async () => {
+      await result.current.selectCamera("external");
+    });
+
+    expect(localStorage.getItem("cameraDeviceId")).toBe("external");
+    expect(result.current.preferredDeviceId).toBe("external");
+    expect(mockStopTrack).toHaveBeenCalled();
+    expect(mockGetUserMedia).toHaveBeenLastCalledWith(
+      expect.objectContaining({ video: expect.objectContaining({ deviceId: { exact: "external" } }) })
+    );
+    expect(result.current.stream).toBe(secondStream);
+  });
+
+  test("startCamera reports a camera another app is using", async () => {
+    const busyError = new Error("Could not start video source");
+    busyError.name = "NotReadableError";
+    mockGetUserMedia.mockRejectedValue(busyError);
+
+    const { result } = renderHook(() => useCamera());
+
+    let failure;
+    await act(async () => {
+      failure = await result.current.startCamera();
+    });
+
+    expect(failure).toBe("in-use");
+    expect(result.current.error).toBe("Camera is in use by another app");
+  });
+
+  test("onTrackEnded is called when the camera stops unexpectedly", async () => {
+    const mockStream = new MediaStream();
+    const mockVideoTrack = Object.assign(new MediaStreamTrack(), { kind: "video" });
+    mockStream.addTrack(mockVideoTrack);
+    mockGetUserMedia.mockResolvedValue(mockStream);
+    const onTrackEnded = vi.fn();
+
+    const { result } = renderHook(() => useCamera({ onTrackEnded }));
+
+    await act(async () => {
+      await result.current.startCamera();
+    });
+    act(() => {
+      mockVideoTrack.onended?.call(mockVideoTrack, new Event("ended"));
+    });
+
+    expect(onTrackEnded).toHaveBeenCalled();
+    expect(result.current.stream).toBe(null);
+    expect(result.current.error).toBe("Camera disconnected");
+  });
 });
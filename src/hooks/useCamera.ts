@@ -1,44 +1,111 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  CameraDevice,
+  getPreferredCameraId,
+  listCameras,
+  resolveCameraId,
+  savePreferredCameraId,
+} from '../lib/camera-devices';
+import type { CameraFailure } from '../lib/camera-recovery';
 
 interface CameraState {
   stream: MediaStream | null;
   isLoading: boolean;
   error: string | null;
   hasPermission: boolean;
+  devices: CameraDevice[];
+  deviceId: string | null; // Camera the stream comes from
+  preferredDeviceId: string | null; // Camera the user picked, null for the system default
 }
 
 interface CameraOptions {
   facingMode?: 'user' | 'environment';
+  onTrackEnded?: () => void; // The camera stopped delivering frames without stopCamera being called
 }
 
+// The camera was unplugged between listing devices and opening it
+function isMissingDeviceError(err: unknown): boolean {
+  const name = (err as Error | null)?.name;
+  return name === 'OverconstrainedError' || name === 'NotFoundError';
+}
+
+function classifyCameraError(err: Error): CameraFailure {
+  switch (err.name) {
+    case 'NotAllowedError':
+      return 'permission-denied';
+    case 'NotReadableError':
+      return 'in-use';
+    default:
+      return 'failed';
+  }
+}
+
+const CAMERA_ERROR_MESSAGES: Record<CameraFailure, string> = {
+  'permission-denied': 'Camera permission denied',
+  'in-use': 'Camera is in use by another app',
+  disconnected: 'Camera disconnected',
+  failed: 'Failed to access camera',
+};
+
 export function useCamera(options: CameraOptions = {}) {
-  const { facingMode = 'user' } = options;
+  const { facingMode = 'user', onTrackEnded } = options;
 
   const [state, setState] = useState<CameraState>({
     stream: null,
     isLoading: false,
     error: null,
     hasPermission: false,
+    devices: [],
+    deviceId: null,
+    preferredDeviceId: null,
   });
 
   const videoRef = useRef<HTMLVideoElement>(null);
   // Keep a ref to the stream to avoid stale closure issues in stopCamera
   const streamRef = useRef<MediaStream | null>(null);
+  // Read by the devicechange listener, which outlives any one render
+  const deviceIdRef = useRef<string | null>(null);
+  const onTrackEndedRef = useRef(onTrackEnded);
+
+  useEffect(() => {
+    onTrackEndedRef.current = onTrackEnded;
+  }, [onTrackEnded]);
+
+  // Read the saved camera after mount so the first render matches the server's
+  useEffect(() => {
+    setState(prev => ({ ...prev, preferredDeviceId: getPreferredCameraId() }));
+  }, []);
 
-  const startCamera = useCallback(async () => {
+  const openStream = useCallback((deviceId: string | null) => {
+    return navigator.mediaDevices.getUserMedia({
+      video: {
+        ...(deviceId !== null ? { deviceId: { exact: deviceId } } : { facingMode }),
+        width: { ideal: 640 },
+        height: { ideal: 480 }
+      },
+      audio: false,
+    });
+  }, [facingMode]);
+
+  // Resolves to why the camera couldn't be opened, or null once it's running
+  const startCamera = useCallback(async (): Promise<CameraFailure | null> => {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode,
-          width: { ideal: 640 },
-          height: { ideal: 480 }
-        },
-        audio: false,
-      });
+      // Open the preferred camera if it's connected, otherwise the system default
+      const requestedId = resolveCameraId(getPreferredCameraId(), await listCameras());
+      let stream: MediaStream;
+      try {
+        stream = await openStream(requestedId);
+      } catch (err) {
+        if (requestedId === null || !isMissingDeviceError(err)) {
+          throw err;
+        }
+        console.log('[Camera] Preferred camera unavailable, falling back to the default camera');
+        stream = await openStream(null);
+      }
 
       // Listen for track ended event (e.g., when OS kills camera during sleep)
       const videoTrack = stream.getVideoTracks()[0];
@@ -47,27 +114,36 @@ export function useCamera(options: CameraOptions = {}) {
           console.log('[Camera] Video track ended unexpectedly (system suspend or camera disconnect)');
           // Clear the ref
           streamRef.current = null;
+          deviceIdRef.current = null;
           setState(prev => ({
             ...prev,
             stream: null,
             hasPermission: false,
-            error: 'Camera disconnected',
+            deviceId: null,
+            error: CAMERA_ERROR_MESSAGES.disconnected,
           }));
           // Clean up video element
           if (videoRef.current) {
             videoRef.current.srcObject = null;
           }
+          onTrackEndedRef.current?.();
         };
       }
 
       // Store stream in ref for reliable access in stopCamera
       streamRef.current = stream;
+      const deviceId = videoTrack?.getSettings?.().deviceId ?? requestedId;
+      deviceIdRef.current = deviceId;
+      // Camera labels are only visible once permission is granted, so list them again
+      const devices = await listCameras();
 
       setState(prev => ({
         ...prev,
         stream,
         isLoading: false,
         hasPermission: true,
+        devices,
+        deviceId,
       }));
 
       // Set video attributes for compatibility
@@ -79,18 +155,19 @@ export function useCamera(options: CameraOptions = {}) {
         video.muted = true;
         video.srcObject = stream;
       }
+
+      return null;
     } catch (err) {
-      const error = err as Error;
+      const failure = classifyCameraError(err as Error);
       setState(prev => ({
         ...prev,
-        error: error.name === 'NotAllowedError' 
-          ? 'Camera permission denied' 
-          : 'Failed to access camera',
+        error: CAMERA_ERROR_MESSAGES[failure],
         isLoading: false,
         hasPermission: false,
       }));
+      return failure;
     }
-  }, [facingMode]);
+  }, [openStream]);
 
   const stopCamera = useCallback(() => {
     // Use ref to avoid stale closure - streamRef always has current stream
@@ -107,6 +184,7 @@ export function useCamera(options: CameraOptions = {}) {
 
       // Clear the ref first to prevent any stale references
       streamRef.current = null;
+      deviceIdRef.current = null;
 
       // Clean up video element - critical for Windows camera release
       if (videoRef.current) {
@@ -124,14 +202,65 @@ export function useCamera(options: CameraOptions = {}) {
         ...prev,
         stream: null,
         hasPermission: false,
+        deviceId: null,
       }));
     }
   }, []); // No dependencies - uses ref for stream access
 
+  // Remember the camera to use, switching a running stream over to it straight away
+  const selectCamera = useCallback(async (deviceId: string | null) => {
+    savePreferredCameraId(deviceId);
+    setState(prev => ({ ...prev, preferredDeviceId: deviceId }));
+
+    if (streamRef.current && deviceId !== deviceIdRef.current) {
+      stopCamera();
+      await startCamera();
+    }
+  }, [startCamera, stopCamera]);
+
+  // Keep the camera list current as cameras are plugged in and out
+  useEffect(() => {
+    const mediaDevices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+    if (!mediaDevices?.addEventListener) {
+      return;
+    }
+
+    let mounted = true;
+
+    const refreshDevices = async () => {
+      const devices = await listCameras();
+      if (mounted) {
+        setState(prev => ({ ...prev, devices }));
+      }
+      return devices;
+    };
+
+    const handleDeviceChange = async () => {
+      const devices = await refreshDevices();
+      if (!mounted) return;
+
+      // Running on a fallback camera and the chosen one is back: move over to it
+      const preferredId = resolveCameraId(getPreferredCameraId(), devices);
+      if (streamRef.current && preferredId !== null && preferredId !== deviceIdRef.current) {
+        console.log('[Camera] Preferred camera reconnected, switching to it');
+        stopCamera();
+        await startCamera();
+      }
+    };
+
+    refreshDevices();
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => {
+      mounted = false;
+      mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    };
+  }, [startCamera, stopCamera]);
+
   return {
     ...state,
     videoRef,
     startCamera,
     stopCamera,
+    selectCamera,
   };
 }
\ No newline at end of file
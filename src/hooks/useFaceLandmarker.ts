@@ -1,17 +1,18 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import {
   FaceLandmarker,
-  FilesetResolver,
   FaceLandmarkerResult
 } from '@mediapipe/tasks-vision';
-
-// Local paths for bundled MediaPipe assets (offline support)
-const LOCAL_WASM_PATH = '/mediapipe/wasm';
-const LOCAL_MODEL_PATH = '/mediapipe/face_landmarker.task';
+import { createFaceLandmarker } from '../lib/blink-detection/face-landmarker-factory';
+import {
+  FaceLandmarkerWorkerClient,
+  isFaceLandmarkerWorkerSupported
+} from '../lib/blink-detection/face-landmarker-worker-client';
 
 interface UseFaceLandmarkerOptions {
   delegate?: 'GPU' | 'CPU';
   numFaces?: number;
+  useWorker?: boolean; // Run inference in a dedicated worker when supported (default true)
 }
 
 interface FaceLandmarkerState {
@@ -28,6 +29,8 @@ export function useFaceLandmarker(options: UseFaceLandmarkerOptions = {}) {
   });
 
   const faceLandmarkerRef = useRef<FaceLandmarker | null>(null);
+  // Set instead of faceLandmarkerRef when inference runs in the worker
+  const workerClientRef = useRef<FaceLandmarkerWorkerClient | null>(null);
   const initPromiseRef = useRef<Promise<void> | null>(null);
 
   const initialize = useCallback(async () => {
@@ -36,7 +39,7 @@ export function useFaceLandmarker(options: UseFaceLandmarkerOptions = {}) {
       return initPromiseRef.current;
     }
 
-    if (state.isInitialized && faceLandmarkerRef.current) {
+    if (state.isInitialized && (faceLandmarkerRef.current || workerClientRef.current)) {
       return Promise.resolve();
     }
 
@@ -44,34 +47,23 @@ export function useFaceLandmarker(options: UseFaceLandmarkerOptions = {}) {
       setState(prev => ({ ...prev, isLoading: true, error: null }));
 
       try {
-        const vision = await FilesetResolver.forVisionTasks(LOCAL_WASM_PATH);
-
-        const landmarkerOptions = {
-          baseOptions: {
-            modelAssetPath: LOCAL_MODEL_PATH,
-            delegate: options.delegate || "GPU"
-          },
-          runningMode: "VIDEO" as const,
-          outputFaceBlendshapes: false,
-          outputFacialTransformationMatrixes: false,
-          numFaces: options.numFaces || 1,
-          minFaceDetectionConfidence: 0.5,
-          minFacePresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        };
-
-        // Try GPU first, fall back to CPU if it fails
-        try {
-          faceLandmarkerRef.current = await FaceLandmarker.createFromOptions(vision, landmarkerOptions);
-        } catch (gpuError) {
-          if (options.delegate !== 'CPU') {
-            landmarkerOptions.baseOptions.delegate = 'CPU';
-            faceLandmarkerRef.current = await FaceLandmarker.createFromOptions(vision, landmarkerOptions);
-          } else {
-            throw gpuError;
+        const landmarkerOptions = { delegate: options.delegate, numFaces: options.numFaces };
+
+        // Prefer the worker so inference doesn't jank the UI; fall back to the main thread
+        if (options.useWorker !== false && isFaceLandmarkerWorkerSupported()) {
+          const client = new FaceLandmarkerWorkerClient();
+          try {
+            await client.initialize(landmarkerOptions);
+            workerClientRef.current = client;
+          } catch (workerError) {
+            console.warn('Face landmarker worker unavailable, running on the main thread:', workerError);
           }
         }
 
+        if (!workerClientRef.current) {
+          faceLandmarkerRef.current = await createFaceLandmarker(landmarkerOptions);
+        }
+
         setState(prev => ({
           ...prev,
           isLoading: false,
@@ -91,7 +83,7 @@ export function useFaceLandmarker(options: UseFaceLandmarkerOptions = {}) {
 
     initPromiseRef.current = initPromise;
     return initPromise;
-  }, [options.delegate, options.numFaces, state.isInitialized]);
+  }, [options.delegate, options.numFaces, options.useWorker, state.isInitialized]);
 
   // MediaPipe accepts these input sources for face detection
   type MediaPipeInputSource = HTMLVideoElement | VideoFrame | ImageBitmap;
@@ -100,10 +92,19 @@ export function useFaceLandmarker(options: UseFaceLandmarkerOptions = {}) {
     source: TexImageSource,
     timestamp: number
   ): Promise<FaceLandmarkerResult | null> => {
-    if (!faceLandmarkerRef.current || !state.isInitialized) {
+    if ((!faceLandmarkerRef.current && !workerClientRef.current) || !state.isInitialized) {
       await initialize();
     }
 
+    if (workerClientRef.current) {
+      try {
+        return await workerClientRef.current.detect(source, timestamp);
+      } catch (error) {
+        console.error('Face detection error:', error);
+        return null;
+      }
+    }
+
     if (!faceLandmarkerRef.current) {
       return null;
     }
@@ -123,6 +124,10 @@ export function useFaceLandmarker(options: UseFaceLandmarkerOptions = {}) {
       faceLandmarkerRef.current.close();
       faceLandmarkerRef.current = null;
     }
+    if (workerClientRef.current) {
+      workerClientRef.current.dispose();
+      workerClientRef.current = null;
+    }
     initPromiseRef.current = null;
     setState({
       isLoading: false,
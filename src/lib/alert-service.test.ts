@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AlertService } from './alert-service';
 import { SessionData } from './sessions/types';
+import type { ElectronAPI } from './electron';
 
 // Mock localStorage
 const mockLocalStorage = {
@@ -142,6 +143,30 @@ describe('AlertService', () => {
       expect(onAlert).toHaveBeenCalled();
     });
 
+    it('skips the reminder when the user took a 20-second break in the last 20 minutes', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        startTime: new Date(now - 15 * 60 * 1000),
+        blinkEvents: createBlinkEvents(6, now),
+        lookingAwayPeriods: [{ start: now - 10 * 60 * 1000, end: now - 10 * 60 * 1000 + 25000 }],
+        breakPeriods: [{ start: now - 10 * 60 * 1000, end: now - 10 * 60 * 1000 + 25000 }],
+      });
+
+      expect(alertService.checkForFatigue(session)).toBe(false);
+    });
+
+    it('still reminds after a look away too short to be a break', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        startTime: new Date(now - 15 * 60 * 1000),
+        blinkEvents: createBlinkEvents(6, now),
+        lookingAwayPeriods: [{ start: now - 10 * 60 * 1000, end: now - 10 * 60 * 1000 + 15000 }],
+        breakPeriods: [],
+      });
+
+      expect(alertService.checkForFatigue(session)).toBe(true);
+    });
+
     it('returns false when face loss in window exceeds 5 seconds', () => {
       const now = Date.now();
       const session = createMockSession({
@@ -190,6 +215,33 @@ describe('AlertService', () => {
       expect(onAlert).toHaveBeenCalled();
     });
 
+    it('returns false when poor lighting in window exceeds 5 seconds', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        blinkEvents: createBlinkEvents(6, now),
+        poorLightingPeriods: [
+          { start: now - 30000, condition: 'low-light' } // Still dim, 30 seconds so far
+        ]
+      });
+      const onAlert = vi.fn();
+
+      const result = alertService.checkForFatigue(session, onAlert);
+
+      expect(result).toBe(false);
+      expect(onAlert).not.toHaveBeenCalled();
+    });
+
+    it('counts overlapping face loss and poor lighting once', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        blinkEvents: createBlinkEvents(6, now),
+        faceLostPeriods: [{ start: now - 60000, end: now - 57000 }],
+        poorLightingPeriods: [{ start: now - 59000, end: now - 56000, condition: 'backlit' }], // 4 seconds combined
+      });
+
+      expect(alertService.checkForFatigue(session)).toBe(true);
+    });
+
     it('respects 3-minute cooldown period between alerts', () => {
       vi.useFakeTimers();
       const now = Date.now();
@@ -262,6 +314,332 @@ describe('AlertService', () => {
     });
   });
 
+  describe('checkForDrowsiness', () => {
+    it('returns false when the eyes have stayed open', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        microsleepEvents: [],
+        perclosHistory: [{ timestamp: now - 10000, perclos: 0.04 }],
+      });
+
+      expect(alertService.checkForDrowsiness(session)).toBe(false);
+    });
+
+    it('alerts on a microsleep in the last minute, even early in the session', async () => {
+      const now = Date.now();
+      const session = createMockSession({
+        startTime: new Date(now - 2 * 60 * 1000),
+        microsleepEvents: [{ timestamp: now - 20000, duration: 1200 }],
+      });
+      const onAlert = vi.fn();
+
+      expect(alertService.checkForDrowsiness(session, onAlert)).toBe(true);
+      expect(onAlert).toHaveBeenCalledTimes(1);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockNotification).toHaveBeenCalledWith(
+        'You seem drowsy',
+        expect.objectContaining({
+          body: expect.stringContaining('longer than a blink once'),
+          tag: 'drowsiness-alert',
+        })
+      );
+    });
+
+    it('goes through Electron so its notification settings apply', async () => {
+      const now = Date.now();
+      const session = createMockSession({ microsleepEvents: [{ timestamp: now - 20000, duration: 1200 }] });
+      const sendAlert = vi.fn().mockResolvedValue(true);
+      window.electronAPI = { sendAlert } as unknown as ElectronAPI;
+
+      try {
+        alertService.checkForDrowsiness(session);
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(sendAlert).toHaveBeenCalledWith(expect.objectContaining({ title: 'You seem drowsy' }));
+        expect(mockNotification).not.toHaveBeenCalled();
+      } finally {
+        delete window.electronAPI;
+      }
+    });
+
+    it('ignores microsleeps older than a minute', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        microsleepEvents: [{ timestamp: now - 2 * 60 * 1000, duration: 1200 }],
+      });
+
+      expect(alertService.checkForDrowsiness(session)).toBe(false);
+    });
+
+    it('alerts when PERCLOS reaches the drowsy level', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        perclosHistory: [{ timestamp: now - 5000, perclos: 0.2 }],
+      });
+
+      expect(alertService.checkForDrowsiness(session)).toBe(true);
+    });
+
+    it('does nothing when drowsiness alerts are turned off', () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'drowsinessAlertsEnabled' ? 'false' : null));
+      const session = createMockSession({
+        microsleepEvents: [{ timestamp: Date.now() - 5000, duration: 800 }],
+      });
+
+      expect(alertService.checkForDrowsiness(session)).toBe(false);
+    });
+
+    it('has its own cooldown, apart from fatigue alerts', () => {
+      const session = createMockSession({
+        microsleepEvents: [{ timestamp: Date.now() - 5000, duration: 800 }],
+      });
+
+      expect(alertService.checkForFatigue(session)).toBe(true);
+      expect(alertService.checkForDrowsiness(session)).toBe(true);
+      expect(alertService.checkForDrowsiness(session)).toBe(false);
+      expect(alertService.checkForFatigue(session)).toBe(false);
+    });
+
+    it('does not hold off the next fatigue alert', () => {
+      const session = createMockSession({
+        microsleepEvents: [{ timestamp: Date.now() - 5000, duration: 800 }],
+      });
+
+      expect(alertService.checkForDrowsiness(session)).toBe(true);
+      expect(alertService.checkForFatigue(session)).toBe(true);
+    });
+  });
+
+  describe('notifyPoorLighting', () => {
+    it('does nothing unless lighting alerts are enabled', () => {
+      expect(alertService.notifyPoorLighting('low-light')).toBe(false);
+    });
+
+    it('sends guidance for the condition, at most once per cooldown', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'lightingAlertsEnabled' ? 'true' : null));
+
+      expect(alertService.notifyPoorLighting('backlit')).toBe(true);
+      expect(alertService.notifyPoorLighting('low-light')).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockNotification).toHaveBeenCalledTimes(1);
+      expect(mockNotification).toHaveBeenCalledWith(
+        'Lighting too poor for blink tracking',
+        expect.objectContaining({
+          body: expect.stringContaining('bright light behind you'),
+          tag: 'lighting-alert',
+        })
+      );
+    });
+
+    it('does nothing when notifications are turned off', () => {
+      mockLocalStorage.getItem.mockImplementation((key) => {
+        if (key === 'lightingAlertsEnabled') return 'true';
+        if (key === 'notificationsEnabled') return 'false';
+        return null;
+      });
+
+      expect(alertService.notifyPoorLighting('low-light')).toBe(false);
+    });
+
+    it('goes through Electron so its notification settings apply', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'lightingAlertsEnabled' ? 'true' : null));
+      const sendAlert = vi.fn().mockResolvedValue(true);
+      window.electronAPI = { sendAlert } as unknown as ElectronAPI;
+
+      try {
+        alertService.notifyPoorLighting('low-light');
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(sendAlert).toHaveBeenCalledWith(
+          expect.objectContaining({ title: 'Lighting too poor for blink tracking' })
+        );
+        expect(mockNotification).not.toHaveBeenCalled();
+      } finally {
+        delete window.electronAPI;
+      }
+    });
+  });
+
+  describe('checkForPosture', () => {
+    it('does nothing without an ongoing period of poor posture', () => {
+      const now = Date.now();
+      const session = createMockSession({
+        poorPosturePeriods: [{ start: now - 120000, end: now - 60000, condition: 'slouching' }],
+      });
+
+      expect(alertService.checkForPosture(session)).toBe(false);
+    });
+
+    it('does nothing when posture alerts are turned off', () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'postureAlertsEnabled' ? 'false' : null));
+      const session = createMockSession({
+        poorPosturePeriods: [{ start: Date.now() - 60000, condition: 'slouching' }],
+      });
+
+      expect(alertService.checkForPosture(session)).toBe(false);
+    });
+
+    it('sends guidance for the posture, with its own cooldown', async () => {
+      const session = createMockSession({
+        poorPosturePeriods: [{ start: Date.now() - 60000, condition: 'head-tilted' }],
+      });
+
+      expect(alertService.checkForFatigue(session)).toBe(true);
+      expect(alertService.checkForPosture(session)).toBe(true);
+      expect(alertService.checkForPosture(session)).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockNotification).toHaveBeenCalledWith(
+        'Check your posture',
+        expect.objectContaining({
+          body: expect.stringContaining('tilted to one side'),
+          tag: 'posture-alert',
+        })
+      );
+    });
+
+    it('goes through Electron so its notification settings apply', async () => {
+      const session = createMockSession({
+        poorPosturePeriods: [{ start: Date.now() - 60000, condition: 'slouching' }],
+      });
+      const sendAlert = vi.fn().mockResolvedValue(true);
+      window.electronAPI = { sendAlert } as unknown as ElectronAPI;
+
+      try {
+        alertService.checkForPosture(session);
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(sendAlert).toHaveBeenCalledWith(expect.objectContaining({ title: 'Check your posture' }));
+        expect(mockNotification).not.toHaveBeenCalled();
+      } finally {
+        delete window.electronAPI;
+      }
+    });
+  });
+
+  describe('getStaringNudgeMs', () => {
+    it('is null while the nudge or notifications are off', () => {
+      expect(alertService.getStaringNudgeMs()).toBeNull();
+
+      mockLocalStorage.getItem.mockImplementation((key) => {
+        if (key === 'staringNudgeSeconds') return '15';
+        if (key === 'notificationsEnabled') return 'false';
+        return null;
+      });
+      expect(alertService.getStaringNudgeMs()).toBeNull();
+    });
+
+    it('is the stare length picked in settings', () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'staringNudgeSeconds' ? '20' : null));
+
+      expect(alertService.getStaringNudgeMs()).toBe(20000);
+    });
+  });
+
+  describe('notifyStaring', () => {
+    it('does nothing unless the staring nudge is turned on', () => {
+      expect(alertService.notifyStaring(60000)).toBe(false);
+    });
+
+    it('nudges once the stare reaches the length picked in settings', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'staringNudgeSeconds' ? '15' : null));
+
+      expect(alertService.notifyStaring(14000)).toBe(false);
+      expect(alertService.notifyStaring(15000)).toBe(true);
+      expect(alertService.notifyStaring(20000)).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockNotification).toHaveBeenCalledTimes(1);
+      expect(mockNotification).toHaveBeenCalledWith(
+        'Remember to blink',
+        expect.objectContaining({
+          body: expect.stringContaining('15 seconds'),
+          tag: 'staring-nudge',
+        })
+      );
+    });
+
+    it('does nothing when notifications are turned off', () => {
+      mockLocalStorage.getItem.mockImplementation((key) => {
+        if (key === 'staringNudgeSeconds') return '15';
+        if (key === 'notificationsEnabled') return 'false';
+        return null;
+      });
+
+      expect(alertService.notifyStaring(20000)).toBe(false);
+    });
+
+    it('goes through Electron so its notification settings apply', async () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'staringNudgeSeconds' ? '15' : null));
+      const sendAlert = vi.fn().mockResolvedValue(true);
+      window.electronAPI = { sendAlert } as unknown as ElectronAPI;
+
+      try {
+        alertService.notifyStaring(15000);
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(sendAlert).toHaveBeenCalledWith(expect.objectContaining({ title: 'Remember to blink' }));
+        expect(mockNotification).not.toHaveBeenCalled();
+      } finally {
+        delete window.electronAPI;
+      }
+    });
+  });
+
+  describe('notifyTooClose', () => {
+    it('does nothing when too-close alerts are turned off', () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'distanceAlertsEnabled' ? 'false' : null));
+
+      expect(alertService.notifyTooClose(40)).toBe(false);
+    });
+
+    it('does nothing when notifications are turned off', () => {
+      mockLocalStorage.getItem.mockImplementation((key) => (key === 'notificationsEnabled' ? 'false' : null));
+
+      expect(alertService.notifyTooClose(40)).toBe(false);
+    });
+
+    it('goes through Electron so its notification settings apply', async () => {
+      const sendAlert = vi.fn().mockResolvedValue(false);
+      window.electronAPI = { sendAlert } as unknown as ElectronAPI;
+
+      try {
+        expect(alertService.notifyTooClose(38.4)).toBe(true);
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(sendAlert).toHaveBeenCalledWith({
+          title: "You're too close to the screen",
+          body: expect.stringContaining('about 38 cm'),
+        });
+        expect(mockNotification).not.toHaveBeenCalled();
+      } finally {
+        delete window.electronAPI;
+      }
+    });
+
+    it('sends the distance, at most once per cooldown', async () => {
+      expect(alertService.notifyTooClose(38.4)).toBe(true);
+      expect(alertService.notifyTooClose(35)).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockNotification).toHaveBeenCalledTimes(1);
+      expect(mockNotification).toHaveBeenCalledWith(
+        "You're too close to the screen",
+        expect.objectContaining({
+          body: expect.stringContaining('about 38 cm'),
+          tag: 'distance-alert',
+        })
+      );
+    });
+  });
+
   describe('requestNotificationPermission', () => {
     it('returns true when permission is already granted', async () => {
       mockNotification.permission = 'granted';
@@ -313,6 +691,24 @@ describe('AlertService', () => {
     });
   });
 
+  describe('startMonitoring with a drowsy user', () => {
+    it('reports drowsiness through its own callback, not as a fatigue alert', () => {
+      const now = Date.now();
+      const getActiveSession = vi.fn(() => createMockSession({
+        blinkEvents: createBlinkEvents(30, now),
+        microsleepEvents: [{ timestamp: now - 5000, duration: 800 }],
+      }));
+      const onAlert = vi.fn();
+      const onDrowsinessAlert = vi.fn();
+
+      alertService.startMonitoring(getActiveSession, onAlert, onDrowsinessAlert);
+      alertService.stopMonitoring();
+
+      expect(onDrowsinessAlert).toHaveBeenCalledTimes(1);
+      expect(onAlert).not.toHaveBeenCalled();
+    });
+  });
+
   describe('stopMonitoring', () => {
     it('stops the monitoring interval', () => {
       vi.useFakeTimers();
@@ -1,21 +1,48 @@
-import { SessionData, BlinkEvent, FaceLostPeriod } from "./sessions/types";
-import { getElectronAPI } from "./electron";
+import {
+  SessionData,
+  BlinkEvent,
+  FaceLostPeriod,
+  calculateCombinedTime,
+  getBlinkRateExcludedPeriods,
+} from "./sessions/types";
+import { hasRecentBreak } from "./sessions/breaks";
+import { AlertNotification, getElectronAPI } from "./electron";
+import { LIGHTING_GUIDANCE, PoorLightingCondition } from "./blink-detection/lighting";
+import { DROWSY_PERCLOS } from "./blink-detection/drowsiness";
+import { TOO_CLOSE_DISTANCE_CM } from "./blink-detection/viewing-distance";
+import { POSTURE_GUIDANCE, PoorPostureCondition } from "./blink-detection/posture";
 
 export interface AlertServiceConfig {
   fatigueThreshold: number;
   notificationsEnabled: boolean;
   soundEnabled: boolean;
+  lightingAlertsEnabled: boolean; // Notify when lighting is too poor for reliable detection
+  drowsinessAlertsEnabled: boolean; // Alert on microsleeps and high PERCLOS
+  distanceAlertsEnabled: boolean; // Notify when sitting too close to the screen
+  postureAlertsEnabled: boolean; // Remind the user to sit up when their posture is poor
+  staringNudgeSeconds: number | null; // Nudge to blink after this long without blinking; null when off
 }
 
 // Smart notification constants
 const GRACE_PERIOD_MINUTES = 5; // Session must be at least 5 minutes old
 const ROLLING_WINDOW_MS = 180000; // 3 minute rolling window
 const ALERT_COOLDOWN_MS = 180000; // 3 minute cooldown between alerts
-const MAX_FACE_LOSS_MS = 5000; // Max 5 seconds face loss allowed in window
+const MAX_FACE_LOSS_MS = 5000; // Max 5 seconds face loss or poor lighting allowed in window
+const LIGHTING_ALERT_COOLDOWN_MS = 600000; // 10 minute cooldown between lighting alerts
+const DISTANCE_ALERT_COOLDOWN_MS = 600000; // 10 minute cooldown between too-close alerts
+const POSTURE_ALERT_COOLDOWN_MS = 600000; // 10 minute cooldown between posture reminders
+const STARING_NUDGE_COOLDOWN_MS = 60000; // 1 minute cooldown between staring nudges
+const DROWSINESS_WINDOW_MS = 60000; // Microsleeps and PERCLOS readings from the last minute (one check interval)
+const DROWSINESS_ALERT_COOLDOWN_MS = 180000; // 3 minute cooldown between drowsiness alerts
 
 export class AlertService {
   private intervalId: NodeJS.Timeout | null = null;
   private lastAlertTime: number = 0;
+  private lastDrowsinessAlertTime: number = 0;
+  private lastLightingAlertTime: number = 0;
+  private lastDistanceAlertTime: number = 0;
+  private lastPostureAlertTime: number = 0;
+  private lastStaringNudgeTime: number = 0;
 
   /**
    * Calculate blink rate from individual blink events within the rolling window.
@@ -40,31 +67,22 @@ export class AlertService {
   }
 
   /**
-   * Calculate total face loss time within the rolling window.
-   * Only counts time where face was lost during the window period.
+   * Calculate total time without reliable data (face lost, poor lighting or looking away) within the rolling window.
+   * Only counts time during the window period, and overlapping periods once.
    */
-  private getWindowFaceLossMs(faceLostPeriods: FaceLostPeriod[] | undefined): number {
-    if (!faceLostPeriods || faceLostPeriods.length === 0) return 0;
+  private getWindowUnreliableMs(periods: FaceLostPeriod[]): number {
+    if (periods.length === 0) return 0;
 
     const now = Date.now();
     const windowStart = now - ROLLING_WINDOW_MS;
 
-    return faceLostPeriods.reduce((total, period) => {
-      const periodStart = period.start;
-      const periodEnd = period.end ?? now;
+    // Clip each period to the window; periods entirely outside it end up empty
+    const overlaps = periods.map((period) => ({
+      start: Math.max(period.start, windowStart),
+      end: Math.min(period.end ?? now, now),
+    }));
 
-      // Check if this period overlaps with our window
-      if (periodEnd <= windowStart || periodStart >= now) {
-        // Period is entirely outside the window
-        return total;
-      }
-
-      // Calculate overlap with window
-      const overlapStart = Math.max(periodStart, windowStart);
-      const overlapEnd = Math.min(periodEnd, now);
-
-      return total + (overlapEnd - overlapStart);
-    }, 0);
+    return calculateCombinedTime(overlaps);
   }
 
   private getConfig(): AlertServiceConfig {
@@ -72,6 +90,11 @@ export class AlertService {
       fatigueThreshold: parseInt(localStorage.getItem("fatigueThreshold") || "8", 10),
       notificationsEnabled: localStorage.getItem("notificationsEnabled") !== "false",
       soundEnabled: localStorage.getItem("soundEnabled") === "true",
+      lightingAlertsEnabled: localStorage.getItem("lightingAlertsEnabled") === "true",
+      drowsinessAlertsEnabled: localStorage.getItem("drowsinessAlertsEnabled") !== "false",
+      distanceAlertsEnabled: localStorage.getItem("distanceAlertsEnabled") !== "false",
+      postureAlertsEnabled: localStorage.getItem("postureAlertsEnabled") !== "false",
+      staringNudgeSeconds: parseInt(localStorage.getItem("staringNudgeSeconds") || "", 10) || null,
     };
   }
 
@@ -115,6 +138,66 @@ export class AlertService {
     return this.showWebNotification(blinkRate, sessionDurationMinutes, soundEnabled);
   }
 
+  /**
+   * Send a wellbeing alert as an Electron native notification, where main applies the user's
+   * notification settings and quiet hours. Returns null outside Electron (or if sending failed)
+   * so the caller can fall back to a web notification.
+   */
+  private async sendElectronAlert(alert: AlertNotification): Promise<boolean | null> {
+    const electronAPI = getElectronAPI();
+    if (!electronAPI?.sendAlert) return null;
+
+    try {
+      return await electronAPI.sendAlert(alert);
+    } catch (error) {
+      console.error('[AlertService] Failed to send Electron notification:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Show a wellbeing alert: an Electron native notification when available, otherwise a web
+   * notification that focuses the app when clicked. Alerts without autoCloseMs stay up until
+   * the user dismisses them.
+   */
+  private async showAlert({ title, body, tag, autoCloseMs, requireInteraction = false, playSound = false }: {
+    title: string;
+    body: string;
+    tag: string;
+    autoCloseMs?: number;
+    requireInteraction?: boolean;
+    playSound?: boolean;
+  }): Promise<boolean> {
+    const sent = await this.sendElectronAlert({ title, body });
+    if (sent !== null) return sent;
+
+    const hasPermission = await this.requestNotificationPermission();
+    if (!hasPermission) return false;
+
+    const notification = new Notification(title, {
+      body,
+      icon: "/favicon.ico",
+      badge: "/favicon.ico",
+      tag,
+      requireInteraction,
+    });
+
+    if (playSound) {
+      this.playAlertSound();
+    }
+
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+
+    if (autoCloseMs !== undefined) {
+      setTimeout(() => notification.close(), autoCloseMs);
+    }
+
+    return true;
+  }
+
   private async showWebNotification(blinkRate: number, sessionDurationMinutes: number, soundEnabled: boolean): Promise<boolean> {
     const hasPermission = await this.requestNotificationPermission();
     if (!hasPermission) return false;
@@ -132,19 +215,7 @@ export class AlertService {
     });
 
     if (soundEnabled) {
-      // Play a simple beep sound using Web Audio API
-      const audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-      const oscillator = audioContext.createOscillator();
-      const gainNode = audioContext.createGain();
-
-      oscillator.connect(gainNode);
-      gainNode.connect(audioContext.destination);
-
-      oscillator.frequency.value = 800; // Frequency in Hz
-      gainNode.gain.value = 0.3; // Volume
-
-      oscillator.start();
-      oscillator.stop(audioContext.currentTime + 0.2); // Play for 200ms
+      this.playAlertSound();
     }
 
     notification.onclick = () => {
@@ -158,14 +229,32 @@ export class AlertService {
     return true;
   }
 
+  // Play a simple beep sound using Web Audio API
+  private playAlertSound(): void {
+    const audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    const oscillator = audioContext.createOscillator();
+    const gainNode = audioContext.createGain();
+
+    oscillator.connect(gainNode);
+    gainNode.connect(audioContext.destination);
+
+    oscillator.frequency.value = 800; // Frequency in Hz
+    gainNode.gain.value = 0.3; // Volume
+
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.2); // Play for 200ms
+  }
+
   /**
    * Smart notification check for fatigue detection.
    *
    * Triggers an alert when ALL conditions are met:
    * 1. Session is active and at least 5 minutes old (grace period)
-   * 2. Rolling 3-minute window has less than 5 seconds of face loss (valid data)
+   * 2. Rolling 3-minute window has less than 5 seconds of face loss, poor lighting or looking away (valid data)
    * 3. Average blink rate in the window is below user's threshold
-   * 4. At least 3 minutes have passed since the last alert (cooldown)
+   * 4. The user hasn't taken a 20-second break in the last 20 minutes (they're already
+   *    following the 20-20-20 rule the alert suggests)
+   * 5. At least 3 minutes have passed since the last alert (cooldown)
    */
   checkForFatigue(session: SessionData | null, onAlert?: () => void): boolean {
     if (!session || !session.isActive) return false;
@@ -178,10 +267,13 @@ export class AlertService {
       return false;
     }
 
-    // Check 2: Validate the rolling window has reliable data (< 5 seconds face loss)
-    const windowFaceLossMs = this.getWindowFaceLossMs(session.faceLostPeriods);
-    if (windowFaceLossMs >= MAX_FACE_LOSS_MS) {
-      // Too much face loss in the window, data is not reliable
+    // Check 2: Validate the rolling window has reliable data (< 5 seconds face loss, poor lighting or looking away)
+    const windowUnreliableMs = this.getWindowUnreliableMs([
+      ...(session.faceLostPeriods ?? []),
+      ...getBlinkRateExcludedPeriods(session),
+    ]);
+    if (windowUnreliableMs >= MAX_FACE_LOSS_MS) {
+      // Too much face loss, poor lighting or looking away in the window, data is not reliable
       return false;
     }
 
@@ -197,8 +289,13 @@ export class AlertService {
       return false;
     }
 
-    // Check 5: Cooldown - at least 3 minutes since last alert
+    // Check 5: Skip the reminder if the user is already taking regular breaks
     const now = Date.now();
+    if (hasRecentBreak(session, now)) {
+      return false;
+    }
+
+    // Check 6: Cooldown - at least 3 minutes since last alert
     if (now - this.lastAlertTime < ALERT_COOLDOWN_MS) {
       return false;
     }
@@ -219,9 +316,223 @@ export class AlertService {
     return true;
   }
 
+  /**
+   * Drowsiness check, run alongside the fatigue check.
+   *
+   * Triggers an alert when drowsiness alerts are enabled and, within the last minute, there was
+   * a microsleep or a PERCLOS reading at or above DROWSY_PERCLOS. Has its own 3 minute cooldown
+   * and callback, so it neither counts as nor holds off a fatigue alert. No grace period: a
+   * microsleep matters whenever it happens.
+   */
+  checkForDrowsiness(session: SessionData | null, onAlert?: () => void): boolean {
+    if (!session || !session.isActive) return false;
+
+    const config = this.getConfig();
+    if (!config.drowsinessAlertsEnabled) {
+      return false;
+    }
+
+    const now = Date.now();
+    const windowStart = now - DROWSINESS_WINDOW_MS;
+    const microsleeps = (session.microsleepEvents ?? []).filter(event => event.timestamp >= windowStart);
+    const perclosReadings = (session.perclosHistory ?? []).filter(point => point.timestamp >= windowStart);
+    const peakPerclos = Math.max(0, ...perclosReadings.map(point => point.perclos));
+    if (microsleeps.length === 0 && peakPerclos < DROWSY_PERCLOS) {
+      return false;
+    }
+
+    if (now - this.lastDrowsinessAlertTime < DROWSINESS_ALERT_COOLDOWN_MS) {
+      return false;
+    }
+    this.lastDrowsinessAlertTime = now;
+
+    if (config.notificationsEnabled) {
+      this.showDrowsinessNotification(microsleeps.length, peakPerclos, config.soundEnabled);
+    }
+
+    if (onAlert) {
+      onAlert();
+    }
+
+    return true;
+  }
+
+  private async showDrowsinessNotification(
+    microsleepCount: number,
+    perclos: number,
+    soundEnabled: boolean
+  ): Promise<boolean> {
+    const title = "You seem drowsy";
+    const body = microsleepCount > 0
+      ? `Your eyes stayed shut for longer than a blink ${microsleepCount === 1 ? "once" : `${microsleepCount} times`} in the last minute. Take a break, and don't drive or operate machinery while drowsy.`
+      : `Your eyes were mostly closed ${Math.round(perclos * 100)}% of the last minute. Take a break and get some fresh air.`;
+
+    return this.showAlert({
+      title,
+      body,
+      tag: "drowsiness-alert",
+      requireInteraction: true,
+      playSound: soundEnabled,
+    });
+  }
+
+  /**
+   * Tell the user the lighting is too poor for reliable detection and what to do about it.
+   * Only sent when enabled in settings, and at most once every 10 minutes.
+   */
+  notifyPoorLighting(condition: PoorLightingCondition): boolean {
+    const config = this.getConfig();
+    if (!config.notificationsEnabled || !config.lightingAlertsEnabled) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (now - this.lastLightingAlertTime < LIGHTING_ALERT_COOLDOWN_MS) {
+      return false;
+    }
+    this.lastLightingAlertTime = now;
+
+    this.showLightingNotification(condition);
+    return true;
+  }
+
+  private async showLightingNotification(condition: PoorLightingCondition): Promise<boolean> {
+    const title = "Lighting too poor for blink tracking";
+    const body = LIGHTING_GUIDANCE[condition];
+
+    return this.showAlert({
+      title,
+      body,
+      tag: "lighting-alert",
+      autoCloseMs: 10000,
+    });
+  }
+
+  /**
+   * Posture check, run alongside the fatigue check.
+   *
+   * Reminds the user to sit up when posture alerts are enabled and the session has a poor
+   * posture period still going on (the detector only opens one after 30 seconds). Has its
+   * own 10 minute cooldown, and doesn't count as a fatigue alert.
+   */
+  checkForPosture(session: SessionData | null): boolean {
+    if (!session || !session.isActive) return false;
+
+    const config = this.getConfig();
+    if (!config.postureAlertsEnabled) {
+      return false;
+    }
+
+    const ongoing = (session.poorPosturePeriods ?? []).find(period => period.end === undefined);
+    if (!ongoing) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (now - this.lastPostureAlertTime < POSTURE_ALERT_COOLDOWN_MS) {
+      return false;
+    }
+    this.lastPostureAlertTime = now;
+
+    if (config.notificationsEnabled) {
+      this.showPostureNotification(ongoing.condition);
+    }
+    return true;
+  }
+
+  private async showPostureNotification(condition: PoorPostureCondition): Promise<boolean> {
+    const title = "Check your posture";
+    const body = POSTURE_GUIDANCE[condition];
+
+    return this.showAlert({
+      title,
+      body,
+      tag: "posture-alert",
+      autoCloseMs: 10000,
+    });
+  }
+
+  /**
+   * How long a stare lasts before the user is nudged to blink, or null when the nudge or
+   * notifications are off. Read as each session starts so the per-frame check stays cheap.
+   */
+  getStaringNudgeMs(): number | null {
+    const config = this.getConfig();
+    if (!config.notificationsEnabled || config.staringNudgeSeconds === null) {
+      return null;
+    }
+    return config.staringNudgeSeconds * 1000;
+  }
+
+  /**
+   * Nudge the user to blink once they've gone the length picked in settings without blinking.
+   * Off unless enabled in settings, and sent at most once a minute.
+   */
+  notifyStaring(staringMs: number): boolean {
+    const config = this.getConfig();
+    if (!config.notificationsEnabled || config.staringNudgeSeconds === null ||
+        staringMs < config.staringNudgeSeconds * 1000) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (now - this.lastStaringNudgeTime < STARING_NUDGE_COOLDOWN_MS) {
+      return false;
+    }
+    this.lastStaringNudgeTime = now;
+
+    this.showStaringNotification(staringMs);
+    return true;
+  }
+
+  private async showStaringNotification(staringMs: number): Promise<boolean> {
+    const title = "Remember to blink";
+    const body = `You haven't blinked for ${Math.round(staringMs / 1000)} seconds. Blink slowly a few times to rewet your eyes.`;
+
+    return this.showAlert({
+      title,
+      body,
+      tag: "staring-nudge",
+      autoCloseMs: 5000, // It's stale by the time the user has blinked
+    });
+  }
+
+  /**
+   * Tell the user they're sitting too close to the screen. On unless turned off in settings,
+   * and sent at most once every 10 minutes.
+   */
+  notifyTooClose(distanceCm: number): boolean {
+    const config = this.getConfig();
+    if (!config.notificationsEnabled || !config.distanceAlertsEnabled) {
+      return false;
+    }
+
+    const now = Date.now();
+    if (now - this.lastDistanceAlertTime < DISTANCE_ALERT_COOLDOWN_MS) {
+      return false;
+    }
+    this.lastDistanceAlertTime = now;
+
+    this.showTooCloseNotification(distanceCm);
+    return true;
+  }
+
+  private async showTooCloseNotification(distanceCm: number): Promise<boolean> {
+    const title = "You're too close to the screen";
+    const body = `Your eyes are about ${Math.round(distanceCm)} cm from the screen. Sit back to at least ${TOO_CLOSE_DISTANCE_CM} cm, about an arm's length, to ease eye strain.`;
+
+    return this.showAlert({
+      title,
+      body,
+      tag: "distance-alert",
+      autoCloseMs: 10000,
+    });
+  }
+
   startMonitoring(
     getActiveSession: () => SessionData | null,
-    onAlert?: () => void
+    onAlert?: () => void,
+    onDrowsinessAlert?: () => void
   ): void {
     // Clear any existing interval
     this.stopMonitoring();
@@ -230,11 +541,15 @@ export class AlertService {
     this.intervalId = setInterval(() => {
       const activeSession = getActiveSession();
       this.checkForFatigue(activeSession, onAlert);
+      this.checkForDrowsiness(activeSession, onDrowsinessAlert);
+      this.checkForPosture(activeSession);
     }, 60000); // 1 minute
 
     // Also check immediately
     const activeSession = getActiveSession();
     this.checkForFatigue(activeSession, onAlert);
+    this.checkForDrowsiness(activeSession, onDrowsinessAlert);
+    this.checkForPosture(activeSession);
   }
 
   stopMonitoring(): void {
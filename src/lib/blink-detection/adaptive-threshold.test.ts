@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { AdaptiveThreshold, percentile } from './adaptive-threshold';
+
+describe('percentile', () => {
+  it('interpolates between sorted values', () => {
+    expect(percentile([4, 1, 3, 2, 5], 0.5)).toBe(3);
+    expect(percentile([1, 2], 0.25)).toBe(1.25);
+  });
+
+  it('returns 0 for an empty list', () => {
+    expect(percentile([], 0.9)).toBe(0);
+  });
+});
+
+describe('AdaptiveThreshold', () => {
+  it('starts at the calibrated threshold', () => {
+    const threshold = new AdaptiveThreshold({ priorThreshold: 0.2 });
+
+    expect(threshold.getThreshold()).toBe(0.2);
+  });
+
+  it('moves towards the open-eye estimate as frames arrive', () => {
+    // Calibration: threshold 0.2 with eyes open at 0.3 -> threshold sits at 2/3 of open EAR
+    const threshold = new AdaptiveThreshold({ priorThreshold: 0.2, priorOpenEAR: 0.3, priorWeight: 10 });
+
+    const early = threshold.update(0.27);
+    for (let i = 0; i < 300; i++) {
+      threshold.update(0.27);
+    }
+
+    expect(early).toBeGreaterThan(0.18);
+    expect(early).toBeLessThan(0.2);
+    expect(threshold.getThreshold()).toBeCloseTo(0.18, 2);
+  });
+
+  it('ignores blinks when estimating the open-eye level', () => {
+    const threshold = new AdaptiveThreshold({ priorThreshold: 0.2, priorOpenEAR: 0.3 });
+
+    for (let i = 0; i < 300; i++) {
+      // One closed frame in every ten
+      threshold.update(i % 10 === 0 ? 0.05 : 0.3);
+    }
+
+    expect(threshold.getOpenEAR()).toBeCloseTo(0.3);
+  });
+
+  it('does not drift further than maxDrift from the prior', () => {
+    const threshold = new AdaptiveThreshold({ priorThreshold: 0.2, priorOpenEAR: 0.3, maxDrift: 0.25 });
+
+    for (let i = 0; i < 300; i++) {
+      threshold.update(0.6);
+    }
+
+    expect(threshold.getThreshold()).toBeCloseTo(0.25);
+
+    threshold.reset();
+    expect(threshold.getThreshold()).toBe(0.2);
+  });
+});
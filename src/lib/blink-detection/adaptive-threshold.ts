@@ -0,0 +1,94 @@
+export interface AdaptiveThresholdConfig {
+  priorThreshold: number; // Static calibration threshold, used while there is little data
+  priorOpenEAR?: number; // Open-eye EAR seen during calibration, sets the threshold/open-eye ratio
+  defaultClosureRatio: number; // Threshold as a share of open-eye EAR when there is no calibration data
+  windowSize: number; // Recent frames used for the open-eye estimate (~10s at 30fps)
+  openPercentile: number; // High enough that blinks in the window don't pull the estimate down
+  priorWeight: number; // How many frames the prior is worth when blending with the estimate
+  maxDrift: number; // Furthest the threshold may move from the prior, as a fraction of it
+}
+
+/**
+ * Value at percentile `p` (0-1) of `values`, using linear interpolation.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const lowerValue = sorted[lower] ?? 0;
+  const upperValue = sorted[upper] ?? lowerValue;
+
+  return lowerValue + (upperValue - lowerValue) * (position - lower);
+}
+
+/**
+ * Online EAR threshold that follows the user's open-eye level.
+ *
+ * Open-eye EAR is a high percentile of recent frames, and the threshold sits at a fixed
+ * ratio below it. The ratio comes from the calibration (threshold / open-eye EAR) so the
+ * calibration acts as a prior: with few frames the result stays close to the calibrated
+ * threshold and moves towards the rolling estimate as the window fills.
+ */
+export class AdaptiveThreshold {
+  private config: AdaptiveThresholdConfig;
+  private samples: number[] = [];
+  private threshold: number;
+
+  constructor(config: Partial<AdaptiveThresholdConfig> = {}) {
+    this.config = {
+      priorThreshold: 0.25,
+      defaultClosureRatio: 0.75,
+      windowSize: 300,
+      openPercentile: 0.9,
+      priorWeight: 90,
+      maxDrift: 0.4,
+      ...config
+    };
+    this.threshold = this.config.priorThreshold;
+  }
+
+  /**
+   * Add the EAR of a frame with a detected face and return the updated threshold.
+   */
+  update(ear: number): number {
+    this.samples.push(ear);
+    if (this.samples.length > this.config.windowSize) {
+      this.samples.shift();
+    }
+
+    const { priorThreshold, priorWeight, maxDrift } = this.config;
+    const estimate = this.getOpenEAR() * this.getClosureRatio();
+    const weight = this.samples.length / (this.samples.length + priorWeight);
+    const blended = priorThreshold * (1 - weight) + estimate * weight;
+
+    this.threshold = Math.min(
+      priorThreshold * (1 + maxDrift),
+      Math.max(priorThreshold * (1 - maxDrift), blended)
+    );
+    return this.threshold;
+  }
+
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  getOpenEAR(): number {
+    return percentile(this.samples, this.config.openPercentile);
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.threshold = this.config.priorThreshold;
+  }
+
+  private getClosureRatio(): number {
+    const { priorThreshold, priorOpenEAR, defaultClosureRatio } = this.config;
+    if (!priorOpenEAR || priorOpenEAR <= priorThreshold) {
+      return defaultClosureRatio;
+    }
+    return priorThreshold / priorOpenEAR;
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { calculateEAR, calculateEuclideanDistance, calculateAverageEAR } from './ear-calculator';
-import { extractEyeLandmarks, extractBothEyeLandmarks } from './landmark-extractor';
+import { calculateEAR, calculateEuclideanDistance, calculateAverageEAR, calculateEyeEARs, classifyBlink } from './ear-calculator';
+import { extractEyeLandmarks, extractBothEyeLandmarks, extractIrisDiameter, extractIrisOffset } from './landmark-extractor';
 import { BlinkDetector } from './blink-detector';
 import { EyeLandmarks, Point2D, FaceMeshResults } from './types';
 
@@ -59,6 +59,39 @@ describe('EAR Calculator', () => {
     
     expect(avgEAR).toBe(expected);
   });
+
+  it('should calculate per-eye EAR independently', () => {
+    const openEye: EyeLandmarks = {
+      p1: { x: 0, y: 0 },
+      p2: { x: 1, y: 1 },
+      p3: { x: 2, y: 1 },
+      p4: { x: 5, y: 0 },
+      p5: { x: 2, y: -1 },
+      p6: { x: 1, y: -1 }
+    };
+
+    const closedEye: EyeLandmarks = {
+      ...openEye,
+      p2: { x: 1, y: 0.1 },
+      p3: { x: 2, y: 0.1 },
+      p5: { x: 2, y: -0.1 },
+      p6: { x: 1, y: -0.1 }
+    };
+
+    const ears = calculateEyeEARs(closedEye, openEye);
+
+    expect(ears.left).toBe(calculateEAR(closedEye));
+    expect(ears.right).toBe(calculateEAR(openEye));
+    expect(ears.average).toBe((ears.left + ears.right) / 2);
+  });
+
+  it('should classify closures by which eye is below the threshold', () => {
+    expect(classifyBlink(0.1, 0.12, 0.25)).toBe('bilateral');
+    expect(classifyBlink(0.1, 0.32, 0.25)).toBe('left-wink');
+    expect(classifyBlink(0.31, 0.1, 0.25)).toBe('right-wink');
+    // Neither eye below on its own still counts as a normal blink
+    expect(classifyBlink(0.3, 0.3, 0.25)).toBe('bilateral');
+  });
 });
 
 describe('Landmark Extractor', () => {
@@ -129,6 +162,55 @@ describe('Landmark Extractor', () => {
 
     expect(result).toBeNull();
   });
+
+  it('should measure iris offsets between the eye corners', () => {
+    const landmarks = Array.from({ length: 478 }, () => ({ x: 0, y: 0, z: 0 }));
+    const place = (index: number, x: number, y: number) => {
+      landmarks[index] = { x, y, z: 0 };
+    };
+    // Right eye corners 0.1 apart, iris a fifth of the eye width right of center
+    place(33, 0.3, 0.4);
+    place(133, 0.4, 0.4);
+    place(468, 0.37, 0.4);
+    // Left eye the same, with the iris also a tenth of the eye width below the corners
+    place(362, 0.6, 0.4);
+    place(263, 0.7, 0.4);
+    place(473, 0.67, 0.4 + 0.01 * 640 / 480);
+
+    const result = extractIrisOffset({ faceLandmarks: [landmarks] }, 640, 480);
+
+    expect(result?.x).toBeCloseTo(0.2);
+    expect(result?.y).toBeCloseTo(0.05);
+  });
+
+  it('should return no iris offset without iris landmarks', () => {
+    const landmarks = Array.from({ length: 468 }, (_, i) => ({
+      x: i * 0.001,
+      y: i * 0.001,
+      z: 0
+    }));
+
+    expect(extractIrisOffset({ faceLandmarks: [landmarks] }, 640, 480)).toBeNull();
+  });
+
+  it('should measure iris diameter in image widths, averaged over both eyes', () => {
+    const landmarks = Array.from({ length: 478 }, () => ({ x: 0, y: 0, z: 0 }));
+    const place = (index: number, x: number, y: number) => {
+      landmarks[index] = { x, y, z: 0 };
+    };
+    place(471, 0.34, 0.4);
+    place(469, 0.36, 0.4);
+    place(476, 0.64, 0.4);
+    place(474, 0.67, 0.4);
+
+    expect(extractIrisDiameter({ faceLandmarks: [landmarks] }, 640, 480)).toBeCloseTo(0.025);
+  });
+
+  it('should return no iris diameter without iris landmarks', () => {
+    const landmarks = Array.from({ length: 468 }, () => ({ x: 0, y: 0, z: 0 }));
+
+    expect(extractIrisDiameter({ faceLandmarks: [landmarks] }, 640, 480)).toBeNull();
+  });
 });
 
 describe('BlinkDetector', () => {
@@ -137,7 +219,7 @@ describe('BlinkDetector', () => {
   beforeEach(() => {
     detector = new BlinkDetector({
       earThreshold: 0.25,
-      consecutiveFrames: 2,
+      minClosureMs: 50,
       debounceTime: 50
     });
   });
@@ -170,13 +252,39 @@ describe('BlinkDetector', () => {
     expect(result.blinkCount).toBe(0);
     expect(result.isBlinking).toBe(false);
   });
+
+  it('should detect a one-eye closure the average would hide', () => {
+    const detectorWithPrivateMethods = detector as unknown as {
+      detectBlink: (ear: number, timestamp: number, leftEAR?: number, rightEAR?: number) => boolean;
+      state: { currentBlinkType: string | null };
+    };
+
+    // Both eyes open first, so each eye's open level is known
+    detectorWithPrivateMethods.detectBlink(0.32, 950, 0.32, 0.32);
+
+    // Left eye closes, right stays open: average (0.26) never crosses 0.25
+    detectorWithPrivateMethods.detectBlink(0.26, 1000, 0.2, 0.32);
+    const isBlinking = detectorWithPrivateMethods.detectBlink(0.26, 1050, 0.2, 0.32);
+
+    expect(isBlinking).toBe(true);
+    expect(detector.getBlinkCount()).toBe(1);
+    expect(detectorWithPrivateMethods.state.currentBlinkType).toBe('left-wink');
+
+    // Both eyes reopen, then a normal blink
+    detectorWithPrivateMethods.detectBlink(0.32, 1100, 0.32, 0.32);
+    detectorWithPrivateMethods.detectBlink(0.15, 1200, 0.14, 0.16);
+    detectorWithPrivateMethods.detectBlink(0.15, 1250, 0.14, 0.16);
+
+    expect(detector.getBlinkCount()).toBe(2);
+    expect(detectorWithPrivateMethods.state.currentBlinkType).toBe('bilateral');
+  });
 });
 
 describe('Video Blink Detection Integration', () => {
   it('should initialize detector with correct blink count', async () => {
     const detector = new BlinkDetector({
       earThreshold: 0.25,
-      consecutiveFrames: 2,
+      minClosureMs: 50,
       debounceTime: 100
     });
 
@@ -1,27 +1,42 @@
-import { BlinkDetectorConfig, BlinkDetectionResult, BlinkDetectionState, FaceMeshResults } from './types';
+import {
+  BlinkDetectorConfig,
+  BlinkDetectionResult,
+  BlinkDetectionState,
+  BlinkDetectionStrategy,
+  BlinkEngineEvent,
+  DetectedBlink,
+  EyeBlinkScores,
+  FaceMeshResults
+} from './types';
 import { FaceMeshProcessor } from './face-mesh-processor';
-import { extractBothEyeLandmarks } from './landmark-extractor';
-import { calculateAverageEAR } from './ear-calculator';
+import { extractBothEyeLandmarks, extractIrisOffset } from './landmark-extractor';
+import { calculateEyeEARs } from './ear-calculator';
+import { correctEyeEARsForPose, getHeadPose, isPoseWithinLimits } from './head-pose';
+import { estimateGaze } from './gaze';
+import { createDetectionStrategy, getEyeBlinkScores } from './detection-strategies';
+import { DEFAULT_BLINK_ENGINE_CONFIG } from './blink-engine';
+import { assessFrameQuality, measureFrame } from './frame-quality';
+import { PrimaryFaceTracker, selectFaceResults } from './face-selection';
+import { BrightnessMeter, FaceLightingMeter } from '../utils/brightness-meter';
 
 export class BlinkDetector {
   private config: BlinkDetectorConfig;
-  private state: BlinkDetectionState;
+  private strategy: BlinkDetectionStrategy;
+  private completedBlink: DetectedBlink | null = null;
+  private events: BlinkEngineEvent[] = [];
   private faceMeshProcessor: FaceMeshProcessor;
+  private brightnessMeter = new BrightnessMeter();
+  private faceLightingMeter = new FaceLightingMeter();
+  private primaryFaceTracker = new PrimaryFaceTracker();
 
   constructor(config: Partial<BlinkDetectorConfig> = {}) {
     this.config = {
-      earThreshold: 0.25,
-      consecutiveFrames: 3,
-      debounceTime: 100,
+      ...DEFAULT_BLINK_ENGINE_CONFIG,
+      strategy: 'ear-threshold',
       ...config
     };
 
-    this.state = {
-      consecutiveFramesBelow: 0,
-      lastBlinkTime: 0,
-      totalBlinks: 0,
-      isCurrentlyBlinking: false
-    };
+    this.strategy = createDetectionStrategy(this.config.strategy, this.config);
 
     this.faceMeshProcessor = new FaceMeshProcessor();
   }
@@ -30,10 +45,19 @@ export class BlinkDetector {
     await this.faceMeshProcessor.initialize();
   }
 
+  /**
+   * @param captureTime wall-clock time of the frame. Defaults to now; recorded video passes
+   *   the frame's position in the recording so results don't depend on processing speed.
+   */
   async processFrame(
     videoElement: HTMLVideoElement, 
-    onRawResults?: (results: FaceMeshResults) => void
+    onRawResults?: (results: FaceMeshResults) => void,
+    captureTime?: number
   ): Promise<BlinkDetectionResult> {
+    // Stamp the frame when it's grabbed, not when inference finishes
+    const timestamp = captureTime ?? Date.now();
+    const brightness = this.brightnessMeter.measure(videoElement, timestamp);
+
     return new Promise((resolve) => {
       this.faceMeshProcessor.processFrame(videoElement, (results: FaceMeshResults) => {
         // Pass raw results to visualizer if callback provided
@@ -41,10 +65,11 @@ export class BlinkDetector {
           onRawResults(results);
         }
         
-        const timestamp = Date.now();
-        const result = this.analyzeFrame(results, videoElement.videoWidth, videoElement.videoHeight, timestamp);
+        const result = this.analyzeFrame(
+          results, videoElement.videoWidth, videoElement.videoHeight, timestamp, brightness, videoElement
+        );
         resolve(result);
-      });
+      }, captureTime);
     });
   }
 
@@ -52,58 +77,104 @@ export class BlinkDetector {
     results: FaceMeshResults,
     videoWidth: number,
     videoHeight: number,
-    timestamp: number
+    timestamp: number,
+    brightness: number | null = null,
+    // Frame the results came from, to measure the light on the face
+    source: CanvasImageSource | null = null
   ): BlinkDetectionResult {
-    const eyeLandmarks = extractBothEyeLandmarks(results, videoWidth, videoHeight);
+    // Only the user's face is tracked; anyone else in view is ignored
+    const faceCount = results.faceLandmarks.length;
+    const faceIndex = this.primaryFaceTracker.select(results.faceLandmarks, timestamp);
+    const primaryResults = faceIndex === null ? { faceLandmarks: [] } : selectFaceResults(results, faceIndex);
+    const eyeLandmarks = extractBothEyeLandmarks(primaryResults, videoWidth, videoHeight);
     
     if (!eyeLandmarks) {
+      const { events } = this.strategy.processMissingFace(timestamp);
       return {
         blinkCount: this.state.totalBlinks,
         currentEAR: 0,
+        leftEAR: 0,
+        rightEAR: 0,
         isBlinking: false,
+        blinkType: null,
+        completedBlink: null,
+        events,
+        headPose: null,
+        poseGated: false,
+        gaze: null,
+        frameQuality: null,
         timestamp
       };
     }
 
-    const currentEAR = calculateAverageEAR(eyeLandmarks.leftEye, eyeLandmarks.rightEye);
-    const isBlinking = this.detectBlink(currentEAR, timestamp);
+    const headPose = getHeadPose(primaryResults);
+    const ears = correctEyeEARsForPose(
+      calculateEyeEARs(eyeLandmarks.leftEye, eyeLandmarks.rightEye),
+      headPose
+    );
+    const gaze = estimateGaze(extractIrisOffset(primaryResults, videoWidth, videoHeight), headPose);
+    const faceLandmarks = primaryResults.faceLandmarks[0] ?? [];
+    const faceLighting = source
+      ? this.faceLightingMeter.measure(source, faceLandmarks, eyeLandmarks, videoWidth, videoHeight, timestamp)
+      : null;
+    const frameQuality = assessFrameQuality(
+      measureFrame(faceLandmarks, eyeLandmarks, videoWidth, videoHeight, brightness, faceLighting, faceCount),
+      headPose
+    );
+
+    // Too far turned away for EAR to mean anything - hold the current state
+    const poseGated = headPose !== null && !isPoseWithinLimits(headPose);
+    const isBlinking = poseGated
+      ? this.state.isCurrentlyBlinking
+      : this.detectBlink(ears.average, timestamp, ears.left, ears.right, getEyeBlinkScores(primaryResults));
+    const completedBlink = this.completedBlink;
+    const events = this.events;
+    this.completedBlink = null;
+    this.events = [];
 
     return {
       blinkCount: this.state.totalBlinks,
-      currentEAR,
+      currentEAR: ears.average,
+      leftEAR: ears.left,
+      rightEAR: ears.right,
       isBlinking,
+      blinkType: this.state.currentBlinkType,
+      completedBlink,
+      events,
+      headPose,
+      poseGated,
+      gaze,
+      frameQuality,
       timestamp
     };
   }
 
-  private detectBlink(currentEAR: number, timestamp: number): boolean {
-    if (currentEAR < this.config.earThreshold) {
-      this.state.consecutiveFramesBelow++;
-      
-      if (this.state.consecutiveFramesBelow >= this.config.consecutiveFrames && 
-          !this.state.isCurrentlyBlinking &&
-          timestamp - this.state.lastBlinkTime > this.config.debounceTime) {
-        
-        this.state.isCurrentlyBlinking = true;
-        this.state.totalBlinks++;
-        this.state.lastBlinkTime = timestamp;
-        return true;
+  private get state(): Readonly<BlinkDetectionState> {
+    return this.strategy.getState();
+  }
+
+  // Per-eye EARs default to the average so callers with a single value behave as before
+  private detectBlink(
+    currentEAR: number,
+    timestamp: number,
+    leftEAR: number = currentEAR,
+    rightEAR: number = currentEAR,
+    blinkScores: EyeBlinkScores | null = null
+  ): boolean {
+    const result = this.strategy.processFrame({ timestamp, leftEAR, rightEAR, blinkScores });
+    for (const event of result.events) {
+      if (event.type === 'blink-end') {
+        this.completedBlink = event.blink;
       }
-    } else {
-      this.state.consecutiveFramesBelow = 0;
-      this.state.isCurrentlyBlinking = false;
     }
-
-    return this.state.isCurrentlyBlinking;
+    this.events = result.events;
+    return result.isBlinking;
   }
 
   resetBlinkCounter(): void {
-    this.state = {
-      consecutiveFramesBelow: 0,
-      lastBlinkTime: 0,
-      totalBlinks: 0,
-      isCurrentlyBlinking: false
-    };
+    this.strategy.reset();
+    this.completedBlink = null;
+    this.events = [];
   }
 
   dispose(): void {
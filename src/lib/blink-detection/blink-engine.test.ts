@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BLINK_ENGINE_CONFIG,
+  createBlinkEngineState,
+  runBlinkEngine,
+  stepBlinkEngine,
+} from './blink-engine';
+import { BlinkDetectionState, BlinkEngineConfig, BlinkEngineEvent, BlinkEngineSample } from './types';
+import { DEFAULT_FRAME_SCHEDULER_CONFIG } from '../utils/frame-scheduler';
+
+const config = DEFAULT_BLINK_ENGINE_CONFIG;
+
+const eyes = (ear: number): BlinkEngineSample => ({ left: ear, right: ear });
+
+function run(frames: Array<[number, BlinkEngineSample]>, engineConfig: BlinkEngineConfig = config) {
+  let state: BlinkDetectionState = createBlinkEngineState();
+  const events: BlinkEngineEvent[] = [];
+  for (const [timestamp, sample] of frames) {
+    const step = stepBlinkEngine(state, timestamp, sample, engineConfig);
+    state = step.state;
+    events.push(...step.events);
+  }
+  return { state, events };
+}
+
+describe('stepBlinkEngine', () => {
+  it('emits face-regained on the first frame with a face', () => {
+    const { events } = run([[1000, eyes(0.3)]]);
+
+    expect(events).toEqual([{ type: 'face-regained', timestamp: 1000 }]);
+  });
+
+  it('emits blink-start once the closure has lasted minClosureMs and blink-end when the eyes reopen', () => {
+    const { state, events } = run([
+      [1000, eyes(0.3)],
+      [1033, eyes(0.2)],
+      [1083, eyes(0.1)],
+      [1116, eyes(0.3)],
+    ]);
+
+    const types = events.map(event => event.type);
+    expect(types).toEqual(['face-regained', 'blink-start', 'blink-end']);
+    expect(events[1]).toEqual({ type: 'blink-start', timestamp: 1083, blinkType: 'bilateral' });
+
+    const end = events[2];
+    expect(end?.type === 'blink-end' && end.blink.timestamp).toBe(1033);
+    expect(end?.type === 'blink-end' && end.blink.duration).toBe(83);
+    expect(state.totalBlinks).toBe(1);
+  });
+
+  it('counts a closure that only one frame saw once the eyes reopen', () => {
+    const { state, events } = run([
+      [1000, eyes(0.3)],
+      [1067, eyes(0.1)],
+      [1133, eyes(0.3)],
+    ]);
+
+    expect(events.map(event => event.type)).toEqual(['face-regained', 'blink-start', 'blink-end']);
+    expect(state.totalBlinks).toBe(1);
+  });
+
+  it('ignores a dip shorter than minClosureMs', () => {
+    const { state, events } = run([
+      [1000, eyes(0.3)],
+      [1033, eyes(0.2)],
+      [1066, eyes(0.3)],
+    ]);
+
+    expect(events.map(event => event.type)).toEqual(['face-regained']);
+    expect(state.totalBlinks).toBe(0);
+  });
+
+  it('counts a 100 ms blink at the default processing rate whatever its phase', () => {
+    const frameMs = 1000 / DEFAULT_FRAME_SCHEDULER_CONFIG.targetFps;
+    for (let offset = 0; offset < frameMs; offset += 5) {
+      const frames = Array.from({ length: 30 }, (_, i): [number, BlinkEngineSample] => {
+        const timestamp = 1000 + offset + i * frameMs;
+        return [timestamp, eyes(timestamp >= 1500 && timestamp < 1600 ? 0.1 : 0.3)];
+      });
+
+      expect(run(frames).state.totalBlinks).toBe(1);
+    }
+  });
+
+  it('does not modify the input state', () => {
+    const state = createBlinkEngineState();
+    const snapshot = JSON.parse(JSON.stringify(state));
+
+    stepBlinkEngine(state, 1000, eyes(0.1), config);
+
+    expect(state).toEqual(snapshot);
+  });
+
+  it('drops a closure in progress when the face is lost, without a blink-end', () => {
+    const { state, events } = run([
+      [1000, eyes(0.2)],
+      [1050, eyes(0.1)],
+      [1066, null],
+      [1100, null],
+      [1133, eyes(0.3)],
+    ]);
+
+    expect(events.map(event => event.type)).toEqual([
+      'face-regained', 'blink-start', 'face-lost', 'face-regained',
+    ]);
+    expect(state.totalBlinks).toBe(1);
+    expect(state.isCurrentlyBlinking).toBe(false);
+  });
+
+  it('debounces blinks that start too soon after the previous one', () => {
+    const { state } = run([
+      [1000, eyes(0.2)],
+      [1050, eyes(0.1)],
+      [1060, eyes(0.3)],
+      [1070, eyes(0.2)],
+      [1120, eyes(0.1)],
+      [1130, eyes(0.3)],
+    ], { ...config, debounceTime: 100 });
+
+    expect(state.totalBlinks).toBe(1);
+  });
+
+  it('keeps a bounded number of samples over a long closure and still times it', () => {
+    const frames: Array<[number, BlinkEngineSample]> = Array.from(
+      { length: 100 },
+      (_, i): [number, BlinkEngineSample] => [1000 + i * 33, eyes(0.1)]
+    );
+    const closed = run([[967, eyes(0.3)], ...frames]);
+    expect(closed.state.closureSamples.length).toBeLessThanOrEqual(64);
+    expect(closed.state.closureSamples[0]?.timestamp).toBe(1000);
+
+    const { events } = stepBlinkEngine(closed.state, 1000 + 100 * 33, eyes(0.3), config);
+
+    const end = events[0];
+    expect(end?.type === 'blink-end' && end.blink.duration).toBe(100 * 33);
+  });
+
+  it('keeps counting blinks when one eye rests below the threshold', () => {
+    const frames: Array<[number, BlinkEngineSample]> = [];
+    let time = 1000;
+    const hold = (left: number, right: number, count: number) => {
+      for (let i = 0; i < count; i++, time += 33) frames.push([time, { left, right }]);
+    };
+    hold(0.22, 0.3, 30);
+    for (let blink = 0; blink < 5; blink++) {
+      hold(0.08, 0.1, 4);
+      hold(0.22, 0.3, 30);
+    }
+
+    const { state, events } = run(frames);
+
+    expect(state.totalBlinks).toBe(5);
+    expect(state.isCurrentlyBlinking).toBe(false);
+    const blinks = events.flatMap(event => (event.type === 'blink-end' ? [event.blink] : []));
+    expect(blinks).toHaveLength(5);
+    expect(blinks.every(blink => blink.type === 'bilateral')).toBe(true);
+  });
+
+  it('still tells a wink of the eye that rests lower', () => {
+    const { events } = run([
+      [1000, { left: 0.22, right: 0.3 }],
+      [1033, { left: 0.22, right: 0.3 }],
+      [1066, { left: 0.08, right: 0.3 }],
+      [1100, { left: 0.08, right: 0.3 }],
+      [1133, { left: 0.22, right: 0.3 }],
+    ]);
+
+    const end = events.find(event => event.type === 'blink-end');
+    expect(end?.type === 'blink-end' && end.blink.type).toBe('left-wink');
+  });
+
+  it('keeps state serialisable so it can be resumed', () => {
+    const first = run([[1000, eyes(0.2)]]);
+    const restored = JSON.parse(JSON.stringify(first.state)) as BlinkDetectionState;
+
+    const { events } = stepBlinkEngine(restored, 1050, eyes(0.1), config);
+
+    expect(events).toEqual([{ type: 'blink-start', timestamp: 1050, blinkType: 'bilateral' }]);
+  });
+});
+
+describe('runBlinkEngine', () => {
+  it('treats null EAR as a missing face', () => {
+    const events = runBlinkEngine([
+      { timestamp: 1000, ear: 0.3 },
+      { timestamp: 1033, ear: null },
+    ], config);
+
+    expect(events.map(event => event.type)).toEqual(['face-regained', 'face-lost']);
+  });
+});
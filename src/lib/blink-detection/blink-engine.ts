@@ -0,0 +1,214 @@
+import {
+  BlinkDetectionState,
+  BlinkEngineConfig,
+  BlinkEngineEvent,
+  BlinkEngineSample,
+  BlinkType,
+  EARSample,
+} from './types';
+import { classifyBlink } from './ear-calculator';
+import { summarizeClosure } from './blink-timing';
+
+// Shared by live tracking, the BlinkDetector class and offline analysis so they all count the same blinks
+export const DEFAULT_BLINK_ENGINE_CONFIG: BlinkEngineConfig = {
+  earThreshold: 0.25,
+  minClosureMs: 50,
+  debounceTime: 50,
+};
+
+// Closure frames kept for timing. A long closure (or a stretch of squinting) would otherwise grow
+// without limit, so past this the samples are thinned to every other one, keeping the first
+const MAX_CLOSURE_SAMPLES = 64;
+
+// An eye also has to dip this far below its own open level to count as closed, so an eye that
+// rests near or under the threshold (one that never opens fully) still has to close
+const OPEN_LEVEL_CLOSURE_RATIO = 0.85;
+// Each eye's open level rises quickly to follow the eye opening and falls slowly, so a blink
+// barely moves it but an eye that settles lower is followed within a few seconds
+const OPEN_LEVEL_RISE_MS = 100;
+const OPEN_LEVEL_FALL_MS = 2000;
+
+export interface BlinkEngineStep {
+  state: BlinkDetectionState;
+  events: BlinkEngineEvent[];
+}
+
+export function createBlinkEngineState(): BlinkDetectionState {
+  return {
+    lastBlinkTime: 0,
+    totalBlinks: 0,
+    isCurrentlyBlinking: false,
+    currentBlinkType: null,
+    closureSamples: [],
+    isFaceDetected: false,
+    openLevels: null,
+    lastSampleTime: null,
+  };
+}
+
+/**
+ * Each eye's closure threshold: the configured threshold, lowered for an eye whose open level
+ * sits close to or under it. Without open levels yet, the configured threshold.
+ */
+export function getEyeThresholds(
+  openLevels: BlinkDetectionState['openLevels'],
+  earThreshold: number
+): { left: number; right: number } {
+  return {
+    left: Math.min(earThreshold, (openLevels?.left ?? Infinity) * OPEN_LEVEL_CLOSURE_RATIO),
+    right: Math.min(earThreshold, (openLevels?.right ?? Infinity) * OPEN_LEVEL_CLOSURE_RATIO),
+  };
+}
+
+/**
+ * Advance the blink state machine by one frame. Pure: the input state is not modified.
+ *
+ * The sample holds per-eye "openness" (EAR, or 1 - blendshape score), where lower means more
+ * closed. Each eye is judged against its own threshold (see getEyeThresholds) and a closure
+ * starts as soon as either eye closes, so winks and blinks where one eye closes less fully
+ * are not hidden by the other eye. `blink-start` fires
+ * once the closure has lasted `minClosureMs` and `blink-end` fires on the frame the eyes
+ * reopen. Timing the closure rather than counting frames gives the same blinks at any frame
+ * rate: a closure that only one processed frame saw is counted as the eyes reopen, with
+ * `blink-start` and `blink-end` on the same frame. A null sample means no face: a closure in progress is dropped. The first
+ * frame with a face after no face (including the very first frame) raises `face-regained`.
+ */
+export function stepBlinkEngine(
+  state: BlinkDetectionState,
+  timestamp: number,
+  sample: BlinkEngineSample,
+  config: BlinkEngineConfig
+): BlinkEngineStep {
+  const events: BlinkEngineEvent[] = [];
+
+  if (!sample) {
+    if (state.isFaceDetected) {
+      events.push({ type: 'face-lost', timestamp });
+    }
+    return {
+      state: {
+        ...state,
+        isCurrentlyBlinking: false,
+        currentBlinkType: null,
+        closureSamples: [],
+        isFaceDetected: false,
+      },
+      events,
+    };
+  }
+
+  if (!state.isFaceDetected) {
+    events.push({ type: 'face-regained', timestamp });
+  }
+
+  const { left, right } = sample;
+  const { earThreshold, minClosureMs, debounceTime } = config;
+
+  // Until the first frame with a face sets the open levels, both eyes use the plain threshold
+  const thresholds = getEyeThresholds(state.openLevels, earThreshold);
+  const tracked = {
+    openLevels: followOpenLevels(state, timestamp, sample),
+    lastSampleTime: timestamp,
+  };
+
+  if (left < thresholds.left || right < thresholds.right) {
+    const closureSamples = appendClosureSample(state.closureSamples, { timestamp, left, right });
+    const next: BlinkDetectionState = {
+      ...state,
+      ...tracked,
+      closureSamples,
+      isFaceDetected: true,
+    };
+
+    const closureStart = closureSamples[0]?.timestamp ?? timestamp;
+    if (!next.isCurrentlyBlinking &&
+        timestamp - closureStart >= minClosureMs &&
+        timestamp - next.lastBlinkTime > debounceTime) {
+      startBlink(next, timestamp, classifyBlink(left, right, thresholds), events);
+    }
+
+    return { state: next, events };
+  }
+
+  // Eyes reopened - time the closure if it counts as a blink
+  const blink = summarizeClosure(state.closureSamples, timestamp, thresholds);
+  let counted = state;
+  if (blink && !state.isCurrentlyBlinking &&
+      blink.duration >= minClosureMs &&
+      timestamp - state.lastBlinkTime > debounceTime) {
+    counted = { ...state };
+    startBlink(counted, timestamp, blink.type, events);
+  }
+  if (blink && counted.isCurrentlyBlinking) {
+    events.push({ type: 'blink-end', timestamp, blink });
+  }
+
+  return {
+    state: {
+      ...counted,
+      ...tracked,
+      isCurrentlyBlinking: false,
+      currentBlinkType: null,
+      closureSamples: [],
+      isFaceDetected: true,
+    },
+    events,
+  };
+}
+
+function startBlink(
+  state: BlinkDetectionState,
+  timestamp: number,
+  blinkType: BlinkType,
+  events: BlinkEngineEvent[]
+): void {
+  state.isCurrentlyBlinking = true;
+  state.currentBlinkType = blinkType;
+  state.totalBlinks++;
+  state.lastBlinkTime = timestamp;
+  events.push({ type: 'blink-start', timestamp, blinkType });
+}
+
+function followOpenLevels(
+  state: BlinkDetectionState,
+  timestamp: number,
+  sample: { left: number; right: number }
+): { left: number; right: number } {
+  const previous = state.openLevels;
+  if (!previous) {
+    return { left: sample.left, right: sample.right };
+  }
+
+  const elapsed = Math.max(0, timestamp - (state.lastSampleTime ?? timestamp));
+  const follow = (level: number, reading: number) => {
+    const timeConstant = reading > level ? OPEN_LEVEL_RISE_MS : OPEN_LEVEL_FALL_MS;
+    return level + (reading - level) * (1 - Math.exp(-elapsed / timeConstant));
+  };
+  return { left: follow(previous.left, sample.left), right: follow(previous.right, sample.right) };
+}
+
+function appendClosureSample(samples: EARSample[], sample: EARSample): EARSample[] {
+  const next = [...samples, sample];
+  // With an even limit the newest sample lands on an even index and survives the thinning
+  return next.length > MAX_CLOSURE_SAMPLES ? next.filter((_, index) => index % 2 === 0) : next;
+}
+
+/**
+ * Run the engine over a recorded EAR series (one value per frame, both eyes equal) and
+ * return the resulting events. Used for offline analysis so it matches live detection.
+ */
+export function runBlinkEngine(
+  samples: Array<{ timestamp: number; ear: number | null }>,
+  config: BlinkEngineConfig
+): BlinkEngineEvent[] {
+  let state = createBlinkEngineState();
+  const events: BlinkEngineEvent[] = [];
+
+  for (const { timestamp, ear } of samples) {
+    const step = stepBlinkEngine(state, timestamp, ear === null ? null : { left: ear, right: ear }, config);
+    state = step.state;
+    events.push(...step.events);
+  }
+
+  return events;
+}
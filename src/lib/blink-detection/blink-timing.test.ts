@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { measureBlinkPhases, summarizeClosure } from './blink-timing';
+import { BlinkDetector } from './blink-detector';
+import { EARSample } from './types';
+
+// Build samples 10ms apart where both eyes share the same EAR
+const samplesFrom = (ears: number[], start = 1000): EARSample[] =>
+  ears.map((ear, i) => ({ timestamp: start + i * 10, left: ear, right: ear }));
+
+describe('measureBlinkPhases', () => {
+  it('splits a closure into closing, closed and reopening', () => {
+    // Threshold 0.25, minimum 0.05 -> closed band is EAR <= 0.1
+    const samples = samplesFrom([0.2, 0.12, 0.06, 0.05, 0.07, 0.15, 0.22]);
+
+    const phases = measureBlinkPhases(samples, 1070, 0.25);
+
+    expect(phases).toEqual({ closing: 20, closed: 20, reopening: 30 });
+  });
+
+  it('returns zeroed phases when there are no samples', () => {
+    expect(measureBlinkPhases([], 1000, 0.25)).toEqual({ closing: 0, closed: 0, reopening: 0 });
+  });
+});
+
+describe('summarizeClosure', () => {
+  it('times the blink from the first sample below threshold to recovery', () => {
+    const blink = summarizeClosure(samplesFrom([0.2, 0.1, 0.2]), 1030, 0.25);
+
+    expect(blink?.timestamp).toBe(1000);
+    expect(blink?.duration).toBe(30);
+    expect(blink?.type).toBe('bilateral');
+  });
+
+  it('classifies using the lowest EAR each eye reached', () => {
+    const samples: EARSample[] = [
+      { timestamp: 1000, left: 0.2, right: 0.3 },
+      { timestamp: 1010, left: 0.1, right: 0.29 },
+    ];
+
+    const blink = summarizeClosure(samples, 1020, 0.25);
+
+    expect(blink?.type).toBe('left-wink');
+    expect(blink?.leftEAR).toBe(0.1);
+    expect(blink?.rightEAR).toBe(0.29);
+  });
+
+  it('returns null without samples', () => {
+    expect(summarizeClosure([], 1000, 0.25)).toBeNull();
+  });
+});
+
+describe('BlinkDetector blink timing', () => {
+  it('reports the completed blink on the frame where EAR recovers', () => {
+    const detector = new BlinkDetector({ earThreshold: 0.25, minClosureMs: 50, debounceTime: 50 });
+    const detectorWithPrivateMethods = detector as unknown as {
+      detectBlink: (ear: number, timestamp: number) => boolean;
+      completedBlink: { timestamp: number; duration: number } | null;
+    };
+
+    detectorWithPrivateMethods.detectBlink(0.3, 1000);
+    detectorWithPrivateMethods.detectBlink(0.2, 1033);
+    detectorWithPrivateMethods.detectBlink(0.1, 1066);
+    detectorWithPrivateMethods.detectBlink(0.2, 1100);
+    expect(detectorWithPrivateMethods.completedBlink).toBeNull();
+
+    detectorWithPrivateMethods.detectBlink(0.3, 1133);
+
+    expect(detectorWithPrivateMethods.completedBlink?.timestamp).toBe(1033);
+    expect(detectorWithPrivateMethods.completedBlink?.duration).toBe(100);
+  });
+});
@@ -0,0 +1,83 @@
+import { BlinkPhases, DetectedBlink, EARSample, EyeThresholds } from './types';
+import { classifyBlink } from './ear-calculator';
+
+// Share of the dip (from threshold down to the lowest EAR) that still counts as fully closed
+const CLOSED_BAND_FRACTION = 0.25;
+
+/**
+ * Split a closure into closing, closed and reopening phases.
+ *
+ * `samples` are the frames from the first one under the threshold up to the last one
+ * before recovery, and `endTime` is the timestamp of the frame where EAR recovered.
+ * The closure signal is the lower of the two eyes, matching how blinks are triggered.
+ */
+export function measureBlinkPhases(
+  samples: EARSample[],
+  endTime: number,
+  threshold: number
+): BlinkPhases {
+  const first = samples[0];
+  if (!first) {
+    return { closing: 0, closed: 0, reopening: 0 };
+  }
+
+  const values = samples.map(sample => Math.min(sample.left, sample.right));
+  const minValue = Math.min(...values);
+  const closedLimit = minValue + (threshold - minValue) * CLOSED_BAND_FRACTION;
+
+  const firstClosed = values.findIndex(value => value <= closedLimit);
+  let lastClosed = firstClosed;
+  for (let i = values.length - 1; i >= 0; i--) {
+    if ((values[i] ?? Infinity) <= closedLimit) {
+      lastClosed = i;
+      break;
+    }
+  }
+
+  const closedStart = samples[firstClosed]?.timestamp ?? first.timestamp;
+  const closedEnd = samples[lastClosed]?.timestamp ?? closedStart;
+
+  return {
+    closing: closedStart - first.timestamp,
+    closed: closedEnd - closedStart,
+    reopening: endTime - closedEnd,
+  };
+}
+
+/**
+ * Build the completed blink record for a closure that recovered at `endTime`.
+ * Returns null when there are no samples to measure.
+ */
+export function summarizeClosure(
+  samples: EARSample[],
+  endTime: number,
+  threshold: EyeThresholds
+): DetectedBlink | null {
+  const first = samples[0];
+  if (!first) {
+    return null;
+  }
+
+  const leftEAR = Math.min(...samples.map(sample => sample.left));
+  const rightEAR = Math.min(...samples.map(sample => sample.right));
+
+  return {
+    timestamp: first.timestamp,
+    type: classifyBlink(leftEAR, rightEAR, threshold),
+    leftEAR,
+    rightEAR,
+    duration: endTime - first.timestamp,
+    phases: typeof threshold === 'number'
+      ? measureBlinkPhases(samples, endTime, threshold)
+      // Scale each eye by its own threshold so both are measured against 1
+      : measureBlinkPhases(
+        samples.map(sample => ({
+          timestamp: sample.timestamp,
+          left: sample.left / threshold.left,
+          right: sample.right / threshold.right,
+        })),
+        endTime,
+        1
+      ),
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BlendshapeStrategy,
+  EarThresholdStrategy,
+  createDetectionStrategy,
+  getEyeBlinkScores,
+} from './detection-strategies';
+import { BlinkFrame, EyeBlinkScores, StrategyFrameResult } from './types';
+
+const frame = (timestamp: number, ear: number, blinkScores: EyeBlinkScores | null = null): BlinkFrame => ({
+  timestamp,
+  leftEAR: ear,
+  rightEAR: ear,
+  blinkScores,
+});
+
+const blinkStarted = (result: StrategyFrameResult) => result.events.some(event => event.type === 'blink-start');
+
+const completedBlink = (result: StrategyFrameResult) => {
+  const end = result.events.find(event => event.type === 'blink-end');
+  return end?.type === 'blink-end' ? end.blink : null;
+};
+
+describe('EarThresholdStrategy', () => {
+  it('counts a blink once the eyes have stayed closed long enough', () => {
+    const strategy = new EarThresholdStrategy({ earThreshold: 0.25, minClosureMs: 50, debounceTime: 50 });
+
+    expect(blinkStarted(strategy.processFrame(frame(1000, 0.2)))).toBe(false);
+    const started = strategy.processFrame(frame(1050, 0.1));
+    const ended = strategy.processFrame(frame(1083, 0.3));
+
+    expect(blinkStarted(started)).toBe(true);
+    expect(started.blinkType).toBe('bilateral');
+    expect(completedBlink(ended)?.duration).toBe(83);
+    expect(strategy.getState().totalBlinks).toBe(1);
+  });
+
+  it('follows threshold updates', () => {
+    const strategy = new EarThresholdStrategy({ earThreshold: 0.25, minClosureMs: 0, debounceTime: 0 });
+    strategy.setEarThreshold(0.15);
+
+    expect(strategy.processFrame(frame(1000, 0.2)).isBlinking).toBe(false);
+    expect(strategy.processFrame(frame(1033, 0.1)).isBlinking).toBe(true);
+  });
+
+  it('drops a closure in progress when the face is lost', () => {
+    const strategy = new EarThresholdStrategy({ earThreshold: 0.25, minClosureMs: 50, debounceTime: 50 });
+
+    strategy.processFrame(frame(1000, 0.2));
+    strategy.processFrame(frame(1050, 0.1));
+    const lost = strategy.processMissingFace(1066);
+    const regained = strategy.processFrame(frame(1100, 0.3));
+
+    expect(lost.events).toEqual([{ type: 'face-lost', timestamp: 1066 }]);
+    expect(lost.isBlinking).toBe(false);
+    expect(regained.events).toEqual([{ type: 'face-regained', timestamp: 1100 }]);
+    expect(strategy.getState().totalBlinks).toBe(1);
+  });
+});
+
+describe('BlendshapeStrategy', () => {
+  it('counts blinks from blink scores and reports the lowest EAR seen', () => {
+    const strategy = new BlendshapeStrategy({ minClosureMs: 50, debounceTime: 50 });
+
+    strategy.processFrame(frame(1000, 0.3, { left: 0.1, right: 0.1 }));
+    strategy.processFrame(frame(1033, 0.18, { left: 0.7, right: 0.6 }));
+    const started = strategy.processFrame(frame(1083, 0.12, { left: 0.9, right: 0.9 }));
+    const ended = strategy.processFrame(frame(1116, 0.3, { left: 0.2, right: 0.1 }));
+
+    expect(blinkStarted(started)).toBe(true);
+    expect(completedBlink(ended)?.timestamp).toBe(1033);
+    expect(completedBlink(ended)?.leftEAR).toBe(0.12);
+    expect(completedBlink(ended)?.rightEAR).toBe(0.12);
+  });
+
+  it('ignores EAR and treats missing blendshapes as open eyes', () => {
+    const strategy = new BlendshapeStrategy({ minClosureMs: 0 });
+
+    expect(strategy.processFrame(frame(1000, 0.05)).isBlinking).toBe(false);
+    expect(strategy.getState().totalBlinks).toBe(0);
+  });
+
+  it('classifies one-eye closures as winks', () => {
+    const strategy = new BlendshapeStrategy({ minClosureMs: 0 });
+
+    const result = strategy.processFrame(frame(1000, 0.2, { left: 0.9, right: 0.1 }));
+
+    expect(result.blinkType).toBe('left-wink');
+  });
+});
+
+describe('getEyeBlinkScores', () => {
+  it('reads eyeBlinkLeft and eyeBlinkRight of the first face', () => {
+    const scores = getEyeBlinkScores({
+      faceBlendshapes: [{
+        categories: [
+          { categoryName: 'browDownLeft', score: 0.3 },
+          { categoryName: 'eyeBlinkLeft', score: 0.8 },
+          { categoryName: 'eyeBlinkRight', score: 0.7 },
+        ],
+      }],
+    });
+
+    expect(scores).toEqual({ left: 0.8, right: 0.7 });
+  });
+
+  it('returns null without blendshapes', () => {
+    expect(getEyeBlinkScores({})).toBeNull();
+    expect(getEyeBlinkScores({ faceBlendshapes: [{ categories: [] }] })).toBeNull();
+  });
+});
+
+describe('createDetectionStrategy', () => {
+  it('creates the named strategy', () => {
+    const config = { earThreshold: 0.25, minClosureMs: 50, debounceTime: 50 };
+
+    expect(createDetectionStrategy('ear-threshold', config).name).toBe('ear-threshold');
+    expect(createDetectionStrategy('blendshape', config).name).toBe('blendshape');
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  BlinkDetectionState,
+  BlinkEngineConfig,
+  BlinkEngineEvent,
+  BlinkDetectionStrategy,
+  BlinkFrame,
+  DetectionStrategyName,
+  EyeBlinkScores,
+  FaceMeshResults,
+  StrategyFrameResult,
+} from './types';
+import { createBlinkEngineState, DEFAULT_BLINK_ENGINE_CONFIG, stepBlinkEngine } from './blink-engine';
+
+export const DETECTION_STRATEGY_OPTIONS: { value: DetectionStrategyName; label: string }[] = [
+  { value: 'ear-threshold', label: 'Eye aspect ratio' },
+  { value: 'blendshape', label: 'Blendshape score' },
+];
+
+export type EarThresholdStrategyConfig = BlinkEngineConfig;
+
+const toFrameResult = (state: BlinkDetectionState, events: BlinkEngineEvent[]): StrategyFrameResult => ({
+  isBlinking: state.isCurrentlyBlinking,
+  blinkType: state.currentBlinkType,
+  events,
+});
+
+/**
+ * Blink when either eye's EAR drops below the (calibrated or adaptive) threshold.
+ */
+export class EarThresholdStrategy implements BlinkDetectionStrategy {
+  readonly name = 'ear-threshold' as const;
+  private config: BlinkEngineConfig;
+  private state: BlinkDetectionState = createBlinkEngineState();
+
+  constructor(config: EarThresholdStrategyConfig) {
+    this.config = { ...config };
+  }
+
+  processFrame(frame: BlinkFrame): StrategyFrameResult {
+    const { state, events } = stepBlinkEngine(
+      this.state,
+      frame.timestamp,
+      { left: frame.leftEAR, right: frame.rightEAR },
+      this.config
+    );
+    this.state = state;
+    return toFrameResult(state, events);
+  }
+
+  processMissingFace(timestamp: number): StrategyFrameResult {
+    const { state, events } = stepBlinkEngine(this.state, timestamp, null, this.config);
+    this.state = state;
+    return toFrameResult(state, events);
+  }
+
+  // Follow a threshold that changes over time (adaptive threshold mode)
+  setEarThreshold(earThreshold: number): void {
+    this.config = { ...this.config, earThreshold };
+  }
+
+  getState(): Readonly<BlinkDetectionState> {
+    return this.state;
+  }
+
+  reset(): void {
+    this.state = createBlinkEngineState();
+  }
+}
+
+export interface BlendshapeStrategyConfig {
+  scoreThreshold: number; // eyeBlink score above which an eye counts as closed
+  minClosureMs: number;
+  debounceTime: number;
+}
+
+/**
+ * Blink when MediaPipe's eyeBlinkLeft / eyeBlinkRight score rises above a fixed level.
+ * Scores are turned into openness (1 - score) so the blink engine applies unchanged;
+ * the reported blink still carries the lowest EAR seen during the closure.
+ */
+export class BlendshapeStrategy implements BlinkDetectionStrategy {
+  readonly name = 'blendshape' as const;
+  private config: BlendshapeStrategyConfig;
+  private state: BlinkDetectionState = createBlinkEngineState();
+  private closureEARs: { left: number; right: number } | null = null;
+
+  constructor(config: Partial<BlendshapeStrategyConfig> = {}) {
+    this.config = {
+      scoreThreshold: 0.5,
+      minClosureMs: DEFAULT_BLINK_ENGINE_CONFIG.minClosureMs,
+      debounceTime: DEFAULT_BLINK_ENGINE_CONFIG.debounceTime,
+      ...config
+    };
+  }
+
+  private get engineConfig(): BlinkEngineConfig {
+    return {
+      earThreshold: 1 - this.config.scoreThreshold,
+      minClosureMs: this.config.minClosureMs,
+      debounceTime: this.config.debounceTime,
+    };
+  }
+
+  processFrame(frame: BlinkFrame): StrategyFrameResult {
+    // Without blendshapes there is nothing to go on, so treat the eyes as open
+    const left = 1 - (frame.blinkScores?.left ?? 0);
+    const right = 1 - (frame.blinkScores?.right ?? 0);
+    const step = stepBlinkEngine(this.state, frame.timestamp, { left, right }, this.engineConfig);
+    this.state = step.state;
+
+    // The engine keeps samples only while an eye is closed
+    const isClosing = step.state.closureSamples.length > 0;
+    if (isClosing) {
+      this.closureEARs = {
+        left: Math.min(this.closureEARs?.left ?? Infinity, frame.leftEAR),
+        right: Math.min(this.closureEARs?.right ?? Infinity, frame.rightEAR),
+      };
+    }
+
+    const closureEARs = this.closureEARs;
+    const events = closureEARs
+      ? step.events.map(event => event.type === 'blink-end'
+        ? { ...event, blink: { ...event.blink, leftEAR: closureEARs.left, rightEAR: closureEARs.right } }
+        : event)
+      : step.events;
+    if (!isClosing) {
+      this.closureEARs = null;
+    }
+
+    return toFrameResult(this.state, events);
+  }
+
+  processMissingFace(timestamp: number): StrategyFrameResult {
+    const { state, events } = stepBlinkEngine(this.state, timestamp, null, this.engineConfig);
+    this.state = state;
+    this.closureEARs = null;
+    return toFrameResult(state, events);
+  }
+
+  getState(): Readonly<BlinkDetectionState> {
+    return this.state;
+  }
+
+  reset(): void {
+    this.state = createBlinkEngineState();
+    this.closureEARs = null;
+  }
+}
+
+/**
+ * Read the eyeBlinkLeft / eyeBlinkRight scores of the first face, or null if the
+ * landmarker didn't output blendshapes.
+ */
+export function getEyeBlinkScores(results: Pick<FaceMeshResults, 'faceBlendshapes'>): EyeBlinkScores | null {
+  const categories = results.faceBlendshapes?.[0]?.categories;
+  if (!categories) {
+    return null;
+  }
+
+  const left = categories.find(category => category.categoryName === 'eyeBlinkLeft');
+  const right = categories.find(category => category.categoryName === 'eyeBlinkRight');
+  if (!left || !right) {
+    return null;
+  }
+
+  return { left: left.score, right: right.score };
+}
+
+export function createDetectionStrategy(
+  name: DetectionStrategyName,
+  config: EarThresholdStrategyConfig
+): BlinkDetectionStrategy {
+  if (name === 'blendshape') {
+    return new BlendshapeStrategy({
+      minClosureMs: config.minClosureMs,
+      debounceTime: config.debounceTime,
+    });
+  }
+  return new EarThresholdStrategy(config);
+}
@@ -0,0 +1,52 @@
+import { DetectionStrategyName } from './types';
+
+const STRATEGY_STORAGE_KEY = 'blinkDetectionStrategy';
+const COMPARE_STORAGE_KEY = 'compareBlinkDetectionStrategies';
+const TARGET_FPS_STORAGE_KEY = 'targetProcessingFps';
+
+export const TARGET_FPS_OPTIONS: { value: number; label: string }[] = [
+  { value: 10, label: 'Battery saver (10 fps)' },
+  { value: 15, label: 'Balanced (15 fps)' },
+  { value: 30, label: 'Full (30 fps)' },
+];
+
+export interface DetectorSettings {
+  strategy: DetectionStrategyName;
+  compareStrategies: boolean; // Debug: run all strategies side by side
+  targetFps: number; // Frames per second sent to the landmarker while tracking
+}
+
+export const DEFAULT_DETECTOR_SETTINGS: DetectorSettings = {
+  strategy: 'ear-threshold',
+  compareStrategies: false,
+  targetFps: 15,
+};
+
+export function getDetectorSettings(): DetectorSettings {
+  if (typeof window === 'undefined') return DEFAULT_DETECTOR_SETTINGS;
+
+  return {
+    strategy: localStorage.getItem(STRATEGY_STORAGE_KEY) === 'blendshape' ? 'blendshape' : 'ear-threshold',
+    compareStrategies: localStorage.getItem(COMPARE_STORAGE_KEY) === 'true',
+    targetFps: parseTargetFps(localStorage.getItem(TARGET_FPS_STORAGE_KEY)),
+  };
+}
+
+function parseTargetFps(value: string | null): number {
+  const fps = Number(value);
+  return TARGET_FPS_OPTIONS.some(option => option.value === fps) ? fps : DEFAULT_DETECTOR_SETTINGS.targetFps;
+}
+
+export function saveDetectorSettings(settings: Partial<DetectorSettings>): void {
+  if (typeof window === 'undefined') return;
+
+  if (settings.strategy !== undefined) {
+    localStorage.setItem(STRATEGY_STORAGE_KEY, settings.strategy);
+  }
+  if (settings.compareStrategies !== undefined) {
+    localStorage.setItem(COMPARE_STORAGE_KEY, settings.compareStrategies.toString());
+  }
+  if (settings.targetFps !== undefined) {
+    localStorage.setItem(TARGET_FPS_STORAGE_KEY, settings.targetFps.toString());
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { DrowsinessMonitor, isMicrosleepBlink } from './drowsiness';
+import { DetectedBlink } from './types';
+
+const OPEN_EAR = 0.3;
+const SHUT_EAR = 0.06;
+
+// Feed frames at 20 fps; `ear` gives each frame's EAR from its time
+function feed(monitor: DrowsinessMonitor, from: number, to: number, ear: (timestamp: number) => number) {
+  const microsleeps = [];
+  for (let timestamp = from; timestamp < to; timestamp += 50) {
+    const value = ear(timestamp);
+    const microsleep = monitor.update(value, value, timestamp);
+    if (microsleep) microsleeps.push(microsleep);
+  }
+  return microsleeps;
+}
+
+describe('DrowsinessMonitor', () => {
+  it('reports no PERCLOS until enough of the window has been seen', () => {
+    const monitor = new DrowsinessMonitor({ windowMs: 60000 });
+    feed(monitor, 0, 10000, () => OPEN_EAR);
+
+    expect(monitor.getPerclos()).toBeNull();
+
+    feed(monitor, 10000, 20000, () => OPEN_EAR);
+    expect(monitor.getPerclos()).toBe(0);
+  });
+
+  it('measures the share of the window the eyes were mostly closed', () => {
+    const monitor = new DrowsinessMonitor({ windowMs: 60000 });
+    // Shut for the last 3 seconds of every 10
+    feed(monitor, 0, 60000, (t) => (t % 10000 >= 7000 ? SHUT_EAR : OPEN_EAR));
+
+    expect(monitor.getPerclos()).toBeCloseTo(0.3, 2);
+  });
+
+  it('only counts the rolling window', () => {
+    const monitor = new DrowsinessMonitor({ windowMs: 60000 });
+    feed(monitor, 0, 30000, () => SHUT_EAR);
+    feed(monitor, 30000, 100000, () => OPEN_EAR);
+
+    expect(monitor.getPerclos()).toBe(0);
+  });
+
+  it('does not count half-closed eyes', () => {
+    const monitor = new DrowsinessMonitor({ windowMs: 60000 });
+    feed(monitor, 0, 60000, (t) => (t % 2000 >= 1000 ? 0.2 : OPEN_EAR));
+
+    expect(monitor.getPerclos()).toBe(0);
+  });
+
+  it('reports closures longer than a blink as microsleeps', () => {
+    const monitor = new DrowsinessMonitor({ earThreshold: 0.2 });
+    const microsleeps = feed(monitor, 0, 5000, (t) => {
+      if (t >= 1000 && t < 1200) return SHUT_EAR; // Blink
+      if (t >= 3000 && t < 4500) return SHUT_EAR; // Microsleep
+      return OPEN_EAR;
+    });
+
+    expect(microsleeps).toEqual([{ timestamp: 3000, duration: 1500 }]);
+  });
+
+  it('drops a closure interrupted by losing the face', () => {
+    const monitor = new DrowsinessMonitor({ earThreshold: 0.2 });
+    feed(monitor, 0, 1000, () => OPEN_EAR);
+    feed(monitor, 1000, 1500, () => SHUT_EAR);
+    monitor.markMissing();
+
+    expect(feed(monitor, 3000, 4000, () => OPEN_EAR)).toEqual([]);
+  });
+
+  it('does not treat a wink as a microsleep', () => {
+    const monitor = new DrowsinessMonitor({ earThreshold: 0.2 });
+    for (let t = 0; t < 2000; t += 50) {
+      monitor.update(SHUT_EAR, OPEN_EAR, t);
+    }
+
+    expect(monitor.update(OPEN_EAR, OPEN_EAR, 2000)).toBeNull();
+  });
+});
+
+describe('isMicrosleepBlink', () => {
+  const blinkAt = (timestamp: number, duration: number): DetectedBlink => ({
+    timestamp,
+    type: 'bilateral',
+    leftEAR: SHUT_EAR,
+    rightEAR: SHUT_EAR,
+    duration,
+    phases: { closing: 0, closed: duration, reopening: 0 },
+  });
+
+  it('matches the blink spanning the microsleep', () => {
+    expect(isMicrosleepBlink(blinkAt(2950, 1600), { timestamp: 3000, duration: 1500 })).toBe(true);
+  });
+
+  it('leaves blinks before or after the microsleep alone', () => {
+    const microsleep = { timestamp: 3000, duration: 1500 };
+
+    expect(isMicrosleepBlink(blinkAt(1000, 200), microsleep)).toBe(false);
+    expect(isMicrosleepBlink(blinkAt(5000, 200), microsleep)).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import { Microsleep } from './types';
+
+export interface DrowsinessConfig {
+  earThreshold: number; // Blink threshold; both eyes under it count as shut for microsleeps
+  priorOpenEAR?: number; // Open-eye EAR from calibration, seeds the baseline
+  windowMs: number; // Rolling PERCLOS window
+  closure: number; // Eyes count as closed for PERCLOS once this far from open to shut (0.8 for P80)
+  microsleepDuration: number; // Closures at least this long are microsleeps, not blinks
+}
+
+export const DEFAULT_DROWSINESS_CONFIG: DrowsinessConfig = {
+  earThreshold: 0.25,
+  windowMs: 60000,
+  closure: 0.8,
+  microsleepDuration: 500,
+};
+
+// PERCLOS at or above this is a sign of drowsiness
+export const DROWSY_PERCLOS = 0.15;
+
+// EAR with the eyelids fully shut; landmark EAR rarely goes lower
+const FULLY_CLOSED_EAR = 0.05;
+// Weight of each open-eye frame in the baseline average
+const BASELINE_SMOOTHING = 0.02;
+// A frame stands for at most this long, so gaps (face lost, pose gated) don't count as closed or open
+const MAX_FRAME_MS = 200;
+// PERCLOS isn't reported until this much of the window has been seen
+const MIN_COVERAGE = 0.25;
+
+interface FrameSpan {
+  end: number;
+  duration: number;
+  closed: boolean;
+}
+
+/**
+ * Tracks drowsiness from the EAR stream.
+ *
+ * PERCLOS is the share of the last `windowMs` the eyes spent at least `closure` of the
+ * way from open to shut. "Open" is a running average of EAR on frames above the blink
+ * threshold, and "shut" is FULLY_CLOSED_EAR. Each frame counts for the time until the
+ * next one.
+ *
+ * A microsleep is a closure with both eyes under the blink threshold that lasts at least
+ * `microsleepDuration`. The blink strategies see such a closure as a blink too; this
+ * reports it separately once the eyes reopen, so the blink can be dropped (see isMicrosleepBlink).
+ */
+export class DrowsinessMonitor {
+  private config: DrowsinessConfig;
+  private baseline: number | null;
+  private spans: FrameSpan[] = [];
+  private closedMs = 0;
+  private totalMs = 0;
+  private lastFrame: { timestamp: number; closed: boolean } | null = null;
+  private closureStart: number | null = null;
+
+  constructor(config: Partial<DrowsinessConfig> = {}) {
+    this.config = { ...DEFAULT_DROWSINESS_CONFIG, ...config };
+    this.baseline = this.config.priorOpenEAR ?? null;
+  }
+
+  /**
+   * @returns the microsleep that ended on this frame, if any
+   */
+  update(leftEAR: number, rightEAR: number, timestamp: number): Microsleep | null {
+    const { earThreshold, closure } = this.config;
+    const average = (leftEAR + rightEAR) / 2;
+    const bothShut = Math.max(leftEAR, rightEAR) < earThreshold;
+
+    if (Math.min(leftEAR, rightEAR) >= earThreshold) {
+      this.baseline = this.baseline === null
+        ? average
+        : this.baseline + (average - this.baseline) * BASELINE_SMOOTHING;
+    }
+
+    const closedLimit = this.baseline === null
+      ? null
+      : this.baseline - (this.baseline - FULLY_CLOSED_EAR) * closure;
+    this.addFrame(timestamp, closedLimit !== null && average <= closedLimit);
+
+    if (bothShut) {
+      if (this.closureStart === null) {
+        this.closureStart = timestamp;
+      }
+      return null;
+    }
+    return this.finishClosure(timestamp);
+  }
+
+  /**
+   * No usable face this frame. A closure can't be timed across the gap, so it's dropped.
+   */
+  markMissing(): void {
+    this.lastFrame = null;
+    this.closureStart = null;
+  }
+
+  // Follow a threshold that changes over time (adaptive threshold mode)
+  setEarThreshold(earThreshold: number): void {
+    this.config.earThreshold = earThreshold;
+  }
+
+  /**
+   * Share of the window (0-1) the eyes were closed, or null until enough of it has been seen.
+   */
+  getPerclos(): number | null {
+    if (this.totalMs < this.config.windowMs * MIN_COVERAGE) {
+      return null;
+    }
+    return this.closedMs / this.totalMs;
+  }
+
+  reset(): void {
+    this.baseline = this.config.priorOpenEAR ?? null;
+    this.spans = [];
+    this.closedMs = 0;
+    this.totalMs = 0;
+    this.lastFrame = null;
+    this.closureStart = null;
+  }
+
+  private addFrame(timestamp: number, closed: boolean): void {
+    const previous = this.lastFrame;
+    this.lastFrame = { timestamp, closed };
+    if (previous) {
+      const duration = Math.min(Math.max(0, timestamp - previous.timestamp), MAX_FRAME_MS);
+      this.spans.push({ end: timestamp, duration, closed: previous.closed });
+      this.totalMs += duration;
+      if (previous.closed) {
+        this.closedMs += duration;
+      }
+    }
+
+    const windowStart = timestamp - this.config.windowMs;
+    while (this.spans.length > 0 && this.spans[0]!.end <= windowStart) {
+      const expired = this.spans.shift()!;
+      this.totalMs -= expired.duration;
+      if (expired.closed) {
+        this.closedMs -= expired.duration;
+      }
+    }
+  }
+
+  private finishClosure(timestamp: number): Microsleep | null {
+    const start = this.closureStart;
+    this.closureStart = null;
+    if (start === null) {
+      return null;
+    }
+
+    const duration = timestamp - start;
+    return duration >= this.config.microsleepDuration ? { timestamp: start, duration } : null;
+  }
+}
+
+/**
+ * Whether a blink from the blink strategies is the same closure as a microsleep. The blink
+ * starts as soon as either eye closes and ends once both reopen, so it spans the microsleep.
+ */
+export function isMicrosleepBlink(blink: { timestamp: number; duration: number }, microsleep: Microsleep): boolean {
+  return blink.timestamp <= microsleep.timestamp + microsleep.duration &&
+    blink.timestamp + blink.duration >= microsleep.timestamp;
+}
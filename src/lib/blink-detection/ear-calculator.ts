@@ -1,4 +1,4 @@
-import { EyeLandmarks, Point2D } from './types';
+import { BlinkType, EyeEARs, EyeLandmarks, EyeThresholds, Point2D } from './types';
 
 export function calculateEuclideanDistance(p1: Point2D, p2: Point2D): number {
   return Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
@@ -18,9 +18,27 @@ export function calculateEAR(landmarks: EyeLandmarks): number {
   return ear;
 }
 
+export function calculateEyeEARs(leftEyeLandmarks: EyeLandmarks, rightEyeLandmarks: EyeLandmarks): EyeEARs {
+  const left = calculateEAR(leftEyeLandmarks);
+  const right = calculateEAR(rightEyeLandmarks);
+
+  return { left, right, average: (left + right) / 2 };
+}
+
 export function calculateAverageEAR(leftEyeLandmarks: EyeLandmarks, rightEyeLandmarks: EyeLandmarks): number {
-  const leftEAR = calculateEAR(leftEyeLandmarks);
-  const rightEAR = calculateEAR(rightEyeLandmarks);
-  
-  return (leftEAR + rightEAR) / 2;
-}
\ No newline at end of file
+  return calculateEyeEARs(leftEyeLandmarks, rightEyeLandmarks).average;
+}
+
+/**
+ * Classify an eye closure from per-eye EAR values.
+ * An eye counts as closed when its own EAR is under its threshold. If only one
+ * eye is closed the event is a wink; anything else is treated as a normal blink.
+ */
+export function classifyBlink(leftEAR: number, rightEAR: number, threshold: EyeThresholds): BlinkType {
+  const leftClosed = leftEAR < (typeof threshold === 'number' ? threshold : threshold.left);
+  const rightClosed = rightEAR < (typeof threshold === 'number' ? threshold : threshold.right);
+
+  if (leftClosed && !rightClosed) return 'left-wink';
+  if (rightClosed && !leftClosed) return 'right-wink';
+  return 'bilateral';
+}
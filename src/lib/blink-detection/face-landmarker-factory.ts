@@ -0,0 +1,45 @@
+import { FaceLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
+
+// Local paths for bundled MediaPipe assets (offline support)
+export const LOCAL_WASM_PATH = '/mediapipe/wasm';
+export const LOCAL_MODEL_PATH = '/mediapipe/face_landmarker.task';
+
+export interface FaceLandmarkerFactoryOptions {
+  delegate?: 'GPU' | 'CPU';
+  numFaces?: number;
+  canvas?: OffscreenCanvas; // GPU delegate target when running off the main thread
+}
+
+/**
+ * Create a FaceLandmarker in VIDEO mode with the outputs blink detection needs.
+ * Works on the main thread and inside the landmarker worker. Tries GPU first and
+ * falls back to CPU unless CPU was asked for.
+ */
+export async function createFaceLandmarker(options: FaceLandmarkerFactoryOptions = {}): Promise<FaceLandmarker> {
+  const vision = await FilesetResolver.forVisionTasks(LOCAL_WASM_PATH);
+
+  const landmarkerOptions = {
+    baseOptions: {
+      modelAssetPath: LOCAL_MODEL_PATH,
+      delegate: options.delegate || "GPU"
+    },
+    canvas: options.canvas,
+    runningMode: "VIDEO" as const,
+    outputFaceBlendshapes: true, // Needed for the blendshape detection strategy
+    outputFacialTransformationMatrixes: true, // Needed for head pose
+    numFaces: options.numFaces || 1,
+    minFaceDetectionConfidence: 0.5,
+    minFacePresenceConfidence: 0.5,
+    minTrackingConfidence: 0.5
+  };
+
+  try {
+    return await FaceLandmarker.createFromOptions(vision, landmarkerOptions);
+  } catch (gpuError) {
+    if (options.delegate === 'CPU') {
+      throw gpuError;
+    }
+    landmarkerOptions.baseOptions.delegate = 'CPU';
+    return FaceLandmarker.createFromOptions(vision, landmarkerOptions);
+  }
+}
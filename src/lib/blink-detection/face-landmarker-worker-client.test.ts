@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  FaceLandmarkerWorkerClient,
+  FaceLandmarkerWorkerRequest,
+  FaceLandmarkerWorkerResponse,
+} from './face-landmarker-worker-client';
+
+// Minimal stand-in for the landmarker worker: answers init and detect requests
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  static initResponse: FaceLandmarkerWorkerResponse = { type: 'ready' };
+
+  onmessage: ((event: MessageEvent<FaceLandmarkerWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: FaceLandmarkerWorkerRequest[] = [];
+  transfers: Transferable[][] = [];
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: FaceLandmarkerWorkerRequest, transfer: Transferable[] = []) {
+    this.requests.push(request);
+    this.transfers.push(transfer);
+
+    const reply = (response: FaceLandmarkerWorkerResponse) =>
+      queueMicrotask(() => this.onmessage?.({ data: response } as MessageEvent<FaceLandmarkerWorkerResponse>));
+
+    if (request.type === 'init') {
+      reply(FakeWorker.initResponse);
+    } else if (request.type === 'detect') {
+      reply({
+        type: 'result',
+        id: request.id,
+        result: { faceLandmarks: [[{ x: 0.5, y: 0.5, z: 0, visibility: 1 }]], faceBlendshapes: [], facialTransformationMatrixes: [] },
+      });
+    }
+  }
+}
+
+describe('FaceLandmarkerWorkerClient', () => {
+  const bitmap = { close: vi.fn() };
+
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    FakeWorker.initResponse = { type: 'ready' };
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('createImageBitmap', vi.fn().mockResolvedValue(bitmap));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('initializes the worker and returns landmarks for transferred frames', async () => {
+    const client = new FaceLandmarkerWorkerClient();
+    await client.initialize({ numFaces: 1 });
+
+    const result = await client.detect({} as HTMLVideoElement, 1000);
+
+    const worker = FakeWorker.instances[0]!;
+    expect(worker.requests[0]).toEqual({ type: 'init', options: { numFaces: 1 } });
+    expect(worker.requests[1]).toMatchObject({ type: 'detect', id: 0, timestamp: 1000 });
+    expect(worker.transfers[1]).toEqual([bitmap]);
+    expect(result?.faceLandmarks[0]?.[0]?.x).toBe(0.5);
+  });
+
+  it('rejects and terminates the worker when the landmarker fails to load', async () => {
+    FakeWorker.initResponse = { type: 'init-error', message: 'model not found' };
+    const client = new FaceLandmarkerWorkerClient();
+
+    await expect(client.initialize()).rejects.toThrow('model not found');
+    expect(FakeWorker.instances[0]!.terminate).toHaveBeenCalled();
+  });
+
+  it('returns null once disposed', async () => {
+    const client = new FaceLandmarkerWorkerClient();
+    await client.initialize();
+    client.dispose();
+
+    expect(await client.detect({} as HTMLVideoElement, 1000)).toBeNull();
+  });
+
+  it('returns null and closes the copied frame when disposed while copying it', async () => {
+    const client = new FaceLandmarkerWorkerClient();
+    await client.initialize();
+    bitmap.close.mockClear();
+
+    const detection = client.detect({} as HTMLVideoElement, 1000);
+    client.dispose();
+
+    expect(await detection).toBeNull();
+    expect(bitmap.close).toHaveBeenCalled();
+    expect(FakeWorker.instances[0]!.requests.some(request => request.type === 'detect')).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+import type { FaceLandmarkerResult } from '@mediapipe/tasks-vision';
+
+export interface FaceLandmarkerWorkerOptions {
+  delegate?: 'GPU' | 'CPU';
+  numFaces?: number;
+}
+
+export type FaceLandmarkerWorkerRequest =
+  | { type: 'init'; options: FaceLandmarkerWorkerOptions }
+  | { type: 'detect'; id: number; frame: VideoFrame | ImageBitmap; timestamp: number }
+  | { type: 'close' };
+
+export type FaceLandmarkerWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'init-error'; message: string }
+  | { type: 'result'; id: number; result: FaceLandmarkerResult | null }
+  | { type: 'detect-error'; id: number; message: string };
+
+interface PendingDetection {
+  resolve: (result: FaceLandmarkerResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Whether face landmark inference can run off the main thread here. The GPU delegate
+ * needs OffscreenCanvas inside the worker.
+ */
+export function isFaceLandmarkerWorkerSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined';
+}
+
+/**
+ * Main-thread handle to the FaceLandmarker worker. Each frame is copied into a
+ * transferable VideoFrame / ImageBitmap, so the caller keeps ownership of its source
+ * (and still closes its own VideoFrames).
+ */
+export class FaceLandmarkerWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingDetection>();
+
+  async initialize(options: FaceLandmarkerWorkerOptions = {}): Promise<void> {
+    if (this.worker) {
+      return;
+    }
+
+    const worker = new Worker(new URL('./face-landmarker.worker.ts', import.meta.url));
+    this.worker = worker;
+
+    await new Promise<void>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<FaceLandmarkerWorkerResponse>) => {
+        const response = event.data;
+        if (response.type === 'ready') {
+          worker.onmessage = this.handleMessage;
+          resolve();
+        } else if (response.type === 'init-error') {
+          reject(new Error(response.message));
+        }
+      };
+      worker.onerror = (event) => {
+        reject(new Error(event.message || 'Face landmarker worker failed to load'));
+      };
+      this.post({ type: 'init', options });
+    }).catch((error) => {
+      this.dispose();
+      throw error;
+    });
+
+    worker.onerror = (event) => {
+      console.error('[FaceLandmarkerWorker] Worker error:', event.message);
+      this.rejectPending(new Error(event.message || 'Face landmarker worker error'));
+    };
+  }
+
+  async detect(source: TexImageSource, timestamp: number): Promise<FaceLandmarkerResult | null> {
+    if (!this.worker) {
+      return null;
+    }
+
+    const frame = await this.toTransferableFrame(source);
+    // Disposed while the frame was being copied: nothing will answer, so drop the copy
+    if (!this.worker) {
+      frame.close();
+      return null;
+    }
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.post({ type: 'detect', id, frame, timestamp }, [frame]);
+    });
+  }
+
+  dispose(): void {
+    if (!this.worker) {
+      return;
+    }
+    this.post({ type: 'close' });
+    this.worker.terminate();
+    this.worker = null;
+    this.rejectPending(new Error('Face landmarker worker disposed'));
+  }
+
+  private handleMessage = (event: MessageEvent<FaceLandmarkerWorkerResponse>) => {
+    const response = event.data;
+    if (response.type !== 'result' && response.type !== 'detect-error') {
+      return;
+    }
+
+    const pending = this.pending.get(response.id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(response.id);
+
+    if (response.type === 'result') {
+      pending.resolve(response.result);
+    } else {
+      pending.reject(new Error(response.message));
+    }
+  };
+
+  // VideoFrames are cloned (cheap, shares the underlying buffer); anything else is copied to an ImageBitmap
+  private async toTransferableFrame(source: TexImageSource): Promise<VideoFrame | ImageBitmap> {
+    if (typeof VideoFrame !== 'undefined' && source instanceof VideoFrame) {
+      return source.clone();
+    }
+    return createImageBitmap(source as ImageBitmapSource);
+  }
+
+  private post(request: FaceLandmarkerWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(request, transfer);
+  }
+
+  private rejectPending(error: Error): void {
+    this.pending.forEach(({ reject }) => reject(error));
+    this.pending.clear();
+  }
+}
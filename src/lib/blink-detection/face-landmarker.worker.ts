@@ -0,0 +1,67 @@
+/**
+ * Dedicated worker that owns the FaceLandmarker, so inference never blocks the UI thread.
+ *
+ * Frames arrive as transferred VideoFrame / ImageBitmap objects and are closed here once
+ * detected; only the landmarker result goes back. Runs as a classic worker because
+ * MediaPipe loads its WASM glue with importScripts.
+ */
+import type { FaceLandmarker } from '@mediapipe/tasks-vision';
+import { createFaceLandmarker } from './face-landmarker-factory';
+import type { FaceLandmarkerWorkerRequest, FaceLandmarkerWorkerResponse } from './face-landmarker-worker-client';
+
+let landmarker: FaceLandmarker | null = null;
+
+const respond = (response: FaceLandmarkerWorkerResponse) => {
+  self.postMessage(response);
+};
+
+self.onmessage = async (event: MessageEvent<FaceLandmarkerWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'init': {
+      try {
+        landmarker?.close();
+        landmarker = await createFaceLandmarker({
+          ...request.options,
+          canvas: new OffscreenCanvas(1, 1),
+        });
+        respond({ type: 'ready' });
+      } catch (error) {
+        respond({ type: 'init-error', message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+    }
+
+    case 'detect': {
+      const { id, frame, timestamp } = request;
+      try {
+        if (!landmarker) {
+          respond({ type: 'result', id, result: null });
+          return;
+        }
+        const result = landmarker.detectForVideo(frame, timestamp);
+        respond({
+          type: 'result',
+          id,
+          result: {
+            faceLandmarks: result.faceLandmarks,
+            faceBlendshapes: result.faceBlendshapes,
+            facialTransformationMatrixes: result.facialTransformationMatrixes,
+          },
+        });
+      } catch (error) {
+        respond({ type: 'detect-error', id, message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        frame.close();
+      }
+      break;
+    }
+
+    case 'close': {
+      landmarker?.close();
+      landmarker = null;
+      break;
+    }
+  }
+};
@@ -1,9 +1,7 @@
 import { FaceMeshResults } from "./types";
-import { FaceLandmarker, FaceLandmarkerResult, FilesetResolver } from "@mediapipe/tasks-vision";
-
-// Local paths for bundled MediaPipe assets (offline support)
-const LOCAL_WASM_PATH = '/mediapipe/wasm';
-const LOCAL_MODEL_PATH = '/mediapipe/face_landmarker.task';
+import { FaceLandmarker, FaceLandmarkerResult } from "@mediapipe/tasks-vision";
+import { createFaceLandmarker } from "./face-landmarker-factory";
+import { MAX_TRACKED_FACES } from "./face-selection";
 
 export class FaceMeshProcessor {
   private faceLandmarker: FaceLandmarker | null = null;
@@ -20,39 +18,7 @@ export class FaceMeshProcessor {
     }
 
     try {
-      const vision = await FilesetResolver.forVisionTasks(LOCAL_WASM_PATH);
-
-      // Try GPU first, fall back to CPU if it fails
-      try {
-        this.faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: LOCAL_MODEL_PATH,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          outputFaceBlendshapes: false,
-          outputFacialTransformationMatrixes: false,
-          numFaces: 1,
-          minFaceDetectionConfidence: 0.5,
-          minFacePresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        });
-      } catch {
-        this.faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: LOCAL_MODEL_PATH,
-            delegate: "CPU"
-          },
-          runningMode: "VIDEO",
-          outputFaceBlendshapes: false,
-          outputFacialTransformationMatrixes: false,
-          numFaces: 1,
-          minFaceDetectionConfidence: 0.5,
-          minFacePresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        });
-      }
-
+      this.faceLandmarker = await createFaceLandmarker({ numFaces: MAX_TRACKED_FACES });
       this.isInitialized = true;
     } catch (error) {
       console.error("Failed to initialize FaceLandmarker:", error);
@@ -60,23 +26,26 @@ export class FaceMeshProcessor {
     }
   }
 
+  // timestamp must increase from frame to frame; defaults to performance.now()
   async processFrame(
     videoElement: HTMLVideoElement,
-    onResults: (results: FaceMeshResults) => void
+    onResults: (results: FaceMeshResults) => void,
+    timestamp: number = performance.now()
   ): Promise<void> {
     if (!this.faceLandmarker || !this.isInitialized) {
       throw new Error("FaceLandmarker not initialized. Call initialize() first.");
     }
 
     try {
-      const results: FaceLandmarkerResult = this.faceLandmarker.detectForVideo(videoElement, performance.now());
+      const results: FaceLandmarkerResult = this.faceLandmarker.detectForVideo(videoElement, timestamp);
       
       // Convert new format to legacy format for compatibility
       const convertedResults: FaceMeshResults = {
-        faceLandmarks: results.faceLandmarks || []
+        faceLandmarks: results.faceLandmarks || [],
+        faceBlendshapes: results.faceBlendshapes || [],
+        facialTransformationMatrixes: results.facialTransformationMatrixes || []
       };
-      
-      
+
       onResults(convertedResults);
     } catch (error) {
       console.error("Face detection error:", error);
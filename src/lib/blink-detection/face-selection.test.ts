@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MULTIPLE_FACES_HOLD_MS,
+  MultipleFacesMonitor,
+  PrimaryFaceTracker,
+  RELOCK_AFTER_MS,
+  selectFaceResults,
+} from './face-selection';
+
+// Corners of a square face centered at (x, y), in normalized coordinates
+const face = (x: number, y: number, width: number) => [
+  { x: x - width / 2, y: y - width / 2 },
+  { x: x + width / 2, y: y + width / 2 },
+];
+
+describe('PrimaryFaceTracker', () => {
+  it('locks onto the largest, most central face', () => {
+    const tracker = new PrimaryFaceTracker();
+
+    expect(tracker.select([face(0.85, 0.3, 0.2), face(0.5, 0.5, 0.3)], 0)).toBe(1);
+  });
+
+  it('follows the locked face when a bigger one appears', () => {
+    const tracker = new PrimaryFaceTracker();
+    tracker.select([face(0.6, 0.5, 0.25)], 0);
+
+    // Someone leans in close to the camera next to the user
+    expect(tracker.select([face(0.25, 0.5, 0.4), face(0.62, 0.5, 0.25)], 33)).toBe(1);
+    expect(tracker.select([face(0.63, 0.52, 0.26), face(0.3, 0.5, 0.4)], 66)).toBe(0);
+  });
+
+  it('ignores other faces while the user is out of view', () => {
+    const tracker = new PrimaryFaceTracker();
+    tracker.select([face(0.5, 0.5, 0.3)], 0);
+
+    expect(tracker.select([face(0.15, 0.4, 0.15)], 1000)).toBeNull();
+    expect(tracker.select([face(0.15, 0.4, 0.15)], 1000 + RELOCK_AFTER_MS - 1)).toBeNull();
+    expect(tracker.select([face(0.52, 0.5, 0.3), face(0.15, 0.4, 0.15)], 1000 + RELOCK_AFTER_MS - 1)).toBe(0);
+  });
+
+  it('hands over to the most prominent face once the user has been gone a while', () => {
+    const tracker = new PrimaryFaceTracker();
+    tracker.select([face(0.5, 0.5, 0.3)], 0);
+    tracker.select([], 1000);
+
+    expect(tracker.select([face(0.2, 0.5, 0.2)], 1000 + RELOCK_AFTER_MS)).toBe(0);
+  });
+});
+
+describe('selectFaceResults', () => {
+  it('keeps only the selected face', () => {
+    const results = {
+      faceLandmarks: [[{ x: 0, y: 0, z: 0 }], [{ x: 1, y: 1, z: 0 }]],
+      faceBlendshapes: [{ categories: [] }, { categories: [{ categoryName: 'eyeBlinkLeft', score: 0.9 }] }],
+      facialTransformationMatrixes: [{ rows: 4, columns: 4, data: [0] }, { rows: 4, columns: 4, data: [1] }],
+    };
+
+    expect(selectFaceResults(results, 1)).toEqual({
+      faceLandmarks: [[{ x: 1, y: 1, z: 0 }]],
+      faceBlendshapes: [{ categories: [{ categoryName: 'eyeBlinkLeft', score: 0.9 }] }],
+      facialTransformationMatrixes: [{ rows: 4, columns: 4, data: [1] }],
+    });
+  });
+});
+
+describe('MultipleFacesMonitor', () => {
+  it('reports others in view once they have stayed, backdated to when they appeared', () => {
+    const monitor = new MultipleFacesMonitor();
+
+    expect(monitor.update(2, 1000)).toBeNull();
+    expect(monitor.update(2, 1000 + MULTIPLE_FACES_HOLD_MS - 1)).toBeNull();
+    expect(monitor.update(2, 1000 + MULTIPLE_FACES_HOLD_MS)).toEqual({ multipleFaces: true, since: 1000 });
+    expect(monitor.multipleFaces).toBe(true);
+  });
+
+  it('ignores someone passing through quickly', () => {
+    const monitor = new MultipleFacesMonitor();
+
+    monitor.update(2, 0);
+    monitor.update(1, 500);
+    expect(monitor.update(2, MULTIPLE_FACES_HOLD_MS)).toBeNull();
+    expect(monitor.multipleFaces).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+import { FaceMeshResults } from './types';
+
+// The landmarker looks for this many faces so someone passing behind the user can be told apart
+export const MAX_TRACKED_FACES = 3;
+
+// Centrality is weighed against size when picking the primary face - a face at the edge of
+// the image has to be this much wider (as a fraction of the image) to win over a centered one
+const CENTER_WEIGHT = 0.5;
+// Between frames the primary face moves less than this many face widths...
+const MAX_MATCH_DISTANCE = 0.75;
+// ...and its width changes by less than this factor
+const MAX_MATCH_SIZE_RATIO = 1.5;
+// When the primary face has been gone this long, the most prominent face takes over
+export const RELOCK_AFTER_MS = 5000;
+// Someone has to stay in view this long before the frame counts as having multiple faces
+export const MULTIPLE_FACES_HOLD_MS = 2000;
+
+type Landmarks = { x: number; y: number }[];
+
+// Face position in normalized image coordinates
+interface FaceBox {
+  centerX: number;
+  centerY: number;
+  width: number;
+}
+
+function getFaceBox(landmarks: Landmarks): FaceBox | null {
+  if (landmarks.length === 0) {
+    return null;
+  }
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let minY = Infinity;
+  let maxY = -Infinity;
+  for (const { x, y } of landmarks) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  return { centerX: (minX + maxX) / 2, centerY: (minY + maxY) / 2, width: maxX - minX };
+}
+
+// Larger and more central faces score higher
+function prominence(box: FaceBox): number {
+  return box.width - Math.hypot(box.centerX - 0.5, box.centerY - 0.5) * CENTER_WEIGHT;
+}
+
+/**
+ * Narrow landmarker results down to one face, so code reading the first face reads that one.
+ */
+export function selectFaceResults(results: FaceMeshResults, index: number): FaceMeshResults {
+  const pick = <T>(entries: T[] | undefined): T[] => {
+    const entry = entries?.[index];
+    return entry ? [entry] : [];
+  };
+
+  return {
+    faceLandmarks: pick(results.faceLandmarks),
+    faceBlendshapes: pick(results.faceBlendshapes),
+    facialTransformationMatrixes: pick(results.facialTransformationMatrixes),
+  };
+}
+
+/**
+ * Keeps tracking on the user when other people come into view.
+ *
+ * The first face seen is locked onto as the primary one - the largest, most central face,
+ * which is the user sitting at the screen when a session starts. After that, each frame's
+ * primary face is the one that continues the locked face's position and size; other faces
+ * are ignored. If the primary face is gone for RELOCK_AFTER_MS, the lock is released so a
+ * new user can take over.
+ */
+export class PrimaryFaceTracker {
+  private primary: FaceBox | null = null;
+  private lostSince: number | null = null;
+
+  /**
+   * @param faces normalized landmarks of every face found in the frame
+   * @returns index of the primary face, or null when it isn't in the frame
+   */
+  select(faces: Landmarks[], timestamp: number): number | null {
+    const boxes = faces.map(getFaceBox);
+
+    if (this.primary && this.lostSince !== null && timestamp - this.lostSince >= RELOCK_AFTER_MS) {
+      this.primary = null;
+    }
+
+    const index = this.primary ? this.findMatch(this.primary, boxes) : this.findMostProminent(boxes);
+    if (index === null) {
+      if (this.lostSince === null) {
+        this.lostSince = timestamp;
+      }
+      return null;
+    }
+
+    this.primary = boxes[index]!;
+    this.lostSince = null;
+    return index;
+  }
+
+  reset(): void {
+    this.primary = null;
+    this.lostSince = null;
+  }
+
+  private findMostProminent(boxes: (FaceBox | null)[]): number | null {
+    let best: number | null = null;
+    boxes.forEach((box, index) => {
+      if (box && (best === null || prominence(box) > prominence(boxes[best]!))) {
+        best = index;
+      }
+    });
+    return best;
+  }
+
+  private findMatch(primary: FaceBox, boxes: (FaceBox | null)[]): number | null {
+    let best: number | null = null;
+    let bestDistance = Infinity;
+    boxes.forEach((box, index) => {
+      if (!box || primary.width <= 0) {
+        return;
+      }
+      const sizeRatio = Math.max(box.width, primary.width) / Math.max(Math.min(box.width, primary.width), 1e-6);
+      const distance = Math.hypot(box.centerX - primary.centerX, box.centerY - primary.centerY) / primary.width;
+      if (sizeRatio <= MAX_MATCH_SIZE_RATIO && distance <= MAX_MATCH_DISTANCE && distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+}
+
+export interface MultipleFacesChange {
+  multipleFaces: boolean;
+  since: number; // When the change started, ms since epoch
+}
+
+/**
+ * Smooths per-frame face counts into whether other people are in view. A change is only
+ * reported once it has held for MULTIPLE_FACES_HOLD_MS, and is backdated to when it started.
+ */
+export class MultipleFacesMonitor {
+  private holdMs: number;
+  private current = false;
+  private candidateSince: number | null = null;
+
+  constructor(holdMs: number = MULTIPLE_FACES_HOLD_MS) {
+    this.holdMs = holdMs;
+  }
+
+  get multipleFaces(): boolean {
+    return this.current;
+  }
+
+  /**
+   * @returns the change when the reported state switches, otherwise null
+   */
+  update(faceCount: number, timestamp: number): MultipleFacesChange | null {
+    const multipleFaces = faceCount > 1;
+    if (multipleFaces === this.current) {
+      this.candidateSince = null;
+      return null;
+    }
+
+    if (this.candidateSince === null) {
+      this.candidateSince = timestamp;
+    }
+    if (timestamp - this.candidateSince < this.holdMs) {
+      return null;
+    }
+
+    const change = { multipleFaces, since: this.candidateSince };
+    this.current = multipleFaces;
+    this.candidateSince = null;
+    return change;
+  }
+
+  reset(): void {
+    this.current = false;
+    this.candidateSince = null;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { IDEAL_FRAME_MEASUREMENTS, assessFrameQuality, measureFrame } from './frame-quality';
+import { EyeLandmarks } from './types';
+
+const eye = (x: number, width = 30): EyeLandmarks => ({
+  p1: { x, y: 100 },
+  p2: { x: x + width / 3, y: 95 },
+  p3: { x: x + (2 * width) / 3, y: 95 },
+  p4: { x: x + width, y: 100 },
+  p5: { x: x + (2 * width) / 3, y: 105 },
+  p6: { x: x + width / 3, y: 105 },
+});
+
+// A square face mesh spanning minX-maxX horizontally
+const face = (minX: number, maxX: number) => [
+  { x: minX, y: 0.3 },
+  { x: maxX, y: 0.3 },
+  { x: minX, y: 0.7 },
+  { x: maxX, y: 0.7 },
+];
+
+describe('measureFrame', () => {
+  it('measures a well framed face', () => {
+    const measurements = measureFrame(face(0.3, 0.7), { leftEye: eye(200), rightEye: eye(300) }, 640, 480, 0.5);
+
+    expect(measurements.faceConfidence).toBe(1);
+    expect(measurements.faceSize).toBeCloseTo(0.4);
+    expect(measurements.eyeVisibility).toBe(1);
+    expect(measurements.brightness).toBe(0.5);
+  });
+
+  it('loses confidence when the face leaves the image', () => {
+    const measurements = measureFrame(face(0.8, 1.2), { leftEye: eye(500), rightEye: eye(620) }, 640, 480, null);
+
+    expect(measurements.faceConfidence).toBe(0.5);
+    expect(measurements.eyeVisibility).toBeLessThan(1);
+  });
+
+  it('scores tiny eyes as poorly visible', () => {
+    const measurements = measureFrame(face(0.45, 0.55), { leftEye: eye(300, 5), rightEye: eye(320, 5) }, 640, 480, null);
+
+    expect(measurements.eyeVisibility).toBeCloseTo(0.25);
+  });
+});
+
+describe('assessFrameQuality', () => {
+  it('gives ideal frames a full score', () => {
+    expect(assessFrameQuality(IDEAL_FRAME_MEASUREMENTS, null)).toMatchObject({ score: 1, issues: [] });
+  });
+
+  it('reports a small face in a dark room', () => {
+    const quality = assessFrameQuality({ ...IDEAL_FRAME_MEASUREMENTS, faceSize: 0.05, brightness: 0.1 }, null);
+
+    expect(quality.issues).toEqual(['face-too-small', 'too-dark']);
+    expect(quality.score).toBeCloseTo(0.25);
+  });
+
+  it('judges darkness by the face when it was measured', () => {
+    const quality = assessFrameQuality({ ...IDEAL_FRAME_MEASUREMENTS, brightness: 0.6, faceLuminance: 0.1, eyeContrast: 0.05 }, null);
+
+    expect(quality.lighting).toBe('backlit');
+    expect(quality.issues).toEqual(['too-dark', 'backlit']);
+  });
+
+  it('reports a head turned close to the pose limits', () => {
+    const quality = assessFrameQuality(IDEAL_FRAME_MEASUREMENTS, { yaw: 35, pitch: 0, roll: 0 }, {
+      maxYaw: 30,
+      maxPitch: 25,
+    });
+
+    expect(quality.issues).toEqual(['head-turned']);
+  });
+});
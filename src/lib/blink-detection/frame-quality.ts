@@ -0,0 +1,113 @@
+import { DEFAULT_POSE_LIMITS, PoseLimits } from './head-pose';
+import { assessLighting } from './lighting';
+import { EyeLandmarks, FrameMeasurements, FrameQuality, FrameQualityIssue, HeadPose } from './types';
+
+// A face narrower than this fraction of the image is too small for reliable eye landmarks
+const GOOD_FACE_SIZE = 0.2;
+// Below this eye width (px) landmark jitter is a large part of the eye opening
+const MIN_EYE_WIDTH_PX = 20;
+// Mean luma range that exposes the face well
+const DARK_BRIGHTNESS = 0.25;
+const BRIGHT_BRIGHTNESS = 0.85;
+// A component scoring under this is reported as an issue
+const ISSUE_SCORE = 0.5;
+// Backlighting flattens the face even when its measurements look passable
+const BACKLIT_SCORE = 0.4;
+
+// Measurements of a frame where everything could be seen perfectly (e.g. simulated frames)
+export const IDEAL_FRAME_MEASUREMENTS: FrameMeasurements = {
+  faceConfidence: 1,
+  faceSize: GOOD_FACE_SIZE,
+  eyeVisibility: 1,
+  brightness: null,
+  faceLuminance: null,
+  eyeContrast: null,
+  faceCount: 1,
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const isInside = (x: number, y: number, width: number, height: number) =>
+  x >= 0 && x <= width && y >= 0 && y <= height;
+
+/**
+ * Measure how well the face could be seen.
+ *
+ * MediaPipe's face landmarker doesn't report a presence score, so confidence is estimated
+ * from how much of the face mesh lies inside the image - a face half out of frame gives a
+ * guessed, unreliable mesh.
+ *
+ * @param faceLandmarks normalized (0-1) face mesh landmarks
+ * @param eyes eye landmarks in pixels
+ * @param faceLighting light measured on the face, when it was sampled (see FaceLightingMeter)
+ * @param faceCount faces the landmarker found, the tracked one included
+ */
+export function measureFrame(
+  faceLandmarks: { x: number; y: number }[],
+  eyes: { leftEye: EyeLandmarks; rightEye: EyeLandmarks },
+  width: number,
+  height: number,
+  brightness: number | null,
+  faceLighting: Pick<FrameMeasurements, 'faceLuminance' | 'eyeContrast'> | null = null,
+  faceCount: number = 1
+): FrameMeasurements {
+  let minX = Infinity;
+  let maxX = -Infinity;
+  let inside = 0;
+  for (const { x, y } of faceLandmarks) {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    if (isInside(x, y, 1, 1)) inside++;
+  }
+
+  const eyeVisibility = (eye: EyeLandmarks) => {
+    const points = [eye.p1, eye.p2, eye.p3, eye.p4, eye.p5, eye.p6];
+    const insideFraction = points.filter(point => isInside(point.x, point.y, width, height)).length / points.length;
+    const eyeWidth = Math.hypot(eye.p4.x - eye.p1.x, eye.p4.y - eye.p1.y);
+    return insideFraction * clamp01(eyeWidth / MIN_EYE_WIDTH_PX);
+  };
+
+  return {
+    faceConfidence: faceLandmarks.length > 0 ? inside / faceLandmarks.length : 0,
+    faceSize: faceLandmarks.length > 0 ? clamp01(maxX - minX) : 0,
+    eyeVisibility: Math.min(eyeVisibility(eyes.leftEye), eyeVisibility(eyes.rightEye)),
+    brightness,
+    faceLuminance: faceLighting?.faceLuminance ?? null,
+    eyeContrast: faceLighting?.eyeContrast ?? null,
+    faceCount,
+  };
+}
+
+/**
+ * Score a frame from its measurements. Each measurement gets a 0-1 score and the frame
+ * scores as its weakest one; scores under 0.5 are reported as issues.
+ */
+export function assessFrameQuality(
+  measurements: FrameMeasurements,
+  headPose: HeadPose | null,
+  poseLimits: PoseLimits = DEFAULT_POSE_LIMITS
+): FrameQuality {
+  const { faceConfidence, faceSize, eyeVisibility, brightness, faceLuminance } = measurements;
+  const lighting = assessLighting(measurements);
+  // The face itself is what needs light; the whole image is the fallback
+  const exposure = faceLuminance ?? brightness;
+  const scores: [FrameQualityIssue, number][] = [
+    ['low-confidence', clamp01((faceConfidence - 0.5) / 0.45)],
+    ['face-too-small', clamp01(faceSize / GOOD_FACE_SIZE)],
+    ['eyes-not-visible', eyeVisibility],
+    ['head-turned', headPose
+      ? 1 - Math.max(Math.abs(headPose.yaw) / poseLimits.maxYaw, Math.abs(headPose.pitch) / poseLimits.maxPitch) / 2
+      : 1],
+    ['too-dark', exposure === null ? 1 : clamp01(exposure / DARK_BRIGHTNESS)],
+    ['too-bright', brightness === null ? 1 : clamp01((1 - brightness) / (1 - BRIGHT_BRIGHTNESS))],
+    ['backlit', lighting === 'backlit' ? BACKLIT_SCORE : 1],
+  ];
+
+  return {
+    ...measurements,
+    headPose,
+    lighting,
+    score: clamp01(Math.min(...scores.map(([, score]) => score))),
+    issues: scores.filter(([, score]) => score < ISSUE_SCORE).map(([issue]) => issue),
+  };
+}
@@ -7,7 +7,7 @@ describe("Functional Blink Detection Test", () => {
   it("should detect exactly 7 blinks with the expected algorithm", () => {
     const detector = new BlinkDetector({
       earThreshold: 0.25,
-      consecutiveFrames: 2,
+      minClosureMs: 50,
       debounceTime: 50,
     });
 
@@ -168,7 +168,7 @@ describe("Functional Blink Detection Test", () => {
   it("should handle edge cases properly", () => {
     const detector = new BlinkDetector({
       earThreshold: 0.25,
-      consecutiveFrames: 2,
+      minClosureMs: 50,
       debounceTime: 100,
     });
 
@@ -178,11 +178,14 @@ describe("Functional Blink Detection Test", () => {
       detectBlink: (ear: number, timestamp: number) => boolean;
     };
 
+    // Eyes open first, so their open level is known
+    detectorWithPrivateMethods.detectBlink(0.3, 900);
+
     // Test single frame below threshold (should not trigger blink)
     detectorWithPrivateMethods.detectBlink(0.2, 1000);
     expect(detector.getBlinkCount()).toBe(0);
 
-    // Test two consecutive frames below threshold (should trigger blink)
+    // Still below threshold 100 ms later, past minClosureMs (should trigger blink)
     detectorWithPrivateMethods.detectBlink(0.2, 1100);
     expect(detector.getBlinkCount()).toBe(1);
 
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { GAZE_HOLD_MS, GazeMonitor, estimateGaze, isLookingAtScreen } from './gaze';
+
+describe('estimateGaze', () => {
+  it('adds the eyes\' rotation to the head pose', () => {
+    const gaze = estimateGaze({ x: 0.2, y: 0 }, { yaw: 10, pitch: 5, roll: 0 });
+
+    // An iris half an eyeball radius off center is a 30 degree turn
+    expect(gaze?.yaw).toBeCloseTo(40);
+    expect(gaze?.pitch).toBeCloseTo(5);
+  });
+
+  it('uses whichever part is known', () => {
+    expect(estimateGaze(null, { yaw: -20, pitch: 0, roll: 0 })).toEqual({ yaw: -20, pitch: 0 });
+    expect(estimateGaze({ x: 0, y: 0 }, null)).toEqual({ yaw: 0, pitch: 0 });
+    expect(estimateGaze(null, null)).toBeNull();
+  });
+});
+
+describe('isLookingAtScreen', () => {
+  it('accepts looking at and below the camera', () => {
+    expect(isLookingAtScreen({ yaw: 0, pitch: 0 })).toBe(true);
+    expect(isLookingAtScreen({ yaw: 15, pitch: 25 })).toBe(true);
+  });
+
+  it('rejects looking to the side, up or down at the desk', () => {
+    expect(isLookingAtScreen({ yaw: -45, pitch: 10 })).toBe(false);
+    expect(isLookingAtScreen({ yaw: 0, pitch: -30 })).toBe(false);
+    expect(isLookingAtScreen({ yaw: 0, pitch: 50 })).toBe(false);
+  });
+});
+
+describe('GazeMonitor', () => {
+  it('reports looking away once it has held, backdated to when it started', () => {
+    const monitor = new GazeMonitor();
+
+    expect(monitor.update(false, 1000)).toBeNull();
+    expect(monitor.update(false, 1000 + GAZE_HOLD_MS - 1)).toBeNull();
+    expect(monitor.update(false, 1000 + GAZE_HOLD_MS)).toEqual({ lookingAtScreen: false, since: 1000 });
+    expect(monitor.lookingAtScreen).toBe(false);
+  });
+
+  it('ignores a quick glance away', () => {
+    const monitor = new GazeMonitor();
+
+    monitor.update(false, 0);
+    monitor.update(true, 500);
+    expect(monitor.update(false, GAZE_HOLD_MS)).toBeNull();
+    expect(monitor.lookingAtScreen).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import { Gaze, HeadPose, IrisOffset } from './types';
+
+export interface GazeLimits {
+  maxYaw: number; // degrees either side of the camera
+  minPitch: number; // degrees, negative is looking up
+  maxPitch: number; // degrees, positive is looking down
+}
+
+// Webcams sit on top of the screen, so the screen spans from about level with the camera to
+// well below it. The margins are generous since the estimate is only good to ~10 degrees.
+export const DEFAULT_GAZE_LIMITS: GazeLimits = {
+  maxYaw: 30,
+  minPitch: -15,
+  maxPitch: 35,
+};
+
+const RADIANS_TO_DEGREES = 180 / Math.PI;
+// The eye is about 2.5 eyeball radii wide, so an iris offset of 1 / 2.5 eye widths is a 90 degree turn
+const EYE_WIDTHS_PER_RADIUS = 1 / 2.5;
+
+// A gaze change has to hold this long before it's reported, so glancing at the keyboard doesn't count
+export const GAZE_HOLD_MS = 2000;
+
+// Eye rotation in the head, in degrees, from how far the iris has moved off center
+function eyeRotation(offset: number): number {
+  return Math.asin(Math.max(-1, Math.min(1, offset / EYE_WIDTHS_PER_RADIUS))) * RADIANS_TO_DEGREES;
+}
+
+/**
+ * Gaze direction from the head pose plus the eyes' rotation in the head. Either part is left out
+ * when it's unknown; returns null when both are.
+ */
+export function estimateGaze(irisOffset: IrisOffset | null, headPose: HeadPose | null): Gaze | null {
+  if (!irisOffset && !headPose) {
+    return null;
+  }
+
+  return {
+    yaw: (headPose?.yaw ?? 0) + (irisOffset ? eyeRotation(irisOffset.x) : 0),
+    pitch: (headPose?.pitch ?? 0) + (irisOffset ? eyeRotation(irisOffset.y) : 0),
+  };
+}
+
+export function isLookingAtScreen(gaze: Gaze, limits: GazeLimits = DEFAULT_GAZE_LIMITS): boolean {
+  return Math.abs(gaze.yaw) <= limits.maxYaw && gaze.pitch >= limits.minPitch && gaze.pitch <= limits.maxPitch;
+}
+
+export interface GazeChange {
+  lookingAtScreen: boolean;
+  since: number; // When the change started, ms since epoch
+}
+
+/**
+ * Smooths per-frame gaze into whether the user is looking at the screen. A change is only
+ * reported once it has held for GAZE_HOLD_MS, and is backdated to when it started.
+ */
+export class GazeMonitor {
+  private holdMs: number;
+  private current = true;
+  private candidateSince: number | null = null;
+
+  constructor(holdMs: number = GAZE_HOLD_MS) {
+    this.holdMs = holdMs;
+  }
+
+  get lookingAtScreen(): boolean {
+    return this.current;
+  }
+
+  /**
+   * @returns the change when the reported state switches, otherwise null
+   */
+  update(lookingAtScreen: boolean, timestamp: number): GazeChange | null {
+    if (lookingAtScreen === this.current) {
+      this.candidateSince = null;
+      return null;
+    }
+
+    if (this.candidateSince === null) {
+      this.candidateSince = timestamp;
+    }
+    if (timestamp - this.candidateSince < this.holdMs) {
+      return null;
+    }
+
+    const change = { lookingAtScreen, since: this.candidateSince };
+    this.current = lookingAtScreen;
+    this.candidateSince = null;
+    return change;
+  }
+
+  reset(): void {
+    this.current = true;
+    this.candidateSince = null;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  correctEARForPose,
+  correctEyeEARsForPose,
+  extractHeadPose,
+  getHeadPose,
+  isPoseWithinLimits,
+} from './head-pose';
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Column-major 4x4 matrix for R = Ry(yaw) * Rx(pitch) * Rz(roll), with a translation
+const poseMatrix = (yaw: number, pitch: number, roll: number): number[] => {
+  const [cy, sy] = [Math.cos(toRadians(yaw)), Math.sin(toRadians(yaw))];
+  const [cp, sp] = [Math.cos(toRadians(pitch)), Math.sin(toRadians(pitch))];
+  const [cr, sr] = [Math.cos(toRadians(roll)), Math.sin(toRadians(roll))];
+
+  const rows = [
+    [cy * cr + sy * sp * sr, -cy * sr + sy * sp * cr, sy * cp],
+    [cp * sr, cp * cr, -sp],
+    [-sy * cr + cy * sp * sr, sy * sr + cy * sp * cr, cy * cp],
+  ];
+
+  const data: number[] = [];
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      if (col === 3) data.push(row === 3 ? 1 : 5);
+      else data.push(row === 3 ? 0 : rows[row]![col]!);
+    }
+  }
+  return data;
+};
+
+describe('extractHeadPose', () => {
+  it('returns zero angles for the identity rotation', () => {
+    const pose = extractHeadPose(poseMatrix(0, 0, 0));
+
+    expect(pose.yaw).toBeCloseTo(0);
+    expect(pose.pitch).toBeCloseTo(0);
+    expect(pose.roll).toBeCloseTo(0);
+  });
+
+  it('recovers yaw, pitch and roll', () => {
+    const pose = extractHeadPose(poseMatrix(20, -10, 5));
+
+    expect(pose.yaw).toBeCloseTo(20);
+    expect(pose.pitch).toBeCloseTo(-10);
+    expect(pose.roll).toBeCloseTo(5);
+  });
+});
+
+describe('getHeadPose', () => {
+  it('returns null when the landmarker output no matrix', () => {
+    expect(getHeadPose({ faceLandmarks: [] })).toBeNull();
+    expect(getHeadPose({ faceLandmarks: [], facialTransformationMatrixes: [] })).toBeNull();
+  });
+
+  it('reads the first face matrix', () => {
+    const pose = getHeadPose({
+      faceLandmarks: [],
+      facialTransformationMatrixes: [{ rows: 4, columns: 4, data: poseMatrix(15, 0, 0) }],
+    });
+
+    expect(pose?.yaw).toBeCloseTo(15);
+  });
+});
+
+describe('correctEARForPose', () => {
+  it('leaves EAR unchanged when facing the camera', () => {
+    expect(correctEARForPose(0.3, { yaw: 0, pitch: 0, roll: 0 })).toBeCloseTo(0.3);
+  });
+
+  it('undoes the drop in EAR from looking down', () => {
+    // Eye height foreshortened by cos(pitch) -> observed EAR is lower
+    const observed = 0.3 * Math.cos(toRadians(20));
+
+    expect(correctEARForPose(observed, { yaw: 0, pitch: 20, roll: 0 })).toBeCloseTo(0.3);
+  });
+
+  it('undoes the rise in EAR from turning sideways and ignores roll', () => {
+    const observed = 0.3 / Math.cos(toRadians(25));
+
+    expect(correctEARForPose(observed, { yaw: 25, pitch: 0, roll: 40 })).toBeCloseTo(0.3);
+  });
+
+  it('corrects both eyes and the average', () => {
+    const ears = correctEyeEARsForPose({ left: 0.2, right: 0.4, average: 0.3 }, { yaw: 60, pitch: 0, roll: 0 });
+
+    expect(ears.left).toBeCloseTo(0.1);
+    expect(ears.right).toBeCloseTo(0.2);
+    expect(ears.average).toBeCloseTo(0.15);
+  });
+});
+
+describe('isPoseWithinLimits', () => {
+  it('rejects poses past the yaw or pitch limit', () => {
+    expect(isPoseWithinLimits({ yaw: 10, pitch: 10, roll: 45 })).toBe(true);
+    expect(isPoseWithinLimits({ yaw: -35, pitch: 0, roll: 0 })).toBe(false);
+    expect(isPoseWithinLimits({ yaw: 0, pitch: 30, roll: 0 })).toBe(false);
+  });
+});
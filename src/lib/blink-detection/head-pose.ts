@@ -0,0 +1,77 @@
+import { EyeEARs, FaceMeshResults, HeadPose } from './types';
+
+export interface PoseLimits {
+  maxYaw: number; // degrees
+  maxPitch: number; // degrees
+}
+
+// Past these angles the eye landmarks are too foreshortened for EAR to be trusted
+export const DEFAULT_POSE_LIMITS: PoseLimits = {
+  maxYaw: 30,
+  maxPitch: 25,
+};
+
+const RADIANS_TO_DEGREES = 180 / Math.PI;
+
+/**
+ * Yaw, pitch and roll (degrees) from a 4x4 column-major transformation matrix, as
+ * output by MediaPipe's FaceLandmarker. The rotation is decomposed as R = Ry * Rx * Rz.
+ */
+export function extractHeadPose(matrixData: ArrayLike<number>): HeadPose {
+  // Element at (row, col) of a column-major 4x4 matrix
+  const at = (row: number, col: number) => matrixData[col * 4 + row] ?? 0;
+
+  const pitch = Math.asin(Math.max(-1, Math.min(1, -at(1, 2))));
+  const yaw = Math.atan2(at(0, 2), at(2, 2));
+  const roll = Math.atan2(at(1, 0), at(1, 1));
+
+  return {
+    yaw: yaw * RADIANS_TO_DEGREES,
+    pitch: pitch * RADIANS_TO_DEGREES,
+    roll: roll * RADIANS_TO_DEGREES,
+  };
+}
+
+/**
+ * Head pose of the first face in the results, or null if no matrix was output.
+ */
+export function getHeadPose(results: FaceMeshResults): HeadPose | null {
+  const matrix = results.facialTransformationMatrixes?.[0];
+  if (!matrix || matrix.data.length < 16) {
+    return null;
+  }
+  return extractHeadPose(matrix.data);
+}
+
+/**
+ * Undo the foreshortening of the eye caused by head rotation.
+ *
+ * Turning the head shrinks the eye's width by cos(yaw) and nodding shrinks its height by
+ * cos(pitch), so raw EAR is scaled by cos(pitch) / cos(yaw). Roll doesn't change the
+ * landmark distances EAR is built from.
+ */
+export function correctEARForPose(ear: number, pose: HeadPose): number {
+  const yawScale = Math.cos(pose.yaw / RADIANS_TO_DEGREES);
+  const pitchScale = Math.cos(pose.pitch / RADIANS_TO_DEGREES);
+  if (pitchScale <= 0) {
+    return ear;
+  }
+  return ear * yawScale / pitchScale;
+}
+
+/**
+ * Pose-corrected per-eye EARs. Returns the input unchanged when the pose is unknown.
+ */
+export function correctEyeEARsForPose(ears: EyeEARs, pose: HeadPose | null): EyeEARs {
+  if (!pose) {
+    return ears;
+  }
+
+  const left = correctEARForPose(ears.left, pose);
+  const right = correctEARForPose(ears.right, pose);
+  return { left, right, average: (left + right) / 2 };
+}
+
+export function isPoseWithinLimits(pose: HeadPose, limits: PoseLimits = DEFAULT_POSE_LIMITS): boolean {
+  return Math.abs(pose.yaw) <= limits.maxYaw && Math.abs(pose.pitch) <= limits.maxPitch;
+}
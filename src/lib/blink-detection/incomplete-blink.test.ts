@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { IncompleteBlinkDetector } from './incomplete-blink';
+import { IncompleteBlink } from './types';
+
+// Feed the same EAR to both eyes, one frame every 30ms, and collect reported dips
+const run = (detector: IncompleteBlinkDetector, ears: number[], start = 1000): IncompleteBlink[] =>
+  ears
+    .map((ear, i) => detector.update(ear, ear, start + i * 30))
+    .filter((blink): blink is IncompleteBlink => blink !== null);
+
+describe('IncompleteBlinkDetector', () => {
+  // Threshold 0.2 with baseline 0.3 puts the dip limit at 0.25
+  const createDetector = () => new IncompleteBlinkDetector({ earThreshold: 0.2 });
+
+  it('reports a dip that stays above the threshold', () => {
+    const blinks = run(createDetector(), [0.3, 0.3, 0.24, 0.22, 0.24, 0.3]);
+
+    expect(blinks).toHaveLength(1);
+    expect(blinks[0]?.timestamp).toBe(1060);
+    expect(blinks[0]?.duration).toBe(90);
+    expect(blinks[0]?.minEAR).toBeCloseTo(0.22);
+    expect(blinks[0]?.depth).toBeCloseTo(0.8);
+  });
+
+  it('ignores closures that reach the threshold', () => {
+    expect(run(createDetector(), [0.3, 0.3, 0.24, 0.15, 0.24, 0.3])).toEqual([]);
+  });
+
+  it('ignores one-frame noise and long squints', () => {
+    const detector = createDetector();
+
+    expect(run(detector, [0.3, 0.3, 0.24, 0.3])).toEqual([]);
+    expect(run(detector, [0.3, ...Array(20).fill(0.23), 0.3])).toEqual([]);
+  });
+
+  it('treats a one-eye closure as a wink rather than an incomplete blink', () => {
+    const detector = createDetector();
+    detector.update(0.3, 0.3, 1000);
+    detector.update(0.3, 0.15, 1030);
+    detector.update(0.3, 0.15, 1060);
+
+    expect(detector.update(0.3, 0.3, 1090)).toBeNull();
+  });
+
+  it('waits for both eyes to be open before seeding the baseline', () => {
+    const detector = createDetector();
+    detector.update(0.1, 0.1, 1000);
+    expect(detector.getBaseline()).toBeNull();
+
+    detector.update(0.3, 0.3, 1030);
+    expect(detector.getBaseline()).toBe(0.3);
+
+    detector.reset();
+    expect(detector.getBaseline()).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { EARSample, IncompleteBlink } from './types';
+
+export interface IncompleteBlinkConfig {
+  earThreshold: number;
+  dipFraction: number; // Share of the baseline-to-threshold gap a dip must cover
+  baselineSmoothing: number; // Weight of each open-eye frame in the baseline average
+  minFrames: number; // Shorter dips are treated as landmark noise
+  maxDuration: number; // Longer dips are squints or looking down, not blinks
+}
+
+/**
+ * Detects incomplete blinks: the eyelids move clearly towards closing but EAR never
+ * reaches the blink threshold.
+ *
+ * The open-eye baseline is a running average of average EAR on open frames. A dip
+ * starts once average EAR falls below the dip limit, part way between the baseline
+ * and the threshold. It is reported when EAR recovers, unless either eye crossed the
+ * threshold (that closure is a full blink or wink and is counted elsewhere).
+ */
+export class IncompleteBlinkDetector {
+  private config: IncompleteBlinkConfig;
+  private baseline: number | null = null;
+  private dipSamples: EARSample[] = [];
+  private reachedThreshold = false;
+
+  constructor(config: Partial<IncompleteBlinkConfig> = {}) {
+    this.config = {
+      earThreshold: 0.25,
+      dipFraction: 0.5,
+      baselineSmoothing: 0.05,
+      minFrames: 2,
+      maxDuration: 500,
+      ...config
+    };
+  }
+
+  update(leftEAR: number, rightEAR: number, timestamp: number): IncompleteBlink | null {
+    const { earThreshold } = this.config;
+    const average = (leftEAR + rightEAR) / 2;
+    const belowThreshold = Math.min(leftEAR, rightEAR) < earThreshold;
+
+    if (this.baseline === null) {
+      // Seed the baseline from the first frame with both eyes open
+      if (!belowThreshold) {
+        this.baseline = average;
+      }
+      return null;
+    }
+
+    const dipLimit = this.baseline - (this.baseline - earThreshold) * this.config.dipFraction;
+
+    if (average < dipLimit || belowThreshold) {
+      this.dipSamples.push({ timestamp, left: leftEAR, right: rightEAR });
+      if (belowThreshold) {
+        this.reachedThreshold = true;
+      }
+      return null;
+    }
+
+    const incompleteBlink = this.finishDip(timestamp, this.baseline);
+    this.baseline += (average - this.baseline) * this.config.baselineSmoothing;
+    return incompleteBlink;
+  }
+
+  // Follow a threshold that changes over time (adaptive threshold mode)
+  setEarThreshold(earThreshold: number): void {
+    this.config.earThreshold = earThreshold;
+  }
+
+  getBaseline(): number | null {
+    return this.baseline;
+  }
+
+  reset(): void {
+    this.baseline = null;
+    this.dipSamples = [];
+    this.reachedThreshold = false;
+  }
+
+  private finishDip(endTime: number, baseline: number): IncompleteBlink | null {
+    const samples = this.dipSamples;
+    const reachedThreshold = this.reachedThreshold;
+    this.dipSamples = [];
+    this.reachedThreshold = false;
+
+    const first = samples[0];
+    if (!first || reachedThreshold || samples.length < this.config.minFrames) {
+      return null;
+    }
+
+    const duration = endTime - first.timestamp;
+    if (duration > this.config.maxDuration) {
+      return null;
+    }
+
+    const minEAR = Math.min(...samples.map(sample => (sample.left + sample.right) / 2));
+    const depth = (baseline - minEAR) / (baseline - this.config.earThreshold);
+
+    return {
+      timestamp: first.timestamp,
+      duration,
+      minEAR,
+      baselineEAR: baseline,
+      depth: Math.min(1, Math.max(0, depth)),
+    };
+  }
+}
@@ -1,7 +1,20 @@
 export { BlinkDetector } from './blink-detector';
+export { createBlinkEngineState, stepBlinkEngine, runBlinkEngine, DEFAULT_BLINK_ENGINE_CONFIG } from './blink-engine';
+export { EarThresholdStrategy, BlendshapeStrategy, createDetectionStrategy, getEyeBlinkScores, DETECTION_STRATEGY_OPTIONS } from './detection-strategies';
+export { IncompleteBlinkDetector } from './incomplete-blink';
+export { DrowsinessMonitor, DROWSY_PERCLOS, DEFAULT_DROWSINESS_CONFIG } from './drowsiness';
 export { FaceMeshProcessor } from './face-mesh-processor';
 export { VideoProcessor } from '../utils/video-processor';
-export { calculateEAR, calculateEuclideanDistance, calculateAverageEAR } from './ear-calculator';
-export { extractEyeLandmarks, extractBothEyeLandmarks } from './landmark-extractor';
+export { calculateEAR, calculateEuclideanDistance, calculateAverageEAR, calculateEyeEARs, classifyBlink } from './ear-calculator';
+export { measureFrame, assessFrameQuality, IDEAL_FRAME_MEASUREMENTS } from './frame-quality';
+export { assessLighting, isPoorLighting, LightingMonitor, LIGHTING_GUIDANCE } from './lighting';
+export { PrimaryFaceTracker, MultipleFacesMonitor, selectFaceResults, MAX_TRACKED_FACES } from './face-selection';
+export { estimateGaze, isLookingAtScreen, GazeMonitor, DEFAULT_GAZE_LIMITS } from './gaze';
+export { assessPosture, isPoorPosture, PostureMonitor, POSTURE_GUIDANCE, DEFAULT_POSTURE_LIMITS } from './posture';
+export { estimateViewingDistance, calibrateFocalLength, focalLengthFromFov, ViewingDistanceMonitor, TOO_CLOSE_DISTANCE_CM } from './viewing-distance';
+export { extractHeadPose, getHeadPose, correctEARForPose, correctEyeEARsForPose, isPoseWithinLimits, DEFAULT_POSE_LIMITS } from './head-pose';
+export { extractEyeLandmarks, extractBothEyeLandmarks, extractIrisOffset, extractIrisDiameter } from './landmark-extractor';
+export { LandmarkRecorder, LandmarkReplay, serializeLandmarkRecording, parseLandmarkRecording } from './landmark-recording';
+export { EarSimulator, SimulatedCamera, DEFAULT_SIMULATION_CONFIG } from './simulated-camera';
 export { testVideoBlinkDetection } from './video-blink-test';
 export * from './types';
\ No newline at end of file
@@ -1,8 +1,17 @@
-import { EyeLandmarks, FaceMeshResults } from './types';
+import { EyeLandmarks, FaceMeshResults, IrisOffset } from './types';
 
 const RIGHT_EYE_INDICES = [33, 159, 158, 133, 153, 145];
 const LEFT_EYE_INDICES = [362, 380, 374, 263, 386, 385];
 
+// Iris center, then the eye corners on the image's left and right, for each eye
+const RIGHT_IRIS_INDICES = [468, 33, 133];
+const LEFT_IRIS_INDICES = [473, 362, 263];
+// Iris edge points on the image's left and right, for each eye
+const RIGHT_IRIS_EDGE_INDICES = [471, 469];
+const LEFT_IRIS_EDGE_INDICES = [476, 474];
+// The landmarker only outputs iris landmarks past the 468 face mesh points
+const LANDMARKS_WITH_IRIS = 478;
+
 export function extractEyeLandmarks(
   landmarks: Array<{ x: number; y: number; z: number }>,
   eyeIndices: number[],
@@ -46,4 +55,85 @@ export function extractBothEyeLandmarks(
   const rightEye = extractEyeLandmarks(landmarks, RIGHT_EYE_INDICES, videoWidth, videoHeight);
 
   return { leftEye, rightEye };
-}
\ No newline at end of file
+}
+
+// Iris center in eye widths from the middle of the corners, measured along the eye so head roll doesn't count
+function measureIrisOffset(
+  landmarks: Array<{ x: number; y: number; z: number }>,
+  [irisIndex, leftCornerIndex, rightCornerIndex]: number[],
+  videoWidth: number,
+  videoHeight: number
+): IrisOffset | null {
+  const point = (index: number | undefined) => {
+    const landmark = index === undefined ? undefined : landmarks[index];
+    return { x: (landmark?.x ?? 0) * videoWidth, y: (landmark?.y ?? 0) * videoHeight };
+  };
+  const iris = point(irisIndex);
+  const leftCorner = point(leftCornerIndex);
+  const rightCorner = point(rightCornerIndex);
+
+  const eyeWidth = Math.hypot(rightCorner.x - leftCorner.x, rightCorner.y - leftCorner.y);
+  if (eyeWidth === 0) {
+    return null;
+  }
+
+  // Unit vectors along the eye (towards the image's right) and across it (downwards)
+  const alongX = (rightCorner.x - leftCorner.x) / eyeWidth;
+  const alongY = (rightCorner.y - leftCorner.y) / eyeWidth;
+  const dx = iris.x - (leftCorner.x + rightCorner.x) / 2;
+  const dy = iris.y - (leftCorner.y + rightCorner.y) / 2;
+
+  return {
+    x: (dx * alongX + dy * alongY) / eyeWidth,
+    y: (dy * alongX - dx * alongY) / eyeWidth,
+  };
+}
+
+/**
+ * Where the irises sit between the eye corners, averaged over both eyes. Returns null when the
+ * results have no iris landmarks.
+ */
+export function extractIrisOffset(
+  faceMeshResults: FaceMeshResults,
+  videoWidth: number,
+  videoHeight: number
+): IrisOffset | null {
+  const landmarks = faceMeshResults.faceLandmarks?.[0];
+  if (!landmarks || landmarks.length < LANDMARKS_WITH_IRIS) {
+    return null;
+  }
+
+  const left = measureIrisOffset(landmarks, LEFT_IRIS_INDICES, videoWidth, videoHeight);
+  const right = measureIrisOffset(landmarks, RIGHT_IRIS_INDICES, videoWidth, videoHeight);
+  if (!left || !right) {
+    return left ?? right;
+  }
+
+  return { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 };
+}
+
+/**
+ * Horizontal iris diameter in image widths, averaged over both eyes. Returns null when the
+ * results have no iris landmarks.
+ */
+export function extractIrisDiameter(
+  faceMeshResults: FaceMeshResults,
+  videoWidth: number,
+  videoHeight: number
+): number | null {
+  const landmarks = faceMeshResults.faceLandmarks?.[0];
+  if (!landmarks || landmarks.length < LANDMARKS_WITH_IRIS || videoWidth <= 0) {
+    return null;
+  }
+
+  const diameter = ([leftEdge, rightEdge]: number[]) => {
+    const left = landmarks[leftEdge ?? 0];
+    const right = landmarks[rightEdge ?? 0];
+    if (!left || !right) {
+      return 0;
+    }
+    return Math.hypot((right.x - left.x) * videoWidth, (right.y - left.y) * videoHeight) / videoWidth;
+  };
+
+  return (diameter(LEFT_IRIS_EDGE_INDICES) + diameter(RIGHT_IRIS_EDGE_INDICES)) / 2;
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  LandmarkRecorder,
+  LandmarkReplay,
+  parseLandmarkRecording,
+  serializeLandmarkRecording,
+} from './landmark-recording';
+import { EarThresholdStrategy } from './detection-strategies';
+import { IDEAL_FRAME_MEASUREMENTS } from './frame-quality';
+import { EyeLandmarks, LandmarkFrame } from './types';
+
+const START = 1_700_000_000_000;
+
+const eye = (x: number): EyeLandmarks => ({
+  p1: { x, y: 100 },
+  p2: { x: x + 10.123, y: 95.456 },
+  p3: { x: x + 20, y: 95 },
+  p4: { x: x + 30, y: 100 },
+  p5: { x: x + 20, y: 105 },
+  p6: { x: x + 10, y: 105 },
+});
+
+const faceFrame = (offset: number, ear: number): LandmarkFrame => ({
+  timestamp: START + offset,
+  face: {
+    leftEye: eye(200),
+    rightEye: eye(300),
+    leftEAR: ear,
+    rightEAR: ear,
+    headPose: { yaw: 1.2345, pitch: -2.5, roll: 0 },
+    irisOffset: { x: 0.04567, y: -0.01 },
+    irisDiameter: 0.0171234,
+    blinkScores: { left: 0.12345, right: 0.1 },
+    measurements: {
+      faceConfidence: 0.98765,
+      faceSize: 0.25,
+      eyeVisibility: 1,
+      brightness: 0.4321,
+      faceLuminance: 0.31234,
+      eyeContrast: 0.081234,
+      faceCount: 2,
+    },
+  },
+});
+
+const noFace = (offset: number): LandmarkFrame => ({ timestamp: START + offset, face: null });
+
+// 20 fps of open eyes with blinks (EAR under the threshold for 3 frames) starting at the given offsets
+function recordBlinks(blinkOffsets: number[], duration: number): LandmarkRecorder {
+  const recorder = new LandmarkRecorder();
+  for (let offset = 0; offset < duration; offset += 50) {
+    const closed = blinkOffsets.some(start => offset >= start && offset < start + 150);
+    recorder.addFrame(faceFrame(offset, closed ? 0.1 : 0.3));
+  }
+  return recorder;
+}
+
+describe('LandmarkRecorder', () => {
+  it('rounds values as they are recorded', () => {
+    const recorder = new LandmarkRecorder();
+    recorder.addFrame(faceFrame(0.04, 0.123456));
+
+    const [frame] = recorder.getRecording().frames;
+    expect(frame?.timestamp).toBe(START);
+    expect(frame?.face?.leftEAR).toBe(0.1235);
+    expect(frame?.face?.leftEye.p2).toEqual({ x: 210.12, y: 95.46 });
+    expect(frame?.face?.headPose).toEqual({ yaw: 1.23, pitch: -2.5, roll: 0 });
+    expect(frame?.face?.irisOffset).toEqual({ x: 0.046, y: -0.01 });
+    expect(frame?.face?.irisDiameter).toBe(0.01712);
+    expect(frame?.face?.blinkScores).toEqual({ left: 0.123, right: 0.1 });
+  });
+
+  it('stops adding frames once full', () => {
+    const recorder = new LandmarkRecorder(2);
+    recorder.addFrame(noFace(0));
+    recorder.addFrame(noFace(50));
+    recorder.addFrame(noFace(100));
+
+    expect(recorder.frameCount).toBe(2);
+    expect(recorder.isFull).toBe(true);
+  });
+
+  it('starts the recording at its first frame', () => {
+    const recorder = new LandmarkRecorder();
+    recorder.addFrame(noFace(500));
+    recorder.addFrame(faceFrame(550, 0.3));
+
+    expect(recorder.getRecording().startTime).toBe(START + 500);
+  });
+});
+
+describe('serializeLandmarkRecording / parseLandmarkRecording', () => {
+  it('round-trips recorded frames exactly', () => {
+    const recorder = new LandmarkRecorder();
+    recorder.addFrame(faceFrame(0, 0.31));
+    recorder.addFrame(noFace(33.3));
+    recorder.addFrame({ ...faceFrame(66.7, 0.12), face: { ...faceFrame(0, 0.12).face!, headPose: null, irisOffset: null, irisDiameter: null, blinkScores: null } });
+    const recording = recorder.getRecording();
+
+    expect(parseLandmarkRecording(serializeLandmarkRecording(recording))).toEqual(recording);
+  });
+
+  it('replays files recorded without measurements as ideal frames', () => {
+    const file = JSON.stringify({
+      format: 'eyerhythm-landmarks',
+      version: 1,
+      startTime: START,
+      frames: [[0, 0.3, 0.3, null, null, new Array(12).fill(100), new Array(12).fill(200)]],
+    });
+
+    expect(parseLandmarkRecording(file).frames[0]?.face?.measurements).toEqual(IDEAL_FRAME_MEASUREMENTS);
+  });
+
+  it('replays files recorded before iris measurements without them', () => {
+    const file = JSON.stringify({
+      format: 'eyerhythm-landmarks',
+      version: 1,
+      startTime: START,
+      frames: [[0, 0.3, 0.3, null, null, new Array(12).fill(100), new Array(12).fill(200), [1, 0.2, 1, null, null, null, 1]]],
+    });
+
+    expect(parseLandmarkRecording(file).frames[0]?.face?.irisOffset).toBeNull();
+    expect(parseLandmarkRecording(file).frames[0]?.face?.irisDiameter).toBeNull();
+  });
+
+  it('rejects files that are not landmark recordings', () => {
+    expect(() => parseLandmarkRecording('not json')).toThrow('Not a landmark recording');
+    expect(() => parseLandmarkRecording('{"frames": []}')).toThrow('Not a landmark recording');
+  });
+
+  it('rejects recordings from other versions', () => {
+    const file = JSON.stringify({ format: 'eyerhythm-landmarks', version: 99, startTime: START, frames: [] });
+    expect(() => parseLandmarkRecording(file)).toThrow('Unsupported landmark recording version 99');
+  });
+});
+
+describe('LandmarkReplay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('delivers frames at their recorded spacing, re-stamped from the replay start', () => {
+    vi.useFakeTimers();
+    const replayStart = START + 3_600_000;
+    vi.setSystemTime(replayStart);
+
+    const recorder = new LandmarkRecorder();
+    recorder.addFrame(faceFrame(0, 0.3));
+    recorder.addFrame(noFace(100));
+    recorder.addFrame(faceFrame(250, 0.3));
+
+    const timestamps: number[] = [];
+    const onEnd = vi.fn();
+    const replay = new LandmarkReplay(recorder.getRecording(), {
+      onFrame: (frame) => timestamps.push(frame.timestamp),
+      onEnd,
+    });
+    replay.start();
+
+    vi.advanceTimersByTime(0);
+    expect(timestamps).toEqual([replayStart]);
+
+    vi.advanceTimersByTime(100);
+    expect(timestamps).toEqual([replayStart, replayStart + 100]);
+    expect(onEnd).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(150);
+    expect(timestamps).toEqual([replayStart, replayStart + 100, replayStart + 250]);
+    expect(onEnd).toHaveBeenCalledOnce();
+    expect(replay.isPlaying).toBe(false);
+  });
+
+  it('stops delivering frames when stopped', () => {
+    vi.useFakeTimers();
+    const recorder = recordBlinks([], 1000);
+    const onFrame = vi.fn();
+    const onEnd = vi.fn();
+    const replay = new LandmarkReplay(recorder.getRecording(), {
+      onFrame: (frame, index) => {
+        onFrame(frame);
+        if (index === 2) replay.stop();
+      },
+      onEnd,
+    });
+    replay.start();
+
+    vi.advanceTimersByTime(1000);
+    expect(onFrame).toHaveBeenCalledTimes(3);
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it('gives the same blinks every time a recording is replayed', () => {
+    vi.useFakeTimers();
+    const recording = parseLandmarkRecording(
+      serializeLandmarkRecording(recordBlinks([1000, 3000, 5500], 7000).getRecording())
+    );
+
+    const replayBlinks = () => {
+      const strategy = new EarThresholdStrategy({ earThreshold: 0.25, minClosureMs: 50, debounceTime: 50 });
+      const blinks: number[] = [];
+      const replay = new LandmarkReplay(recording, {
+        onFrame: ({ timestamp, face }) => {
+          const result = face
+            ? strategy.processFrame({ timestamp, leftEAR: face.leftEAR, rightEAR: face.rightEAR, blinkScores: face.blinkScores })
+            : strategy.processMissingFace(timestamp);
+          for (const event of result.events) {
+            if (event.type === 'blink-end') blinks.push(event.blink.timestamp - recording.startTime);
+          }
+        },
+      });
+      replay.start(recording.startTime);
+      vi.runAllTimers();
+      return blinks;
+    };
+
+    const first = replayBlinks();
+    expect(first).toEqual([1000, 3000, 5500]);
+    expect(replayBlinks()).toEqual(first);
+  });
+});
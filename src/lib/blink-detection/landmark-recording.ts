@@ -0,0 +1,299 @@
+import { EyeLandmarks, LandmarkFace, LandmarkFrame, LandmarkFrameSource } from './types';
+import { IDEAL_FRAME_MEASUREMENTS } from './frame-quality';
+
+export const LANDMARK_RECORDING_FORMAT = 'eyerhythm-landmarks';
+export const LANDMARK_RECORDING_VERSION = 1;
+export const LANDMARK_RECORDING_EXTENSION = '.eyelandmarks.json';
+
+// One hour at 30 fps - recording stops adding frames after this so memory stays bounded
+export const MAX_RECORDED_FRAMES = 30 * 60 * 60;
+
+export interface LandmarkRecording {
+  startTime: number; // Capture time of the first frame, ms since epoch
+  frames: LandmarkFrame[];
+}
+
+/**
+ * Frames are stored as tuples to keep files small:
+ * - no face: [ms since start]
+ * - face: [ms since start, leftEAR, rightEAR, [yaw, pitch, roll] | null, [left, right] blink scores | null,
+ *   left eye [x1, y1, ..., x6, y6], right eye [x1, y1, ..., x6, y6],
+ *   [faceConfidence, faceSize, eyeVisibility, brightness | null, faceLuminance | null, eyeContrast | null,
+ *   faceCount], [irisX, irisY, irisDiameter] | null]
+ *
+ * The measurements were added later; older files without them replay as ideal frames. Iris
+ * offsets and diameters were added after that; older files replay without them.
+ */
+type EncodedFace = [
+  number, number, number, number[] | null, number[] | null, number[], number[], (number | null)[]?, ((number | null)[] | null)?
+];
+type EncodedFrame = [number] | EncodedFace;
+
+interface LandmarkRecordingFile {
+  format: typeof LANDMARK_RECORDING_FORMAT;
+  version: number;
+  startTime: number;
+  frames: EncodedFrame[];
+}
+
+// Rounding applied when frames are recorded, so a replay sees exactly what gets saved
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const roundOrNull = (value: number | null, decimals: number): number | null =>
+  value === null ? null : round(value, decimals);
+
+const roundEye = (eye: EyeLandmarks): EyeLandmarks => ({
+  p1: { x: round(eye.p1.x, 2), y: round(eye.p1.y, 2) },
+  p2: { x: round(eye.p2.x, 2), y: round(eye.p2.y, 2) },
+  p3: { x: round(eye.p3.x, 2), y: round(eye.p3.y, 2) },
+  p4: { x: round(eye.p4.x, 2), y: round(eye.p4.y, 2) },
+  p5: { x: round(eye.p5.x, 2), y: round(eye.p5.y, 2) },
+  p6: { x: round(eye.p6.x, 2), y: round(eye.p6.y, 2) },
+});
+
+function roundFrame(frame: LandmarkFrame): LandmarkFrame {
+  const { timestamp, face } = frame;
+  return {
+    timestamp: round(timestamp, 1),
+    face: face && {
+      leftEye: roundEye(face.leftEye),
+      rightEye: roundEye(face.rightEye),
+      leftEAR: round(face.leftEAR, 4),
+      rightEAR: round(face.rightEAR, 4),
+      headPose: face.headPose && {
+        yaw: round(face.headPose.yaw, 2),
+        pitch: round(face.headPose.pitch, 2),
+        roll: round(face.headPose.roll, 2),
+      },
+      irisOffset: face.irisOffset && {
+        x: round(face.irisOffset.x, 3),
+        y: round(face.irisOffset.y, 3),
+      },
+      irisDiameter: roundOrNull(face.irisDiameter, 5),
+      blinkScores: face.blinkScores && {
+        left: round(face.blinkScores.left, 3),
+        right: round(face.blinkScores.right, 3),
+      },
+      measurements: {
+        faceConfidence: round(face.measurements.faceConfidence, 3),
+        faceSize: round(face.measurements.faceSize, 3),
+        eyeVisibility: round(face.measurements.eyeVisibility, 3),
+        brightness: roundOrNull(face.measurements.brightness, 3),
+        faceLuminance: roundOrNull(face.measurements.faceLuminance, 3),
+        eyeContrast: roundOrNull(face.measurements.eyeContrast, 4),
+        faceCount: face.measurements.faceCount,
+      },
+    },
+  };
+}
+
+/**
+ * Collects the landmarker's per-frame output during a live session.
+ */
+export class LandmarkRecorder {
+  private frames: LandmarkFrame[] = [];
+  private maxFrames: number;
+
+  constructor(maxFrames: number = MAX_RECORDED_FRAMES) {
+    this.maxFrames = maxFrames;
+  }
+
+  addFrame(frame: LandmarkFrame): void {
+    if (this.frames.length < this.maxFrames) {
+      this.frames.push(roundFrame(frame));
+    }
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  get isFull(): boolean {
+    return this.frames.length >= this.maxFrames;
+  }
+
+  getRecording(): LandmarkRecording {
+    return {
+      startTime: this.frames[0]?.timestamp ?? 0,
+      frames: [...this.frames],
+    };
+  }
+}
+
+const encodeEye = (eye: EyeLandmarks): number[] =>
+  [eye.p1, eye.p2, eye.p3, eye.p4, eye.p5, eye.p6].flatMap(point => [point.x, point.y]);
+
+function decodeEye(values: number[]): EyeLandmarks {
+  const point = (index: number) => ({ x: values[index * 2] ?? 0, y: values[index * 2 + 1] ?? 0 });
+  return { p1: point(0), p2: point(1), p3: point(2), p4: point(3), p5: point(4), p6: point(5) };
+}
+
+function encodeFace(offset: number, face: LandmarkFace): EncodedFace {
+  return [
+    offset,
+    face.leftEAR,
+    face.rightEAR,
+    face.headPose && [face.headPose.yaw, face.headPose.pitch, face.headPose.roll],
+    face.blinkScores && [face.blinkScores.left, face.blinkScores.right],
+    encodeEye(face.leftEye),
+    encodeEye(face.rightEye),
+    [
+      face.measurements.faceConfidence,
+      face.measurements.faceSize,
+      face.measurements.eyeVisibility,
+      face.measurements.brightness,
+      face.measurements.faceLuminance,
+      face.measurements.eyeContrast,
+      face.measurements.faceCount,
+    ],
+    face.irisOffset || face.irisDiameter !== null
+      ? [face.irisOffset?.x ?? null, face.irisOffset?.y ?? null, face.irisDiameter]
+      : null,
+  ];
+}
+
+function decodeFrame(encoded: EncodedFrame, startTime: number): LandmarkFrame {
+  const timestamp = round(startTime + encoded[0], 1);
+  if (encoded.length === 1) {
+    return { timestamp, face: null };
+  }
+
+  const [, leftEAR, rightEAR, pose, scores, leftEye, rightEye, measurements, iris] = encoded;
+  return {
+    timestamp,
+    face: {
+      leftEye: decodeEye(leftEye),
+      rightEye: decodeEye(rightEye),
+      leftEAR,
+      rightEAR,
+      headPose: pose ? { yaw: pose[0] ?? 0, pitch: pose[1] ?? 0, roll: pose[2] ?? 0 } : null,
+      irisOffset: iris && typeof iris[0] === 'number' && typeof iris[1] === 'number'
+        ? { x: iris[0], y: iris[1] }
+        : null,
+      irisDiameter: iris?.[2] ?? null,
+      blinkScores: scores ? { left: scores[0] ?? 0, right: scores[1] ?? 0 } : null,
+      measurements: measurements
+        ? {
+          faceConfidence: measurements[0] ?? IDEAL_FRAME_MEASUREMENTS.faceConfidence,
+          faceSize: measurements[1] ?? IDEAL_FRAME_MEASUREMENTS.faceSize,
+          eyeVisibility: measurements[2] ?? IDEAL_FRAME_MEASUREMENTS.eyeVisibility,
+          brightness: measurements[3] ?? null,
+          faceLuminance: measurements[4] ?? null,
+          eyeContrast: measurements[5] ?? null,
+          faceCount: measurements[6] ?? IDEAL_FRAME_MEASUREMENTS.faceCount,
+        }
+        : { ...IDEAL_FRAME_MEASUREMENTS },
+    },
+  };
+}
+
+export function serializeLandmarkRecording(recording: LandmarkRecording): string {
+  const file: LandmarkRecordingFile = {
+    format: LANDMARK_RECORDING_FORMAT,
+    version: LANDMARK_RECORDING_VERSION,
+    startTime: recording.startTime,
+    frames: recording.frames.map(({ timestamp, face }) => {
+      const offset = round(timestamp - recording.startTime, 1);
+      return face ? encodeFace(offset, face) : [offset];
+    }),
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse a file written by serializeLandmarkRecording. Throws if it isn't a landmark recording
+ * or was written by a newer version.
+ */
+export function parseLandmarkRecording(text: string): LandmarkRecording {
+  let file: Partial<LandmarkRecordingFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Not a landmark recording');
+  }
+
+  if (file?.format !== LANDMARK_RECORDING_FORMAT || !Array.isArray(file.frames) || typeof file.startTime !== 'number') {
+    throw new Error('Not a landmark recording');
+  }
+  if (file.version !== LANDMARK_RECORDING_VERSION) {
+    throw new Error(`Unsupported landmark recording version ${file.version}`);
+  }
+
+  const startTime = file.startTime;
+  return {
+    startTime,
+    frames: file.frames.map(frame => decodeFrame(frame, startTime)),
+  };
+}
+
+export interface LandmarkReplayOptions {
+  onFrame: (frame: LandmarkFrame, index: number) => void;
+  onEnd?: () => void;
+}
+
+/**
+ * Plays a recording back in real time in place of the camera and landmarker.
+ *
+ * Frames are delivered at their recorded spacing, re-stamped so the first frame lands at
+ * the moment the replay starts; session timing, which runs on the wall clock, then lines
+ * up with the recorded blinks.
+ */
+export class LandmarkReplay implements LandmarkFrameSource {
+  private recording: LandmarkRecording;
+  private options: LandmarkReplayOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private playing = false;
+  private nextIndex = 0;
+  private replayStart = 0;
+
+  constructor(recording: LandmarkRecording, options: LandmarkReplayOptions) {
+    this.recording = recording;
+    this.options = options;
+  }
+
+  get totalFrames(): number {
+    return this.recording.frames.length;
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  start(startTime: number = Date.now()): void {
+    this.stop();
+    this.nextIndex = 0;
+    this.replayStart = startTime;
+    this.playing = true;
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    this.playing = false;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext(): void {
+    const frame = this.recording.frames[this.nextIndex];
+    if (!frame) {
+      this.stop();
+      this.options.onEnd?.();
+      return;
+    }
+
+    const timestamp = this.replayStart + (frame.timestamp - this.recording.startTime);
+    this.timer = setTimeout(() => {
+      const index = this.nextIndex++;
+      this.options.onFrame({ ...frame, timestamp }, index);
+      // onFrame may have stopped the replay
+      if (this.playing) {
+        this.scheduleNext();
+      }
+    }, Math.max(0, timestamp - Date.now()));
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { LIGHTING_HOLD_MS, LightingMonitor, assessLighting } from './lighting';
+
+describe('assessLighting', () => {
+  it('accepts a well lit face', () => {
+    expect(assessLighting({ brightness: 0.5, faceLuminance: 0.45, eyeContrast: 0.1 })).toBe('good');
+  });
+
+  it('flags a dim face', () => {
+    expect(assessLighting({ brightness: 0.15, faceLuminance: 0.12, eyeContrast: 0.08 })).toBe('low-light');
+  });
+
+  it('flags flat, low contrast eyes', () => {
+    expect(assessLighting({ brightness: 0.4, faceLuminance: 0.35, eyeContrast: 0.01 })).toBe('low-light');
+  });
+
+  it('flags a face much darker than a bright background', () => {
+    expect(assessLighting({ brightness: 0.6, faceLuminance: 0.25, eyeContrast: 0.06 })).toBe('backlit');
+  });
+
+  it('falls back to image brightness when the face was not measured', () => {
+    expect(assessLighting({ brightness: 0.1, faceLuminance: null, eyeContrast: null })).toBe('low-light');
+    expect(assessLighting({ brightness: null, faceLuminance: null, eyeContrast: null })).toBe('good');
+  });
+});
+
+describe('LightingMonitor', () => {
+  it('reports a condition once it has held, backdated to when it started', () => {
+    const monitor = new LightingMonitor();
+
+    expect(monitor.update('low-light', 1000)).toBeNull();
+    expect(monitor.update('low-light', 1000 + LIGHTING_HOLD_MS - 1)).toBeNull();
+    expect(monitor.update('low-light', 1000 + LIGHTING_HOLD_MS)).toEqual({ condition: 'low-light', since: 1000 });
+    expect(monitor.condition).toBe('low-light');
+  });
+
+  it('ignores brief changes', () => {
+    const monitor = new LightingMonitor();
+
+    monitor.update('backlit', 0);
+    monitor.update('good', 1000);
+    monitor.update('backlit', 2000);
+
+    expect(monitor.update('backlit', 2000 + LIGHTING_HOLD_MS - 1)).toBeNull();
+    expect(monitor.condition).toBe('good');
+  });
+
+  it('restarts the hold when the poor condition changes kind', () => {
+    const monitor = new LightingMonitor();
+
+    monitor.update('low-light', 0);
+    monitor.update('backlit', 2000);
+
+    expect(monitor.update('backlit', LIGHTING_HOLD_MS)).toBeNull();
+    expect(monitor.update('backlit', 2000 + LIGHTING_HOLD_MS)).toEqual({ condition: 'backlit', since: 2000 });
+  });
+
+  it('starts over as good after reset', () => {
+    const monitor = new LightingMonitor(0);
+    monitor.update('low-light', 0);
+    monitor.reset();
+
+    expect(monitor.condition).toBe('good');
+  });
+});
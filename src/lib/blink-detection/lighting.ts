@@ -0,0 +1,107 @@
+import { FrameMeasurements, LightingCondition } from './types';
+
+// Face luma below this leaves too little light on the eyelids for stable landmarks
+const LOW_LIGHT_FACE_LUMINANCE = 0.2;
+// Without a face measurement, fall back to the whole image
+const LOW_LIGHT_BRIGHTNESS = 0.15;
+// Eye regions flatter than this can't show where the eyelid edge is
+const LOW_EYE_CONTRAST = 0.03;
+// A face this much darker than the image as a whole is lit from behind (e.g. a window)
+const BACKLIGHT_DIFFERENCE = 0.2;
+const BACKLIT_MAX_FACE_LUMINANCE = 0.4;
+
+// A condition has to hold this long before it's reported, so a hand passing the camera doesn't count
+export const LIGHTING_HOLD_MS = 3000;
+
+export type PoorLightingCondition = Exclude<LightingCondition, 'good'>;
+
+// What to tell the user to do about it
+export const LIGHTING_GUIDANCE: Record<PoorLightingCondition, string> = {
+  'low-light': 'Your face is too dimly lit for reliable blink detection. Turn on a light in front of you.',
+  'backlit': 'There is a bright light behind you, so your face is in shadow. Face the window or light your face from the front.',
+};
+
+export function isPoorLighting(condition: LightingCondition): condition is PoorLightingCondition {
+  return condition === 'low-light' || condition === 'backlit';
+}
+
+/**
+ * Classify the light on the face from a frame's measurements.
+ */
+export function assessLighting(
+  measurements: Pick<FrameMeasurements, 'brightness' | 'faceLuminance' | 'eyeContrast'>
+): LightingCondition {
+  const { brightness, faceLuminance, eyeContrast } = measurements;
+
+  if (faceLuminance === null) {
+    return brightness !== null && brightness < LOW_LIGHT_BRIGHTNESS ? 'low-light' : 'good';
+  }
+
+  if (
+    brightness !== null &&
+    faceLuminance < BACKLIT_MAX_FACE_LUMINANCE &&
+    brightness - faceLuminance >= BACKLIGHT_DIFFERENCE
+  ) {
+    return 'backlit';
+  }
+
+  if (faceLuminance < LOW_LIGHT_FACE_LUMINANCE || (eyeContrast !== null && eyeContrast < LOW_EYE_CONTRAST)) {
+    return 'low-light';
+  }
+
+  return 'good';
+}
+
+export interface LightingChange {
+  condition: LightingCondition;
+  since: number; // When the new condition started, ms since epoch
+}
+
+/**
+ * Smooths per-frame lighting into a stable condition. A new condition is only reported
+ * once it has held for LIGHTING_HOLD_MS, and is backdated to when it started.
+ */
+export class LightingMonitor {
+  private holdMs: number;
+  private current: LightingCondition = 'good';
+  private candidate: LightingCondition = 'good';
+  private candidateSince: number | null = null;
+
+  constructor(holdMs: number = LIGHTING_HOLD_MS) {
+    this.holdMs = holdMs;
+  }
+
+  get condition(): LightingCondition {
+    return this.current;
+  }
+
+  /**
+   * @returns the change when the reported condition switches, otherwise null
+   */
+  update(condition: LightingCondition, timestamp: number): LightingChange | null {
+    if (condition === this.current) {
+      this.candidateSince = null;
+      return null;
+    }
+
+    if (condition !== this.candidate || this.candidateSince === null) {
+      this.candidate = condition;
+      this.candidateSince = timestamp;
+    }
+
+    if (timestamp - this.candidateSince < this.holdMs) {
+      return null;
+    }
+
+    const change = { condition, since: this.candidateSince };
+    this.current = condition;
+    this.candidateSince = null;
+    return change;
+  }
+
+  reset(): void {
+    this.current = 'good';
+    this.candidate = 'good';
+    this.candidateSince = null;
+  }
+}
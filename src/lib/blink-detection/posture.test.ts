@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { POSTURE_HOLD_MS, POSTURE_REFERENCE_MS, PostureMonitor, assessPosture } from './posture';
+
+const pose = (pitch: number, roll = 0) => ({ yaw: 0, pitch, roll });
+const reference = { pitch: 5, roll: 0, faceSize: 0.2 };
+
+describe('assessPosture', () => {
+  it('accepts small changes from the reference posture', () => {
+    expect(assessPosture(pose(15, 8), 0.22, reference)).toBe('good');
+  });
+
+  it('reports the head dropping forward as slouching, even when leaning in too', () => {
+    expect(assessPosture(pose(25), 0.26, reference)).toBe('slouching');
+  });
+
+  it('reports the face growing as leaning in', () => {
+    expect(assessPosture(pose(5), 0.25, reference)).toBe('leaning-in');
+  });
+
+  it('reports tilting towards either shoulder', () => {
+    expect(assessPosture(pose(5, -15), 0.2, reference)).toBe('head-tilted');
+    expect(assessPosture(pose(5, 15), 0.2, reference)).toBe('head-tilted');
+  });
+});
+
+describe('PostureMonitor', () => {
+  // Sit up straight for the reference, then return the time it was captured
+  const captureReference = (monitor: PostureMonitor) => {
+    for (let t = 0; t <= POSTURE_REFERENCE_MS; t += 500) {
+      expect(monitor.update(pose(5), 0.2, t)).toBeNull();
+    }
+    return POSTURE_REFERENCE_MS;
+  };
+
+  it('captures the reference posture from the first frames', () => {
+    const monitor = new PostureMonitor();
+    expect(monitor.reference).toBeNull();
+
+    captureReference(monitor);
+
+    expect(monitor.reference?.pitch).toBe(5);
+    expect(monitor.reference?.roll).toBe(0);
+    expect(monitor.reference?.faceSize).toBeCloseTo(0.2);
+  });
+
+  it('reports poor posture once it has lasted, backdated to when it started', () => {
+    const monitor = new PostureMonitor();
+    const start = captureReference(monitor) + 1000;
+
+    expect(monitor.update(pose(25), 0.2, start)).toBeNull();
+    expect(monitor.update(pose(25), 0.2, start + POSTURE_HOLD_MS - 1)).toBeNull();
+    expect(monitor.update(pose(25), 0.2, start + POSTURE_HOLD_MS)).toEqual({ condition: 'slouching', since: start });
+    expect(monitor.condition).toBe('slouching');
+  });
+
+  it('ignores briefly leaning forward', () => {
+    const monitor = new PostureMonitor();
+    const start = captureReference(monitor) + 1000;
+
+    monitor.update(pose(25), 0.2, start);
+    monitor.update(pose(5), 0.2, start + 5000);
+
+    expect(monitor.update(pose(25), 0.2, start + POSTURE_HOLD_MS)).toBeNull();
+    expect(monitor.condition).toBe('good');
+  });
+
+  it('captures a new reference after a reset', () => {
+    const monitor = new PostureMonitor();
+    captureReference(monitor);
+    monitor.reset();
+
+    expect(monitor.reference).toBeNull();
+    expect(monitor.condition).toBe('good');
+  });
+});
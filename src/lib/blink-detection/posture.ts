@@ -0,0 +1,155 @@
+import { HeadPose, PostureCondition } from './types';
+
+export interface PostureReference {
+  pitch: number; // degrees, positive is looking down
+  roll: number; // degrees
+  faceSize: number; // Face width as a fraction of the image width
+}
+
+export interface PostureLimits {
+  maxPitchDrop: number; // degrees the head can drop forward from the reference
+  maxRollChange: number; // degrees the head can tilt towards either shoulder
+  maxFaceSizeGrowth: number; // Share the face can grow by, i.e. how far the user can lean in
+}
+
+export const DEFAULT_POSTURE_LIMITS: PostureLimits = {
+  maxPitchDrop: 15,
+  maxRollChange: 12,
+  maxFaceSizeGrowth: 0.2,
+};
+
+// Posture over the first few seconds of a session is taken as the user's good posture
+export const POSTURE_REFERENCE_MS = 5000;
+// Poor posture has to hold this long before it's reported, so reaching for a cup doesn't count
+export const POSTURE_HOLD_MS = 30000;
+
+export type PoorPostureCondition = Exclude<PostureCondition, 'good'>;
+
+// What to tell the user to do about it
+export const POSTURE_GUIDANCE: Record<PoorPostureCondition, string> = {
+  'slouching': 'Your head has dropped forward, which strains your neck. Sit up straight and raise the screen to eye level.',
+  'leaning-in': "You're leaning in towards the screen. Sit back against your chair, or make the text bigger.",
+  'head-tilted': 'Your head is tilted to one side. Straighten up and center yourself in front of the screen.',
+};
+
+export function isPoorPosture(condition: PostureCondition): condition is PoorPostureCondition {
+  return condition !== 'good';
+}
+
+/**
+ * Compare a frame's head pose and face size with the reference posture. A dropped head is
+ * reported before leaning in, since slouching usually brings the face closer as well.
+ */
+export function assessPosture(
+  headPose: HeadPose,
+  faceSize: number,
+  reference: PostureReference,
+  limits: PostureLimits = DEFAULT_POSTURE_LIMITS
+): PostureCondition {
+  if (headPose.pitch - reference.pitch > limits.maxPitchDrop) {
+    return 'slouching';
+  }
+  if (reference.faceSize > 0 && faceSize / reference.faceSize - 1 > limits.maxFaceSizeGrowth) {
+    return 'leaning-in';
+  }
+  if (Math.abs(headPose.roll - reference.roll) > limits.maxRollChange) {
+    return 'head-tilted';
+  }
+  return 'good';
+}
+
+export interface PostureChange {
+  condition: PostureCondition;
+  since: number; // When the condition started, ms since epoch
+}
+
+/**
+ * Captures the reference posture from the first POSTURE_REFERENCE_MS of frames, then reports
+ * changes in posture once they have held for POSTURE_HOLD_MS, backdated to when they started.
+ */
+export class PostureMonitor {
+  private limits: PostureLimits;
+  private holdMs: number;
+  private referenceSum: PostureReference = { pitch: 0, roll: 0, faceSize: 0 };
+  private referenceFrames = 0;
+  private referenceStart: number | null = null;
+  private currentReference: PostureReference | null = null;
+  private current: PostureCondition = 'good';
+  private candidate: PostureCondition = 'good';
+  private candidateSince: number | null = null;
+
+  constructor(limits: PostureLimits = DEFAULT_POSTURE_LIMITS, holdMs: number = POSTURE_HOLD_MS) {
+    this.limits = limits;
+    this.holdMs = holdMs;
+  }
+
+  get condition(): PostureCondition {
+    return this.current;
+  }
+
+  // Null while the reference is still being captured
+  get reference(): PostureReference | null {
+    return this.currentReference;
+  }
+
+  /**
+   * @returns the change when the reported condition switches, otherwise null
+   */
+  update(headPose: HeadPose, faceSize: number, timestamp: number): PostureChange | null {
+    if (!this.currentReference) {
+      this.addReferenceFrame(headPose, faceSize, timestamp);
+      return null;
+    }
+
+    const condition = assessPosture(headPose, faceSize, this.currentReference, this.limits);
+    if (condition === this.current) {
+      this.candidateSince = null;
+      return null;
+    }
+
+    if (condition !== this.candidate || this.candidateSince === null) {
+      this.candidate = condition;
+      this.candidateSince = timestamp;
+    }
+
+    if (timestamp - this.candidateSince < this.holdMs) {
+      return null;
+    }
+
+    const change = { condition, since: this.candidateSince };
+    this.current = condition;
+    this.candidateSince = null;
+    return change;
+  }
+
+  /**
+   * Forget the reference and capture a new one from the next frames, e.g. when a session starts.
+   */
+  reset(): void {
+    this.referenceSum = { pitch: 0, roll: 0, faceSize: 0 };
+    this.referenceFrames = 0;
+    this.referenceStart = null;
+    this.currentReference = null;
+    this.current = 'good';
+    this.candidate = 'good';
+    this.candidateSince = null;
+  }
+
+  private addReferenceFrame(headPose: HeadPose, faceSize: number, timestamp: number): void {
+    if (this.referenceStart === null) {
+      this.referenceStart = timestamp;
+    }
+    this.referenceSum.pitch += headPose.pitch;
+    this.referenceSum.roll += headPose.roll;
+    this.referenceSum.faceSize += faceSize;
+    this.referenceFrames++;
+
+    if (timestamp - this.referenceStart >= POSTURE_REFERENCE_MS) {
+      this.currentReference = {
+        pitch: this.referenceSum.pitch / this.referenceFrames,
+        roll: this.referenceSum.roll / this.referenceFrames,
+        faceSize: this.referenceSum.faceSize / this.referenceFrames,
+      };
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  EarSimulator,
+  SimulationConfig,
+  getSimulationSettings,
+  saveSimulationSettings,
+} from './simulated-camera';
+import { EarThresholdStrategy } from './detection-strategies';
+import { calculateEAR } from './ear-calculator';
+import { LandmarkFrame } from './types';
+
+const START = 1_700_000_000_000;
+const FRAME_MS = 1000 / 30;
+
+function simulate(config: Partial<SimulationConfig>, durationMs: number, seed = 42): LandmarkFrame[] {
+  const simulator = new EarSimulator({ ...DEFAULT_SIMULATION_CONFIG, ...config }, START, seed);
+  const frames: LandmarkFrame[] = [];
+  for (let t = 0; t < durationMs; t += FRAME_MS) {
+    frames.push(simulator.frameAt(START + t));
+  }
+  return frames;
+}
+
+function countBlinks(frames: LandmarkFrame[], from = START, to = Infinity): number {
+  const strategy = new EarThresholdStrategy({ earThreshold: 0.2, minClosureMs: 50, debounceTime: 50 });
+  let blinks = 0;
+  for (const { timestamp, face } of frames) {
+    const result = face
+      ? strategy.processFrame({ timestamp, leftEAR: face.leftEAR, rightEAR: face.rightEAR, blinkScores: face.blinkScores })
+      : strategy.processMissingFace(timestamp);
+    blinks += result.events.filter(event => event.type === 'blink-end' && event.blink.timestamp >= from && event.blink.timestamp < to).length;
+  }
+  return blinks;
+}
+
+describe('EarSimulator', () => {
+  it('produces the same stream from the same seed', () => {
+    expect(simulate({}, 5000, 7)).toEqual(simulate({}, 5000, 7));
+    expect(simulate({}, 5000, 7)).not.toEqual(simulate({}, 5000, 8));
+  });
+
+  it('blinks at roughly the configured rate', () => {
+    const blinks = countBlinks(simulate({ blinkRate: 15 }, 10 * 60000));
+    expect(blinks).toBeGreaterThan(120);
+    expect(blinks).toBeLessThan(180);
+  });
+
+  it('builds eye landmarks that measure the frame EAR', () => {
+    const face = simulate({}, 1000).find(frame => frame.face)!.face!;
+    expect(calculateEAR(face.leftEye)).toBeCloseTo(face.leftEAR, 6);
+    expect(calculateEAR(face.rightEye)).toBeCloseTo(face.rightEAR, 6);
+  });
+
+  it('loses the face for the configured gaps', () => {
+    const frames = simulate({ faceLostInterval: 10000, faceLostDuration: 5000 }, 40000);
+    // Gaps start after 10 s of face time: 10-15 s and 25-30 s
+    const inGap = (frame: LandmarkFrame) => {
+      const offset = frame.timestamp - START;
+      return (offset >= 10000 && offset < 15000) || (offset >= 25000 && offset < 30000);
+    };
+
+    expect(frames.filter(inGap).every(frame => frame.face === null)).toBe(true);
+    expect(frames.filter(frame => !inGap(frame)).every(frame => frame.face !== null)).toBe(true);
+  });
+
+  it('slows blinking down with fatigue drift', () => {
+    const frames = simulate({ blinkRate: 20, fatigueDrift: 2 }, 10 * 60000);
+    const firstTwoMinutes = countBlinks(frames, START, START + 2 * 60000);
+    const lastTwoMinutes = countBlinks(frames, START + 8 * 60000, START + 10 * 60000);
+
+    expect(lastTwoMinutes).toBeLessThan(firstTwoMinutes / 2);
+  });
+});
+
+describe('simulation settings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('defaults to off with the default config', () => {
+    expect(getSimulationSettings()).toEqual({ enabled: false, ...DEFAULT_SIMULATION_CONFIG });
+  });
+
+  it('saves changes on top of the stored settings', () => {
+    saveSimulationSettings({ enabled: true });
+    saveSimulationSettings({ blinkRate: 6 });
+
+    expect(getSimulationSettings()).toMatchObject({ enabled: true, blinkRate: 6, noise: DEFAULT_SIMULATION_CONFIG.noise });
+  });
+});
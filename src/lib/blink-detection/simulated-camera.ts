@@ -0,0 +1,260 @@
+import { EyeLandmarks, LandmarkFrame, LandmarkFrameSource } from './types';
+import { IDEAL_FRAME_MEASUREMENTS } from './frame-quality';
+
+export interface SimulationConfig {
+  blinkRate: number; // Blinks per minute when tracking starts
+  blinkDuration: number; // ms from the eye starting to close to fully open again
+  faceLostInterval: number; // ms of face time between face-lost gaps, 0 for no gaps
+  faceLostDuration: number; // ms each gap lasts; over 60 s closes the session
+  fatigueDrift: number; // Blinks per minute lost for every minute of tracking
+  noise: number; // Standard deviation of the noise added to EAR
+}
+
+export interface SimulationSettings extends SimulationConfig {
+  enabled: boolean; // Use the simulator instead of the camera when tracking starts
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  blinkRate: 15,
+  blinkDuration: 150,
+  faceLostInterval: 0,
+  faceLostDuration: 10000,
+  fatigueDrift: 0,
+  noise: 0.01,
+};
+
+// Choices offered in settings
+export const SIMULATED_BLINK_RATE_OPTIONS: { value: number; label: string }[] = [
+  { value: 6, label: '6 / min (low)' },
+  { value: 10, label: '10 / min' },
+  { value: 15, label: '15 / min (typical)' },
+  { value: 20, label: '20 / min' },
+];
+
+export const SIMULATED_BLINK_DURATION_OPTIONS: { value: number; label: string }[] = [
+  { value: 100, label: 'Quick (100 ms)' },
+  { value: 150, label: 'Typical (150 ms)' },
+  { value: 400, label: 'Slow (400 ms)' },
+];
+
+export const SIMULATED_FACE_LOST_OPTIONS: { value: string; label: string; interval: number; duration: number }[] = [
+  { value: 'none', label: 'Never', interval: 0, duration: DEFAULT_SIMULATION_CONFIG.faceLostDuration },
+  { value: 'short', label: '10 s every 2 min', interval: 120000, duration: 10000 },
+  { value: 'long', label: '70 s every 5 min', interval: 300000, duration: 70000 },
+];
+
+export const SIMULATED_FATIGUE_DRIFT_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'None' },
+  { value: 0.5, label: 'Gradual (-0.5 / min)' },
+  { value: 2, label: 'Fast (-2 / min)' },
+];
+
+export const SIMULATED_NOISE_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.005, label: 'Low' },
+  { value: 0.01, label: 'Medium' },
+  { value: 0.03, label: 'High' },
+];
+
+const SIMULATION_STORAGE_KEY = 'simulatedCamera';
+
+const SIMULATED_FRAME_RATE = 30;
+const OPEN_EAR = 0.3;
+const CLOSED_EAR = 0.05;
+// Fatigue drift never takes the rate below this
+const MIN_BLINK_RATE = 1;
+// Eye geometry used to turn EAR back into landmarks (pixels)
+const EYE_WIDTH = 30;
+const LEFT_EYE_ORIGIN = { x: 260, y: 220 };
+const RIGHT_EYE_ORIGIN = { x: 350, y: 220 };
+// Iris width in image widths that puts the face about 60 cm away at the default field of view
+const IRIS_DIAMETER = 0.017;
+
+// Small seeded PRNG (mulberry32) so a simulation can be reproduced from its seed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Eye landmarks whose EAR is exactly `ear`: EAR = 2 * halfHeight / width
+function eyeWithEAR(origin: { x: number; y: number }, ear: number): EyeLandmarks {
+  const halfHeight = (ear * EYE_WIDTH) / 2;
+  return {
+    p1: { x: origin.x, y: origin.y },
+    p2: { x: origin.x + EYE_WIDTH / 3, y: origin.y - halfHeight },
+    p3: { x: origin.x + (2 * EYE_WIDTH) / 3, y: origin.y - halfHeight },
+    p4: { x: origin.x + EYE_WIDTH, y: origin.y },
+    p5: { x: origin.x + (2 * EYE_WIDTH) / 3, y: origin.y + halfHeight },
+    p6: { x: origin.x + EYE_WIDTH / 3, y: origin.y + halfHeight },
+  };
+}
+
+/**
+ * Generates a synthetic landmark stream: open eyes with noise, blinks at a rate that
+ * drifts down over time, and gaps where the face is gone.
+ *
+ * Frames must be requested in time order. The same seed and frame times give the same stream.
+ */
+export class EarSimulator {
+  private config: SimulationConfig;
+  private random: () => number;
+  private startTime: number;
+  private nextBlinkAt: number;
+  private blinkStart: number | null = null;
+  private nextGapAt: number;
+  private gapEnd: number | null = null;
+
+  constructor(config: SimulationConfig, startTime: number, seed: number = Date.now()) {
+    this.config = config;
+    this.random = createRandom(seed);
+    this.startTime = startTime;
+    this.nextBlinkAt = startTime + this.nextBlinkInterval(startTime);
+    this.nextGapAt = config.faceLostInterval > 0 ? startTime + config.faceLostInterval : Infinity;
+  }
+
+  // Blinks per minute at a given time, after fatigue drift
+  getBlinkRate(timestamp: number): number {
+    const minutes = (timestamp - this.startTime) / 60000;
+    return Math.max(MIN_BLINK_RATE, this.config.blinkRate - this.config.fatigueDrift * minutes);
+  }
+
+  frameAt(timestamp: number): LandmarkFrame {
+    if (this.isFaceLost(timestamp)) {
+      return { timestamp, face: null };
+    }
+
+    const ear = Math.max(0.01, OPEN_EAR - (OPEN_EAR - CLOSED_EAR) * this.closure(timestamp));
+    const leftEAR = Math.max(0.01, ear + this.gaussian() * this.config.noise);
+    const rightEAR = Math.max(0.01, ear + this.gaussian() * this.config.noise);
+    const score = (value: number) => Math.min(1, Math.max(0, (OPEN_EAR - value) / (OPEN_EAR - CLOSED_EAR)));
+
+    return {
+      timestamp,
+      face: {
+        leftEye: eyeWithEAR(LEFT_EYE_ORIGIN, leftEAR),
+        rightEye: eyeWithEAR(RIGHT_EYE_ORIGIN, rightEAR),
+        leftEAR,
+        rightEAR,
+        headPose: { yaw: 0, pitch: 0, roll: 0 },
+        irisOffset: { x: 0, y: 0 },
+        irisDiameter: IRIS_DIAMETER,
+        blinkScores: { left: score(leftEAR), right: score(rightEAR) },
+        measurements: { ...IDEAL_FRAME_MEASUREMENTS },
+      },
+    };
+  }
+
+  private isFaceLost(timestamp: number): boolean {
+    if (this.gapEnd === null && timestamp >= this.nextGapAt) {
+      this.gapEnd = this.nextGapAt + this.config.faceLostDuration;
+      this.blinkStart = null;
+    }
+    if (this.gapEnd !== null && timestamp >= this.gapEnd) {
+      this.nextGapAt = this.gapEnd + this.config.faceLostInterval;
+      this.gapEnd = null;
+    }
+    if (this.gapEnd === null) {
+      return false;
+    }
+
+    // Blinks that fall due while the face is gone are never seen
+    if (timestamp >= this.nextBlinkAt) {
+      this.nextBlinkAt = timestamp + this.nextBlinkInterval(timestamp);
+    }
+    return true;
+  }
+
+  // How closed the eyes are, 0 (open) to 1 (closed): closing, closed and reopening take a third each
+  private closure(timestamp: number): number {
+    if (this.blinkStart === null && timestamp >= this.nextBlinkAt) {
+      this.blinkStart = this.nextBlinkAt;
+    }
+    if (this.blinkStart === null) {
+      return 0;
+    }
+
+    const progress = (timestamp - this.blinkStart) / this.config.blinkDuration;
+    if (progress >= 1) {
+      this.blinkStart = null;
+      this.nextBlinkAt = timestamp + this.nextBlinkInterval(timestamp);
+      return 0;
+    }
+    if (progress < 1 / 3) return progress * 3;
+    if (progress < 2 / 3) return 1;
+    return (1 - progress) * 3;
+  }
+
+  // Intervals vary between half and one and a half times the mean, so the average rate holds
+  private nextBlinkInterval(timestamp: number): number {
+    const meanInterval = 60000 / this.getBlinkRate(timestamp);
+    return meanInterval * (0.5 + this.random());
+  }
+
+  // Standard normal sample (Box-Muller)
+  private gaussian(): number {
+    const u = 1 - this.random();
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+export interface SimulatedCameraOptions {
+  onFrame: (frame: LandmarkFrame) => void;
+}
+
+/**
+ * Stands in for the camera and landmarker, producing simulated frames in real time
+ * until stopped.
+ */
+export class SimulatedCamera implements LandmarkFrameSource {
+  private config: SimulationConfig;
+  private options: SimulatedCameraOptions;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: SimulationConfig, options: SimulatedCameraOptions) {
+    this.config = config;
+    this.options = options;
+  }
+
+  get isPlaying(): boolean {
+    return this.intervalId !== null;
+  }
+
+  start(startTime: number = Date.now()): void {
+    this.stop();
+    const simulator = new EarSimulator(this.config, startTime);
+    this.intervalId = setInterval(() => {
+      this.options.onFrame(simulator.frameAt(Date.now()));
+    }, 1000 / SIMULATED_FRAME_RATE);
+  }
+
+  stop(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+}
+
+export function getSimulationSettings(): SimulationSettings {
+  const defaults: SimulationSettings = { enabled: false, ...DEFAULT_SIMULATION_CONFIG };
+  if (typeof window === 'undefined') return defaults;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(SIMULATION_STORAGE_KEY) ?? '{}');
+    return { ...defaults, ...stored };
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveSimulationSettings(settings: Partial<SimulationSettings>): void {
+  if (typeof window === 'undefined') return;
+
+  localStorage.setItem(SIMULATION_STORAGE_KEY, JSON.stringify({ ...getSimulationSettings(), ...settings }));
+}
@@ -12,17 +12,202 @@ export interface EyeLandmarks {
   p6: Point2D;
 }
 
+export type BlinkType = 'bilateral' | 'left-wink' | 'right-wink';
+
+export interface EyeEARs {
+  left: number;
+  right: number;
+  average: number;
+}
+
+// Head rotation in degrees, from the face's transformation matrix
+export interface HeadPose {
+  yaw: number; // Turning left/right
+  pitch: number; // Nodding up/down
+  roll: number; // Tilting towards a shoulder
+}
+
+// Where the irises sit between the eye corners, averaged over both eyes, in eye widths from the
+// middle of the corners. Positive x is towards the image's right, positive y is down.
+export interface IrisOffset {
+  x: number;
+  y: number;
+}
+
+// Gaze direction in degrees relative to the camera, head pose plus eye rotation (see gaze.ts)
+export interface Gaze {
+  yaw: number; // Positive towards the image's right
+  pitch: number; // Positive looking down
+}
+
 export interface BlinkDetectionResult {
   blinkCount: number;
   currentEAR: number;
+  leftEAR: number;
+  rightEAR: number;
   isBlinking: boolean;
+  blinkType: BlinkType | null;
+  completedBlink: DetectedBlink | null; // Set on the frame where a counted blink ends
+  events: BlinkEngineEvent[]; // Engine events raised by this frame
+  headPose: HeadPose | null; // Null when the landmarker didn't output a transformation matrix
+  poseGated: boolean; // True when the pose was too extreme and the frame was skipped
+  gaze: Gaze | null; // Null without a face, or when neither irises nor head pose were found
+  frameQuality: FrameQuality | null; // Null when there was no face
   timestamp: number;
 }
 
-export interface BlinkDetectorConfig {
-  earThreshold: number;
-  consecutiveFrames: number;
-  debounceTime: number;
+// Per-frame EAR reading used to time a closure
+export interface EARSample {
+  timestamp: number;
+  left: number;
+  right: number;
+}
+
+// Closure threshold for each eye, or for both when they share one
+export type EyeThresholds = number | { left: number; right: number };
+
+// Time spent in each part of a blink, in ms (sums to the blink duration)
+export interface BlinkPhases {
+  closing: number;
+  closed: number;
+  reopening: number;
+}
+
+// A completed eye-closure event as seen by the detector
+export interface DetectedBlink {
+  timestamp: number; // Capture time (ms since epoch) of the frame where EAR first crossed below the threshold
+  type: BlinkType;
+  leftEAR: number; // Lowest left eye EAR during the closure
+  rightEAR: number; // Lowest right eye EAR during the closure
+  duration: number; // From crossing down to EAR recovering, in ms
+  phases: BlinkPhases;
+}
+
+// A clear EAR dip below the open-eye baseline that never reached the blink threshold
+export interface IncompleteBlink {
+  timestamp: number; // When average EAR first dropped below the dip limit
+  duration: number; // From dropping below the dip limit to recovering, in ms
+  minEAR: number; // Lowest average EAR during the dip
+  baselineEAR: number; // Open-eye baseline the dip was measured against
+  depth: number; // How far the dip went from the baseline towards the threshold (0-1)
+}
+
+// An eye closure long enough to be a lapse of attention rather than a blink (see drowsiness.ts)
+export interface Microsleep {
+  timestamp: number; // When both eyes went under the blink threshold
+  duration: number; // Until they reopened, in ms
+}
+
+// 'static' uses the calibration threshold as-is, 'adaptive' follows the recent open-eye EAR
+export type ThresholdMode = 'static' | 'adaptive';
+
+// Which signal decides that the eyes are closed
+export type DetectionStrategyName = 'ear-threshold' | 'blendshape';
+
+// Settings for the blink engine (see blink-engine.ts)
+export interface BlinkEngineConfig {
+  earThreshold: number; // Closure threshold for the engine's input signal
+  minClosureMs: number; // How long the eyes must stay closed for a blink to count, in ms
+  debounceTime: number; // Minimum ms between counted blinks
+}
+
+export interface BlinkDetectorConfig extends BlinkEngineConfig {
+  strategy: DetectionStrategyName;
+}
+
+// Per-eye input for one frame with a face; null when no face was found
+export type BlinkEngineSample = { left: number; right: number } | null;
+
+export type BlinkEngineEvent =
+  | { type: 'blink-start'; timestamp: number; blinkType: BlinkType }
+  | { type: 'blink-end'; timestamp: number; blink: DetectedBlink }
+  | { type: 'face-lost'; timestamp: number }
+  | { type: 'face-regained'; timestamp: number };
+
+// MediaPipe eyeBlinkLeft / eyeBlinkRight blendshape scores (0 = open, 1 = closed)
+export interface EyeBlinkScores {
+  left: number;
+  right: number;
+}
+
+// Everything a detection strategy may look at for one frame
+export interface BlinkFrame {
+  timestamp: number; // Frame capture time, ms since epoch
+  leftEAR: number;
+  rightEAR: number;
+  blinkScores: EyeBlinkScores | null; // Null when the landmarker didn't output blendshapes
+}
+
+// Landmarker output for one frame, before blink detection - what landmark recordings store and replay
+export interface LandmarkFrame {
+  timestamp: number; // Frame capture time, ms since epoch
+  face: LandmarkFace | null; // Null when no usable face was found
+}
+
+export interface LandmarkFace {
+  leftEye: EyeLandmarks; // Pixel coordinates
+  rightEye: EyeLandmarks;
+  leftEAR: number; // Corrected for head pose
+  rightEAR: number;
+  headPose: HeadPose | null;
+  irisOffset: IrisOffset | null; // Null when the landmarker didn't output iris landmarks
+  irisDiameter: number | null; // In image widths, for viewing distance; null without iris landmarks
+  blinkScores: EyeBlinkScores | null;
+  measurements: FrameMeasurements; // Inputs to the frame's quality record
+}
+
+// How well the face could be seen in one frame (see frame-quality.ts)
+export interface FrameMeasurements {
+  faceConfidence: number; // 0-1, estimated from how much of the face mesh is inside the image
+  faceSize: number; // Face width as a fraction of the image width
+  eyeVisibility: number; // 0-1, eye landmarks inside the image and large enough to measure
+  brightness: number | null; // Mean image luma 0-1, null when it couldn't be measured
+  faceLuminance: number | null; // Mean luma 0-1 inside the face box, null when not measured
+  eyeContrast: number | null; // RMS contrast (luma standard deviation) around the eyes, null when not measured
+  faceCount: number; // Faces in the frame, including people other than the tracked user
+}
+
+// Whether the light on the face is good enough for reliable detection (see lighting.ts)
+export type LightingCondition = 'good' | 'low-light' | 'backlit';
+
+// Head posture compared with the user's posture at session start (see posture.ts)
+export type PostureCondition = 'good' | 'slouching' | 'leaning-in' | 'head-tilted';
+
+export type FrameQualityIssue =
+  | 'low-confidence'
+  | 'face-too-small'
+  | 'eyes-not-visible'
+  | 'head-turned'
+  | 'too-dark'
+  | 'too-bright'
+  | 'backlit';
+
+export interface FrameQuality extends FrameMeasurements {
+  headPose: HeadPose | null;
+  lighting: LightingCondition;
+  score: number; // 0-1, the weakest of the individual scores
+  issues: FrameQualityIssue[]; // Everything that made EAR unreliable on this frame
+}
+
+// Produces landmark frames in place of the camera and landmarker, e.g. a replayed recording or the simulator
+export interface LandmarkFrameSource {
+  readonly isPlaying: boolean;
+  start(startTime?: number): void; // startTime: wall-clock time of the first frame
+  stop(): void;
+}
+
+export interface StrategyFrameResult {
+  isBlinking: boolean;
+  blinkType: BlinkType | null;
+  events: BlinkEngineEvent[];
+}
+
+export interface BlinkDetectionStrategy {
+  readonly name: DetectionStrategyName;
+  processFrame(frame: BlinkFrame): StrategyFrameResult;
+  processMissingFace(timestamp: number): StrategyFrameResult;
+  getState(): Readonly<BlinkDetectionState>;
+  reset(): void;
 }
 
 export interface FaceMeshResults {
@@ -31,13 +216,28 @@ export interface FaceMeshResults {
     y: number;
     z: number;
   }[]>;
+  // Blendshape scores, one entry per face (only when the landmarker outputs them)
+  faceBlendshapes?: Array<{
+    categories: Array<{ categoryName: string; score: number }>;
+  }>;
+  // 4x4 column-major matrices, one per face (only when the landmarker outputs them)
+  facialTransformationMatrixes?: Array<{
+    rows: number;
+    columns: number;
+    data: number[];
+  }>;
 }
 
+// Blink engine state - plain data so it can be serialised, stored and restored
 export interface BlinkDetectionState {
-  consecutiveFramesBelow: number;
   lastBlinkTime: number;
   totalBlinks: number;
   isCurrentlyBlinking: boolean;
+  currentBlinkType: BlinkType | null;
+  closureSamples: EARSample[]; // Frames since EAR crossed below the threshold, thinned on long closures
+  isFaceDetected: boolean;
+  openLevels: { left: number; right: number } | null; // Each eye's reading while open, null before the first face
+  lastSampleTime: number | null; // Timestamp of the last frame with a face, to follow the open levels over time
 }
 
 export interface CalibrationMetadata {
@@ -69,6 +269,9 @@ export interface Calibration {
   isActive: boolean;
   isDefault?: boolean;
   earThreshold: number;
+  cameraFocalLength?: number; // In image widths, from the optional viewing distance step
+  cameraDeviceId?: string; // Camera the calibration was recorded with
+  cameraLabel?: string;
   metadata: CalibrationMetadata;
   rawData: CalibrationRawData;
 }
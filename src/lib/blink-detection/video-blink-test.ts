@@ -4,7 +4,7 @@ import { VideoProcessor } from '../utils/video-processor';
 export async function testVideoBlinkDetection(videoPath: string): Promise<number> {
   const detector = new BlinkDetector({
     earThreshold: 0.25,
-    consecutiveFrames: 2,
+    minClosureMs: 50,
     debounceTime: 100
   });
 
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calibrateFocalLength,
+  estimateViewingDistance,
+  focalLengthFromFov,
+  TOO_CLOSE_HOLD_MS,
+  ViewingDistanceMonitor,
+} from './viewing-distance';
+
+describe('estimateViewingDistance', () => {
+  it('puts a typical webcam iris at arm length', () => {
+    // 60 degree camera: an iris 1.7% of the image wide is about 60 cm away
+    expect(estimateViewingDistance(0.017, null)).toBeCloseTo(59.6, 0);
+  });
+
+  it('is halved when the iris looks twice as wide', () => {
+    const far = estimateViewingDistance(0.015, null)!;
+    const near = estimateViewingDistance(0.03, null)!;
+
+    expect(near).toBeCloseTo(far / 2);
+  });
+
+  it('corrects for the head turning aside', () => {
+    const facing = estimateViewingDistance(0.02, { yaw: 0, pitch: 0, roll: 0 })!;
+    const turned = estimateViewingDistance(0.02 * Math.cos(Math.PI / 6), { yaw: 30, pitch: 0, roll: 0 })!;
+
+    expect(turned).toBeCloseTo(facing);
+  });
+
+  it('returns null without a measurable iris', () => {
+    expect(estimateViewingDistance(0, null)).toBeNull();
+  });
+});
+
+describe('calibrateFocalLength', () => {
+  it('reproduces the measured distance', () => {
+    const focalLength = calibrateFocalLength(0.021, null, 55);
+
+    expect(focalLength).not.toBeCloseTo(focalLengthFromFov());
+    expect(estimateViewingDistance(0.021, null, focalLength)).toBeCloseTo(55);
+  });
+});
+
+describe('ViewingDistanceMonitor', () => {
+  it('reports sitting too close once it has lasted, backdated to when it started', () => {
+    const monitor = new ViewingDistanceMonitor();
+    monitor.update(40, 1000);
+
+    expect(monitor.update(40, 1000 + TOO_CLOSE_HOLD_MS - 1)).toBeNull();
+    expect(monitor.update(40, 1000 + TOO_CLOSE_HOLD_MS)).toEqual({ tooClose: true, since: 1000, distance: 40 });
+    expect(monitor.tooClose).toBe(true);
+  });
+
+  it('ignores leaning in briefly', () => {
+    const monitor = new ViewingDistanceMonitor(1000);
+    monitor.update(70, 0);
+
+    // Smoothing keeps a few frames of leaning in above the threshold
+    for (let t = 33; t < 330; t += 33) {
+      expect(monitor.update(30, t)).toBeNull();
+    }
+    expect(monitor.distance).toBeGreaterThan(50);
+  });
+
+  it('reports moving back straight away', () => {
+    const monitor = new ViewingDistanceMonitor(0);
+    monitor.update(40, 0);
+    expect(monitor.tooClose).toBe(true);
+
+    let change = null;
+    for (let t = 33; change === null && t < 10000; t += 33) {
+      change = monitor.update(80, t);
+    }
+
+    expect(change?.tooClose).toBe(false);
+    expect(change?.distance).toBeGreaterThanOrEqual(50);
+  });
+
+  it('forgets the smoothed distance on reset', () => {
+    const monitor = new ViewingDistanceMonitor(0);
+    monitor.update(40, 0);
+    monitor.reset();
+
+    expect(monitor.distance).toBeNull();
+    expect(monitor.tooClose).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { HeadPose } from './types';
+
+// Horizontal visible iris diameter; it varies little between adults (about +/- 0.5 mm)
+export const IRIS_DIAMETER_MM = 11.7;
+// Horizontal field of view assumed for an uncalibrated camera; typical of laptop webcams
+export const DEFAULT_CAMERA_FOV_DEGREES = 60;
+
+// Closer than this, the screen is nearer than ergonomic guidance (50-100 cm) recommends
+export const TOO_CLOSE_DISTANCE_CM = 50;
+// The user has to stay too close this long before it's reported, so leaning in to read doesn't count
+export const TOO_CLOSE_HOLD_MS = 10000;
+
+// Weight of each frame in the smoothed distance; ~1 s time constant at 30 fps
+const DISTANCE_SMOOTHING = 0.03;
+
+/**
+ * Focal length in image widths for a camera with the given horizontal field of view.
+ */
+export function focalLengthFromFov(fovDegrees: number = DEFAULT_CAMERA_FOV_DEGREES): number {
+  return 0.5 / Math.tan((fovDegrees * Math.PI) / 360);
+}
+
+// Turning the head narrows the iris by cos(yaw); undo that so distance doesn't jump when looking aside
+function correctIrisDiameterForPose(irisDiameter: number, headPose: HeadPose | null): number {
+  const yawScale = headPose ? Math.cos((headPose.yaw * Math.PI) / 180) : 1;
+  return yawScale > 0 ? irisDiameter / yawScale : irisDiameter;
+}
+
+/**
+ * Distance from the camera to the eyes, in cm, by similar triangles on the iris.
+ *
+ * @param irisDiameter iris diameter in image widths (see extractIrisDiameter)
+ * @param focalLength camera focal length in image widths
+ */
+export function estimateViewingDistance(
+  irisDiameter: number,
+  headPose: HeadPose | null,
+  focalLength: number = focalLengthFromFov()
+): number | null {
+  if (irisDiameter <= 0) {
+    return null;
+  }
+  return (focalLength * IRIS_DIAMETER_MM) / correctIrisDiameterForPose(irisDiameter, headPose) / 10;
+}
+
+/**
+ * The camera's focal length, in image widths, from an iris measured at a known distance.
+ * Used to calibrate distance estimates for one camera.
+ */
+export function calibrateFocalLength(irisDiameter: number, headPose: HeadPose | null, distanceCm: number): number {
+  return (correctIrisDiameterForPose(irisDiameter, headPose) * distanceCm * 10) / IRIS_DIAMETER_MM;
+}
+
+export interface TooCloseChange {
+  tooClose: boolean;
+  since: number; // When the change started, ms since epoch
+  distance: number; // Smoothed distance in cm when the change was reported
+}
+
+/**
+ * Smooths per-frame distance estimates and reports when the user has been too close to the
+ * screen for TOO_CLOSE_HOLD_MS, backdated to when it started. Moving back reports straight away.
+ */
+export class ViewingDistanceMonitor {
+  private holdMs: number;
+  private smoothed: number | null = null;
+  private current = false;
+  private tooCloseSince: number | null = null;
+
+  constructor(holdMs: number = TOO_CLOSE_HOLD_MS) {
+    this.holdMs = holdMs;
+  }
+
+  // Smoothed distance in cm, null until one has been measured
+  get distance(): number | null {
+    return this.smoothed;
+  }
+
+  get tooClose(): boolean {
+    return this.current;
+  }
+
+  /**
+   * @returns the change when the reported state switches, otherwise null
+   */
+  update(distanceCm: number, timestamp: number): TooCloseChange | null {
+    this.smoothed = this.smoothed === null
+      ? distanceCm
+      : this.smoothed + (distanceCm - this.smoothed) * DISTANCE_SMOOTHING;
+
+    if (this.smoothed >= TOO_CLOSE_DISTANCE_CM) {
+      this.tooCloseSince = null;
+      if (!this.current) {
+        return null;
+      }
+      this.current = false;
+      return { tooClose: false, since: timestamp, distance: this.smoothed };
+    }
+
+    if (this.current) {
+      return null;
+    }
+    if (this.tooCloseSince === null) {
+      this.tooCloseSince = timestamp;
+    }
+    if (timestamp - this.tooCloseSince < this.holdMs) {
+      return null;
+    }
+
+    this.current = true;
+    return { tooClose: true, since: this.tooCloseSince, distance: this.smoothed };
+  }
+
+  reset(): void {
+    this.smoothed = null;
+    this.current = false;
+    this.tooCloseSince = null;
+  }
+}
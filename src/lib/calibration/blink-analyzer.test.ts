@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { BlinkAnalyzer } from './blink-analyzer';
+
+const FRAME_MS = 1000 / 30;
+const OPEN_EAR = 0.3;
+const CLOSED_EAR = 0.1;
+
+// A 30 fps recording with the eyes closed for each blink's duration, starting at `at`
+function record(blinks: Array<{ at: number; durationMs: number }>, lengthMs: number) {
+  const data: Array<{ time: number; ear: number }> = [];
+  for (let time = 0; time <= lengthMs; time += FRAME_MS) {
+    const closed = blinks.some(({ at, durationMs }) => time >= at && time < at + durationMs);
+    data.push({ time, ear: closed ? CLOSED_EAR : OPEN_EAR });
+  }
+  return data;
+}
+
+// Counts blinks at a single threshold, the way live detection would
+function countBlinks(blinks: Array<{ at: number; durationMs: number }>, lengthMs = 3000) {
+  return BlinkAnalyzer.analyzeBlinkData(record(blinks, lengthMs), 1, 0.2, 0.2).detectedBlinks;
+}
+
+describe('BlinkAnalyzer', () => {
+  describe('analyzeBlinkData', () => {
+    it('ignores a dip shorter than 50 ms', () => {
+      expect(countBlinks([{ at: 1000, durationMs: FRAME_MS }])).toBe(0);
+    });
+
+    it('counts a closure from 50 ms', () => {
+      expect(countBlinks([{ at: 1000, durationMs: 2 * FRAME_MS }])).toBe(1);
+    });
+
+    it('counts a slow deliberate blink over 400 ms once', () => {
+      // Long closures are judged by microsleep detection, not dropped from calibration
+      expect(countBlinks([{ at: 1000, durationMs: 600 }])).toBe(1);
+    });
+
+    it('finds a threshold that detects every requested blink', () => {
+      const blinks = Array.from({ length: 10 }, (_, i) => ({
+        at: 1000 + i * 1500,
+        durationMs: [100, 150, 250, 450][i % 4] ?? 100,
+      }));
+
+      const result = BlinkAnalyzer.analyzeBlinkData(record(blinks, 17000));
+
+      expect(result.detectedBlinks).toBe(10);
+      expect(result.blinkTimestamps).toHaveLength(10);
+      expect(result.calibratedThreshold).toBeGreaterThan(CLOSED_EAR);
+    });
+  });
+});
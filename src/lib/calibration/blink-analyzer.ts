@@ -1,3 +1,5 @@
+import { DEFAULT_BLINK_ENGINE_CONFIG, runBlinkEngine } from '../blink-detection/blink-engine';
+
 interface EARDataPoint {
   time: number;
   ear: number;
@@ -73,50 +75,22 @@ export class BlinkAnalyzer {
   }
 
   /**
-   * Counts blinks at a specific threshold
+   * Counts blinks at a specific threshold, using the same engine and settings as live detection.
+   * Closures under the engine's 50 ms minimum are ignored; longer ones all count, as they do
+   * live, since slow deliberate blinks are common while calibrating and overlong closures are
+   * left to microsleep detection.
    */
   private static countBlinksAtThreshold(
     earData: EARDataPoint[],
     threshold: number
   ): { blinkCount: number; blinkTimestamps: number[] } {
-    const blinkTimestamps: number[] = [];
-    let isBlinking = false;
-    let consecutiveBelowThreshold = 0;
-    const minConsecutiveFrames = 2;
-    const minBlinkDuration = 50; // ms
-    const maxBlinkDuration = 400; // ms
-    let blinkStartTime = 0;
-
-    for (let i = 0; i < earData.length; i++) {
-      const point = earData[i];
-
-      if (!point) continue;
-
-      if (point.ear < threshold) {
-        consecutiveBelowThreshold++;
-
-        if (!isBlinking && consecutiveBelowThreshold >= minConsecutiveFrames) {
-          isBlinking = true;
-          blinkStartTime = point.time;
-        }
-      } else {
-        if (isBlinking) {
-          const blinkDuration = point.time - blinkStartTime;
-          
-          // Only count as a blink if duration is reasonable
-          if (blinkDuration >= minBlinkDuration && blinkDuration <= maxBlinkDuration) {
-            // Check if this is not too close to the previous blink (debounce)
-            const lastBlinkTime = blinkTimestamps[blinkTimestamps.length - 1] || 0;
-            if (blinkStartTime - lastBlinkTime > 100) {
-              blinkTimestamps.push(blinkStartTime);
-            }
-          }
-          
-          isBlinking = false;
-        }
-        consecutiveBelowThreshold = 0;
-      }
-    }
+    const events = runBlinkEngine(
+      earData.map(point => ({ timestamp: point.time, ear: point.ear })),
+      { ...DEFAULT_BLINK_ENGINE_CONFIG, earThreshold: threshold }
+    );
+    const blinkTimestamps = events
+      .filter(event => event.type === 'blink-start')
+      .map(event => event.timestamp);
 
     return {
       blinkCount: blinkTimestamps.length,
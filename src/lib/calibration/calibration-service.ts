@@ -1,6 +1,8 @@
-import { Calibration, CalibrationRawData } from '../blink-detection/types';
+import { Calibration, CalibrationRawData, ThresholdMode } from '../blink-detection/types';
+import { percentile } from '../blink-detection/adaptive-threshold';
 
 const CALIBRATIONS_STORAGE_KEY = 'eyerhythm_calibrations';
+const THRESHOLD_MODE_STORAGE_KEY = 'eyerhythm_threshold_mode';
 
 export class CalibrationService {
   static getAllCalibrations(): Calibration[] {
@@ -130,6 +132,28 @@ export class CalibrationService {
     return Math.max(0.1, Math.min(0.4, averageBlinkEar));
   }
 
+  /**
+   * Typical open-eye EAR recorded during calibration, or undefined when there is no raw data
+   * (e.g. the factory default).
+   */
+  static getOpenEyeEAR(calibration: Calibration): number | undefined {
+    const { earValues } = calibration.rawData;
+    if (earValues.length === 0) return undefined;
+
+    return percentile(earValues, 0.9);
+  }
+
+  static getThresholdMode(): ThresholdMode {
+    if (typeof window === 'undefined') return 'static';
+
+    return localStorage.getItem(THRESHOLD_MODE_STORAGE_KEY) === 'adaptive' ? 'adaptive' : 'static';
+  }
+
+  static setThresholdMode(mode: ThresholdMode): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(THRESHOLD_MODE_STORAGE_KEY, mode);
+  }
+
   static validateCalibration(calibration: Calibration): boolean {
     const { metadata } = calibration;
     
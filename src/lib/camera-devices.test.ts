@@ -0,0 +1,46 @@
+import {
+  getPreferredCameraId,
+  listCameras,
+  resolveCameraId,
+  savePreferredCameraId,
+} from './camera-devices';
+
+const cameras = [
+  { deviceId: 'builtin', label: 'FaceTime HD' },
+  { deviceId: 'external', label: 'USB Webcam' },
+];
+
+describe('camera devices', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('lists video inputs, numbering cameras the browser hides the label of', async () => {
+    navigator.mediaDevices.enumerateDevices = vi.fn().mockResolvedValue([
+      { kind: 'audioinput', deviceId: 'mic', label: 'Microphone' },
+      { kind: 'videoinput', deviceId: 'builtin', label: 'FaceTime HD' },
+      { kind: 'videoinput', deviceId: 'external', label: '' },
+    ]);
+
+    expect(await listCameras()).toEqual([
+      { deviceId: 'builtin', label: 'FaceTime HD' },
+      { deviceId: 'external', label: 'Camera 2' },
+    ]);
+  });
+
+  it('saves and clears the preferred camera', () => {
+    expect(getPreferredCameraId()).toBeNull();
+
+    savePreferredCameraId('external');
+    expect(getPreferredCameraId()).toBe('external');
+
+    savePreferredCameraId(null);
+    expect(getPreferredCameraId()).toBeNull();
+  });
+
+  it('resolves to the preferred camera only while it is connected', () => {
+    expect(resolveCameraId('external', cameras)).toBe('external');
+    expect(resolveCameraId('external', cameras.slice(0, 1))).toBeNull();
+    expect(resolveCameraId(null, cameras)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+const CAMERA_DEVICE_STORAGE_KEY = 'cameraDeviceId';
+
+/**
+ * Video inputs the browser knows about. Before camera permission is granted browsers hide
+ * labels (and sometimes IDs), so unlabeled cameras are numbered instead.
+ */
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'videoinput' && device.deviceId !== '')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Camera ${index + 1}`,
+      }));
+  } catch (error) {
+    console.error('[Camera] Failed to list cameras:', error);
+    return [];
+  }
+}
+
+// The camera picked in settings or calibration, null to use the system default
+export function getPreferredCameraId(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  return localStorage.getItem(CAMERA_DEVICE_STORAGE_KEY);
+}
+
+export function savePreferredCameraId(deviceId: string | null): void {
+  if (typeof window === 'undefined') return;
+
+  if (deviceId === null) {
+    localStorage.removeItem(CAMERA_DEVICE_STORAGE_KEY);
+  } else {
+    localStorage.setItem(CAMERA_DEVICE_STORAGE_KEY, deviceId);
+  }
+}
+
+/**
+ * The camera to open: the preferred one while it's connected, otherwise null so the system
+ * default is used. The preference is kept, so the camera is picked again when it comes back.
+ */
+export function resolveCameraId(preferredId: string | null, devices: CameraDevice[]): string | null {
+  if (preferredId === null) return null;
+
+  return devices.some((device) => device.deviceId === preferredId) ? preferredId : null;
+}
@@ -0,0 +1,101 @@
+import {
+  CAMERA_IN_USE_RETRY_MS,
+  CAMERA_RECOVERY_MAX_ATTEMPTS,
+  CAMERA_RECOVERY_MAX_DELAY_MS,
+  CameraFailure,
+  CameraRecovery,
+  getCameraRecoveryDelay,
+} from './camera-recovery';
+
+function createRecovery(results: (CameraFailure | null)[]) {
+  const retry = vi.fn(async () => (results.length > 0 ? results.shift() ?? null : 'failed'));
+  const onStateChange = vi.fn();
+  const onGiveUp = vi.fn();
+  return { recovery: new CameraRecovery({ retry, onStateChange, onGiveUp }), retry, onStateChange, onGiveUp };
+}
+
+describe('CameraRecovery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially up to the maximum delay', () => {
+    expect(getCameraRecoveryDelay(0)).toBe(1000);
+    expect(getCameraRecoveryDelay(1)).toBe(2000);
+    expect(getCameraRecoveryDelay(3)).toBe(8000);
+    expect(getCameraRecoveryDelay(9)).toBe(CAMERA_RECOVERY_MAX_DELAY_MS);
+  });
+
+  it('retries until the camera opens', async () => {
+    const { recovery, retry, onStateChange, onGiveUp } = createRecovery(['disconnected', null]);
+
+    recovery.start('disconnected');
+    expect(recovery.isRecovering).toBe(true);
+    expect(onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ reason: 'disconnected', attempt: 0 }));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(retry).toHaveBeenCalledTimes(1);
+    expect(onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 1 }));
+
+    // The second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(retry).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(retry).toHaveBeenCalledTimes(2);
+
+    expect(recovery.isRecovering).toBe(false);
+    expect(onStateChange).toHaveBeenLastCalledWith(null);
+    expect(onGiveUp).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const { recovery, retry, onGiveUp } = createRecovery([]);
+
+    recovery.start('failed');
+    await vi.advanceTimersByTimeAsync(10 * 60000);
+
+    expect(retry).toHaveBeenCalledTimes(CAMERA_RECOVERY_MAX_ATTEMPTS);
+    expect(onGiveUp).toHaveBeenCalledWith('failed');
+    expect(recovery.isRecovering).toBe(false);
+  });
+
+  it('keeps retrying at a steady pace while another app has the camera', async () => {
+    const busy = Array.from({ length: CAMERA_RECOVERY_MAX_ATTEMPTS * 2 }, (): CameraFailure => 'in-use');
+    const { recovery, retry, onStateChange, onGiveUp } = createRecovery([...busy, null]);
+
+    recovery.start('disconnected');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onStateChange).toHaveBeenLastCalledWith(expect.objectContaining({ reason: 'in-use' }));
+
+    await vi.advanceTimersByTimeAsync(CAMERA_IN_USE_RETRY_MS * busy.length);
+
+    expect(retry).toHaveBeenCalledTimes(busy.length + 1);
+    expect(onGiveUp).not.toHaveBeenCalled();
+    expect(recovery.isRecovering).toBe(false);
+  });
+
+  it('gives up straight away when camera access is refused', async () => {
+    const { recovery, retry, onGiveUp } = createRecovery(['permission-denied']);
+
+    recovery.start('disconnected');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(retry).toHaveBeenCalledTimes(1);
+    expect(onGiveUp).toHaveBeenCalledWith('permission-denied');
+  });
+
+  it('stops retrying when cancelled', async () => {
+    const { recovery, retry, onStateChange } = createRecovery([]);
+
+    recovery.start('in-use');
+    recovery.cancel();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(retry).not.toHaveBeenCalled();
+    expect(onStateChange).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,123 @@
+// Why the camera couldn't be opened or stopped delivering frames
+export type CameraFailure =
+  | 'permission-denied' // The user or OS refused access; retrying won't help
+  | 'in-use' // The OS couldn't start the camera: another app has it (or it's still waking up after sleep)
+  | 'disconnected' // The track ended under us (unplugged, or killed on system sleep)
+  | 'failed';
+
+export type CameraRecoveryReason = Exclude<CameraFailure, 'permission-denied'>;
+
+export interface CameraRecoveryState {
+  reason: CameraRecoveryReason;
+  attempt: number; // Retries made so far
+  nextRetryAt: number | null; // ms since epoch, null while a retry is running
+}
+
+// Retries back off from 1 s, doubling up to 30 s; ten of them span about three minutes
+export const CAMERA_RECOVERY_BASE_DELAY_MS = 1000;
+export const CAMERA_RECOVERY_MAX_DELAY_MS = 30000;
+export const CAMERA_RECOVERY_MAX_ATTEMPTS = 10;
+// While another app has the camera (a video call, say) retry at this pace for as long as it takes
+export const CAMERA_IN_USE_RETRY_MS = 10000;
+
+export const CAMERA_RECOVERY_MESSAGES: Record<CameraRecoveryReason, string> = {
+  'in-use': 'The camera is in use by another app.',
+  disconnected: 'The camera was disconnected.',
+  failed: "The camera couldn't be opened.",
+};
+
+export function getCameraRecoveryDelay(attempt: number, reason?: CameraRecoveryReason): number {
+  if (reason === 'in-use') return CAMERA_IN_USE_RETRY_MS;
+
+  return Math.min(CAMERA_RECOVERY_BASE_DELAY_MS * 2 ** attempt, CAMERA_RECOVERY_MAX_DELAY_MS);
+}
+
+export function isRecoverableCameraFailure(failure: CameraFailure): failure is CameraRecoveryReason {
+  return failure !== 'permission-denied';
+}
+
+interface CameraRecoveryCallbacks {
+  retry: () => Promise<CameraFailure | null>; // Try to open the camera again; null when it worked
+  onStateChange: (state: CameraRecoveryState | null) => void; // null once recovered or given up
+  onGiveUp: (failure: CameraFailure) => void;
+}
+
+/**
+ * Reopens the camera with exponential backoff after it's lost. Gives up after
+ * CAMERA_RECOVERY_MAX_ATTEMPTS retries, or straight away if access is refused. While another
+ * app is using the camera it keeps retrying every CAMERA_IN_USE_RETRY_MS without giving up.
+ */
+export class CameraRecovery {
+  private callbacks: CameraRecoveryCallbacks;
+  private state: CameraRecoveryState | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(callbacks: CameraRecoveryCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  get isRecovering(): boolean {
+    return this.state !== null;
+  }
+
+  // Begin retrying; a recovery already under way carries on with its own backoff
+  start(reason: CameraRecoveryReason): void {
+    if (this.state) return;
+
+    this.schedule({ reason, attempt: 0, nextRetryAt: null });
+  }
+
+  cancel(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.state) {
+      this.setState(null);
+    }
+  }
+
+  private schedule(state: CameraRecoveryState): void {
+    const delay = getCameraRecoveryDelay(state.attempt, state.reason);
+    this.setState({ ...state, nextRetryAt: Date.now() + delay });
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.attempt();
+    }, delay);
+  }
+
+  private async attempt(): Promise<void> {
+    const state = this.state;
+    if (!state) return;
+
+    this.setState({ ...state, nextRetryAt: null });
+    const failure = await this.callbacks.retry();
+
+    // Cancelled while the retry was running
+    if (this.state === null) return;
+
+    if (failure === null) {
+      console.log(`[CameraRecovery] Camera recovered after ${state.attempt + 1} attempt(s)`);
+      this.setState(null);
+      return;
+    }
+
+    const attempt = state.attempt + 1;
+    const giveUp = !isRecoverableCameraFailure(failure)
+      || (failure !== 'in-use' && attempt >= CAMERA_RECOVERY_MAX_ATTEMPTS);
+    if (giveUp) {
+      console.warn(`[CameraRecovery] Giving up after ${attempt} attempt(s): ${failure}`);
+      this.setState(null);
+      this.callbacks.onGiveUp(failure);
+      return;
+    }
+
+    // The reason follows the latest failure, e.g. a camera unplugged and then taken by a call
+    this.schedule({ reason: failure, attempt, nextRetryAt: null });
+  }
+
+  private setState(state: CameraRecoveryState | null): void {
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+}
@@ -19,6 +19,7 @@ function createMockElectronAPI(overrides: Partial<ElectronAPI> = {}): ElectronAP
     notifyTrackingStateChanged: vi.fn(),
     getTrackingState: vi.fn(),
     onToggleTracking: vi.fn(),
+    notifyCameraRecoveryChanged: vi.fn(),
     getLaunchAtLogin: vi.fn(),
     setLaunchAtLogin: vi.fn(),
     onSystemSuspend: vi.fn(),
@@ -26,6 +27,7 @@ function createMockElectronAPI(overrides: Partial<ElectronAPI> = {}): ElectronAP
     getNotificationSettings: vi.fn(),
     setNotificationSettings: vi.fn(),
     sendFatigueAlert: vi.fn(),
+    sendAlert: vi.fn(),
     testNotification: vi.fn(),
     getNotificationState: vi.fn(),
     openNotificationSettings: vi.fn(),
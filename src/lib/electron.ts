@@ -9,10 +9,11 @@ import type {
   NotificationSettings,
   NotificationState,
   TestNotificationResult,
+  AlertNotification,
 } from "../../shared/types/notifications";
 
 // Re-export notification types for consumers
-export type { NotificationSettings, NotificationState, TestNotificationResult };
+export type { NotificationSettings, NotificationState, TestNotificationResult, AlertNotification };
 
 export interface UpdateStatus {
   status:
@@ -59,6 +60,7 @@ export interface ElectronAPI {
   notifyTrackingStateChanged: (enabled: boolean) => void;
   getTrackingState: () => Promise<boolean>;
   onToggleTracking: (callback: (enabled: boolean) => void) => () => void;
+  notifyCameraRecoveryChanged: (status: 'reconnecting' | 'in-use' | null) => void;
   // Launch at login settings
   getLaunchAtLogin: () => Promise<boolean>;
   setLaunchAtLogin: (enabled: boolean) => Promise<boolean>;
@@ -69,6 +71,7 @@ export interface ElectronAPI {
   getNotificationSettings: () => Promise<NotificationSettings>;
   setNotificationSettings: (settings: Partial<NotificationSettings>) => Promise<NotificationSettings>;
   sendFatigueAlert: (blinkRate: number) => Promise<boolean>;
+  sendAlert: (alert: AlertNotification) => Promise<boolean>;
   testNotification: () => Promise<TestNotificationResult>;
   getNotificationState: () => Promise<NotificationState>;
   openNotificationSettings: () => Promise<boolean>;
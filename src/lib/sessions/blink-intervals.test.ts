@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBlinkIntervalDistribution,
+  getBlinkIntervalStats,
+  getBlinkIntervals,
+} from './blink-intervals';
+
+const blinksAt = (...seconds: number[]) => seconds.map((s) => ({ timestamp: s * 1000 }));
+
+describe('getBlinkIntervals', () => {
+  it('measures the time between consecutive blinks', () => {
+    expect(getBlinkIntervals({ blinkEvents: blinksAt(0, 4, 7) })).toEqual([
+      { start: 0, end: 4000, duration: 4000 },
+      { start: 4000, end: 7000, duration: 3000 },
+    ]);
+  });
+
+  it('leaves out gaps across times without reliable detection', () => {
+    const intervals = getBlinkIntervals({
+      blinkEvents: blinksAt(0, 3, 30, 34, 60, 63),
+      faceLostPeriods: [{ start: 10000, end: 20000 }],
+      lookingAwayPeriods: [{ start: 40000, end: 50000 }],
+    });
+
+    expect(intervals.map((interval) => interval.duration)).toEqual([3000, 4000, 3000]);
+  });
+});
+
+describe('getBlinkIntervalDistribution', () => {
+  it('buckets intervals by the second with an overflow bucket for long stares', () => {
+    const buckets = getBlinkIntervalDistribution(getBlinkIntervals({ blinkEvents: blinksAt(0, 3.5, 7, 32) }));
+
+    expect(buckets).toHaveLength(21);
+    expect(buckets[3]).toEqual({ start: 3000, end: 4000, count: 2 });
+    expect(buckets[20]).toEqual({ start: 20000, end: Infinity, count: 1 });
+  });
+});
+
+describe('getBlinkIntervalStats', () => {
+  it('returns null with too few intervals', () => {
+    expect(getBlinkIntervalStats(getBlinkIntervals({ blinkEvents: blinksAt(0, 4, 8, 12, 16) }))).toBeNull();
+  });
+
+  it('computes the spread, the longest stretch and staring episodes', () => {
+    const stats = getBlinkIntervalStats(getBlinkIntervals({ blinkEvents: blinksAt(0, 2, 6, 18, 20, 24) }));
+
+    expect(stats?.intervalCount).toBe(5);
+    expect(stats?.meanInterval).toBe(4800);
+    expect(stats?.medianInterval).toBe(4000);
+    // Intervals 2, 4, 12, 2 and 4 s: standard deviation 3.71 s
+    expect(stats?.coefficientOfVariation).toBeCloseTo(Math.sqrt(13.76) / 4.8);
+    expect(stats?.longestInterval).toEqual({ start: 6000, end: 18000, duration: 12000 });
+    expect(stats?.staringEpisodes).toEqual([{ start: 6000, end: 18000, duration: 12000 }]);
+  });
+});
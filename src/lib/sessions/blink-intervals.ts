@@ -0,0 +1,116 @@
+import { getBlinkRateExcludedPeriods, type SessionData } from './types';
+
+// No blink for this long counts as staring; at rest people blink every 3-5 seconds
+export const STARING_EPISODE_MS = 10000;
+// Staring nudge lengths offered in settings; the shortest is STARING_EPISODE_MS
+export const STARING_NUDGE_OPTIONS = [10, 15, 20, 30] as const;
+
+export const BLINK_INTERVAL_BUCKET_MS = 1000;
+export const BLINK_INTERVAL_MAX_MS = 20000;
+// Variability means little over fewer intervals than this
+const MIN_INTERVALS_FOR_STATS = 5;
+
+// Time from one blink starting to the next
+export interface BlinkInterval {
+  start: number; // timestamp in ms of the blink that opens the interval
+  end: number; // timestamp in ms of the next blink
+  duration: number; // ms
+}
+
+export interface BlinkIntervalBucket {
+  start: number; // Bucket lower bound in ms (inclusive)
+  end: number; // Bucket upper bound in ms (exclusive), Infinity for the overflow bucket
+  count: number;
+}
+
+export interface BlinkIntervalStats {
+  intervalCount: number;
+  meanInterval: number; // ms
+  medianInterval: number; // ms
+  coefficientOfVariation: number; // Standard deviation over the mean; higher is more irregular
+  longestInterval: BlinkInterval; // Longest blink-free stretch
+  staringEpisodes: BlinkInterval[]; // Intervals of at least STARING_EPISODE_MS
+}
+
+type IntervalSource = Pick<
+  SessionData,
+  'blinkEvents' | 'faceLostPeriods' | 'poorLightingPeriods' | 'lookingAwayPeriods' | 'cameraUnavailablePeriods'
+>;
+
+/**
+ * Intervals between consecutive blinks. Intervals overlapping a time without reliable
+ * detection (face lost, poor lighting, looking away or no camera) are left out: blinks there were
+ * missed or don't count, so the gap would read as a stare that didn't happen.
+ */
+export function getBlinkIntervals(session: IntervalSource): BlinkInterval[] {
+  const unreliablePeriods = [...(session.faceLostPeriods ?? []), ...getBlinkRateExcludedPeriods(session)];
+  const timestamps = session.blinkEvents
+    .map((event) => event.timestamp)
+    .sort((a, b) => a - b);
+
+  const intervals: BlinkInterval[] = [];
+  for (let i = 1; i < timestamps.length; i++) {
+    const start = timestamps[i - 1] ?? 0;
+    const end = timestamps[i] ?? 0;
+    const overlapsUnreliable = unreliablePeriods.some(
+      (period) => period.start < end && (period.end === undefined || period.end > start)
+    );
+    if (!overlapsUnreliable) {
+      intervals.push({ start, end, duration: end - start });
+    }
+  }
+  return intervals;
+}
+
+/**
+ * Histogram of inter-blink intervals, with anything at or above BLINK_INTERVAL_MAX_MS in
+ * a final overflow bucket.
+ */
+export function getBlinkIntervalDistribution(
+  intervals: BlinkInterval[],
+  bucketMs: number = BLINK_INTERVAL_BUCKET_MS,
+  maxMs: number = BLINK_INTERVAL_MAX_MS
+): BlinkIntervalBucket[] {
+  if (intervals.length === 0) return [];
+
+  const buckets: BlinkIntervalBucket[] = [];
+  for (let start = 0; start < maxMs; start += bucketMs) {
+    buckets.push({ start, end: start + bucketMs, count: 0 });
+  }
+  const overflow: BlinkIntervalBucket = { start: maxMs, end: Infinity, count: 0 };
+
+  intervals.forEach(({ duration }) => {
+    const bucket = duration >= maxMs ? overflow : buckets[Math.floor(duration / bucketMs)];
+    if (bucket) bucket.count++;
+  });
+
+  return overflow.count > 0 ? [...buckets, overflow] : buckets;
+}
+
+/**
+ * Summarize inter-blink intervals, or null with fewer than MIN_INTERVALS_FOR_STATS of them.
+ */
+export function getBlinkIntervalStats(
+  intervals: BlinkInterval[],
+  staringMs: number = STARING_EPISODE_MS
+): BlinkIntervalStats | null {
+  if (intervals.length < MIN_INTERVALS_FOR_STATS) return null;
+
+  const durations = intervals.map((interval) => interval.duration).sort((a, b) => a - b);
+  const middle = Math.floor(durations.length / 2);
+  const medianInterval = durations.length % 2 === 0
+    ? ((durations[middle - 1] ?? 0) + (durations[middle] ?? 0)) / 2
+    : durations[middle] ?? 0;
+
+  const meanInterval = durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+  const variance = durations.reduce((sum, duration) => sum + (duration - meanInterval) ** 2, 0) / durations.length;
+
+  return {
+    intervalCount: intervals.length,
+    meanInterval,
+    medianInterval,
+    coefficientOfVariation: meanInterval > 0 ? Math.sqrt(variance) / meanInterval : 0,
+    longestInterval: intervals.reduce((longest, interval) => (interval.duration > longest.duration ? interval : longest)),
+    staringEpisodes: intervals.filter((interval) => interval.duration >= staringMs),
+  };
+}
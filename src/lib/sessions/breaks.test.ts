@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { addEndedBreak, BREAK_INTERVAL_MS, getBreakCompliance, getScreenBreaks, hasRecentBreak } from './breaks';
+
+const MINUTE = 60000;
+
+describe('getScreenBreaks', () => {
+  it('keeps only periods away of at least 20 seconds', () => {
+    const breaks = getScreenBreaks({
+      lookingAwayPeriods: [
+        { start: 0, end: 5000 },
+        { start: 60000, end: 85000 },
+      ],
+      faceLostPeriods: [{ start: 120000, end: 139000 }],
+    });
+
+    expect(breaks).toEqual([{ start: 60000, end: 85000 }]);
+  });
+
+  it('joins looking away and losing the face into one break', () => {
+    const breaks = getScreenBreaks({
+      lookingAwayPeriods: [{ start: 0, end: 12000 }],
+      faceLostPeriods: [{ start: 12500, end: 24000 }],
+    });
+
+    expect(breaks).toEqual([{ start: 0, end: 24000 }]);
+  });
+
+  it('counts a break still going on up to now', () => {
+    expect(getScreenBreaks({ lookingAwayPeriods: [{ start: 0 }] }, 30000)).toEqual([{ start: 0, end: 30000 }]);
+  });
+});
+
+describe('addEndedBreak', () => {
+  it('logs a break once the user is back after 20 seconds away', () => {
+    const breakPeriods = addEndedBreak({ breakPeriods: [], lookingAwayPeriods: [{ start: 0, end: 25000 }] }, 25000);
+
+    expect(breakPeriods).toEqual([{ start: 0, end: 25000 }]);
+  });
+
+  it('waits while the user is still out of view', () => {
+    const breakPeriods = addEndedBreak({
+      breakPeriods: [],
+      lookingAwayPeriods: [{ start: 0, end: 12000 }],
+      faceLostPeriods: [{ start: 12500 }],
+    }, 12000);
+
+    expect(breakPeriods).toEqual([]);
+  });
+
+  it('does not log a short look away', () => {
+    expect(addEndedBreak({ breakPeriods: [], lookingAwayPeriods: [{ start: 0, end: 5000 }] }, 5000)).toEqual([]);
+  });
+
+  it('replaces the last break when the user looks away again right after it', () => {
+    const breakPeriods = addEndedBreak({
+      breakPeriods: [{ start: 0, end: 25000 }],
+      lookingAwayPeriods: [{ start: 0, end: 25000 }, { start: 25500, end: 40000 }],
+    }, 40000);
+
+    expect(breakPeriods).toEqual([{ start: 0, end: 40000 }]);
+  });
+});
+
+describe('getBreakCompliance', () => {
+  it('scores breaks per 20 minutes of screen time', () => {
+    const compliance = getBreakCompliance({
+      startTime: new Date(0),
+      endTime: new Date(41 * MINUTE),
+      lookingAwayPeriods: [{ start: 10 * MINUTE, end: 10.5 * MINUTE }],
+      faceLostPeriods: [{ start: 30 * MINUTE, end: 30.5 * MINUTE }],
+      breakPeriods: [
+        { start: 10 * MINUTE, end: 10.5 * MINUTE },
+        { start: 30 * MINUTE, end: 30.5 * MINUTE },
+      ],
+    })!;
+
+    expect(compliance.breakCount).toBe(2);
+    expect(compliance.screenTimeMinutes).toBe(40);
+    expect(compliance.breaksPer20Minutes).toBe(1);
+    expect(compliance.compliant).toBe(true);
+  });
+
+  it('does not score sessions with under 20 minutes of screen time', () => {
+    const compliance = getBreakCompliance({
+      startTime: new Date(0),
+      endTime: new Date(15 * MINUTE),
+      breakPeriods: [],
+    })!;
+
+    expect(compliance.breaksPer20Minutes).toBeNull();
+    expect(compliance.compliant).toBeNull();
+  });
+
+  it('is not compliant without breaks', () => {
+    const compliance = getBreakCompliance({
+      startTime: new Date(0),
+      endTime: new Date(45 * MINUTE),
+      breakPeriods: [],
+    })!;
+
+    expect(compliance.breaksPer20Minutes).toBe(0);
+    expect(compliance.compliant).toBe(false);
+  });
+
+  it('does not score sessions recorded before breaks were logged', () => {
+    expect(getBreakCompliance({
+      startTime: new Date(0),
+      endTime: new Date(45 * MINUTE),
+      lookingAwayPeriods: [{ start: 10 * MINUTE, end: 10.5 * MINUTE }],
+    })).toBeNull();
+  });
+});
+
+describe('hasRecentBreak', () => {
+  const session = { breakPeriods: [{ start: 5 * MINUTE, end: 5.5 * MINUTE }] };
+
+  it('is true while the last break is under 20 minutes ago', () => {
+    expect(hasRecentBreak(session, 5.5 * MINUTE + BREAK_INTERVAL_MS)).toBe(true);
+    expect(hasRecentBreak(session, 5.5 * MINUTE + BREAK_INTERVAL_MS + 1)).toBe(false);
+  });
+
+  it('does not count time away that was too short to log as a break', () => {
+    const shortLook = { lookingAwayPeriods: [{ start: 5 * MINUTE, end: 5.1 * MINUTE }], breakPeriods: [] };
+
+    expect(hasRecentBreak(shortLook, 6 * MINUTE)).toBe(false);
+  });
+});
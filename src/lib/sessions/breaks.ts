@@ -0,0 +1,101 @@
+import { calculateCombinedTime, type BreakPeriod, type SessionData } from './types';
+
+// The 20-20-20 rule: every 20 minutes, look at something 20 feet away for 20 seconds
+export const BREAK_MIN_MS = 20000;
+export const BREAK_INTERVAL_MS = 20 * 60000;
+
+// Looking away and losing the face often follow each other (turning far enough hides the face),
+// so periods this close together make up one break
+const BREAK_MERGE_GAP_MS = 1000;
+
+export interface BreakCompliance {
+  breakCount: number;
+  screenTimeMinutes: number; // Session time minus time away from the screen
+  breaksPer20Minutes: number | null; // Null until there's 20 minutes of screen time to score
+  compliant: boolean | null; // At least one break per 20 minutes of screen time
+}
+
+type BreakSource = Pick<SessionData, 'faceLostPeriods' | 'lookingAwayPeriods'>;
+
+/**
+ * Breaks from the screen: spans of at least BREAK_MIN_MS spent looking away (gaze or head
+ * turned) or out of view, counting back-to-back periods as one break.
+ */
+export function getScreenBreaks(session: BreakSource, now: number = Date.now()): BreakPeriod[] {
+  const periods = [...(session.lookingAwayPeriods ?? []), ...(session.faceLostPeriods ?? [])]
+    .map((period) => ({ start: period.start, end: period.end ?? now }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: BreakPeriod[] = [];
+  for (const period of periods) {
+    const last = merged[merged.length - 1];
+    if (last && period.start - last.end <= BREAK_MERGE_GAP_MS) {
+      last.end = Math.max(last.end, period.end);
+    } else {
+      merged.push({ ...period });
+    }
+  }
+
+  return merged.filter((period) => period.end - period.start >= BREAK_MIN_MS);
+}
+
+/**
+ * The session's break log with the break that ended at `end` added, if the user is back (no
+ * looking away or face lost period still open) after at least BREAK_MIN_MS away. A break
+ * that picked up again within the merge gap replaces the one logged before it.
+ */
+export function addEndedBreak(
+  session: BreakSource & Pick<SessionData, 'breakPeriods'>,
+  end: number
+): BreakPeriod[] {
+  const breakPeriods = session.breakPeriods ?? [];
+  const stillAway = [...(session.lookingAwayPeriods ?? []), ...(session.faceLostPeriods ?? [])]
+    .some((period) => period.end === undefined);
+  if (stillAway) return breakPeriods;
+
+  // The period that just closed belongs to the latest stretch away, which may end after it
+  const screenBreaks = getScreenBreaks(session, end);
+  const ended = screenBreaks[screenBreaks.length - 1];
+  if (!ended || ended.end < end) return breakPeriods;
+  return [...breakPeriods.filter((period) => period.start < ended.start), ended];
+}
+
+/**
+ * Score a session against the 20-20-20 rule: logged breaks per 20 minutes of screen time.
+ * Null for sessions recorded before breaks were logged.
+ */
+export function getBreakCompliance(
+  session: BreakSource & Pick<SessionData, 'breakPeriods' | 'startTime' | 'endTime'>,
+  now: number = Date.now()
+): BreakCompliance | null {
+  if (!session.breakPeriods) return null;
+
+  const endTime = session.endTime ? new Date(session.endTime).getTime() : now;
+  const awayMs = calculateCombinedTime(
+    [...(session.lookingAwayPeriods ?? []), ...(session.faceLostPeriods ?? [])],
+    endTime
+  );
+  const screenTimeMs = Math.max(0, endTime - new Date(session.startTime).getTime() - awayMs);
+  const breakCount = session.breakPeriods.length;
+
+  const breaksPer20Minutes = screenTimeMs >= BREAK_INTERVAL_MS
+    ? breakCount / (screenTimeMs / BREAK_INTERVAL_MS)
+    : null;
+  return {
+    breakCount,
+    screenTimeMinutes: screenTimeMs / 60000,
+    breaksPer20Minutes,
+    compliant: breaksPer20Minutes === null ? null : breaksPer20Minutes >= 1,
+  };
+}
+
+/**
+ * Whether the user has finished a break within the last BREAK_INTERVAL_MS, i.e. is keeping
+ * to the 20-20-20 rule right now.
+ */
+export function hasRecentBreak(
+  session: Pick<SessionData, 'breakPeriods'>,
+  now: number = Date.now()
+): boolean {
+  return (session.breakPeriods ?? []).some((period) => period.end >= now - BREAK_INTERVAL_MS);
+}
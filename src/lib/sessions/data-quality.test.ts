@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { DataQualityTracker, getDataQualityWarning } from './data-quality';
+import { FrameQuality, FrameQualityIssue } from '../blink-detection/types';
+
+const quality = (score: number, issues: FrameQualityIssue[] = []): FrameQuality => ({
+  faceConfidence: 1,
+  faceSize: 0.2,
+  eyeVisibility: 1,
+  brightness: 0.5,
+  faceLuminance: 0.5,
+  eyeContrast: 0.1,
+  faceCount: 1,
+  headPose: null,
+  lighting: 'good',
+  score,
+  issues,
+});
+
+describe('DataQualityTracker', () => {
+  it('has no summary before any frame', () => {
+    expect(new DataQualityTracker().getSummary()).toBeUndefined();
+  });
+
+  it('averages scores and counts the share of frames with each issue', () => {
+    const tracker = new DataQualityTracker();
+    tracker.add(quality(1));
+    tracker.add(quality(0.5, ['too-dark']));
+    tracker.add(quality(0.2, ['too-dark', 'face-too-small']));
+    tracker.add(quality(0.3, ['too-dark']));
+
+    expect(tracker.getSummary()).toEqual({
+      score: 0.5,
+      frameCount: 4,
+      issueShares: { 'too-dark': 0.75, 'face-too-small': 0.25 },
+    });
+  });
+
+  it('starts over after reset', () => {
+    const tracker = new DataQualityTracker();
+    tracker.add(quality(0.1, ['too-dark']));
+    tracker.reset();
+    tracker.add(quality(1));
+
+    expect(tracker.getSummary()).toEqual({ score: 1, frameCount: 1, issueShares: {} });
+  });
+});
+
+describe('getDataQualityWarning', () => {
+  it('has no warning for good or unscored sessions', () => {
+    expect(getDataQualityWarning(undefined)).toBeNull();
+    expect(getDataQualityWarning({ score: 0.9, frameCount: 100, issueShares: { 'too-dark': 0.3 } })).toBeNull();
+  });
+
+  it('names the most common issues first', () => {
+    const warning = getDataQualityWarning({
+      score: 0.4,
+      frameCount: 100,
+      issueShares: { 'too-dark': 0.3, 'face-too-small': 0.8, 'head-turned': 0.1 },
+    });
+
+    expect(warning).toBe('Low confidence: face too small / too dark');
+  });
+
+  it('falls back to a plain warning when no issue dominates', () => {
+    expect(getDataQualityWarning({ score: 0.5, frameCount: 100, issueShares: { 'too-dark': 0.1 } })).toBe('Low confidence');
+  });
+});
@@ -0,0 +1,74 @@
+import type { FrameQuality, FrameQualityIssue } from '../blink-detection/types';
+import type { SessionDataQuality } from './types';
+
+// Sessions scoring under this get a low confidence warning
+export const LOW_DATA_QUALITY_SCORE = 0.6;
+// An issue is named in the warning once it affects this share of frames
+const ISSUE_SHARE_TO_REPORT = 0.25;
+
+export const DATA_QUALITY_ISSUE_LABELS: Record<FrameQualityIssue, string> = {
+  'low-confidence': 'face partly out of view',
+  'face-too-small': 'face too small',
+  'eyes-not-visible': 'eyes not visible',
+  'head-turned': 'head turned away',
+  'too-dark': 'too dark',
+  'too-bright': 'too bright',
+  'backlit': 'backlit',
+};
+
+/**
+ * Accumulates per-frame quality records into a session's data quality summary.
+ */
+export class DataQualityTracker {
+  private frameCount = 0;
+  private scoreTotal = 0;
+  private issueCounts: Partial<Record<FrameQualityIssue, number>> = {};
+
+  add(quality: FrameQuality): void {
+    this.frameCount++;
+    this.scoreTotal += quality.score;
+    for (const issue of quality.issues) {
+      this.issueCounts[issue] = (this.issueCounts[issue] ?? 0) + 1;
+    }
+  }
+
+  // Undefined until a frame with a face has been seen
+  getSummary(): SessionDataQuality | undefined {
+    if (this.frameCount === 0) {
+      return undefined;
+    }
+
+    const issueShares: Partial<Record<FrameQualityIssue, number>> = {};
+    for (const [issue, count] of Object.entries(this.issueCounts) as [FrameQualityIssue, number][]) {
+      issueShares[issue] = count / this.frameCount;
+    }
+    return {
+      score: this.scoreTotal / this.frameCount,
+      frameCount: this.frameCount,
+      issueShares,
+    };
+  }
+
+  reset(): void {
+    this.frameCount = 0;
+    this.scoreTotal = 0;
+    this.issueCounts = {};
+  }
+}
+
+/**
+ * Warning to show on a session whose blink data is unreliable, e.g.
+ * "Low confidence: face too small / too dark". Null when the data is fine.
+ */
+export function getDataQualityWarning(quality: SessionDataQuality | undefined): string | null {
+  if (!quality || quality.score >= LOW_DATA_QUALITY_SCORE) {
+    return null;
+  }
+
+  const reasons = (Object.entries(quality.issueShares) as [FrameQualityIssue, number][])
+    .filter(([, share]) => share >= ISSUE_SHARE_TO_REPORT)
+    .sort(([, a], [, b]) => b - a)
+    .map(([issue]) => DATA_QUALITY_ISSUE_LABELS[issue]);
+
+  return reasons.length > 0 ? `Low confidence: ${reasons.join(' / ')}` : 'Low confidence';
+}
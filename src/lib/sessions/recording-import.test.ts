@@ -0,0 +1,268 @@
+import { describe, it, expect } from 'vitest';
+import { ImportedSessionBuilder } from './recording-import';
+import {
+  BlinkDetectionResult,
+  BlinkEngineEvent,
+  FrameQuality,
+  FrameQualityIssue,
+  LightingCondition,
+} from '../blink-detection/types';
+
+const START = 1_700_000_000_000;
+
+const frame = (offset: number, ear: number, events: BlinkEngineEvent[] = []): BlinkDetectionResult => ({
+  blinkCount: 0,
+  currentEAR: ear,
+  leftEAR: ear,
+  rightEAR: ear,
+  isBlinking: false,
+  blinkType: null,
+  completedBlink: null,
+  events,
+  headPose: null,
+  poseGated: false,
+  gaze: null,
+  frameQuality: null,
+  timestamp: START + offset,
+});
+
+const blinkEnd = (offset: number, duration: number): BlinkEngineEvent => ({
+  type: 'blink-end',
+  timestamp: START + offset + duration,
+  blink: {
+    timestamp: START + offset,
+    duration,
+    phases: { closing: duration / 3, closed: duration / 3, reopening: duration / 3 },
+    type: 'bilateral',
+    leftEAR: 0.1,
+    rightEAR: 0.1,
+  },
+});
+
+const quality = (score: number, issues: FrameQualityIssue[], lighting: LightingCondition = 'good'): FrameQuality => ({
+  faceConfidence: 1,
+  faceSize: 0.1,
+  eyeVisibility: 1,
+  brightness: 0.5,
+  faceLuminance: 0.5,
+  eyeContrast: 0.1,
+  faceCount: 1,
+  headPose: null,
+  lighting,
+  score,
+  issues,
+});
+
+describe('ImportedSessionBuilder', () => {
+  const options = { startTime: new Date(START), sourceName: 'study-01.webm', earThreshold: 0.25 };
+
+  it('builds an imported session with blink events and rate', () => {
+    const builder = new ImportedSessionBuilder(options);
+
+    builder.addFrame(frame(0, 0.3, [{ type: 'face-regained', timestamp: START }]));
+    builder.addFrame(frame(10_000, 0.3, [blinkEnd(9_900, 100)]));
+    builder.addFrame(frame(20_000, 0.3, [blinkEnd(19_900, 100)]));
+
+    const session = builder.build(new Date(START + 60_000));
+
+    expect(session.isImported).toBe(true);
+    expect(session.isActive).toBe(false);
+    expect(session.sourceName).toBe('study-01.webm');
+    expect(session.duration).toBe(60);
+    expect(session.totalBlinks).toBe(2);
+    expect(session.averageBlinkRate).toBe(2);
+    expect(session.blinkEvents[0]).toMatchObject({ timestamp: START + 9_900, duration: 100, type: 'bilateral' });
+    expect(session.faceLostPeriods).toEqual([]);
+  });
+
+  it('records periods without a face, including at the start and end', () => {
+    const builder = new ImportedSessionBuilder(options);
+
+    builder.addFrame(frame(0, 0));
+    builder.addFrame(frame(2_000, 0.3, [{ type: 'face-regained', timestamp: START + 2_000 }]));
+    builder.addFrame(frame(5_000, 0, [{ type: 'face-lost', timestamp: START + 5_000 }]));
+    builder.addFrame(frame(8_000, 0.3, [{ type: 'face-regained', timestamp: START + 8_000 }]));
+    builder.addFrame(frame(9_000, 0, [{ type: 'face-lost', timestamp: START + 9_000 }]));
+
+    const session = builder.build(new Date(START + 10_000));
+
+    expect(session.faceLostPeriods).toEqual([
+      { start: START, end: START + 2_000 },
+      { start: START + 5_000, end: START + 8_000 },
+      { start: START + 9_000, end: START + 10_000 },
+    ]);
+  });
+
+  it('defaults the end time to the last frame', () => {
+    const builder = new ImportedSessionBuilder(options);
+
+    builder.addFrame(frame(0, 0.3, [{ type: 'face-regained', timestamp: START }]));
+    builder.addFrame(frame(90_000, 0.3));
+
+    expect(builder.build().duration).toBe(90);
+  });
+
+  it('scores data quality from the frames with a face', () => {
+    const builder = new ImportedSessionBuilder(options);
+
+    builder.addFrame(frame(0, 0));
+    builder.addFrame({ ...frame(1_000, 0.3), frameQuality: quality(1, []) });
+    builder.addFrame({ ...frame(2_000, 0.3), frameQuality: quality(0.4, ['face-too-small']) });
+
+    expect(builder.build().dataQuality).toEqual({
+      score: 0.7,
+      frameCount: 2,
+      issueShares: { 'face-too-small': 0.5 },
+    });
+  });
+
+  it('records poorly lit periods and leaves them out of the blink rate', () => {
+    const builder = new ImportedSessionBuilder(options);
+    const lit = (offset: number, lighting: LightingCondition, events: BlinkEngineEvent[] = []) =>
+      builder.addFrame({ ...frame(offset, 0.3, events), frameQuality: quality(1, [], lighting) });
+
+    lit(0, 'good', [{ type: 'face-regained', timestamp: START }]);
+    lit(20_000, 'good', [blinkEnd(19_900, 100)]);
+    lit(30_000, 'low-light');
+    lit(40_000, 'low-light', [blinkEnd(39_900, 100)]);
+    lit(50_000, 'good');
+    lit(55_000, 'good', [blinkEnd(54_900, 100)]);
+
+    const session = builder.build(new Date(START + 60_000));
+
+    expect(session.poorLightingPeriods).toEqual([
+      { start: START + 30_000, end: START + 50_000, condition: 'low-light' },
+    ]);
+    // Two blinks over the 40 well lit seconds
+    expect(session.averageBlinkRate).toBe(3);
+  });
+
+  it('records periods when other people were in view', () => {
+    const builder = new ImportedSessionBuilder(options);
+    const faces = (offset: number, faceCount: number) =>
+      builder.addFrame({ ...frame(offset, 0.3), frameQuality: { ...quality(1, []), faceCount } });
+
+    faces(0, 1);
+    faces(10_000, 2);
+    faces(15_000, 2);
+    faces(20_000, 1);
+    faces(25_000, 1);
+    faces(40_000, 3);
+    faces(45_000, 3);
+
+    const session = builder.build(new Date(START + 60_000));
+
+    expect(session.multipleFacePeriods).toEqual([
+      { start: START + 10_000, end: START + 20_000 },
+      { start: START + 40_000, end: START + 60_000 },
+    ]);
+  });
+
+  it('records periods looking away and leaves them out of the blink rate', () => {
+    const builder = new ImportedSessionBuilder(options);
+    const gazing = (offset: number, yaw: number, events: BlinkEngineEvent[] = []) =>
+      builder.addFrame({ ...frame(offset, 0.3, events), gaze: { yaw, pitch: 10 } });
+
+    gazing(0, 0, [{ type: 'face-regained', timestamp: START }]);
+    gazing(20_000, 0, [blinkEnd(19_900, 100)]);
+    gazing(30_000, 60);
+    gazing(40_000, 60, [blinkEnd(39_900, 100)]);
+    gazing(50_000, 5);
+    gazing(55_000, 5, [blinkEnd(54_900, 100)]);
+
+    const session = builder.build(new Date(START + 60_000));
+
+    expect(session.lookingAwayPeriods).toEqual([{ start: START + 30_000, end: START + 50_000 }]);
+    // 2 blinks over the 40 seconds spent looking at the screen
+    expect(session.averageBlinkRate).toBe(3);
+  });
+
+  it('records poor posture against the posture at the start of the recording', () => {
+    const builder = new ImportedSessionBuilder(options);
+    const posed = (offset: number, pitch: number) =>
+      builder.addFrame({
+        ...frame(offset, 0.3),
+        headPose: { yaw: 0, pitch, roll: 0 },
+        frameQuality: quality(1, []),
+      });
+
+    for (let offset = 0; offset <= 5_000; offset += 1_000) {
+      posed(offset, 5);
+    }
+    posed(20_000, 5);
+    posed(30_000, 25);
+    posed(60_000, 25);
+    posed(70_000, 5);
+
+    const session = builder.build(new Date(START + 90_000));
+
+    expect(session.poorPosturePeriods).toEqual([{ start: START + 30_000, end: START + 90_000, condition: 'slouching' }]);
+  });
+
+  it('records a slouch that also reads as looking away from the screen', () => {
+    const builder = new ImportedSessionBuilder(options);
+    const posed = (offset: number, pitch: number, gazePitch: number) =>
+      builder.addFrame({
+        ...frame(offset, 0.3),
+        headPose: { yaw: 0, pitch, roll: 0 },
+        gaze: { yaw: 0, pitch: gazePitch },
+        frameQuality: quality(1, []),
+      });
+
+    for (let offset = 0; offset <= 5_000; offset += 1_000) {
+      posed(offset, 5, 5);
+    }
+    // A 20 degree slouch, with the eyes following the head down
+    posed(30_000, 25, 40);
+    posed(60_000, 25, 40);
+
+    const session = builder.build(new Date(START + 90_000));
+
+    expect(session.lookingAwayPeriods).toEqual([{ start: START + 30_000, end: START + 90_000 }]);
+    expect(session.poorPosturePeriods).toEqual([{ start: START + 30_000, end: START + 90_000, condition: 'slouching' }]);
+  });
+
+  it('records microsleeps and samples PERCLOS', () => {
+    const builder = new ImportedSessionBuilder(options);
+    builder.addFrame(frame(0, 0.3, [{ type: 'face-regained', timestamp: START }]));
+    for (let offset = 50; offset < 40_000; offset += 50) {
+      // Eyes shut for a second and a half, 10 seconds in
+      builder.addFrame(frame(offset, offset >= 10_000 && offset < 11_500 ? 0.06 : 0.3));
+    }
+
+    const session = builder.build(new Date(START + 40_000));
+
+    expect(session.microsleepEvents).toEqual([{ timestamp: START + 10_000, duration: 1500 }]);
+    expect(session.perclosHistory).toHaveLength(1);
+    expect(session.perclosHistory![0]!.perclos).toBeGreaterThan(0);
+  });
+
+  it('leaves the blink the engine reports for a microsleep out of the blinks', () => {
+    const builder = new ImportedSessionBuilder(options);
+    builder.addFrame(frame(0, 0.3, [{ type: 'face-regained', timestamp: START }]));
+    for (let offset = 50; offset < 20_000; offset += 50) {
+      const ear = offset >= 10_000 && offset < 11_500 ? 0.06 : 0.3;
+      const events: BlinkEngineEvent[] = offset === 11_500
+        ? [{
+          type: 'blink-end',
+          timestamp: START + offset,
+          blink: {
+            timestamp: START + 10_000,
+            type: 'bilateral',
+            leftEAR: 0.06,
+            rightEAR: 0.06,
+            duration: 1500,
+            phases: { closing: 0, closed: 1500, reopening: 0 },
+          },
+        }]
+        : [];
+      builder.addFrame(frame(offset, ear, events));
+    }
+
+    const session = builder.build(new Date(START + 20_000));
+
+    expect(session.microsleepEvents).toHaveLength(1);
+    expect(session.blinkEvents).toEqual([]);
+    expect(session.totalBlinks).toBe(0);
+  });
+});
@@ -0,0 +1,295 @@
+import type { BlinkDetectionResult, DetectionStrategyName } from '../blink-detection/types';
+import { LightingMonitor, isPoorLighting } from '../blink-detection/lighting';
+import { MultipleFacesMonitor } from '../blink-detection/face-selection';
+import { GazeMonitor, isLookingAtScreen } from '../blink-detection/gaze';
+import { PostureMonitor, isPoorPosture } from '../blink-detection/posture';
+import { IncompleteBlinkDetector } from '../blink-detection/incomplete-blink';
+import { DrowsinessMonitor, isMicrosleepBlink } from '../blink-detection/drowsiness';
+import { BlinkDetector } from '../blink-detection/blink-detector';
+import { VideoProcessor, loadVideoDuration } from '../utils/video-processor';
+import {
+  BlinkEvent,
+  FaceLostPeriod,
+  IncompleteBlinkEvent,
+  LookingAwayPeriod,
+  MicrosleepEvent,
+  MultipleFacePeriod,
+  PERCLOS_SAMPLE_INTERVAL_MS,
+  PerclosPoint,
+  PoorLightingPeriod,
+  PoorPosturePeriod,
+  SessionData,
+  calculateBlinkCompleteness,
+  calculateReliableBlinkRate,
+  getBlinkRateExcludedPeriods,
+  getSessionQuality,
+  toBlinkEvent,
+  toIncompleteBlinkEvent,
+} from './types';
+import { DataQualityTracker } from './data-quality';
+import { getScreenBreaks } from './breaks';
+
+export interface ImportedSessionOptions {
+  startTime: Date; // Wall-clock time of the recording's first frame
+  sourceName: string; // File name shown on the session
+  earThreshold: number; // Threshold the recording was analyzed with
+  calibrationId?: string;
+}
+
+/**
+ * Builds a SessionData from the per-frame results of analyzing a recording, the same
+ * way SessionContext builds one from live tracking: blinks, incomplete blinks and
+ * periods without a face all come from the detector's output.
+ */
+export class ImportedSessionBuilder {
+  private options: ImportedSessionOptions;
+  private blinkEvents: BlinkEvent[] = [];
+  private incompleteBlinkEvents: IncompleteBlinkEvent[] = [];
+  private faceLostPeriods: FaceLostPeriod[] = [];
+  // The recording counts as "no face" until the detector first sees one
+  private faceLostSince: number | null;
+  private incompleteBlinkDetector: IncompleteBlinkDetector;
+  private drowsinessMonitor: DrowsinessMonitor;
+  private microsleepEvents: MicrosleepEvent[] = [];
+  private perclosHistory: PerclosPoint[] = [];
+  private lastTimestamp: number;
+  private dataQualityTracker = new DataQualityTracker();
+  private lightingMonitor = new LightingMonitor();
+  private poorLightingPeriods: PoorLightingPeriod[] = [];
+  private multipleFacesMonitor = new MultipleFacesMonitor();
+  private multipleFacePeriods: MultipleFacePeriod[] = [];
+  private gazeMonitor = new GazeMonitor();
+  private lookingAwayPeriods: LookingAwayPeriod[] = [];
+  private postureMonitor = new PostureMonitor();
+  private poorPosturePeriods: PoorPosturePeriod[] = [];
+
+  constructor(options: ImportedSessionOptions) {
+    this.options = options;
+    this.faceLostSince = options.startTime.getTime();
+    this.lastTimestamp = options.startTime.getTime();
+    this.incompleteBlinkDetector = new IncompleteBlinkDetector({ earThreshold: options.earThreshold });
+    this.drowsinessMonitor = new DrowsinessMonitor({ earThreshold: options.earThreshold });
+  }
+
+  addFrame(result: BlinkDetectionResult): void {
+    this.lastTimestamp = Math.max(this.lastTimestamp, result.timestamp);
+    if (result.frameQuality) {
+      this.dataQualityTracker.add(result.frameQuality);
+
+      const change = this.lightingMonitor.update(result.frameQuality.lighting, result.timestamp);
+      if (change) {
+        const openPeriod = this.poorLightingPeriods[this.poorLightingPeriods.length - 1];
+        if (openPeriod && openPeriod.end === undefined) {
+          openPeriod.end = change.since;
+        }
+        if (isPoorLighting(change.condition)) {
+          this.poorLightingPeriods.push({ start: change.since, condition: change.condition });
+        }
+      }
+
+      const multipleFacesChange = this.multipleFacesMonitor.update(result.frameQuality.faceCount, result.timestamp);
+      if (multipleFacesChange?.multipleFaces) {
+        this.multipleFacePeriods.push({ start: multipleFacesChange.since });
+      } else if (multipleFacesChange) {
+        const openPeriod = this.multipleFacePeriods[this.multipleFacePeriods.length - 1];
+        if (openPeriod) {
+          openPeriod.end = multipleFacesChange.since;
+        }
+      }
+    }
+
+    // The irises can't be seen mid-blink, so the gaze is held until the eyes reopen
+    if (result.gaze && !result.isBlinking) {
+      const gazeChange = this.gazeMonitor.update(isLookingAtScreen(result.gaze), result.timestamp);
+      if (gazeChange?.lookingAtScreen === false) {
+        this.lookingAwayPeriods.push({ start: gazeChange.since });
+      } else if (gazeChange) {
+        const openPeriod = this.lookingAwayPeriods[this.lookingAwayPeriods.length - 1];
+        if (openPeriod) {
+          openPeriod.end = gazeChange.since;
+        }
+      }
+    }
+
+    // Posture is judged against the start of the recording, whatever the gaze (as live)
+    if (result.headPose && result.frameQuality) {
+      const postureChange = this.postureMonitor.update(result.headPose, result.frameQuality.faceSize, result.timestamp);
+      if (postureChange) {
+        const openPeriod = this.poorPosturePeriods[this.poorPosturePeriods.length - 1];
+        if (openPeriod && openPeriod.end === undefined) {
+          openPeriod.end = postureChange.since;
+        }
+        if (isPoorPosture(postureChange.condition)) {
+          this.poorPosturePeriods.push({ start: postureChange.since, condition: postureChange.condition });
+        }
+      }
+    }
+
+    for (const event of result.events) {
+      if (event.type === 'blink-end') {
+        this.blinkEvents.push(toBlinkEvent(event.blink));
+      } else if (event.type === 'face-lost') {
+        this.faceLostSince = event.timestamp;
+        this.drowsinessMonitor.markMissing();
+      } else if (event.type === 'face-regained') {
+        if (this.faceLostSince !== null && event.timestamp > this.faceLostSince) {
+          this.faceLostPeriods.push({ start: this.faceLostSince, end: event.timestamp });
+        }
+        this.faceLostSince = null;
+      }
+    }
+
+    if (this.faceLostSince === null && !result.poseGated) {
+      const incompleteBlink = this.incompleteBlinkDetector.update(result.leftEAR, result.rightEAR, result.timestamp);
+      if (incompleteBlink) {
+        this.incompleteBlinkEvents.push(toIncompleteBlinkEvent(incompleteBlink));
+      }
+
+      const microsleep = this.drowsinessMonitor.update(result.leftEAR, result.rightEAR, result.timestamp);
+      if (microsleep) {
+        this.microsleepEvents.push(microsleep);
+      }
+      this.samplePerclos(result.timestamp);
+    }
+  }
+
+  // Same pace as live sessions' PERCLOS history
+  private samplePerclos(timestamp: number): void {
+    const perclos = this.drowsinessMonitor.getPerclos();
+    const lastPoint = this.perclosHistory[this.perclosHistory.length - 1];
+    if (perclos !== null && (!lastPoint || timestamp - lastPoint.timestamp >= PERCLOS_SAMPLE_INTERVAL_MS)) {
+      this.perclosHistory.push({ timestamp, perclos });
+    }
+  }
+
+  /**
+   * @param endTime wall-clock end of the recording; defaults to the last frame analyzed
+   */
+  build(endTime: Date = new Date(this.lastTimestamp)): SessionData {
+    const { startTime, sourceName, calibrationId } = this.options;
+    // The engine reports each microsleep as a blink too; it only counts as the microsleep
+    const blinkEvents = this.blinkEvents.filter((blink) => !this.microsleepEvents.some((microsleep) =>
+      isMicrosleepBlink({ timestamp: blink.timestamp, duration: blink.duration ?? 0 }, microsleep)
+    ));
+    const faceLostPeriods = [...this.faceLostPeriods];
+    if (this.faceLostSince !== null && endTime.getTime() > this.faceLostSince) {
+      faceLostPeriods.push({ start: this.faceLostSince, end: endTime.getTime() });
+    }
+
+    const poorLightingPeriods = this.poorLightingPeriods.map((period) => ({
+      ...period,
+      end: period.end ?? Math.max(period.start, endTime.getTime()),
+    }));
+
+    const multipleFacePeriods = this.multipleFacePeriods.map((period) => ({
+      ...period,
+      end: period.end ?? Math.max(period.start, endTime.getTime()),
+    }));
+
+    const lookingAwayPeriods = this.lookingAwayPeriods.map((period) => ({
+      ...period,
+      end: period.end ?? Math.max(period.start, endTime.getTime()),
+    }));
+
+    const poorPosturePeriods = this.poorPosturePeriods.map((period) => ({
+      ...period,
+      end: period.end ?? Math.max(period.start, endTime.getTime()),
+    }));
+
+    const durationMs = Math.max(0, endTime.getTime() - startTime.getTime());
+    const averageBlinkRate = calculateReliableBlinkRate(
+      blinkEvents,
+      startTime.getTime(),
+      startTime.getTime() + durationMs,
+      getBlinkRateExcludedPeriods({ poorLightingPeriods, lookingAwayPeriods })
+    );
+
+    return {
+      id: `imported-${startTime.getTime()}-${Date.now()}`,
+      startTime,
+      endTime,
+      isActive: false,
+      averageBlinkRate,
+      blinkEvents,
+      incompleteBlinkEvents: [...this.incompleteBlinkEvents],
+      microsleepEvents: [...this.microsleepEvents],
+      perclosHistory: [...this.perclosHistory],
+      blinkCompleteness: calculateBlinkCompleteness(blinkEvents, this.incompleteBlinkEvents),
+      quality: getSessionQuality(averageBlinkRate),
+      fatigueAlertCount: 0,
+      duration: Math.floor(durationMs / 1000),
+      calibrationId,
+      totalBlinks: blinkEvents.length,
+      faceLostPeriods,
+      poorLightingPeriods,
+      multipleFacePeriods,
+      lookingAwayPeriods,
+      poorPosturePeriods,
+      // The whole recording has been analyzed, so every break in it has ended
+      breakPeriods: getScreenBreaks({ faceLostPeriods, lookingAwayPeriods }, endTime.getTime()),
+      isImported: true,
+      sourceName,
+      dataQuality: this.dataQualityTracker.getSummary(),
+    };
+  }
+}
+
+export interface AnalyzeRecordingOptions {
+  earThreshold: number;
+  strategy?: DetectionStrategyName;
+  calibrationId?: string;
+  frameRate?: number;
+  onProgress?: (processedFrames: number, totalFrames: number) => void;
+  signal?: AbortSignal; // Aborting stops the analysis and rejects with an AbortError
+}
+
+/**
+ * Analyze a local video file frame by frame and build an imported session from it.
+ *
+ * The file's last-modified time is taken as the end of the recording, so blink timestamps
+ * land at roughly the wall-clock time they happened.
+ */
+export async function analyzeRecording(file: File, options: AnalyzeRecordingOptions): Promise<SessionData> {
+  const url = URL.createObjectURL(file);
+  const videoElement = document.createElement('video');
+  videoElement.muted = true;
+  videoElement.preload = 'auto';
+  videoElement.src = url;
+
+  const detector = new BlinkDetector({
+    earThreshold: options.earThreshold,
+    strategy: options.strategy,
+  });
+  const processor = new VideoProcessor(detector);
+  const stop = () => processor.stopProcessing();
+  options.signal?.addEventListener('abort', stop);
+
+  try {
+    const duration = await loadVideoDuration(videoElement);
+    const startTime = file.lastModified - duration * 1000;
+    const builder = new ImportedSessionBuilder({
+      startTime: new Date(startTime),
+      sourceName: file.name,
+      earThreshold: options.earThreshold,
+      calibrationId: options.calibrationId,
+    });
+
+    await processor.processVideo(videoElement, {
+      frameRate: options.frameRate,
+      startTime,
+      onResult: (result) => builder.addFrame(result),
+      onProgress: options.onProgress,
+    });
+
+    if (options.signal?.aborted) {
+      throw new DOMException('Recording analysis cancelled', 'AbortError');
+    }
+    return builder.build(new Date(file.lastModified));
+  } finally {
+    options.signal?.removeEventListener('abort', stop);
+    processor.dispose();
+    videoElement.removeAttribute('src');
+    videoElement.load();
+    URL.revokeObjectURL(url);
+  }
+}
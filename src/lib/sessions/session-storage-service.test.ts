@@ -64,6 +64,14 @@ describe('SessionStorageService', () => {
       expect(result).toBe(false);
     });
 
+    it('saves short imported recordings', () => {
+      const session = createMockSession({ duration: 30, isImported: true, sourceName: 'clip.webm' });
+      const result = SessionStorageService.saveSession(session);
+
+      expect(result).toBe(true);
+      expect(SessionStorageService.getAllSessions()[0]?.sourceName).toBe('clip.webm');
+    });
+
     it('does not save example sessions', () => {
       const session = createMockSession({ isExample: true });
       const result = SessionStorageService.saveSession(session);
@@ -1,4 +1,18 @@
-import { SessionData, BlinkEvent } from './types';
+import {
+  SessionData,
+  BlinkEvent,
+  BreakPeriod,
+  CameraUnavailablePeriod,
+  IncompleteBlinkEvent,
+  LookingAwayPeriod,
+  MicrosleepEvent,
+  MultipleFacePeriod,
+  PerclosPoint,
+  PoorLightingPeriod,
+  PoorPosturePeriod,
+  SessionDataQuality,
+  ViewingDistancePoint
+} from './types';
 
 const SESSIONS_STORAGE_KEY = 'eyerhythm_sessions';
 const MAX_SESSIONS = 100;
@@ -11,13 +25,28 @@ interface StoredSession {
   isActive: boolean;
   averageBlinkRate: number;
   blinkEvents?: BlinkEvent[];
+  incompleteBlinkEvents?: IncompleteBlinkEvent[];
+  blinkCompleteness?: number;
   quality: 'good' | 'fair' | 'poor';
   fatigueAlertCount: number;
+  drowsinessAlertCount?: number;
   duration?: number;
   calibrationId?: string;
   totalBlinks: number;
   faceLostPeriods?: { start: number; end?: number }[];
+  poorLightingPeriods?: PoorLightingPeriod[];
+  multipleFacePeriods?: MultipleFacePeriod[];
+  lookingAwayPeriods?: LookingAwayPeriod[];
+  poorPosturePeriods?: PoorPosturePeriod[];
+  cameraUnavailablePeriods?: CameraUnavailablePeriod[];
+  breakPeriods?: BreakPeriod[];
+  microsleepEvents?: MicrosleepEvent[];
+  perclosHistory?: PerclosPoint[];
+  viewingDistanceHistory?: ViewingDistancePoint[];
   isExample?: boolean;
+  isImported?: boolean;
+  sourceName?: string;
+  dataQuality?: SessionDataQuality;
 }
 
 export class SessionStorageService {
@@ -61,9 +90,9 @@ export class SessionStorageService {
       return false;
     }
 
-    // Don't save sessions shorter than minimum duration
+    // Don't save sessions shorter than minimum duration (imported recordings are kept whatever their length)
     const duration = session.duration ?? 0;
-    if (duration < MIN_SESSION_DURATION_SECONDS) {
+    if (!session.isImported && duration < MIN_SESSION_DURATION_SECONDS) {
       console.log(`Session too short (${duration}s < ${MIN_SESSION_DURATION_SECONDS}s), not saving`);
       return false;
     }
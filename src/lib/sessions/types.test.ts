@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BlinkEvent,
+  calculateBlinkCompleteness,
+  calculateCombinedTime,
+  calculateReliableBlinkRate,
+  getBlinkRateExcludedPeriods,
+  countWinks,
+  getBlinkDurationDistribution,
+  getBlinkDurationStats,
+  getViewingDistanceStats,
+  getPostureSummary,
+} from './types';
+
+describe('countWinks', () => {
+  it('counts left and right winks and ignores blinks and legacy events', () => {
+    const events: BlinkEvent[] = [
+      { timestamp: 1, type: 'left-wink' },
+      { timestamp: 2, type: 'right-wink' },
+      { timestamp: 3, type: 'left-wink' },
+      { timestamp: 4, type: 'bilateral' },
+      { timestamp: 5 },
+    ];
+
+    expect(countWinks(events)).toEqual({ left: 2, right: 1 });
+  });
+});
+
+describe('getBlinkDurationDistribution', () => {
+  it('returns an empty distribution when no blink has a duration', () => {
+    expect(getBlinkDurationDistribution([{ timestamp: 1 }])).toEqual([]);
+  });
+
+  it('buckets durations and adds an overflow bucket for very long blinks', () => {
+    const events: BlinkEvent[] = [
+      { timestamp: 1, duration: 120 },
+      { timestamp: 2, duration: 149 },
+      { timestamp: 3, duration: 150 },
+      { timestamp: 4, duration: 1500 },
+    ];
+
+    const buckets = getBlinkDurationDistribution(events, 50, 1000);
+
+    expect(buckets).toHaveLength(21);
+    expect(buckets[2]).toEqual({ start: 100, end: 150, count: 2 });
+    expect(buckets[3]).toEqual({ start: 150, end: 200, count: 1 });
+    expect(buckets[20]).toEqual({ start: 1000, end: Infinity, count: 1 });
+  });
+});
+
+describe('getBlinkDurationStats', () => {
+  it('returns null for sessions without measured blinks', () => {
+    expect(getBlinkDurationStats([{ timestamp: 1 }, { timestamp: 2 }])).toBeNull();
+  });
+
+  it('computes median, slow blinks and average phases', () => {
+    const events: BlinkEvent[] = [
+      { timestamp: 1, duration: 100, phases: { closing: 40, closed: 20, reopening: 40 } },
+      { timestamp: 2, duration: 200, phases: { closing: 60, closed: 40, reopening: 100 } },
+      { timestamp: 3, duration: 600 },
+      { timestamp: 4, duration: 300 },
+      { timestamp: 5 },
+    ];
+
+    const stats = getBlinkDurationStats(events);
+
+    expect(stats?.measuredBlinks).toBe(4);
+    expect(stats?.medianDuration).toBe(250);
+    expect(stats?.slowBlinkCount).toBe(1);
+    expect(stats?.averagePhases).toEqual({ closing: 50, closed: 30, reopening: 70 });
+  });
+});
+
+describe('calculateBlinkCompleteness', () => {
+  it('is undefined when there are no blinks of either kind', () => {
+    expect(calculateBlinkCompleteness([], [])).toBeUndefined();
+  });
+
+  it('is the share of full blinks, leaving winks out', () => {
+    const blinkEvents: BlinkEvent[] = [
+      { timestamp: 1, type: 'bilateral' },
+      { timestamp: 2 },
+      { timestamp: 3, type: 'left-wink' },
+    ];
+    const incompleteBlinkEvents = [
+      { timestamp: 4, duration: 90, depth: 0.6 },
+      { timestamp: 5, duration: 120, depth: 0.4 },
+    ];
+
+    expect(calculateBlinkCompleteness(blinkEvents, incompleteBlinkEvents)).toBe(0.5);
+  });
+});
+
+describe('calculateCombinedTime', () => {
+  it('counts overlapping periods once', () => {
+    expect(calculateCombinedTime([
+      { start: 0, end: 10_000 },
+      { start: 5_000, end: 15_000 },
+      { start: 20_000, end: 21_000 },
+    ])).toBe(16_000);
+  });
+
+  it('runs open periods to the end time', () => {
+    expect(calculateCombinedTime([{ start: 1_000 }], 4_000)).toBe(3_000);
+  });
+});
+
+describe('calculateReliableBlinkRate', () => {
+  const blinkEvents: BlinkEvent[] = Array.from({ length: 30 }, (_, i) => ({ timestamp: i * 6_000 }));
+
+  it('is the plain rate without poor lighting', () => {
+    expect(calculateReliableBlinkRate(blinkEvents, 0, 180_000)).toBe(10);
+  });
+
+  it('leaves out poorly lit time and the blinks counted during it', () => {
+    const rate = calculateReliableBlinkRate(blinkEvents, 0, 180_000, [
+      { start: 60_000, end: 120_000, condition: 'low-light' },
+    ]);
+
+    expect(rate).toBe(10);
+  });
+
+  it('treats an open period as lasting to the end time', () => {
+    const rate = calculateReliableBlinkRate(blinkEvents, 0, 180_000, [
+      { start: 0, condition: 'backlit' },
+    ]);
+
+    expect(rate).toBe(0);
+  });
+
+  it('leaves out time looking away from the screen', () => {
+    const rate = calculateReliableBlinkRate(blinkEvents, 0, 180_000, getBlinkRateExcludedPeriods({
+      poorLightingPeriods: [{ start: 0, end: 30_000, condition: 'low-light' }],
+      lookingAwayPeriods: [{ start: 20_000, end: 60_000 }, { start: 150_000 }],
+    }));
+
+    // 15 of the 30 blinks fall in the 90 seconds left
+    expect(rate).toBe(10);
+  });
+
+  it('leaves out time the camera was unavailable', () => {
+    const rate = calculateReliableBlinkRate(blinkEvents, 0, 180_000, getBlinkRateExcludedPeriods({
+      cameraUnavailablePeriods: [{ start: 60_000, end: 120_000, reason: 'in-use' }],
+    }));
+
+    expect(rate).toBe(10);
+  });
+});
+
+describe('getViewingDistanceStats', () => {
+  it('returns null for sessions without distance readings', () => {
+    expect(getViewingDistanceStats()).toBeNull();
+    expect(getViewingDistanceStats([])).toBeNull();
+  });
+
+  it('computes average, closest and the share of readings too close', () => {
+    const stats = getViewingDistanceStats([
+      { timestamp: 1, distance: 60 },
+      { timestamp: 2, distance: 45 },
+      { timestamp: 3, distance: 70 },
+      { timestamp: 4, distance: 65 },
+    ]);
+
+    expect(stats).toEqual({ averageDistance: 60, closestDistance: 45, tooCloseShare: 0.25 });
+  });
+});
+
+describe('getPostureSummary', () => {
+  it('returns null for sessions recorded before posture monitoring', () => {
+    expect(getPostureSummary(undefined)).toBeNull();
+  });
+
+  it('adds up time in each kind of poor posture, closing open periods at the end', () => {
+    const summary = getPostureSummary(
+      [
+        { start: 0, end: 60000, condition: 'slouching' },
+        { start: 60000, end: 90000, condition: 'leaning-in' },
+        { start: 120000, condition: 'slouching' },
+      ],
+      150000
+    );
+
+    expect(summary).toEqual({
+      poorPostureMs: 120000,
+      conditionMs: { 'slouching': 90000, 'leaning-in': 30000, 'head-tilted': 0 },
+    });
+  });
+});
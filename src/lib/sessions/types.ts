@@ -1,7 +1,14 @@
+import type { BlinkPhases, BlinkType, DetectedBlink, FrameQualityIssue, IncompleteBlink } from '../blink-detection/types';
+import type { PoorLightingCondition } from '../blink-detection/lighting';
+import type { PoorPostureCondition } from '../blink-detection/posture';
+import type { CameraRecoveryReason } from '../camera-recovery';
+import { TOO_CLOSE_DISTANCE_CM } from '../blink-detection/viewing-distance';
+import { DEFAULT_BLINK_ENGINE_CONFIG } from '../blink-detection/blink-engine';
+
 // Blink rate constraints based on detection algorithm
 // The debounce time prevents detecting the same blink multiple times
 // The minimum cycle time accounts for the physical time needed for a blink (close + reopen)
-export const BLINK_DEBOUNCE_MS = 50; // Must match useBlinkDetection debounceTime default
+export const BLINK_DEBOUNCE_MS = DEFAULT_BLINK_ENGINE_CONFIG.debounceTime;
 export const MIN_BLINK_CYCLE_MS = 100; // Minimum time for eye to close and reopen
 export const MAX_BLINK_RATE = Math.round((60 * 1000) / (BLINK_DEBOUNCE_MS + MIN_BLINK_CYCLE_MS)); // ~400 blinks/min
 
@@ -11,6 +18,16 @@ export const BLINK_RATE_WINDOW_MS = 30000; // 30 seconds
 // Interval between chart data points when aggregating blink events
 export const CHART_BUCKET_INTERVAL_MS = 5000; // 5 seconds
 
+// Blinks longer than this are treated as slow blinks (a fatigue marker)
+export const SLOW_BLINK_MS = 500;
+
+// Bucket width and upper bound for the blink duration distribution
+export const BLINK_DURATION_BUCKET_MS = 50;
+export const BLINK_DURATION_MAX_MS = 1000;
+
+// Interval between PERCLOS and viewing distance readings kept in a session's history
+export const PERCLOS_SAMPLE_INTERVAL_MS = 30000; // 30 seconds
+
 // Smoothing window options for chart display (in seconds)
 export const SMOOTHING_OPTIONS = [
   { value: 10, label: '10s' },
@@ -29,11 +46,87 @@ export interface FaceLostPeriod {
   end?: number;  // timestamp in ms, undefined if face is currently lost
 }
 
+// Period when the face was too poorly lit for blinks to be counted reliably
+export interface PoorLightingPeriod {
+  start: number; // timestamp in ms
+  end?: number;  // timestamp in ms, undefined while the lighting is still poor
+  condition: PoorLightingCondition;
+}
+
+// Period when people other than the user were in view; their faces were ignored
+export interface MultipleFacePeriod {
+  start: number; // timestamp in ms
+  end?: number;  // timestamp in ms, undefined while others are still in view
+}
+
+// Period when the user looked away from the screen, so blinking wasn't screen work
+export interface LookingAwayPeriod {
+  start: number; // timestamp in ms
+  end?: number;  // timestamp in ms, undefined while the user is still looking away
+}
+
+// Period when the camera couldn't be used (another app had it, or it was disconnected), so
+// nothing was tracked; kept apart from face lost time since the user may well have been there
+export interface CameraUnavailablePeriod {
+  start: number; // timestamp in ms
+  end?: number;  // timestamp in ms, undefined while the camera is still unavailable
+  reason: CameraRecoveryReason;
+}
+
+// Period when the user slouched, leaned in or tilted their head compared with the session start
+export interface PoorPosturePeriod {
+  start: number; // timestamp in ms
+  end?: number;  // timestamp in ms, undefined while the posture is still poor
+  condition: PoorPostureCondition;
+}
+
+// Break from the screen (20-20-20 rule), logged once the user is back
+export interface BreakPeriod {
+  start: number; // timestamp in ms
+  end: number;   // timestamp in ms
+}
+
 // Individual blink event - stores each blink with timestamp
 // This replaces the pre-aggregated BlinkRatePoint for more flexible analysis
 export interface BlinkEvent {
   timestamp: number; // When the blink occurred (ms since epoch)
-  duration?: number; // Blink duration in ms (optional, for future use)
+  duration?: number; // Blink duration in ms, from EAR crossing down to recovering (absent on legacy sessions)
+  phases?: BlinkPhases; // Closing / closed / reopening split of the duration
+  type?: BlinkType; // Bilateral blink or one-eye wink (absent on legacy sessions)
+  leftEAR?: number; // Lowest left eye EAR during the closure
+  rightEAR?: number; // Lowest right eye EAR during the closure
+}
+
+// Eyelid movement that dipped clearly below the open-eye baseline without fully closing
+export interface IncompleteBlinkEvent {
+  timestamp: number; // When the dip started (ms since epoch)
+  duration: number; // Dip duration in ms
+  depth: number; // Fraction of the way from the open-eye baseline to the blink threshold (0-1)
+}
+
+// Eyes shut for longer than a blink (see drowsiness.ts)
+export interface MicrosleepEvent {
+  timestamp: number; // When the eyes closed (ms since epoch)
+  duration: number; // Closure duration in ms
+}
+
+// PERCLOS reading: share of the preceding minute the eyes were mostly closed
+export interface PerclosPoint {
+  timestamp: number;
+  perclos: number; // 0-1
+}
+
+// Smoothed eye-to-camera distance (see viewing-distance.ts)
+export interface ViewingDistancePoint {
+  timestamp: number;
+  distance: number; // cm
+}
+
+// How reliable the frames behind a session were (see data-quality.ts)
+export interface SessionDataQuality {
+  score: number; // Mean frame quality score (0-1)
+  frameCount: number; // Frames with a face that went into the score
+  issueShares: Partial<Record<FrameQualityIssue, number>>; // Share of those frames (0-1) with each issue
 }
 
 export interface SessionData {
@@ -44,13 +137,28 @@ export interface SessionData {
   averageBlinkRate: number;
   // Individual blink events - aggregated on-the-fly for charts
   blinkEvents: BlinkEvent[];
+  incompleteBlinkEvents?: IncompleteBlinkEvent[]; // Absent on sessions recorded before incomplete blink detection
+  blinkCompleteness?: number; // Share of blinks that fully closed (0-1), undefined until a blink is seen
   quality: 'good' | 'fair' | 'poor';
   fatigueAlertCount: number;
+  drowsinessAlertCount?: number; // Absent on sessions recorded before drowsiness alerts were counted
   duration?: number; // in seconds
   calibrationId?: string;
   totalBlinks: number;
   faceLostPeriods?: FaceLostPeriod[]; // Periods when face was not detected
+  poorLightingPeriods?: PoorLightingPeriod[]; // Periods left out of the blink rate because of poor lighting
+  multipleFacePeriods?: MultipleFacePeriod[]; // Periods when others were in view, shown on the chart
+  lookingAwayPeriods?: LookingAwayPeriod[]; // Periods left out of the blink rate because the user looked away
+  poorPosturePeriods?: PoorPosturePeriod[]; // Absent on sessions recorded before posture monitoring
+  cameraUnavailablePeriods?: CameraUnavailablePeriod[]; // Left out of the blink rate; absent on older sessions
+  breakPeriods?: BreakPeriod[]; // Logged as each break ends; absent on sessions recorded before break tracking
+  microsleepEvents?: MicrosleepEvent[]; // Absent on sessions recorded before microsleep detection
+  perclosHistory?: PerclosPoint[]; // Sampled while tracking; absent on older sessions
+  viewingDistanceHistory?: ViewingDistancePoint[]; // Sampled with PERCLOS; absent on older and imported sessions
   isExample?: boolean; // Indicates this is a demo/example session
+  isImported?: boolean; // Built by analyzing a recorded video instead of live tracking
+  sourceName?: string; // File name of the analyzed recording
+  dataQuality?: SessionDataQuality; // Absent on sessions recorded before frame quality was measured
 }
 
 // Used for chart display after aggregating BlinkEvents
@@ -161,16 +269,83 @@ export const calculateTotalIdleTime = (
 };
 
 /**
- * Calculate active time (total duration minus idle time)
+ * Calculate total time covered by any of the periods, counting overlaps once
+ * @param periods Periods to combine, e.g. face lost and poor lighting periods
+ * @param sessionEndTime Optional session end time to use for periods without end timestamp
+ */
+export const calculateCombinedTime = (
+  periods: { start: number; end?: number }[],
+  sessionEndTime?: number
+): number => {
+  const sorted = periods
+    .map((period) => ({ start: period.start, end: period.end ?? sessionEndTime ?? Date.now() }))
+    .sort((a, b) => a.start - b.start);
+
+  let total = 0;
+  let coveredUntil = -Infinity;
+  for (const { start, end } of sorted) {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) {
+      total += end - from;
+      coveredUntil = end;
+    }
+  }
+  return total;
+};
+
+/**
+ * Periods whose blinks don't count towards the blink rate: poor lighting makes them unreliable,
+ * blinking while looking away from the screen isn't a sign of screen strain, and without the
+ * camera there are no blinks to count
+ */
+export const getBlinkRateExcludedPeriods = (
+  session: Pick<SessionData, 'poorLightingPeriods' | 'lookingAwayPeriods' | 'cameraUnavailablePeriods'>
+): (PoorLightingPeriod | LookingAwayPeriod | CameraUnavailablePeriod)[] => [
+  ...(session.poorLightingPeriods ?? []),
+  ...(session.lookingAwayPeriods ?? []),
+  ...(session.cameraUnavailablePeriods ?? []),
+];
+
+/**
+ * Calculate active time (total duration minus time without a face or the camera, with poor
+ * lighting or looking away)
  * @param session SessionData
  * @returns Active time in seconds
  */
 export const calculateActiveTime = (session: SessionData): number => {
   const totalDuration = session.duration || 0;
-  const idleTimeMs = calculateTotalIdleTime(session.faceLostPeriods);
-  const idleTimeSeconds = idleTimeMs / 1000;
+  const excludedTimeMs = calculateCombinedTime(
+    [...(session.faceLostPeriods ?? []), ...getBlinkRateExcludedPeriods(session)],
+    session.endTime?.getTime()
+  );
+  const excludedTimeSeconds = excludedTimeMs / 1000;
 
-  return Math.max(0, totalDuration - idleTimeSeconds);
+  return Math.max(0, totalDuration - excludedTimeSeconds);
+};
+
+const isDuringPeriod = (timestamp: number, periods: { start: number; end?: number }[]) =>
+  periods.some((period) => timestamp >= period.start && (period.end === undefined || timestamp < period.end));
+
+/**
+ * Blink rate over the time outside the excluded periods (see getBlinkRateExcludedPeriods).
+ * Blinks counted during those periods are left out along with the time itself.
+ */
+export const calculateReliableBlinkRate = (
+  blinkEvents: BlinkEvent[],
+  startTime: number,
+  endTime: number,
+  excludedPeriods: (PoorLightingPeriod | LookingAwayPeriod | CameraUnavailablePeriod)[] = []
+): number => {
+  const excludedMs = calculateCombinedTime(
+    excludedPeriods.map((period) => ({
+      start: Math.max(period.start, startTime),
+      end: Math.min(period.end ?? endTime, endTime),
+    }))
+  );
+  const reliableMinutes = (endTime - startTime - excludedMs) / 60000;
+  const reliableBlinks = blinkEvents.filter((event) => !isDuringPeriod(event.timestamp, excludedPeriods)).length;
+
+  return reliableMinutes > 0 ? reliableBlinks / reliableMinutes : 0;
 };
 
 /**
@@ -179,6 +354,178 @@ export const calculateActiveTime = (session: SessionData): number => {
 export const calculateActiveBlinkRate = (session: SessionData): number => {
   const activeTimeSeconds = calculateActiveTime(session);
   const activeMinutes = activeTimeSeconds / 60;
+  const excludedPeriods = getBlinkRateExcludedPeriods(session);
+  const excludedBlinks = session.blinkEvents.filter((event) =>
+    isDuringPeriod(event.timestamp, excludedPeriods)
+  ).length;
+
+  return activeMinutes > 0 ? Math.max(0, session.totalBlinks - excludedBlinks) / activeMinutes : 0;
+};
+
+/**
+ * Count one-eye closures (winks) per eye. Legacy events without a type count as blinks.
+ */
+export const countWinks = (blinkEvents: BlinkEvent[]): { left: number; right: number } => {
+  return blinkEvents.reduce(
+    (counts, event) => {
+      if (event.type === 'left-wink') counts.left++;
+      if (event.type === 'right-wink') counts.right++;
+      return counts;
+    },
+    { left: 0, right: 0 }
+  );
+};
+
+export interface BlinkDurationBucket {
+  start: number; // Bucket lower bound in ms (inclusive)
+  end: number; // Bucket upper bound in ms (exclusive), Infinity for the overflow bucket
+  count: number;
+}
 
-  return activeMinutes > 0 ? session.totalBlinks / activeMinutes : 0;
-};
\ No newline at end of file
+/**
+ * Histogram of blink durations. Events without a measured duration are skipped and
+ * anything at or above BLINK_DURATION_MAX_MS lands in a final overflow bucket.
+ */
+export const getBlinkDurationDistribution = (
+  blinkEvents: BlinkEvent[],
+  bucketMs: number = BLINK_DURATION_BUCKET_MS,
+  maxMs: number = BLINK_DURATION_MAX_MS
+): BlinkDurationBucket[] => {
+  const durations = blinkEvents
+    .map((event) => event.duration)
+    .filter((duration): duration is number => duration !== undefined);
+  if (durations.length === 0) return [];
+
+  const buckets: BlinkDurationBucket[] = [];
+  for (let start = 0; start < maxMs; start += bucketMs) {
+    buckets.push({ start, end: start + bucketMs, count: 0 });
+  }
+  const overflow: BlinkDurationBucket = { start: maxMs, end: Infinity, count: 0 };
+
+  durations.forEach((duration) => {
+    const bucket = duration >= maxMs ? overflow : buckets[Math.floor(Math.max(0, duration) / bucketMs)];
+    if (bucket) bucket.count++;
+  });
+
+  return overflow.count > 0 ? [...buckets, overflow] : buckets;
+};
+
+export interface BlinkDurationStats {
+  measuredBlinks: number;
+  medianDuration: number; // ms
+  slowBlinkCount: number; // Blinks at or above SLOW_BLINK_MS
+  averagePhases: BlinkPhases; // Mean closing / closed / reopening time in ms
+}
+
+/**
+ * Summarize measured blink durations, or null if the session has none (e.g. legacy sessions).
+ */
+export const getBlinkDurationStats = (blinkEvents: BlinkEvent[]): BlinkDurationStats | null => {
+  const measured = blinkEvents.filter((event) => event.duration !== undefined);
+  if (measured.length === 0) return null;
+
+  const durations = measured.map((event) => event.duration ?? 0).sort((a, b) => a - b);
+  const middle = Math.floor(durations.length / 2);
+  const medianDuration = durations.length % 2 === 0
+    ? ((durations[middle - 1] ?? 0) + (durations[middle] ?? 0)) / 2
+    : durations[middle] ?? 0;
+
+  const withPhases = measured.filter((event) => event.phases !== undefined);
+  const phaseTotals = withPhases.reduce(
+    (totals, event) => ({
+      closing: totals.closing + (event.phases?.closing ?? 0),
+      closed: totals.closed + (event.phases?.closed ?? 0),
+      reopening: totals.reopening + (event.phases?.reopening ?? 0),
+    }),
+    { closing: 0, closed: 0, reopening: 0 }
+  );
+  const phaseCount = Math.max(1, withPhases.length);
+
+  return {
+    measuredBlinks: measured.length,
+    medianDuration,
+    slowBlinkCount: durations.filter((duration) => duration >= SLOW_BLINK_MS).length,
+    averagePhases: {
+      closing: phaseTotals.closing / phaseCount,
+      closed: phaseTotals.closed / phaseCount,
+      reopening: phaseTotals.reopening / phaseCount,
+    },
+  };
+};
+
+/**
+ * Share of blinks that reached full closure. Winks are left out since they are
+ * deliberate one-eye closures. Returns undefined when there is nothing to compare.
+ */
+export const calculateBlinkCompleteness = (
+  blinkEvents: BlinkEvent[],
+  incompleteBlinkEvents: IncompleteBlinkEvent[] = []
+): number | undefined => {
+  const completeBlinks = blinkEvents.filter(
+    (event) => event.type !== 'left-wink' && event.type !== 'right-wink'
+  ).length;
+  const total = completeBlinks + incompleteBlinkEvents.length;
+
+  return total > 0 ? completeBlinks / total : undefined;
+};
+
+// Session records keep only what's needed for stats and charts from what the detector reports
+export const toBlinkEvent = (blink: DetectedBlink): BlinkEvent => ({
+  timestamp: blink.timestamp,
+  duration: blink.duration,
+  phases: blink.phases,
+  type: blink.type,
+  leftEAR: blink.leftEAR,
+  rightEAR: blink.rightEAR,
+});
+
+export const toIncompleteBlinkEvent = (blink: IncompleteBlink): IncompleteBlinkEvent => ({
+  timestamp: blink.timestamp,
+  duration: blink.duration,
+  depth: blink.depth,
+});
+
+export interface ViewingDistanceStats {
+  averageDistance: number; // cm
+  closestDistance: number; // cm
+  tooCloseShare: number; // Share of readings (0-1) closer than TOO_CLOSE_DISTANCE_CM
+}
+
+/**
+ * Summarize a session's viewing distance readings, or null if it has none (e.g. older sessions).
+ */
+export const getViewingDistanceStats = (history: ViewingDistancePoint[] = []): ViewingDistanceStats | null => {
+  if (history.length === 0) return null;
+
+  const distances = history.map((point) => point.distance);
+  return {
+    averageDistance: distances.reduce((sum, distance) => sum + distance, 0) / distances.length,
+    closestDistance: Math.min(...distances),
+    tooCloseShare: distances.filter((distance) => distance < TOO_CLOSE_DISTANCE_CM).length / distances.length,
+  };
+};
+
+export interface PostureSummary {
+  poorPostureMs: number; // Time in any poor posture
+  conditionMs: Record<PoorPostureCondition, number>; // Time in each kind of poor posture
+}
+
+/**
+ * Total time spent in poor posture, overall and by kind, or null for sessions recorded
+ * before posture monitoring.
+ */
+export const getPostureSummary = (
+  periods: PoorPosturePeriod[] | undefined,
+  sessionEndTime?: number
+): PostureSummary | null => {
+  if (!periods) return null;
+
+  const conditionMs: Record<PoorPostureCondition, number> = { 'slouching': 0, 'leaning-in': 0, 'head-tilted': 0 };
+  for (const period of periods) {
+    conditionMs[period.condition] += (period.end ?? sessionEndTime ?? Date.now()) - period.start;
+  }
+  return {
+    poorPostureMs: calculateCombinedTime(periods, sessionEndTime),
+    conditionMs,
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { averageLuma, lumaContrast } from './brightness-meter';
+
+// RGBA pixels, one gray level per pixel
+const grayPixels = (levels: number[]) => new Uint8ClampedArray(levels.flatMap(level => [level, level, level, 255]));
+
+describe('averageLuma', () => {
+  it('averages gray levels to 0-1', () => {
+    expect(averageLuma(grayPixels([0, 255]))).toBeCloseTo(0.5);
+    expect(averageLuma(grayPixels([]))).toBe(0);
+  });
+
+  it('weights green over red and blue', () => {
+    expect(averageLuma(new Uint8ClampedArray([0, 255, 0, 255]))).toBeGreaterThan(
+      averageLuma(new Uint8ClampedArray([255, 0, 0, 255]))
+    );
+  });
+});
+
+describe('lumaContrast', () => {
+  // 4x2 image: a flat left half and a black/white checker on the right
+  const image = grayPixels([
+    128, 128, 0, 255,
+    128, 128, 255, 0,
+  ]);
+
+  it('is zero over a flat region', () => {
+    expect(lumaContrast(image, 4, { x: 0, y: 0, width: 2, height: 2 })).toBe(0);
+  });
+
+  it('is the standard deviation of luma over the region', () => {
+    expect(lumaContrast(image, 4, { x: 2, y: 0, width: 2, height: 2 })).toBeCloseTo(0.5);
+  });
+
+  it('clips the region to the image', () => {
+    expect(lumaContrast(image, 4, { x: 2, y: -5, width: 10, height: 10 })).toBeCloseTo(0.5);
+    expect(lumaContrast(image, 4, { x: 10, y: 10, width: 2, height: 2 })).toBe(0);
+  });
+});
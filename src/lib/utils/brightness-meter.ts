@@ -0,0 +1,237 @@
+import type { EyeLandmarks } from '../blink-detection/types';
+
+// Frames are scaled down to this size before averaging - plenty for overall exposure
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 24;
+// The face box is sampled at this size, which leaves a few pixels across each eye
+const FACE_SAMPLE_SIZE = 64;
+// Eye boxes are padded by this fraction of the eye width to take in the lids and lashes
+const EYE_BOX_PADDING = 0.25;
+
+// Lighting changes slowly, so one reading a second is enough
+export const BRIGHTNESS_SAMPLE_INTERVAL_MS = 1000;
+
+type SampleContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceLighting {
+  faceLuminance: number; // Mean luma 0-1 inside the face box
+  eyeContrast: number; // Luma standard deviation around the eyes, averaged over both eyes
+}
+
+function createSampleContext(width: number, height: number): SampleContext | null {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+  }
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas.getContext('2d', { willReadFrequently: true });
+  }
+  return null;
+}
+
+const luma = (pixels: Uint8ClampedArray, offset: number) =>
+  (0.299 * pixels[offset]! + 0.587 * pixels[offset + 1]! + 0.114 * pixels[offset + 2]!) / 255;
+
+/**
+ * Mean luma (Rec. 601) of RGBA pixel data, from 0 (black) to 1 (white).
+ */
+export function averageLuma(pixels: Uint8ClampedArray): number {
+  const pixelCount = pixels.length / 4;
+  if (pixelCount === 0) {
+    return 0;
+  }
+
+  let total = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    total += luma(pixels, i);
+  }
+  return total / pixelCount;
+}
+
+/**
+ * RMS contrast (standard deviation of luma, 0-0.5) of a rectangle of RGBA pixel data.
+ * The rectangle is clipped to the image; an empty one has no contrast.
+ */
+export function lumaContrast(pixels: Uint8ClampedArray, imageWidth: number, region: Box): number {
+  const imageHeight = pixels.length / 4 / imageWidth;
+  const left = Math.max(0, Math.floor(region.x));
+  const top = Math.max(0, Math.floor(region.y));
+  const right = Math.min(imageWidth, Math.ceil(region.x + region.width));
+  const bottom = Math.min(imageHeight, Math.ceil(region.y + region.height));
+
+  let count = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const value = luma(pixels, (y * imageWidth + x) * 4);
+      count++;
+      sum += value;
+      sumOfSquares += value * value;
+    }
+  }
+  if (count === 0) {
+    return 0;
+  }
+
+  const mean = sum / count;
+  return Math.sqrt(Math.max(0, sumOfSquares / count - mean * mean));
+}
+
+function boundingBox(points: { x: number; y: number }[]): Box {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function eyeBox(eye: EyeLandmarks): Box {
+  const box = boundingBox([eye.p1, eye.p2, eye.p3, eye.p4, eye.p5, eye.p6]);
+  const padding = box.width * EYE_BOX_PADDING;
+  return {
+    x: box.x - padding,
+    y: box.y - padding,
+    width: box.width + padding * 2,
+    height: box.height + padding * 2,
+  };
+}
+
+/**
+ * Measures how bright camera frames are by drawing them into a tiny canvas.
+ *
+ * Readings are reused for BRIGHTNESS_SAMPLE_INTERVAL_MS so the GPU readback happens about
+ * once a second rather than on every frame.
+ */
+export class BrightnessMeter {
+  private context: SampleContext | null | undefined;
+  private lastSampleTime: number | null = null;
+  private lastBrightness: number | null = null;
+
+  /**
+   * @returns mean luma 0-1, or null when the frame can't be read (e.g. no 2D canvas)
+   */
+  measure(source: CanvasImageSource, timestamp: number): number | null {
+    if (this.lastSampleTime !== null && Math.abs(timestamp - this.lastSampleTime) < BRIGHTNESS_SAMPLE_INTERVAL_MS) {
+      return this.lastBrightness;
+    }
+
+    const context = this.getContext();
+    if (!context) {
+      return null;
+    }
+
+    try {
+      context.drawImage(source, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      this.lastBrightness = averageLuma(context.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data);
+    } catch {
+      this.lastBrightness = null;
+    }
+    this.lastSampleTime = timestamp;
+    return this.lastBrightness;
+  }
+
+  reset(): void {
+    this.lastSampleTime = null;
+    this.lastBrightness = null;
+  }
+
+  private getContext(): SampleContext | null {
+    if (this.context === undefined) {
+      this.context = createSampleContext(SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    }
+    return this.context;
+  }
+}
+
+/**
+ * Measures the light on the face: how bright the face is and how much contrast there is
+ * around the eyes. Like BrightnessMeter it samples about once a second.
+ */
+export class FaceLightingMeter {
+  private context: SampleContext | null | undefined;
+  private lastSampleTime: number | null = null;
+  private lastLighting: FaceLighting | null = null;
+
+  /**
+   * @param faceLandmarks normalized (0-1) face mesh landmarks
+   * @param eyes eye landmarks in pixels
+   * @returns null when the frame can't be read or the face box is empty
+   */
+  measure(
+    source: CanvasImageSource,
+    faceLandmarks: { x: number; y: number }[],
+    eyes: { leftEye: EyeLandmarks; rightEye: EyeLandmarks },
+    width: number,
+    height: number,
+    timestamp: number
+  ): FaceLighting | null {
+    if (this.lastSampleTime !== null && Math.abs(timestamp - this.lastSampleTime) < BRIGHTNESS_SAMPLE_INTERVAL_MS) {
+      return this.lastLighting;
+    }
+    this.lastSampleTime = timestamp;
+    this.lastLighting = null;
+
+    const context = this.getContext();
+    if (!context || faceLandmarks.length === 0) {
+      return null;
+    }
+
+    // Face box in pixels, clipped to the image
+    const normalizedBox = boundingBox(faceLandmarks);
+    const left = Math.max(0, normalizedBox.x * width);
+    const top = Math.max(0, normalizedBox.y * height);
+    const face = {
+      x: left,
+      y: top,
+      width: Math.min(width, (normalizedBox.x + normalizedBox.width) * width) - left,
+      height: Math.min(height, (normalizedBox.y + normalizedBox.height) * height) - top,
+    };
+    if (face.width < 1 || face.height < 1) {
+      return null;
+    }
+
+    try {
+      context.drawImage(source, face.x, face.y, face.width, face.height, 0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE);
+      const pixels = context.getImageData(0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE).data;
+
+      // Eye boxes in the sample's coordinates
+      const toSample = (box: Box): Box => ({
+        x: ((box.x - face.x) / face.width) * FACE_SAMPLE_SIZE,
+        y: ((box.y - face.y) / face.height) * FACE_SAMPLE_SIZE,
+        width: (box.width / face.width) * FACE_SAMPLE_SIZE,
+        height: (box.height / face.height) * FACE_SAMPLE_SIZE,
+      });
+      const eyeContrast = (
+        lumaContrast(pixels, FACE_SAMPLE_SIZE, toSample(eyeBox(eyes.leftEye))) +
+        lumaContrast(pixels, FACE_SAMPLE_SIZE, toSample(eyeBox(eyes.rightEye)))
+      ) / 2;
+
+      this.lastLighting = { faceLuminance: averageLuma(pixels), eyeContrast };
+    } catch {
+      this.lastLighting = null;
+    }
+    return this.lastLighting;
+  }
+
+  reset(): void {
+    this.lastSampleTime = null;
+    this.lastLighting = null;
+  }
+
+  private getContext(): SampleContext | null {
+    if (this.context === undefined) {
+      this.context = createSampleContext(FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE);
+    }
+    return this.context;
+  }
+}
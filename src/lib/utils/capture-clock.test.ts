@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { CaptureClock, performanceTimeToWallClock } from './capture-clock';
+
+describe('CaptureClock', () => {
+  it('keeps the spacing between capture times when frames arrive late', () => {
+    const clock = new CaptureClock();
+
+    const first = clock.toWallClock(1000, 50_000);
+    // Captured 33ms later but only received after a 200ms stall
+    const second = clock.toWallClock(1033, 50_233);
+
+    expect(first).toBe(50_000);
+    expect(second).toBe(50_033);
+  });
+
+  it('tightens the offset when a frame arrives with less delay', () => {
+    const clock = new CaptureClock();
+
+    clock.toWallClock(1000, 50_100);
+    const stamped = clock.toWallClock(1033, 50_040);
+
+    expect(stamped).toBe(50_040);
+    expect(clock.toWallClock(1066, 50_200)).toBe(50_073);
+  });
+
+  it('relearns the offset when the media timeline restarts', () => {
+    const clock = new CaptureClock();
+
+    clock.toWallClock(90_000, 50_000);
+    const afterRestart = clock.toWallClock(0, 60_000);
+
+    expect(afterRestart).toBe(60_000);
+  });
+});
+
+describe('performanceTimeToWallClock', () => {
+  it('adds the time origin', () => {
+    expect(performanceTimeToWallClock(500)).toBe(performance.timeOrigin + 500);
+  });
+});
@@ -0,0 +1,44 @@
+// A media timestamp going backwards by more than this means the stream restarted
+const TIMELINE_RESET_MS = 1000;
+
+/**
+ * Maps frame capture times onto the wall clock (ms since epoch).
+ *
+ * VideoFrame.timestamp is on the camera's own media timeline, so its offset to the wall
+ * clock is learned from when frames arrive. A frame can only arrive after it was captured,
+ * so the smallest (arrival - capture) offset seen is the best estimate; later frames that
+ * queued or were delayed by a busy main thread still get their real capture time.
+ */
+export class CaptureClock {
+  private offset: number | null = null;
+  private lastMediaTime: number | null = null;
+
+  /**
+   * @param mediaTimeMs capture time on the media timeline (VideoFrame.timestamp / 1000)
+   * @param receivedAt wall-clock time the frame was received
+   */
+  toWallClock(mediaTimeMs: number, receivedAt: number = Date.now()): number {
+    if (this.lastMediaTime !== null && mediaTimeMs < this.lastMediaTime - TIMELINE_RESET_MS) {
+      this.offset = null;
+    }
+    this.lastMediaTime = mediaTimeMs;
+
+    const offset = receivedAt - mediaTimeMs;
+    if (this.offset === null || offset < this.offset) {
+      this.offset = offset;
+    }
+    return mediaTimeMs + this.offset;
+  }
+
+  reset(): void {
+    this.offset = null;
+    this.lastMediaTime = null;
+  }
+}
+
+/**
+ * Wall-clock time for a performance.now() reading, e.g. the timestamp given to detectForVideo.
+ */
+export function performanceTimeToWallClock(performanceTime: number): number {
+  return performance.timeOrigin + performanceTime;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { FrameScheduler } from './frame-scheduler';
+
+// Offer 30 fps camera frames for the given duration, finishing each processed frame after inferenceMs
+function runCamera(scheduler: FrameScheduler, durationMs: number, inferenceMs: number, ear = () => 0.3) {
+  const frameInterval = 1000 / 30;
+  let busyUntil: number | null = null;
+
+  for (let t = 0; t < durationMs; t += frameInterval) {
+    if (busyUntil !== null && t >= busyUntil) {
+      scheduler.endFrame(busyUntil, ear());
+      busyUntil = null;
+    }
+    if (scheduler.offerFrame(t)) {
+      busyUntil = t + inferenceMs;
+    }
+  }
+}
+
+describe('FrameScheduler', () => {
+  it('processes camera frames at the target FPS and drops the rest', () => {
+    const scheduler = new FrameScheduler({ targetFps: 15 });
+
+    runCamera(scheduler, 1000, 5);
+
+    const stats = scheduler.getStats(1000);
+    expect(stats.processedFrames).toBe(15);
+    expect(stats.droppedFrames).toBe(15);
+  });
+
+  it('drops frames while inference is still busy', () => {
+    const scheduler = new FrameScheduler({ targetFps: 30 });
+
+    runCamera(scheduler, 1000, 90);
+
+    const stats = scheduler.getStats(1000);
+    expect(stats.processedFrames).toBeLessThanOrEqual(10);
+    expect(stats.droppedFrames).toBeGreaterThanOrEqual(20);
+    expect(stats.averageInferenceMs).toBeCloseTo(90);
+  });
+
+  it('speeds up while EAR is falling', () => {
+    const scheduler = new FrameScheduler({ targetFps: 10, burstFps: 30, burstDuration: 600, earDropThreshold: 0.02 });
+
+    scheduler.beginFrame(0);
+    scheduler.endFrame(5, 0.3);
+    expect(scheduler.isDue(40)).toBe(false);
+
+    scheduler.beginFrame(100);
+    scheduler.endFrame(105, 0.25);
+
+    expect(scheduler.isBursting(105)).toBe(true);
+    expect(scheduler.isDue(133)).toBe(true);
+    expect(scheduler.isBursting(800)).toBe(false);
+  });
+
+  it('does not burst across a lost face', () => {
+    const scheduler = new FrameScheduler();
+
+    scheduler.beginFrame(0);
+    scheduler.endFrame(5, 0.3);
+    scheduler.beginFrame(100);
+    scheduler.endFrame(105, null);
+    scheduler.beginFrame(200);
+    scheduler.endFrame(205, 0.1);
+
+    expect(scheduler.isBursting(205)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+export interface FrameSchedulerConfig {
+  targetFps: number; // Steady-state processing rate
+  burstFps: number; // Rate while EAR is falling, so the bottom of a blink isn't skipped
+  burstDuration: number; // ms to stay at burstFps after EAR falls
+  earDropThreshold: number; // EAR fall between processed frames that starts a burst
+}
+
+export interface FrameSchedulerStats {
+  processedFrames: number;
+  droppedFrames: number; // Camera frames skipped for pacing or because inference was still busy
+  averageInferenceMs: number;
+  isBursting: boolean;
+}
+
+export const DEFAULT_FRAME_SCHEDULER_CONFIG: FrameSchedulerConfig = {
+  targetFps: 15,
+  burstFps: 30,
+  burstDuration: 600,
+  earDropThreshold: 0.02,
+};
+
+// Camera frames arrive with some jitter, so accept a frame slightly early rather than waiting a whole extra frame
+const INTERVAL_TOLERANCE = 0.9;
+// Smoothing for the inference time average
+const INFERENCE_SMOOTHING = 0.1;
+
+/**
+ * Paces frame processing to a target FPS instead of running inference on every camera frame.
+ *
+ * Frames are dropped while a previous frame is still being processed (backpressure) or when
+ * the next frame isn't due yet. When EAR falls between two processed frames a blink may be
+ * starting, so the scheduler briefly runs at burstFps to catch it.
+ */
+export class FrameScheduler {
+  private config: FrameSchedulerConfig;
+  private inFlight = false;
+  private lastFrameStart = -Infinity;
+  private lastEAR: number | null = null;
+  private burstUntil = -Infinity;
+  private processedFrames = 0;
+  private droppedFrames = 0;
+  private averageInferenceMs = 0;
+
+  constructor(config: Partial<FrameSchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_FRAME_SCHEDULER_CONFIG, ...config };
+  }
+
+  // True when nothing is in flight and the current interval has passed
+  isDue(timestamp: number): boolean {
+    if (this.inFlight) {
+      return false;
+    }
+    const fps = this.isBursting(timestamp) ? Math.max(this.config.burstFps, this.config.targetFps) : this.config.targetFps;
+    return timestamp - this.lastFrameStart >= (1000 / fps) * INTERVAL_TOLERANCE;
+  }
+
+  /**
+   * Offer a camera frame. Returns true if it should be processed (call endFrame when done);
+   * otherwise the frame is counted as dropped and should be released.
+   */
+  offerFrame(timestamp: number): boolean {
+    if (!this.isDue(timestamp)) {
+      this.droppedFrames++;
+      return false;
+    }
+    this.beginFrame(timestamp);
+    return true;
+  }
+
+  beginFrame(timestamp: number): void {
+    this.inFlight = true;
+    this.lastFrameStart = timestamp;
+    this.processedFrames++;
+  }
+
+  // ear is the frame's EAR, or null when no face was found
+  endFrame(timestamp: number, ear: number | null): void {
+    this.inFlight = false;
+
+    const inferenceMs = timestamp - this.lastFrameStart;
+    this.averageInferenceMs = this.processedFrames === 1
+      ? inferenceMs
+      : this.averageInferenceMs + (inferenceMs - this.averageInferenceMs) * INFERENCE_SMOOTHING;
+
+    if (ear !== null && this.lastEAR !== null && this.lastEAR - ear >= this.config.earDropThreshold) {
+      this.burstUntil = timestamp + this.config.burstDuration;
+    }
+    this.lastEAR = ear;
+  }
+
+  isBursting(timestamp: number): boolean {
+    return timestamp < this.burstUntil;
+  }
+
+  setTargetFps(targetFps: number): void {
+    this.config = { ...this.config, targetFps };
+  }
+
+  getStats(timestamp: number): FrameSchedulerStats {
+    return {
+      processedFrames: this.processedFrames,
+      droppedFrames: this.droppedFrames,
+      averageInferenceMs: this.averageInferenceMs,
+      isBursting: this.isBursting(timestamp),
+    };
+  }
+
+  reset(): void {
+    this.inFlight = false;
+    this.lastFrameStart = -Infinity;
+    this.lastEAR = null;
+    this.burstUntil = -Infinity;
+    this.processedFrames = 0;
+    this.droppedFrames = 0;
+    this.averageInferenceMs = 0;
+  }
+}
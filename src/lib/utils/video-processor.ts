@@ -1,6 +1,21 @@
 import { BlinkDetector } from '../blink-detection/blink-detector';
 import { BlinkDetectionResult } from '../blink-detection/types';
 
+export interface VideoProcessingOptions {
+  frameRate?: number; // Frames per second to step through the video at (default 30)
+  startTime?: number; // Wall-clock time of the first frame in ms; results are stamped relative to it
+  onResult?: (result: BlinkDetectionResult) => void;
+  onProgress?: (processedFrames: number, totalFrames: number) => void;
+}
+
+const DEFAULT_FRAME_RATE = 30;
+
+/**
+ * Runs a BlinkDetector over a video element frame by frame.
+ *
+ * Frames are reached by seeking rather than playing, so every frame is analyzed exactly
+ * once and timestamps come from the position in the video, whatever the processing speed.
+ */
 export class VideoProcessor {
   private detector: BlinkDetector;
   private isProcessing = false;
@@ -9,7 +24,7 @@ export class VideoProcessor {
     this.detector = detector;
   }
 
-  async processVideo(videoElement: HTMLVideoElement): Promise<number> {
+  async processVideo(videoElement: HTMLVideoElement, options: VideoProcessingOptions = {}): Promise<number> {
     if (this.isProcessing) {
       throw new Error('Video processing already in progress');
     }
@@ -19,40 +34,24 @@ export class VideoProcessor {
 
     try {
       await this.detector.initialize();
-      
-      return new Promise((resolve, reject) => {
-        const processFrame = async () => {
-          if (videoElement.ended) {
-            this.isProcessing = false;
-            resolve(this.detector.getBlinkCount());
-            return;
-          }
-
-          try {
-            await this.detector.processFrame(videoElement);
-            
-            setTimeout(() => {
-              requestAnimationFrame(processFrame);
-            }, 33);
-          } catch (error) {
-            this.isProcessing = false;
-            reject(error);
-          }
-        };
-
-        videoElement.addEventListener('loadedmetadata', () => {
-          videoElement.play();
-          processFrame();
-        });
-
-        videoElement.addEventListener('error', (error) => {
-          this.isProcessing = false;
-          reject(error);
-        });
-      });
-    } catch (error) {
+      const duration = await loadVideoDuration(videoElement);
+
+      const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+      const startTime = options.startTime ?? 0;
+      const totalFrames = Math.max(1, Math.floor(duration * frameRate));
+
+      for (let frame = 0; frame < totalFrames && this.isProcessing; frame++) {
+        // Seek to the middle of the frame so rounding can't land on its neighbour
+        await seekTo(videoElement, Math.min((frame + 0.5) / frameRate, duration));
+
+        const result = await this.detector.processFrame(videoElement, undefined, startTime + (frame * 1000) / frameRate);
+        options.onResult?.(result);
+        options.onProgress?.(frame + 1, totalFrames);
+      }
+
+      return this.detector.getBlinkCount();
+    } finally {
       this.isProcessing = false;
-      throw error;
     }
   }
 
@@ -60,51 +59,7 @@ export class VideoProcessor {
     videoElement: HTMLVideoElement,
     onResult: (result: BlinkDetectionResult) => void
   ): Promise<number> {
-    if (this.isProcessing) {
-      throw new Error('Video processing already in progress');
-    }
-
-    this.isProcessing = true;
-    this.detector.resetBlinkCounter();
-
-    try {
-      await this.detector.initialize();
-      
-      return new Promise((resolve, reject) => {
-        const processFrame = async () => {
-          if (videoElement.ended) {
-            this.isProcessing = false;
-            resolve(this.detector.getBlinkCount());
-            return;
-          }
-
-          try {
-            const result = await this.detector.processFrame(videoElement);
-            onResult(result);
-            
-            setTimeout(() => {
-              requestAnimationFrame(processFrame);
-            }, 33);
-          } catch (error) {
-            this.isProcessing = false;
-            reject(error);
-          }
-        };
-
-        videoElement.addEventListener('loadedmetadata', () => {
-          videoElement.play();
-          processFrame();
-        });
-
-        videoElement.addEventListener('error', (error) => {
-          this.isProcessing = false;
-          reject(error);
-        });
-      });
-    } catch (error) {
-      this.isProcessing = false;
-      throw error;
-    }
+    return this.processVideo(videoElement, { onResult });
   }
 
   stopProcessing(): void {
@@ -114,4 +69,53 @@ export class VideoProcessor {
   dispose(): void {
     this.detector.dispose();
   }
-}
\ No newline at end of file
+}
+
+function waitForMetadata(videoElement: HTMLVideoElement): Promise<void> {
+  if (videoElement.readyState >= HTMLMediaElement.HAVE_METADATA) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    videoElement.addEventListener('loadedmetadata', () => resolve(), { once: true });
+    videoElement.addEventListener('error', () => reject(new Error('Could not load video')), { once: true });
+  });
+}
+
+function seekTo(videoElement: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      videoElement.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      videoElement.removeEventListener('seeked', onSeeked);
+      reject(new Error(`Could not seek video to ${time.toFixed(3)}s`));
+    };
+    videoElement.addEventListener('seeked', onSeeked, { once: true });
+    videoElement.addEventListener('error', onError, { once: true });
+    videoElement.currentTime = time;
+  });
+}
+
+/**
+ * Wait for the video's metadata and return its duration in seconds.
+ *
+ * Recordings made with MediaRecorder (WebM) often report an infinite duration until the
+ * browser has scanned to the end, so seek far past the end once to make it work it out.
+ */
+export async function loadVideoDuration(videoElement: HTMLVideoElement): Promise<number> {
+  await waitForMetadata(videoElement);
+  if (Number.isFinite(videoElement.duration)) {
+    return videoElement.duration;
+  }
+
+  await seekTo(videoElement, Number.MAX_SAFE_INTEGER);
+  const duration = videoElement.duration;
+  await seekTo(videoElement, 0);
+
+  if (!Number.isFinite(duration)) {
+    throw new Error('Could not determine video duration');
+  }
+  return duration;
+}